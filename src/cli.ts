@@ -2,7 +2,7 @@
 
 import 'dotenv/config'; // Must be first to load env vars before other imports
 
-import { program, type Command } from 'commander';
+import { CommanderError, program, type Command } from 'commander';
 import { registerAuthCommands } from './commands/auth/register.js';
 import { registerAppCommands } from './commands/apps/register.js';
 import { registerBookCommands } from './commands/books/register.js';
@@ -10,6 +10,10 @@ import { registerAccountCommands } from './commands/accounts/register.js';
 import { registerGroupCommands } from './commands/groups/register.js';
 import { registerTransactionCommands } from './commands/transactions/register.js';
 import { registerBalanceCommands } from './commands/balances/register.js';
+import { registerReportCommands } from './commands/reports/register.js';
+import { registerCoaCommands } from './commands/coa/register.js';
+import { registerReconcileCommand } from './commands/reconcile/register.js';
+import { registerScheduleCommands } from './commands/schedules/register.js';
 import { registerCollectionCommands } from './commands/collections/register.js';
 import { registerFileCommands } from './commands/files/register.js';
 import { registerEventCommands } from './commands/events/register.js';
@@ -21,6 +25,9 @@ import {
 } from './agent/cli-dispatch.js';
 import { runAgentCommandInChild } from './agent/agent-command-runner.js';
 import { VERSION } from './upgrade/index.js';
+import { exitWithError } from './commands/action.js';
+import { collectWhereCondition } from './commands/cli-helpers.js';
+import { parseColumnList, parseSortSpec } from './render/matrix-query.js';
 import { getUnsupportedNodeVersionMessage } from './utils/node-version.js';
 
 function registerAgentCommands(command: Command): void {
@@ -31,6 +38,11 @@ function registerAgentCommands(command: Command): void {
         .allowExcessArguments(true);
 }
 
+/**
+ * Commander errors that only stop after printing help or the version.
+ */
+const COMMANDER_EXITS = ['commander.helpDisplayed', 'commander.help', 'commander.version'];
+
 async function main(): Promise<void> {
     const unsupportedNodeVersionMessage = getUnsupportedNodeVersionMessage(process.version);
     if (unsupportedNodeVersionMessage) {
@@ -48,13 +60,43 @@ async function main(): Promise<void> {
         }
     }
 
+    // Parse errors are reported like command errors, so they get the same exit
+    // codes and JSON output; subcommands inherit this when they are created
+    program.exitOverride();
+    program.configureOutput({ outputError: () => undefined });
+
     // Version
     program.name('bkper');
     program.version(VERSION, '-v, --version');
 
     // Global output format options
-    program.option('--format <format>', 'Output format: table, json, or csv', 'table');
+    program.option(
+        '--format <format>',
+        'Output format: table, json, csv, ndjson, xlsx, markdown, or html',
+        'table'
+    );
     program.option('--json', 'Output as JSON (alias for --format json)');
+    program.option(
+        '-o, --out <file>',
+        'File to write: the --format xlsx workbook, or the book export archive or coa export file'
+    );
+    program.option(
+        '--template <file>',
+        'Render output with a Mustache-style template over its JSON representation'
+    );
+
+    // Global table slicing options, applied to any table-shaped output
+    program.option(
+        '--columns <list>',
+        'Comma-separated columns to output, in order',
+        parseColumnList
+    );
+    program.option('--sort <column[:desc]>', 'Sort rows by a column', parseSortSpec);
+    program.option(
+        '--where <condition>',
+        'Keep rows matching <column><op><value>, op is =, !=, >, >=, <, <= or ~ (repeatable)',
+        collectWhereCondition
+    );
 
     // Auth commands
     registerAuthCommands(program);
@@ -66,6 +108,10 @@ async function main(): Promise<void> {
     registerGroupCommands(program);
     registerTransactionCommands(program);
     registerBalanceCommands(program);
+    registerReportCommands(program);
+    registerCoaCommands(program);
+    registerReconcileCommand(program);
+    registerScheduleCommands(program);
     registerCollectionCommands(program);
     registerFileCommands(program);
     registerEventCommands(program);
@@ -81,7 +127,15 @@ async function main(): Promise<void> {
         return;
     }
 
-    program.parse(process.argv);
+    try {
+        program.parse(process.argv);
+    } catch (err) {
+        if (err instanceof CommanderError && COMMANDER_EXITS.includes(err.code)) {
+            // Help or version was printed; nothing failed unless help stood in for a command
+            process.exit(err.exitCode);
+        }
+        exitWithError(err);
+    }
 }
 
 main().catch(err => {
@@ -1,53 +1,89 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Account, Book } from 'bkper-js';
+import { atItemLocations, chunkInputItems, type InputItems } from '../../input/item-stream.js';
+import { renderNdjson, type OutputFormat } from '../../render/output.js';
 import { parsePropertyFlag } from '../../utils/properties.js';
+import { BULK_CHUNK_SIZE } from '../transactions/bulk.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { ValidationError } from '../../utils/validation.js';
 
 /**
  * Creates multiple accounts from stdin items using the batch API.
- * Outputs a flat JSON array of all created accounts.
+ * Outputs a flat JSON array of all created accounts, or one line per created
+ * account with `ndjson`.
  *
- * Stdin items must follow the bkper.Account format exactly.
+ * Stdin items must follow the bkper.Account format exactly. An array is
+ * created in one batch call; an item stream is read and created in chunks of
+ * {@link BULK_CHUNK_SIZE}. An item with an unknown group, or a failing chunk,
+ * is reported with its input lines.
  *
  * @param bookId - Target book ID
  * @param items - Parsed stdin items as bkper.Account payloads
  * @param propertyOverrides - CLI --property flags that override stdin properties
+ * @param format - Output format; `ndjson` writes one line per account
  */
 export async function batchCreateAccounts(
     bookId: string,
-    items: Record<string, unknown>[],
-    propertyOverrides?: string[]
+    items: InputItems,
+    propertyOverrides?: string[],
+    format?: OutputFormat
 ): Promise<void> {
     const bkper = getBkperInstance();
     const book = await bkper.getBook(bookId);
 
-    const accounts: Account[] = [];
+    const allResults: bkper.Account[] = [];
+    for await (const chunk of chunkInputItems(items, BULK_CHUNK_SIZE)) {
+        const accounts: Account[] = [];
 
-    for (const item of items) {
-        const account = await buildAccountFromStdin(book, item);
+        for (const entry of chunk) {
+            const account = await atItemLocations([entry], () =>
+                buildAccountFromStdin(book, entry.item)
+            );
 
-        // CLI --property flags override stdin properties
-        if (propertyOverrides) {
-            for (const raw of propertyOverrides) {
-                const [key, value] = parsePropertyFlag(raw);
-                if (value === '') {
-                    account.deleteProperty(key);
-                } else {
-                    account.setProperty(key, value);
+            // CLI --property flags override stdin properties
+            if (propertyOverrides) {
+                for (const raw of propertyOverrides) {
+                    const [key, value] = parsePropertyFlag(raw);
+                    if (value === '') {
+                        account.deleteProperty(key);
+                    } else {
+                        account.setProperty(key, value);
+                    }
                 }
             }
+
+            accounts.push(account);
         }
 
-        accounts.push(account);
+        const results: Account[] = await atItemLocations(chunk, () =>
+            book.batchCreateAccounts(accounts)
+        );
+        if (format === 'ndjson') {
+            renderNdjson(results.map(result => result.json()));
+        } else {
+            allResults.push(...results.map(result => result.json()));
+        }
     }
 
-    const results = await book.batchCreateAccounts(accounts);
-    const allResults = results.map(result => result.json());
-
-    console.log(JSON.stringify(allResults, null, 2));
+    if (format !== 'ndjson') {
+        console.log(JSON.stringify(allResults, null, 2));
+    }
 }
 
-async function buildAccountFromStdin(book: Book, item: Record<string, unknown>): Promise<Account> {
-    const payload: bkper.Account = {...(item as bkper.Account)};
+/**
+ * Builds an Account from a bkper.Account payload, resolving each group
+ * reference by id or name in the book.
+ *
+ * @param book - Book the account belongs to
+ * @param item - bkper.Account payload, with optional group references
+ * @returns Account ready for book.batchCreateAccounts
+ * @throws ValidationError if a group reference is empty, NotFoundError if it is not found
+ */
+export async function buildAccountFromStdin(
+    book: Book,
+    item: Record<string, unknown>
+): Promise<Account> {
+    const payload: bkper.Account = { ...(item as bkper.Account) };
     const groupRefs = payload.groups;
     delete payload.groups;
 
@@ -57,12 +93,12 @@ async function buildAccountFromStdin(book: Book, item: Record<string, unknown>):
         for (const groupRef of groupRefs) {
             const idOrName = groupRef.id || groupRef.name;
             if (!idOrName || idOrName.trim() === '') {
-                throw new Error('Account group reference must include id or name');
+                throw new ValidationError(['Account group reference must include id or name']);
             }
 
             const group = await book.getGroup(idOrName);
             if (!group) {
-                throw new Error(`Group not found: ${idOrName}`);
+                throw new NotFoundError('Group', idOrName);
             }
 
             account.addGroup(group);
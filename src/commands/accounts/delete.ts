@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Account } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Deletes an account from the specified book.
@@ -14,7 +15,7 @@ export async function deleteAccount(bookId: string, accountIdOrName: string): Pr
     const book = await bkper.getBook(bookId);
     const account = await book.getAccount(accountIdOrName);
     if (!account) {
-        throw new Error(`Account not found: ${accountIdOrName}`);
+        throw new NotFoundError('Account', accountIdOrName);
     }
 
     return account.remove();
@@ -1,6 +1,11 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Account, AccountsDataTableBuilder } from 'bkper-js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import {
+    isJsonFormat,
+    isSpreadsheetFormat,
+    type OutputFormat,
+    type ListResult,
+} from '../../render/output.js';
 
 /**
  * Retrieves all accounts from the specified book.
@@ -25,12 +30,12 @@ export async function listAccountsFormatted(
 ): Promise<ListResult> {
     const accounts = await listAccounts(bookId);
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         return { kind: 'json', items: accounts.map(a => a.json()) };
     }
 
     const builder = new AccountsDataTableBuilder(accounts).ids(true).groups(true);
-    if (format === 'csv') {
+    if (isSpreadsheetFormat(format)) {
         builder.properties(true).hiddenProperties(true);
     }
     const matrix = await builder.build();
@@ -3,7 +3,7 @@ import { withAction } from '../action.js';
 import { collectProperty } from '../cli-helpers.js';
 import { renderListResult, renderItem } from '../../render/index.js';
 import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
-import { parseStdinItems } from '../../input/index.js';
+import { openStdinItems } from '../../input/index.js';
 import {
     listAccountsFormatted,
     getAccount,
@@ -21,10 +21,10 @@ export function registerAccountCommands(program: Command): void {
         .description('List all accounts in a book')
         .option('-b, --book <bookId>', 'Book ID')
         .action(options =>
-            withAction('listing accounts', async format => {
+            withAction('listing accounts', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const result = await listAccountsFormatted(options.book, format);
-                renderListResult(result, format);
+                renderListResult(result, format, output);
             })()
         );
 
@@ -33,10 +33,10 @@ export function registerAccountCommands(program: Command): void {
         .description('Get an account by ID or name')
         .option('-b, --book <bookId>', 'Book ID')
         .action((idOrName: string, options) =>
-            withAction('getting account', async format => {
+            withAction('getting account', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const account = await getAccount(options.book, idOrName);
-                renderItem(account.json(), format);
+                renderItem(account.json(), format, output);
             })()
         );
 
@@ -50,16 +50,14 @@ export function registerAccountCommands(program: Command): void {
         .option('--groups <groups>', 'Comma-separated group names')
         .option('-p, --property <key=value>', 'Set a property (repeatable)', collectProperty)
         .action(options =>
-            withAction('creating account', async format => {
-                const stdinData = !process.stdin.isTTY ? await parseStdinItems() : null;
+            withAction('creating account', async (format, output) => {
+                const stdinItems = !process.stdin.isTTY ? await openStdinItems() : null;
 
-                if (stdinData && stdinData.items.length > 0) {
+                if (stdinItems) {
                     throwIfErrors(
                         validateRequiredOptions(options, [{ name: 'book', flag: '--book' }])
                     );
-                    await batchCreateAccounts(options.book, stdinData.items, options.property);
-                } else if (stdinData && stdinData.items.length === 0) {
-                    console.log(JSON.stringify([], null, 2));
+                    await batchCreateAccounts(options.book, stdinItems, options.property, format);
                 } else {
                     throwIfErrors(
                         validateRequiredOptions(options, [
@@ -76,7 +74,7 @@ export function registerAccountCommands(program: Command): void {
                             : undefined,
                         property: options.property,
                     });
-                    renderItem(account.json(), format);
+                    renderItem(account.json(), format, output);
                 }
             })()
         );
@@ -90,7 +88,7 @@ export function registerAccountCommands(program: Command): void {
         .option('--archived <archived>', 'Archive status (true/false)')
         .option('-p, --property <key=value>', 'Set a property (repeatable)', collectProperty)
         .action((idOrName: string, options) =>
-            withAction('updating account', async format => {
+            withAction('updating account', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const account = await updateAccount(options.book, idOrName, {
                     name: options.name,
@@ -99,7 +97,7 @@ export function registerAccountCommands(program: Command): void {
                         options.archived !== undefined ? options.archived === 'true' : undefined,
                     property: options.property,
                 });
-                renderItem(account.json(), format);
+                renderItem(account.json(), format, output);
             })()
         );
 
@@ -108,10 +106,10 @@ export function registerAccountCommands(program: Command): void {
         .description('Delete an account')
         .option('-b, --book <bookId>', 'Book ID')
         .action((idOrName: string, options) =>
-            withAction('deleting account', async format => {
+            withAction('deleting account', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const account = await deleteAccount(options.book, idOrName);
-                renderItem(account.json(), format);
+                renderItem(account.json(), format, output);
             })()
         );
 }
@@ -2,6 +2,7 @@ import { getBkperInstance } from '../../bkper-factory.js';
 import { Account, AccountType } from 'bkper-js';
 import { parsePropertyFlag } from '../../utils/properties.js';
 import { throwIfErrors } from '../../utils/validation.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Options for updating an existing account.
@@ -37,7 +38,7 @@ export async function updateAccount(
     const book = await bkper.getBook(bookId);
     const account = await book.getAccount(accountIdOrName);
     if (!account) {
-        throw new Error(`Account not found: ${accountIdOrName}`);
+        throw new NotFoundError('Account', accountIdOrName);
     }
 
     const errors: string[] = [];
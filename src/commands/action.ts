@@ -1,7 +1,14 @@
-import { getErrorMessage } from '../auth/auth-errors.js';
 import { setupBkper } from '../bkper-factory.js';
-import { getFormat } from './cli-helpers.js';
-import type { OutputFormat } from '../render/output.js';
+import { classifyError, EXIT_CODES } from '../utils/errors.js';
+import {
+    getFormat,
+    getMatrixQuery,
+    getOutputFile,
+    getTemplateFile,
+    isJsonOutput,
+} from './cli-helpers.js';
+import { ValidationError } from '../utils/validation.js';
+import type { OutputFormat, OutputOptions } from '../render/output.js';
 
 /**
  * Options for the action wrapper.
@@ -9,21 +16,29 @@ import type { OutputFormat } from '../render/output.js';
 interface ActionOptions {
     /** Skip calling setupBkper() before the action (e.g. for init, build). */
     skipSetup?: boolean;
+    /** The command writes a file named by --out, so --out is not rejected. */
+    writesOutFile?: boolean;
 }
 
 /**
  * Wraps a CLI command action with consistent error handling and Bkper setup.
  *
- * Eliminates the repeated try/catch + setupBkper() + process.exit(1) boilerplate
- * from every command handler.
+ * Eliminates the repeated try/catch + setupBkper() + process.exit() boilerplate
+ * from every command handler. Errors are classified (see {@link classifyError})
+ * and the process exits with the code of their kind (see {@link EXIT_CODES}).
+ * With JSON output, the error is written to stderr as
+ * `{"error":{"code":...,"message":...,"details":...}}` instead of a line of text.
+ * The global --out option is rejected unless the output is an XLSX workbook
+ * or the command writes its own file, so it is never silently ignored.
  *
  * @param label - Human-readable label for error messages (e.g. "listing books")
- * @param fn - The action function. Receives the resolved OutputFormat.
+ * @param fn - The action function. Receives the resolved OutputFormat and the
+ *   global output options to pass on to the render functions.
  * @param options - Optional configuration (e.g. skipSetup)
  */
 export function withAction(
     label: string,
-    fn: (format: OutputFormat) => Promise<void>,
+    fn: (format: OutputFormat, output: OutputOptions) => Promise<void>,
     options?: ActionOptions
 ): () => Promise<void> {
     return async () => {
@@ -31,10 +46,37 @@ export function withAction(
             if (!options?.skipSetup) {
                 setupBkper();
             }
-            await fn(getFormat());
+            const format = getFormat();
+            if (getOutputFile() && format !== 'xlsx' && !options?.writesOutFile) {
+                throw new ValidationError([
+                    '--out only applies to --format xlsx, book export and coa export; redirect the output instead',
+                ]);
+            }
+            await fn(format, {
+                outFile: getOutputFile(),
+                template: getTemplateFile(),
+                matrixQuery: getMatrixQuery(),
+            });
         } catch (err) {
-            console.error(`Error ${label}: ${getErrorMessage(err)}`);
-            process.exit(1);
+            exitWithError(err, label);
         }
     };
 }
+
+/**
+ * Reports a failure and exits with the code of its kind, as {@link withAction}
+ * does for command actions. Also used for errors raised while the command
+ * line is parsed, before any action runs.
+ *
+ * @param err - The thrown value
+ * @param label - What was being done (e.g. "listing books"), if known
+ */
+export function exitWithError(err: unknown, label?: string): never {
+    const { code, message, details } = classifyError(err);
+    if (isJsonOutput()) {
+        console.error(JSON.stringify({ error: { code, message, details: details ?? null } }));
+    } else {
+        console.error(label ? `Error ${label}: ${message}` : `Error: ${message}`);
+    }
+    return process.exit(EXIT_CODES[code]);
+}
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import { ValidationError } from '../../utils/validation.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Recursively gets all files in a directory.
@@ -36,7 +38,7 @@ export async function createAssetManifest(
 ): Promise<Record<string, { hash: string; size: number }>> {
     const fullPath = path.resolve(assetsPath);
     if (!fs.existsSync(fullPath)) {
-        throw new Error(`Assets directory not found: ${assetsPath}`);
+        throw new NotFoundError('Assets directory', assetsPath);
     }
 
     const manifest: Record<string, { hash: string; size: number }> = {};
@@ -74,7 +76,7 @@ export function computeHash(content: Buffer): string {
 export async function readAssetFiles(assetsPath: string): Promise<Record<string, string>> {
     const fullPath = path.resolve(assetsPath);
     if (!fs.existsSync(fullPath)) {
-        throw new Error(`Assets directory not found: ${assetsPath}`);
+        throw new NotFoundError('Assets directory', assetsPath);
     }
 
     const files = await getFilesRecursive(fullPath);
@@ -85,7 +87,9 @@ export async function readAssetFiles(assetsPath: string): Promise<Record<string,
     const MAX_FILE_COUNT = 10000;
 
     if (files.length > MAX_FILE_COUNT) {
-        throw new Error(`Too many asset files (${files.length}). Maximum is ${MAX_FILE_COUNT}.`);
+        throw new ValidationError([
+            `Too many asset files (${files.length}). Maximum is ${MAX_FILE_COUNT}.`,
+        ]);
     }
 
     for (const file of files) {
@@ -94,20 +98,20 @@ export async function readAssetFiles(assetsPath: string): Promise<Record<string,
 
         if (fileSize > MAX_FILE_SIZE) {
             const fileName = path.relative(fullPath, file);
-            throw new Error(
+            throw new ValidationError([
                 `File ${fileName} exceeds 25 MB Cloudflare limit (${(
                     fileSize /
                     1024 /
                     1024
-                ).toFixed(2)} MB)`
-            );
+                ).toFixed(2)} MB)`,
+            ]);
         }
 
         totalSize += fileSize;
         if (totalSize > MAX_TOTAL_SIZE) {
-            throw new Error(
-                `Total asset size exceeds 50 MB limit (${(totalSize / 1024 / 1024).toFixed(2)} MB)`
-            );
+            throw new ValidationError([
+                `Total asset size exceeds 50 MB limit (${(totalSize / 1024 / 1024).toFixed(2)} MB)`,
+            ]);
         }
 
         const hash = computeHash(content);
@@ -3,6 +3,7 @@ import fs from 'fs';
 import * as YAML from 'yaml';
 import { getErrorMessage } from '../../auth/auth-errors.js';
 import type { ErrorResponse, SourceDeploymentConfig } from './types.js';
+import { CliError } from '../../utils/errors.js';
 
 // =============================================================================
 // App Config Loading
@@ -13,7 +14,7 @@ import type { ErrorResponse, SourceDeploymentConfig } from './types.js';
  * Checks files in priority order: bkper.json → bkper.yaml
  *
  * @returns App configuration object
- * @throws Error if no config file is found
+ * @throws CliError (`not-found`) if no config file is found
  */
 export function loadAppConfig(): bkper.App {
     const configPaths = ['./bkper.json', './bkper.yaml'];
@@ -25,7 +26,7 @@ export function loadAppConfig(): bkper.App {
         }
     }
 
-    throw new Error('bkper.yaml or bkper.json not found');
+    throw new CliError('not-found', 'bkper.yaml or bkper.json not found');
 }
 
 /**
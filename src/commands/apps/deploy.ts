@@ -7,6 +7,7 @@ import { createAssetManifest, readAssetFiles } from './bundler.js';
 import { handleError, loadAppConfig, loadSourceDeploymentConfig } from './config.js';
 import {prepareManagedDeploySource, type DeploySourceMetadata} from './source-workflow.js';
 import type { DeployOptions, Environment, SourceDeploymentConfig } from './types.js';
+import { ValidationError } from '../../utils/validation.js';
 
 interface PlatformDeployMetadata {
     bindings?: {
@@ -167,7 +168,7 @@ export function resolveSourceDeployPaths(
     deploymentConfig: SourceDeploymentConfig
 ): { bundleDir: string; bundlePath: string; assetsDir?: string } {
     if (!deploymentConfig.server) {
-        throw new Error('No server worker configured');
+        throw new ValidationError(['No server worker configured']);
     }
 
     const bundleDir = path.resolve('dist/server');
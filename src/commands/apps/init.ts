@@ -4,6 +4,7 @@ import { Readable } from 'stream';
 import * as tar from 'tar';
 import * as YAML from 'yaml';
 import { ensureGitInitialized } from './git/inspect.js';
+import { ConflictError } from '../../utils/errors.js';
 
 // =============================================================================
 // Constants
@@ -58,7 +59,7 @@ export function assertInitTargetAvailable(target: AppInitTarget): void {
             target.displayTarget === '.'
                 ? 'Current directory'
                 : `Directory '${target.displayTarget}'`;
-        throw new Error(
+        throw new ConflictError(
             `${targetLabel} contains files that are not safe to overwrite: ${unsafeEntries.join(', ')}`
         );
     }
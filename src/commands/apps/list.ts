@@ -1,5 +1,5 @@
 import { getBkperInstance } from '../../bkper-factory.js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import { isJsonFormat, type OutputFormat, type ListResult } from '../../render/output.js';
 
 /**
  * Lists all apps the authenticated user has access to.
@@ -19,7 +19,7 @@ export async function listApps(): Promise<bkper.App[]> {
 export async function listAppsFormatted(format: OutputFormat): Promise<ListResult> {
     const apps = await listApps();
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         return { kind: 'json', items: apps };
     }
 
@@ -9,6 +9,7 @@ import type {
     LogsOutputMode,
     LogsResponse,
 } from './types.js';
+import { ValidationError } from '../../utils/validation.js';
 
 interface LogsPlatformClient {
     GET(
@@ -84,9 +85,9 @@ export function resolveLogsOutputMode(command: Pick<Command, 'optsWithGlobals' |
 
     const formatSource = command.getOptionValueSourceWithGlobals('format');
     if (formatSource === 'cli') {
-        throw new Error(
-            'bkper app logs only supports default human-readable output or JSON. Use --json or --format json.'
-        );
+        throw new ValidationError([
+            'bkper app logs only supports default human-readable output or JSON. Use --json or --format json.',
+        ]);
     }
 
     return 'pretty';
@@ -3,6 +3,7 @@ import { getBkperInstance } from '../../bkper-factory.js';
 import { createConfiguredApp } from './config.js';
 import type { SyncResult } from './types.js';
 import {syncManagedAppSource} from './source-workflow.js';
+import { ValidationError } from '../../utils/validation.js';
 
 /**
  * Creates a new app from the configuration in the current directory.
@@ -37,7 +38,7 @@ export async function syncApp(): Promise<SyncResult> {
     const appId = app.getId();
 
     if (!appId) {
-        throw new Error('App config is missing "id" field');
+        throw new ValidationError(['App config is missing "id" field']);
     }
 
     // Check if app exists
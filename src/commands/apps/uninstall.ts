@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Integration } from 'bkper-js';
+import { CliError } from '../../utils/errors.js';
 
 /**
  * Uninstalls an app from a book by removing its integration.
@@ -17,7 +18,10 @@ export async function uninstallApp(bookId: string, appId: string): Promise<Integ
     const integration = integrations.find(i => i.getAgentId() === appId);
 
     if (!integration) {
-        throw new Error(`App not found in book: ${appId}`);
+        throw new CliError('not-found', `App not found in book: ${appId}`, {
+            resource: 'App',
+            id: appId,
+        });
     }
 
     return integration.remove();
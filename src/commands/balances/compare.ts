@@ -0,0 +1,162 @@
+import type { BalancesContainer } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import {
+    compareRows,
+    formatPeriodLabel,
+    resolveComparePeriods,
+    type ComparisonInputRow,
+    type ComparisonRow,
+} from '../reports/index.js';
+import { formatMinorUnits, toMinorUnits } from '../reports/amounts.js';
+import { warnIfSuspiciousDateVariableQuery } from '../../utils/query-warning.js';
+import { buildBalancesDataTable } from './list.js';
+import { parseQueryPeriod, replaceQueryPeriod } from './query-period.js';
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Kind and depth in the group tree of an account or group of a balances report.
+ */
+export interface ContainerPlacement {
+    kind: 'account' | 'group';
+    depth: number;
+}
+
+/**
+ * Options for comparing balances across periods.
+ */
+export interface CompareBalancesOptions {
+    /** Balances query for the current period, with ISO dates. */
+    query: string;
+    /** Comparison period specs, see {@link resolveComparePeriods}. */
+    compare: string[];
+    expanded?: number;
+}
+
+/**
+ * Balances of the same query over several periods, current period first,
+ * with the change of the current period against each comparison period.
+ */
+export interface BalancesComparison {
+    /** Periods in column order; `bookId` is set on periods read from a budget book. */
+    periods: { label: string; query: string; bookId?: string }[];
+    rows: ComparisonRow[];
+}
+
+/**
+ * Runs a balances query for the current period and each comparison period,
+ * moving its date operators, and lines up the totals per account or group.
+ * Budget periods run the query of the current period on the budget book.
+ *
+ * @param bookId - The book ID to query balances from
+ * @param options - Query, comparison periods and expansion depth
+ * @returns Periods with their queries, and comparative rows
+ */
+export async function compareBalances(
+    bookId: string,
+    options: CompareBalancesOptions
+): Promise<BalancesComparison> {
+    const current = parseQueryPeriod(options.query);
+    const periods = [current, ...resolveComparePeriods(current, options.compare)];
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId);
+    const fractionDigits = book.getFractionDigits() ?? 2;
+
+    const queries = periods.map(period => replaceQueryPeriod(options.query, period));
+    const rowsByPeriod: ComparisonInputRow[][] = [];
+    for (const [index, query] of queries.entries()) {
+        warnIfSuspiciousDateVariableQuery(query);
+        const budgetBookId = periods[index].budgetBookId;
+        const source = budgetBookId ? await bkper.getBook(budgetBookId) : book;
+        const report = await source.getBalancesReport(query);
+        const matrix = buildBalancesDataTable(report, {
+            query,
+            expanded: options.expanded,
+            totals: true,
+        });
+        rowsByPeriod.push(
+            toComparisonRows(matrix, fractionDigits, readPlacements(report.getBalancesContainers()))
+        );
+    }
+
+    return {
+        periods: periods.map((period, index) => ({
+            label: formatPeriodLabel(period),
+            query: queries[index],
+            ...(period.budgetBookId ? { bookId: period.budgetBookId } : {}),
+        })),
+        rows: compareRows(rowsByPeriod, fractionDigits),
+    };
+}
+
+/**
+ * Reads the name and total of each row of a TOTAL balances matrix, skipping
+ * header rows. Totals are rounded to the book's fraction digits in minor
+ * units, and each row is indented by the depth of its account or group.
+ *
+ * Rows are keyed by kind and name, so a group and an account with the same
+ * name stay apart. Repeated names take their placements in report order;
+ * names missing from the report are read as top-level accounts.
+ *
+ * @param matrix - TOTAL balances matrix
+ * @param fractionDigits - Fraction digits of the book
+ * @param placements - Placements of the accounts and groups by name, see {@link readPlacements}
+ */
+export function toComparisonRows(
+    matrix: unknown[][],
+    fractionDigits: number,
+    placements: Map<string, ContainerPlacement[]> = new Map()
+): ComparisonInputRow[] {
+    const rows: ComparisonInputRow[] = [];
+    const seen = new Map<string, number>();
+    for (const [name, value] of matrix) {
+        const text = typeof value === 'number' ? decimalText(value) : String(value ?? '').trim();
+        if (typeof name !== 'string' || !DECIMAL_PATTERN.test(text)) {
+            continue;
+        }
+        const occurrence = seen.get(name) ?? 0;
+        seen.set(name, occurrence + 1);
+        const candidates = placements.get(name) ?? [];
+        const placement: ContainerPlacement = candidates[
+            Math.min(occurrence, candidates.length - 1)
+        ] ?? { kind: 'account', depth: 0 };
+        rows.push({
+            key: `${placement.kind}:${name}`,
+            name,
+            depth: placement.depth,
+            amount: formatMinorUnits(toMinorUnits(text, fractionDigits), fractionDigits),
+        });
+    }
+    return rows;
+}
+
+/**
+ * Lists the placements of each account and group of a balances report by
+ * name, in report order, top-level containers being at depth 0.
+ */
+export function readPlacements(containers: BalancesContainer[]): Map<string, ContainerPlacement[]> {
+    const placements = new Map<string, ContainerPlacement[]>();
+    const visit = (container: BalancesContainer, depth: number) => {
+        const kind = container.isFromAccount() ? 'account' : 'group';
+        const list = placements.get(container.getName()) ?? [];
+        list.push({ kind, depth });
+        placements.set(container.getName(), list);
+        for (const child of container.getBalancesContainers() || []) {
+            visit(child, depth + 1);
+        }
+    };
+    for (const container of containers) {
+        visit(container, 0);
+    }
+    return placements;
+}
+
+/**
+ * Writes a number as a plain decimal, without the exponent JavaScript uses
+ * for very small or large values.
+ */
+function decimalText(value: number): string {
+    const text = String(value);
+    return /e/i.test(text) ? value.toFixed(20) : text;
+}
@@ -0,0 +1,220 @@
+import { BalanceType, type BalancesContainer, type Book } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { warnIfSuspiciousDateVariableQuery } from '../../utils/query-warning.js';
+import { getCollection } from '../collections/get.js';
+import { formatMinorUnits, toMinorUnits, ZERO } from '../reports/amounts.js';
+import { collectAccountContainers } from '../reports/containers.js';
+import { resolveBalanceType } from './list.js';
+import { compareCodePoints } from '../../utils/compare.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Options for consolidating balances across the books of a collection.
+ */
+export interface ConsolidateBalancesOptions {
+    query: string;
+    /** Account property whose value aligns accounts across books, instead of the name. */
+    mappingProperty?: string;
+}
+
+/**
+ * A member book of a consolidation.
+ */
+export interface ConsolidatedBook {
+    id: string;
+    name: string;
+    fractionDigits: number;
+    /** Currency code from the `exc_code` book property, if set. */
+    currency?: string;
+}
+
+/**
+ * One aligned account: its balance in each book, in book order, and the total.
+ * Books without the account have a zero balance.
+ */
+export interface ConsolidatedRow {
+    account: string;
+    balances: string[];
+    total: string;
+}
+
+/**
+ * Balances of the same query across the books of a collection.
+ */
+export interface ConsolidatedBalances {
+    collection: string;
+    query: string;
+    books: ConsolidatedBook[];
+    rows: ConsolidatedRow[];
+    /** Differences between books that may make the total misleading. */
+    warnings: string[];
+}
+
+/**
+ * Per-book balances keyed by aligned account, as decimal strings.
+ */
+export interface BookBalances {
+    book: ConsolidatedBook;
+    balances: Map<string, string>;
+}
+
+/**
+ * Runs a balances query on every book of a collection and consolidates the
+ * account balances into one row per account, with one column per book and a
+ * total.
+ *
+ * Accounts are aligned by name or, with `mappingProperty`, by the value of
+ * that account property, falling back to the name when it is not set.
+ * Warnings are returned when books use different fraction digits or
+ * currencies.
+ *
+ * @param collectionId - The collection whose books are consolidated
+ * @param options - Balances query and optional mapping property
+ * @returns Books, aligned rows sorted by account, and warnings
+ */
+export async function consolidateBalances(
+    collectionId: string,
+    options: ConsolidateBalancesOptions
+): Promise<ConsolidatedBalances> {
+    warnIfSuspiciousDateVariableQuery(options.query);
+
+    const collection = await getCollection(collectionId);
+    const members: Book[] = collection.getBooks();
+    if (members.length === 0) {
+        throw new ValidationError([`Collection has no books: ${collectionId}`]);
+    }
+
+    const bkper = getBkperInstance();
+    const period = resolveBalanceType(options.query) === BalanceType.PERIOD;
+    const perBook: BookBalances[] = [];
+    for (const member of members) {
+        const book = await bkper.getBook(member.getId());
+        const fractionDigits = book.getFractionDigits() ?? 2;
+        const report = await book.getBalancesReport(options.query);
+
+        const balances = new Map<string, string>();
+        for (const container of collectAccountContainers(report.getBalancesContainers())) {
+            const key = alignmentKey(container, options.mappingProperty);
+            const amount = (
+                period ? container.getPeriodBalance() : container.getCumulativeBalance()
+            ).toFixed(fractionDigits);
+            // Several accounts may map to the same key within a book
+            const previous = balances.get(key);
+            balances.set(
+                key,
+                previous === undefined
+                    ? amount
+                    : formatMinorUnits(
+                          toMinorUnits(previous, fractionDigits) +
+                              toMinorUnits(amount, fractionDigits),
+                          fractionDigits
+                      )
+            );
+        }
+
+        const currency = book.getProperty('exc_code');
+        perBook.push({
+            book: {
+                id: book.getId(),
+                name: book.getName() || book.getId(),
+                fractionDigits,
+                ...(currency ? { currency } : {}),
+            },
+            balances,
+        });
+    }
+
+    return {
+        collection: collection.getName() || collectionId,
+        query: options.query,
+        ...buildConsolidation(perBook),
+    };
+}
+
+/**
+ * Aligns per-book balances into rows sorted by account, totalled at the
+ * largest fraction digits among the books, and collects warnings about
+ * mismatched fraction digits or currencies.
+ */
+export function buildConsolidation(
+    perBook: BookBalances[]
+): Pick<ConsolidatedBalances, 'books' | 'rows' | 'warnings'> {
+    const books = perBook.map(entry => entry.book);
+    const fractionDigits = Math.max(...books.map(book => book.fractionDigits));
+
+    const accounts = new Set<string>();
+    for (const entry of perBook) {
+        for (const account of entry.balances.keys()) {
+            accounts.add(account);
+        }
+    }
+
+    const rows = [...accounts].sort(compareCodePoints).map(account => {
+        const units = perBook.map(entry => {
+            const balance = entry.balances.get(account);
+            return balance === undefined ? ZERO : toMinorUnits(balance, fractionDigits);
+        });
+        const total = units.reduce((sum, value) => sum + value, ZERO);
+        return {
+            account,
+            balances: units.map(value => formatMinorUnits(value, fractionDigits)),
+            total: formatMinorUnits(total, fractionDigits),
+        };
+    });
+
+    return { books, rows, warnings: findConsolidationWarnings(books) };
+}
+
+/**
+ * Builds a matrix with one row per account, one column per book and a
+ * total column.
+ */
+export function buildConsolidationMatrix(consolidation: ConsolidatedBalances): unknown[][] {
+    if (consolidation.rows.length === 0) {
+        return [];
+    }
+    const matrix: unknown[][] = [
+        ['Account', ...consolidation.books.map(book => book.name), 'Total'],
+    ];
+    for (const row of consolidation.rows) {
+        matrix.push([row.account, ...row.balances, row.total]);
+    }
+    return matrix;
+}
+
+function findConsolidationWarnings(books: ConsolidatedBook[]): string[] {
+    const warnings: string[] = [];
+
+    const digits = new Set(books.map(book => book.fractionDigits));
+    if (digits.size > 1) {
+        warnings.push(
+            `Books have different fraction digits (${describeBooks(books, book =>
+                String(book.fractionDigits)
+            )}); totals use ${Math.max(...digits)}.`
+        );
+    }
+
+    const currencies = new Set(books.map(book => book.currency || ''));
+    if (currencies.size > 1) {
+        warnings.push(
+            `Books have different currencies (${describeBooks(
+                books,
+                book => book.currency || 'not set'
+            )}); totals add amounts without conversion.`
+        );
+    }
+
+    return warnings;
+}
+
+function describeBooks(
+    books: ConsolidatedBook[],
+    describe: (book: ConsolidatedBook) => string
+): string {
+    return books.map(book => `${book.name}: ${describe(book)}`).join(', ');
+}
+
+function alignmentKey(container: BalancesContainer, mappingProperty?: string): string {
+    const mapped = mappingProperty ? container.getProperty(mappingProperty) : undefined;
+    return mapped || container.getName();
+}
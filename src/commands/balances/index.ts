@@ -1 +1,12 @@
 export { listBalancesMatrix, ListBalancesOptions } from './list.js';
+export { compareBalances, CompareBalancesOptions, BalancesComparison } from './compare.js';
+export {
+    consolidateBalances,
+    buildConsolidation,
+    buildConsolidationMatrix,
+    ConsolidateBalancesOptions,
+    ConsolidatedBook,
+    ConsolidatedRow,
+    ConsolidatedBalances,
+    BookBalances,
+} from './consolidate.js';
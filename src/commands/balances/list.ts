@@ -1,6 +1,6 @@
-import { BalanceType } from 'bkper-js';
+import { BalanceType, type BalancesReport } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
-import type { OutputFormat } from '../../render/output.js';
+import { isSpreadsheetFormat, type OutputFormat } from '../../render/output.js';
 import { warnIfSuspiciousDateVariableQuery } from '../../utils/query-warning.js';
 
 /**
@@ -10,6 +10,11 @@ export interface ListBalancesOptions {
     query: string;
     expanded?: number;
     format?: OutputFormat;
+    /**
+     * Build one unformatted total per account or group for the whole query
+     * period instead of a time table, e.g. to compare periods.
+     */
+    totals?: boolean;
 }
 
 /**
@@ -35,14 +40,30 @@ export async function listBalancesMatrix(
 
     const bkper = getBkperInstance();
     const book = await bkper.getBook(bookId);
+    const report = await book.getBalancesReport(options.query);
+    return buildBalancesDataTable(report, options);
+}
 
+/**
+ * Builds the data table matrix of a balances report fetched with
+ * `options.query`.
+ *
+ * @param report - Balances report of the query
+ * @param options - Query and formatting options
+ * @returns A 2D array with headers and balance data rows
+ */
+export function buildBalancesDataTable(
+    report: BalancesReport,
+    options: ListBalancesOptions
+): unknown[][] {
     const balanceType = resolveBalanceType(options.query);
+    const builder = report.createDataTable().type(options.totals ? BalanceType.TOTAL : balanceType);
 
-    const report = await book.getBalancesReport(options.query);
-    const builder = report.createDataTable().type(balanceType);
-
-    if (options.format === 'csv') {
-        // CSV: raw values for machine consumption, all metadata
+    if (options.totals) {
+        // TOTAL is cumulative unless forced to the period of after: queries
+        builder.period(balanceType === BalanceType.PERIOD);
+    } else if (isSpreadsheetFormat(options.format ?? 'table')) {
+        // CSV/XLSX: raw values for machine consumption, all metadata
         builder.properties(true).hiddenProperties(true);
     } else {
         // Table/JSON: human-readable formatted values
@@ -0,0 +1,72 @@
+import type { ReportPeriod } from '../reports/compare.js';
+import { addDays, parseIsoDate } from '../reports/dates.js';
+import { ValidationError } from '../../utils/validation.js';
+
+const DATE_OPERATOR_PATTERN = /(^|\s)(after|before|on):(\S+)/g;
+
+/**
+ * Reads the period of a balances query from its `after:`, `before:` and
+ * `on:` operators. `on:` accepts a year, month or day and, like `before:`
+ * alone, means a point in time.
+ *
+ * @param query - Balances query with ISO dates
+ * @returns The period with inclusive boundaries
+ * @throws ValidationError if the query has no end date or uses date variables
+ */
+export function parseQueryPeriod(query: string): ReportPeriod {
+    let from: string | undefined;
+    let to: string | undefined;
+
+    for (const [, , operator, value] of query.matchAll(DATE_OPERATOR_PATTERN)) {
+        if (operator === 'on') {
+            to = lastDayOf(value);
+            continue;
+        }
+        requireIsoDate(operator, value);
+        if (operator === 'after') {
+            from = value;
+        } else {
+            to = addDays(value, -1);
+        }
+    }
+
+    if (!to) {
+        throw new ValidationError(['--compare requires a before: or on: date in the query']);
+    }
+    return from ? { from, to } : { to };
+}
+
+/**
+ * Replaces the date operators of a balances query with the given period.
+ */
+export function replaceQueryPeriod(query: string, period: ReportPeriod): string {
+    const rest = query.replace(DATE_OPERATOR_PATTERN, '$1').replace(/\s+/g, ' ').trim();
+    const dates = `${period.from ? `after:${period.from} ` : ''}before:${addDays(period.to, 1)}`;
+    return rest ? `${rest} ${dates}` : dates;
+}
+
+function lastDayOf(value: string): string {
+    if (/^\d{4}$/.test(value)) {
+        return `${value}-12-31`;
+    }
+    if (/^\d{4}-\d{2}$/.test(value)) {
+        parseIsoDate(`${value}-01`);
+        const [year, month] = value.split('-').map(Number);
+        return addDays(
+            month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`,
+            -1
+        );
+    }
+    requireIsoDate('on', value);
+    return value;
+}
+
+function requireIsoDate(operator: string, value: string): void {
+    try {
+        parseIsoDate(value);
+    } catch {
+        throw new ValidationError([
+            `--compare requires ISO dates in the query, found ${operator}:${value}`,
+        ]);
+    }
+}
@@ -1,8 +1,15 @@
 import type { Command } from 'commander';
 import { withAction } from '../action.js';
-import { renderTable } from '../../render/index.js';
+import { collectRepeatable } from '../cli-helpers.js';
+import { isJsonFormat, renderItem, renderListResult, renderTable } from '../../render/index.js';
 import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
-import { listBalancesMatrix } from './index.js';
+import { buildComparisonMatrix, parseCompareSpecs } from '../reports/index.js';
+import {
+    buildConsolidationMatrix,
+    compareBalances,
+    consolidateBalances,
+    listBalancesMatrix,
+} from './index.js';
 
 export function registerBalanceCommands(program: Command): void {
     const balanceCommand = program.command('balance').description('Manage Balances');
@@ -11,22 +18,85 @@ export function registerBalanceCommands(program: Command): void {
         .command('list')
         .description('List balances')
         .option('-b, --book <bookId>', 'Book ID')
+        .option(
+            '--collection <collectionId>',
+            'Consolidate the balances of every book in a collection'
+        )
         .option('-q, --query <query>', 'Balances query')
         .option('--expanded <level>', 'Expand groups to specified depth (0+)', parseInt)
+        .option(
+            '--compare <periods>',
+            'Compare with previous-period, previous-year, budget:<bookId> or yyyy-mm-dd..yyyy-mm-dd (repeatable or comma-separated)',
+            collectRepeatable
+        )
+        .option(
+            '--mapping-property <key>',
+            'Align accounts across collection books by this account property instead of the name'
+        )
         .action(options =>
-            withAction('listing balances', async format => {
+            withAction('listing balances', async (format, output) => {
+                if (options.collection) {
+                    throwIfErrors([
+                        ...validateRequiredOptions(options, [{ name: 'query', flag: '--query' }]),
+                        ...(options.book ? ['Use either --book or --collection, not both'] : []),
+                        ...(options.compare
+                            ? ['--compare cannot be combined with --collection']
+                            : []),
+                    ]);
+                    const consolidation = await consolidateBalances(options.collection, {
+                        query: options.query,
+                        mappingProperty: options.mappingProperty,
+                    });
+                    for (const warning of consolidation.warnings) {
+                        console.error(`Warning: ${warning}`);
+                    }
+                    if (isJsonFormat(format)) {
+                        renderItem(consolidation, format, output);
+                    } else {
+                        renderTable(buildConsolidationMatrix(consolidation), format, output);
+                    }
+                    return;
+                }
+
                 throwIfErrors(
                     validateRequiredOptions(options, [
                         { name: 'book', flag: '--book' },
                         { name: 'query', flag: '--query' },
                     ])
                 );
+                if (options.compare) {
+                    const comparison = await compareBalances(options.book, {
+                        query: options.query,
+                        compare: parseCompareSpecs(options.compare),
+                        expanded: options.expanded,
+                    });
+                    if (isJsonFormat(format)) {
+                        renderItem(comparison, format, output);
+                        return;
+                    }
+                    renderListResult(
+                        {
+                            kind: 'matrix',
+                            matrix: buildComparisonMatrix(
+                                'Name',
+                                comparison.periods.map(period => period.label),
+                                comparison.rows
+                            ),
+                            footer: `Queries: ${comparison.periods
+                                .map(period => period.query)
+                                .join('; ')}`,
+                        },
+                        format,
+                        output
+                    );
+                    return;
+                }
                 const matrix = await listBalancesMatrix(options.book, {
                     query: options.query,
                     expanded: options.expanded,
                     format,
                 });
-                renderTable(matrix, format);
+                renderTable(matrix, format, output);
             })()
         );
 }
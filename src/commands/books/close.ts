@@ -0,0 +1,342 @@
+import { Account } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { confirm } from '../../utils/confirm.js';
+import { formatMinorUnits, toMinorUnits, ZERO } from '../reports/amounts.js';
+import { collectAccountContainers } from '../reports/containers.js';
+import { addDays } from '../reports/dates.js';
+import { buildTransactionsFromItems } from '../transactions/batch-create.js';
+import { BULK_CHUNK_SIZE } from '../transactions/bulk.js';
+import { listTransactions } from '../transactions/list.js';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+import { compareCodePoints } from '../../utils/compare.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Account types zeroed into retained earnings when a period is closed.
+ */
+export const CLOSING_ACCOUNT_TYPES = ['INCOMING', 'OUTGOING'] as const;
+
+/**
+ * Property recording the period a closing entry closes.
+ */
+export const CLOSING_PERIOD_PROPERTY = 'closing_period';
+
+/**
+ * A period to close: a year (`2025`), a quarter (`2025-Q4`) or a month (`2025-12`).
+ */
+export interface ClosingPeriod {
+    label: string;
+    /** First day, as yyyy-mm-dd. */
+    start: string;
+    /** Last day, as yyyy-mm-dd. */
+    end: string;
+}
+
+/**
+ * Options for closing a period.
+ */
+export interface CloseBookOptions {
+    /** Period to close, e.g. `2025`, `2025-Q4` or `2025-12`. */
+    period: string;
+    /** Name or ID of the permanent account income and expenses are closed into. */
+    retainedEarnings: string;
+    /** Report what would change without changing anything. */
+    dryRun?: boolean;
+    /** Skip the confirmation prompt. */
+    yes?: boolean;
+}
+
+/**
+ * The debits and credits of an income or expense account over the period,
+ * as decimal strings.
+ */
+export interface ClosingAccountBalance {
+    account: string;
+    type: string;
+    debit: string;
+    credit: string;
+}
+
+/**
+ * An entry moving the balance of an income or expense account into retained
+ * earnings, so the account ends the period at zero.
+ */
+export interface ClosingEntry {
+    account: string;
+    type: string;
+    /** Balance closed: debits minus credits, so revenue is usually negative. */
+    balance: string;
+    /** Credited account. */
+    from: string;
+    /** Debited account. */
+    to: string;
+    amount: string;
+}
+
+/**
+ * Transactions of the period that must be resolved before it is closed.
+ */
+export interface ClosingChecks {
+    drafts: number;
+    unchecked: number;
+    passed: boolean;
+}
+
+/**
+ * Report of a period closing.
+ */
+export interface ClosingReport {
+    book: string;
+    period: ClosingPeriod;
+    retainedEarnings: string;
+    dryRun: boolean;
+    cancelled: boolean;
+    /** Whether the entries were created and the dates set. */
+    closed: boolean;
+    checks: ClosingChecks;
+    entries: ClosingEntry[];
+    /** Credits minus debits of the closed accounts: profit when positive. */
+    netIncome: string;
+    /** Closing and lock dates of the book after closing. */
+    closingDate: string;
+    lockDate: string;
+}
+
+/**
+ * Parses a period to close: `YYYY`, `YYYY-Qn` or `YYYY-MM`.
+ *
+ * @throws ValidationError if the period is not in one of these forms
+ */
+export function parseClosingPeriod(value: string): ClosingPeriod {
+    const match = /^(\d{4})(?:-(?:Q([1-4])|(\d{2})))?$/i.exec(value.trim());
+    const month = match?.[3] !== undefined ? Number(match[3]) : undefined;
+    if (!match || (month !== undefined && (month < 1 || month > 12))) {
+        throw new ValidationError([`Invalid period: ${value} (expected YYYY, YYYY-Qn or YYYY-MM)`]);
+    }
+    const year = Number(match[1]);
+    const quarter = match[2] !== undefined ? Number(match[2]) : undefined;
+    const firstMonth = month ?? (quarter !== undefined ? quarter * 3 - 2 : 1);
+    const months = month !== undefined ? 1 : quarter !== undefined ? 3 : 12;
+
+    const start = new Date(Date.UTC(year, firstMonth - 1, 1)).toISOString().slice(0, 10);
+    const end = new Date(Date.UTC(year, firstMonth - 1 + months, 0)).toISOString().slice(0, 10);
+    return { label: value.trim().toUpperCase(), start, end };
+}
+
+/**
+ * Builds the entries that zero each income and expense account into retained
+ * earnings. Accounts with a debit balance are credited and retained earnings
+ * debited; accounts with a credit balance the other way around. Accounts
+ * already at zero need no entry.
+ *
+ * @param balances - Income and expense account balances over the period
+ * @param retainedEarnings - Name of the retained earnings account
+ * @param fractionDigits - Fraction digits of the book
+ * @returns Entries sorted by account name, and the net income they close
+ */
+export function buildClosingEntries(
+    balances: ClosingAccountBalance[],
+    retainedEarnings: string,
+    fractionDigits: number
+): { entries: ClosingEntry[]; netIncome: string } {
+    let net = ZERO;
+    const entries: ClosingEntry[] = [];
+    for (const balance of [...balances].sort((a, b) => compareCodePoints(a.account, b.account))) {
+        const units =
+            toMinorUnits(balance.debit, fractionDigits) -
+            toMinorUnits(balance.credit, fractionDigits);
+        if (units === ZERO) {
+            continue;
+        }
+        net += units;
+        entries.push({
+            account: balance.account,
+            type: balance.type,
+            balance: formatMinorUnits(units, fractionDigits),
+            from: units > ZERO ? balance.account : retainedEarnings,
+            to: units > ZERO ? retainedEarnings : balance.account,
+            amount: formatMinorUnits(units > ZERO ? units : -units, fractionDigits),
+        });
+    }
+    return { entries, netIncome: formatMinorUnits(-net, fractionDigits) };
+}
+
+/**
+ * Counts the drafts and unchecked posted transactions of a period, which
+ * block closing it. Closing entries are left out, so a closing interrupted
+ * after creating them can be run again.
+ */
+export function buildClosingChecks(transactions: bkper.Transaction[]): ClosingChecks {
+    const pending = transactions.filter(tx => !tx.properties?.[CLOSING_PERIOD_PROPERTY]);
+    const drafts = pending.filter(tx => !tx.posted).length;
+    const unchecked = pending.filter(tx => tx.posted && !tx.checked).length;
+    return { drafts, unchecked, passed: drafts === 0 && unchecked === 0 };
+}
+
+/**
+ * Closes a period of a book.
+ *
+ * The period must have no drafts and no unchecked transactions, and must end
+ * after the current closing date. The balance of every income and expense
+ * account over the period is then moved into the retained earnings account
+ * by one entry per account, dated on the last day and tagged with
+ * {@link CLOSING_PERIOD_PROPERTY}, and the closing and lock dates are set to
+ * the last day (a later lock date is kept). Before changing anything, a
+ * summary is printed to stderr and confirmed, unless `yes` is set; a dry run,
+ * or failed checks, only report.
+ *
+ * @param bookId - The book to close
+ * @param options - Period, retained earnings account and confirmation flags
+ * @returns The closing report
+ * @throws ValidationError if the period is invalid or the retained earnings
+ *   account is not permanent, ConflictError if the period is already closed,
+ *   NotFoundError if the retained earnings account is missing
+ */
+export async function closeBook(bookId: string, options: CloseBookOptions): Promise<ClosingReport> {
+    const period = parseClosingPeriod(options.period);
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId, true);
+    const settings: bkper.Book = book.json();
+    if (settings.closingDate && settings.closingDate >= period.end) {
+        throw new ConflictError(`Book is already closed through ${settings.closingDate}`, {
+            closingDate: settings.closingDate,
+        });
+    }
+
+    const retainedEarnings: Account | undefined = await book.getAccount(options.retainedEarnings);
+    if (!retainedEarnings) {
+        throw new NotFoundError('Account', options.retainedEarnings);
+    }
+    const retainedEarningsName = retainedEarnings.getName() || options.retainedEarnings;
+    if (isClosingAccountType(retainedEarnings.getType())) {
+        throw new ValidationError([
+            `Retained earnings account must be an asset or liability account: ${retainedEarningsName}`,
+        ]);
+    }
+
+    const fractionDigits = book.getFractionDigits() ?? 2;
+    const periodTransactions = await listTransactions(bookId, {
+        query: `after:${period.start} before:${addDays(period.end, 1)}`,
+    });
+    const checks = buildClosingChecks(periodTransactions.items.map(tx => tx.json()));
+
+    const accounts: Account[] = (await book.getAccounts()) || [];
+    const types = new Map(accounts.map(account => [account.getName(), `${account.getType()}`]));
+    // Period balances, so earlier periods never closed here stay out of this closing
+    const report = await book.getBalancesReport(
+        `after:${period.start} before:${addDays(period.end, 1)}`
+    );
+    const balances = collectAccountContainers(report.getBalancesContainers())
+        .filter(container => isClosingAccountType(types.get(container.getName())))
+        .map(container => ({
+            account: container.getName(),
+            type: types.get(container.getName()) || '',
+            debit: container.getPeriodDebit().toFixed(fractionDigits),
+            credit: container.getPeriodCredit().toFixed(fractionDigits),
+        }));
+    const { entries, netIncome } = buildClosingEntries(
+        balances,
+        retainedEarningsName,
+        fractionDigits
+    );
+
+    const lockDate =
+        settings.lockDate && settings.lockDate > period.end ? settings.lockDate : period.end;
+    const result: ClosingReport = {
+        book: book.getName() || bookId,
+        period,
+        retainedEarnings: retainedEarningsName,
+        dryRun: options.dryRun === true,
+        cancelled: false,
+        closed: false,
+        checks,
+        entries,
+        netIncome,
+        closingDate: settings.closingDate || '',
+        lockDate: settings.lockDate || '',
+    };
+
+    if (options.dryRun || !checks.passed) {
+        return result;
+    }
+
+    console.error(
+        `About to create ${entries.length} closing entr${
+            entries.length === 1 ? 'y' : 'ies'
+        } into ${retainedEarningsName} and close ${result.book} through ${period.end}.`
+    );
+    if (!options.yes && !(await confirm('Proceed?'))) {
+        return { ...result, cancelled: true };
+    }
+
+    const payloads = entries.map(entry => ({
+        date: period.end,
+        amount: entry.amount,
+        description: `Closing ${period.label}: ${entry.account}`,
+        creditAccount: { name: entry.from },
+        debitAccount: { name: entry.to },
+        remoteIds: [`closing/${period.label}/${entry.account}`],
+        properties: { [CLOSING_PERIOD_PROPERTY]: period.label },
+    }));
+    const transactions = buildTransactionsFromItems(book, payloads);
+    for (let i = 0; i < transactions.length; i += BULK_CHUNK_SIZE) {
+        await book.batchCreateTransactions(transactions.slice(i, i + BULK_CHUNK_SIZE));
+    }
+
+    book.setClosingDate(period.end);
+    book.setLockDate(lockDate);
+    await book.update();
+
+    return { ...result, closed: true, closingDate: period.end, lockDate };
+}
+
+/**
+ * Builds a matrix with one row per closing entry and a net income row.
+ */
+export function buildClosingMatrix(report: ClosingReport): unknown[][] {
+    const matrix: unknown[][] = [['Account', 'Type', 'Balance', 'From', 'To', 'Amount']];
+    for (const entry of report.entries) {
+        matrix.push([entry.account, entry.type, entry.balance, entry.from, entry.to, entry.amount]);
+    }
+    matrix.push(['Net income', '', '', '', '', report.netIncome]);
+    return matrix;
+}
+
+/**
+ * Summarizes a period closing for the table footer.
+ */
+export function formatClosingReport(report: ClosingReport): string {
+    const { period, checks } = report;
+    const lines: string[] = [];
+    if (!checks.passed) {
+        lines.push(
+            `Cannot close ${period.label}: ${checks.drafts} draft(s) and ${checks.unchecked} unchecked transaction(s) between ${period.start} and ${period.end}.`
+        );
+        lines.push('Post or trash the drafts and check the transactions, then run again.');
+        return lines.join('\n');
+    }
+
+    const entries = `${report.entries.length} closing entr${
+        report.entries.length === 1 ? 'y' : 'ies'
+    }`;
+    if (report.cancelled) {
+        lines.push('Cancelled: no closing entries were created.');
+    } else if (report.closed) {
+        lines.push(
+            `Created ${entries} moving net income ${report.netIncome} into ${report.retainedEarnings}.`
+        );
+        lines.push(
+            `Closed ${report.book} through ${report.closingDate} (lock date ${report.lockDate}).`
+        );
+    } else {
+        lines.push(
+            `Dry run: would create ${entries} moving net income ${report.netIncome} into ${report.retainedEarnings}, and close ${report.book} through ${period.end}.`
+        );
+    }
+    return lines.join('\n');
+}
+
+function isClosingAccountType(type: unknown): boolean {
+    return CLOSING_ACCOUNT_TYPES.includes(`${type}` as (typeof CLOSING_ACCOUNT_TYPES)[number]);
+}
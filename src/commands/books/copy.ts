@@ -1,5 +1,6 @@
 import { Book } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
+import { ValidationError } from '../../utils/validation.js';
 
 /** Options for copying a Bkper book. */
 export interface CopyBookOptions {
@@ -17,7 +18,7 @@ export interface CopyBookOptions {
  */
 export async function copyBook(bookId: string, options: CopyBookOptions): Promise<Book> {
     if (options.fromDate !== undefined && !options.transactions) {
-        throw new Error('--from-date requires --transactions');
+        throw new ValidationError(['--from-date requires --transactions']);
     }
 
     const fromDate = parseFromDate(options.fromDate);
@@ -47,7 +48,7 @@ function parseFromDate(value: string | undefined): number | undefined {
         }
     }
 
-    throw new Error(
-        `Invalid --from-date: ${value}. Expected a valid date in YYYY-MM-DD format`
-    );
+    throw new ValidationError([
+        `Invalid --from-date: ${value}. Expected a valid date in YYYY-MM-DD format`,
+    ]);
 }
@@ -0,0 +1,261 @@
+import { styleText } from 'node:util';
+import { exportCoa } from '../coa/export.js';
+import type { CoaAccountSpec, CoaGroupSpec, CoaSpec } from '../coa/spec.js';
+import { getBook } from './get.js';
+import { compareCodePoints } from '../../utils/compare.js';
+
+/**
+ * Book settings compared by `book diff`.
+ */
+export const BOOK_DIFF_SETTINGS = [
+    'fractionDigits',
+    'datePattern',
+    'decimalSeparator',
+    'timeZone',
+    'period',
+    'lockDate',
+    'closingDate',
+] as const;
+
+/**
+ * Parts of a book compared by `book diff`, in report order.
+ */
+export type BookDiffSection = 'settings' | 'properties' | 'groups' | 'accounts';
+
+/**
+ * A field that differs on a group or account present in both books.
+ */
+export interface BookDiffChange {
+    field: string;
+    /** Value in the first book; absent when unset. */
+    from?: string;
+    /** Value in the second book; absent when unset. */
+    to?: string;
+}
+
+/**
+ * One difference between two books. Settings and properties carry their
+ * values; changed groups and accounts carry the fields that differ.
+ */
+export interface BookDiffEntry {
+    section: BookDiffSection;
+    name: string;
+    /** `removed`: only in the first book; `added`: only in the second one. */
+    status: 'added' | 'removed' | 'changed';
+    from?: string;
+    to?: string;
+    changes?: BookDiffChange[];
+}
+
+/**
+ * The structural differences between two books.
+ */
+export interface BookDiff {
+    bookA: { id: string; name: string };
+    bookB: { id: string; name: string };
+    identical: boolean;
+    differences: BookDiffEntry[];
+}
+
+/**
+ * The structure of one book, as compared by {@link buildBookDiff}.
+ */
+export interface BookStructure {
+    id: string;
+    name: string;
+    settings: Record<string, string | undefined>;
+    properties: Record<string, string>;
+    coa: CoaSpec;
+}
+
+const SECTIONS: BookDiffSection[] = ['settings', 'properties', 'groups', 'accounts'];
+
+/**
+ * Compares the structure of two books: settings, book properties, groups
+ * (parent, hidden flag, properties) and accounts (type, archived flag, group
+ * memberships, properties). Groups and accounts are matched by name.
+ *
+ * @param bookIdA - The reference book, e.g. a template
+ * @param bookIdB - The book compared against it
+ * @returns Differences, sorted by section and name
+ */
+export async function diffBooks(bookIdA: string, bookIdB: string): Promise<BookDiff> {
+    return buildBookDiff(await readBookStructure(bookIdA), await readBookStructure(bookIdB));
+}
+
+/**
+ * Lists the differences between two book structures, sorted by section and
+ * then by name, so the same books always give the same report.
+ */
+export function buildBookDiff(a: BookStructure, b: BookStructure): BookDiff {
+    const differences: BookDiffEntry[] = [
+        ...diffValues('settings', a.settings, b.settings),
+        ...diffValues('properties', a.properties, b.properties),
+        ...diffNamed('groups', a.coa.groups, b.coa.groups, describeGroup),
+        ...diffNamed('accounts', a.coa.accounts, b.coa.accounts, describeAccount),
+    ];
+    return {
+        bookA: { id: a.id, name: a.name },
+        bookB: { id: b.id, name: b.name },
+        identical: differences.length === 0,
+        differences,
+    };
+}
+
+/**
+ * Formats a diff as a unified-style report: a `---`/`+++` header naming the
+ * books, one `@@ section @@` hunk per section with differences, `-` lines for
+ * the first book, `+` lines for the second one and `~` for changed groups and
+ * accounts.
+ *
+ * @param diff - The diff to format
+ * @param color - Color removed, added and changed lines with ANSI codes
+ */
+export function formatBookDiff(diff: BookDiff, color = false): string {
+    const paint = (format: Parameters<typeof styleText>[0], text: string) =>
+        color ? styleText(format, text, { validateStream: false }) : text;
+
+    const lines = [
+        paint('bold', `--- ${diff.bookA.name} (${diff.bookA.id})`),
+        paint('bold', `+++ ${diff.bookB.name} (${diff.bookB.id})`),
+    ];
+    for (const section of SECTIONS) {
+        const entries = diff.differences.filter(entry => entry.section === section);
+        if (entries.length === 0) {
+            continue;
+        }
+        lines.push(paint('cyan', `@@ ${section} @@`));
+        for (const entry of entries) {
+            if (entry.status === 'changed' && entry.changes) {
+                lines.push(paint('yellow', `~ ${entry.name}`));
+                for (const change of entry.changes) {
+                    lines.push(...formatValueLines(`  ${change.field}`, change, paint));
+                }
+            } else if (entry.status === 'removed' && entry.from === undefined) {
+                lines.push(paint('red', `- ${entry.name}`));
+            } else if (entry.status === 'added' && entry.to === undefined) {
+                lines.push(paint('green', `+ ${entry.name}`));
+            } else {
+                lines.push(...formatValueLines(entry.name, entry, paint));
+            }
+        }
+    }
+    lines.push(
+        diff.identical
+            ? 'No differences: the books have the same structure.'
+            : `${diff.differences.length} difference(s).`
+    );
+    return lines.join('\n');
+}
+
+async function readBookStructure(bookId: string): Promise<BookStructure> {
+    const book = await getBook(bookId);
+    const json: bkper.Book = book.json();
+    const settings: Record<string, string | undefined> = {};
+    for (const key of BOOK_DIFF_SETTINGS) {
+        const value = json[key];
+        settings[key] = value === undefined || value === '' ? undefined : String(value);
+    }
+    return {
+        id: book.getId(),
+        name: book.getName() || book.getId(),
+        settings,
+        properties: { ...(json.properties || {}) },
+        coa: await exportCoa(bookId),
+    };
+}
+
+function formatValueLines(
+    label: string,
+    values: { from?: string; to?: string },
+    paint: (format: 'red' | 'green', text: string) => string
+): string[] {
+    const lines: string[] = [];
+    if (values.from !== undefined) lines.push(paint('red', `- ${label}: ${values.from}`));
+    if (values.to !== undefined) lines.push(paint('green', `+ ${label}: ${values.to}`));
+    return lines;
+}
+
+function diffValues(
+    section: BookDiffSection,
+    a: Record<string, string | undefined>,
+    b: Record<string, string | undefined>
+): BookDiffEntry[] {
+    const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort(compareCodePoints);
+    const entries: BookDiffEntry[] = [];
+    for (const key of keys) {
+        const from = a[key];
+        const to = b[key];
+        if (from === to) {
+            continue;
+        }
+        const entry: BookDiffEntry = {
+            section,
+            name: key,
+            status: from === undefined ? 'added' : to === undefined ? 'removed' : 'changed',
+        };
+        if (from !== undefined) entry.from = from;
+        if (to !== undefined) entry.to = to;
+        entries.push(entry);
+    }
+    return entries;
+}
+
+function diffNamed<T extends { name: string }>(
+    section: BookDiffSection,
+    a: T[],
+    b: T[],
+    describe: (item: T) => Record<string, string | undefined>
+): BookDiffEntry[] {
+    const itemsA = new Map(a.map(item => [item.name, item]));
+    const itemsB = new Map(b.map(item => [item.name, item]));
+    const names = [...new Set([...itemsA.keys(), ...itemsB.keys()])].sort(compareCodePoints);
+
+    const entries: BookDiffEntry[] = [];
+    for (const name of names) {
+        const itemA = itemsA.get(name);
+        const itemB = itemsB.get(name);
+        if (!itemA) {
+            entries.push({ section, name, status: 'added' });
+        } else if (!itemB) {
+            entries.push({ section, name, status: 'removed' });
+        } else {
+            const changes = diffValues(section, describe(itemA), describe(itemB)).map(
+                ({ name: field, from, to }) => ({
+                    field,
+                    ...(from !== undefined ? { from } : {}),
+                    ...(to !== undefined ? { to } : {}),
+                })
+            );
+            if (changes.length > 0) {
+                entries.push({ section, name, status: 'changed', changes });
+            }
+        }
+    }
+    return entries;
+}
+
+function describeGroup(group: CoaGroupSpec): Record<string, string | undefined> {
+    return {
+        parent: group.parent,
+        hidden: group.hidden ? 'true' : undefined,
+        ...prefixProperties(group.properties),
+    };
+}
+
+function describeAccount(account: CoaAccountSpec): Record<string, string | undefined> {
+    return {
+        type: account.type,
+        archived: account.archived ? 'true' : undefined,
+        groups: account.groups && account.groups.length > 0 ? account.groups.join(', ') : undefined,
+        ...prefixProperties(account.properties),
+    };
+}
+
+function prefixProperties(properties: Record<string, string> | undefined): Record<string, string> {
+    const prefixed: Record<string, string> = {};
+    for (const [key, value] of Object.entries(properties || {})) {
+        prefixed[`properties.${key}`] = value;
+    }
+    return prefixed;
+}
@@ -0,0 +1,332 @@
+import { createHash } from 'node:crypto';
+import { Account, Book, File as BkperFile, Group, Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { openZipWriter, type ZipEntry, type ZipWriter } from '../../utils/zip.js';
+import { iterateTransactionPages } from '../transactions/list.js';
+import { compareCodePoints } from '../../utils/compare.js';
+
+/**
+ * Identifies a book export archive.
+ */
+export const BOOK_EXPORT_FORMAT = 'bkper-book-export';
+
+/**
+ * Version of the archive layout. Readers reject archives with a newer version.
+ */
+export const BOOK_EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Paths inside a book export archive (format version 1), in archive order:
+ *
+ * - `book.json`: book settings and properties
+ * - `groups.json`: groups as a JSON array, parents before their children
+ * - `accounts.json`: accounts as a JSON array, sorted by name
+ * - `transactions.ndjson`: one transaction per line, trashed included
+ * - `files.ndjson`: one file metadata record per line, without content
+ * - `files/<fileId>`: file contents, only with `includeFiles`
+ * - `manifest.json`: format, version, export time, book, counts and the size
+ *   and SHA-256 of every other entry; written last, once they are known
+ */
+export const BOOK_EXPORT_PATHS = {
+    manifest: 'manifest.json',
+    book: 'book.json',
+    groups: 'groups.json',
+    accounts: 'accounts.json',
+    transactions: 'transactions.ndjson',
+    files: 'files.ndjson',
+    fileContentPrefix: 'files/',
+} as const;
+
+const FILE_PAGE_SIZE = 100;
+
+/**
+ * Options for exporting a book.
+ */
+export interface ExportBookOptions {
+    /** Path of the zip archive to write. */
+    out: string;
+    /** Also store the content of every file. */
+    includeFiles?: boolean;
+}
+
+/**
+ * Number of records of each kind in a book export.
+ */
+export interface BookExportCounts {
+    groups: number;
+    accounts: number;
+    transactions: number;
+    files: number;
+    fileContents: number;
+}
+
+/**
+ * Size and SHA-256 checksum of one archive entry.
+ */
+export interface BookExportChecksum {
+    path: string;
+    size: number;
+    sha256: string;
+}
+
+/**
+ * The `manifest.json` entry of a book export.
+ */
+export interface BookExportManifest {
+    format: typeof BOOK_EXPORT_FORMAT;
+    formatVersion: number;
+    exportedAt: string;
+    book: { id: string; name: string };
+    counts: BookExportCounts;
+    entries: BookExportChecksum[];
+}
+
+/**
+ * Summary of a completed export.
+ */
+export interface ExportBookResult {
+    out: string;
+    bytes: number;
+    manifest: BookExportManifest;
+}
+
+/**
+ * Exports a book into a zip archive: settings and properties, groups,
+ * accounts, every transaction, file metadata and, optionally, file contents,
+ * with a manifest of counts and checksums. See {@link BOOK_EXPORT_PATHS} for
+ * the layout.
+ *
+ * Entries are written to the archive as they are fetched: transactions one
+ * page at a time and file contents one file at a time, so books of any size
+ * export in bounded memory. Trashed transactions are fetched with a separate
+ * `is:trashed` query. The partial archive is removed if the export fails.
+ *
+ * @param bookId - The book to export
+ * @param options - Output path and whether to include file contents
+ * @returns The archive path, size and manifest
+ * @throws Error if the archive would exceed the zip limits (65535 entries, 4 GiB)
+ */
+export async function exportBook(
+    bookId: string,
+    options: ExportBookOptions
+): Promise<ExportBookResult> {
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId, true, true);
+
+    const groups: Group[] = (await book.getGroups()) || [];
+    const accounts: Account[] = (await book.getAccounts()) || [];
+
+    const bookJson: bkper.Book = { ...book.json() };
+    delete bookJson.accounts;
+    delete bookJson.groups;
+
+    const zip = await openZipWriter(options.out);
+    try {
+        const checksums: BookExportChecksum[] = [];
+        const counts: BookExportCounts = {
+            groups: groups.length,
+            accounts: accounts.length,
+            transactions: 0,
+            files: 0,
+            fileContents: 0,
+        };
+
+        await addEntry(zip, checksums, jsonEntry(BOOK_EXPORT_PATHS.book, bookJson));
+        await addEntry(
+            zip,
+            checksums,
+            jsonEntry(
+                BOOK_EXPORT_PATHS.groups,
+                sortGroupsParentFirst(groups.map(group => group.json()))
+            )
+        );
+        await addEntry(
+            zip,
+            checksums,
+            jsonEntry(
+                BOOK_EXPORT_PATHS.accounts,
+                accounts
+                    .map(account => account.json())
+                    .sort((a, b) => compareCodePoints(a.name || '', b.name || ''))
+            )
+        );
+
+        await addStreamEntry(
+            zip,
+            checksums,
+            BOOK_EXPORT_PATHS.transactions,
+            ndjsonChunks(iterateAllTransactions(book), tx => {
+                counts.transactions++;
+                return tx.json();
+            })
+        );
+
+        const files: BkperFile[] = [];
+        await addStreamEntry(
+            zip,
+            checksums,
+            BOOK_EXPORT_PATHS.files,
+            ndjsonChunks(iterateFiles(book), file => {
+                files.push(file);
+                counts.files++;
+                const json = { ...file.json() };
+                delete json.content;
+                return json;
+            })
+        );
+
+        if (options.includeFiles) {
+            for (const file of files) {
+                const content = await file.getContent();
+                if (content !== undefined) {
+                    await addEntry(zip, checksums, {
+                        name: `${BOOK_EXPORT_PATHS.fileContentPrefix}${file.getId()}`,
+                        data: Buffer.from(content, 'base64'),
+                    });
+                    counts.fileContents++;
+                }
+            }
+        }
+
+        const manifest: BookExportManifest = {
+            format: BOOK_EXPORT_FORMAT,
+            formatVersion: BOOK_EXPORT_FORMAT_VERSION,
+            exportedAt: new Date().toISOString(),
+            book: { id: book.getId(), name: book.getName() || '' },
+            counts,
+            entries: checksums,
+        };
+        await zip.add(jsonEntry(BOOK_EXPORT_PATHS.manifest, manifest));
+        const bytes = await zip.close();
+
+        return { out: options.out, bytes, manifest };
+    } catch (err) {
+        await zip.abort();
+        throw err;
+    }
+}
+
+/**
+ * Formats a one-line, human-readable summary of an export.
+ */
+export function formatExportSummary(result: ExportBookResult): string {
+    const { book, counts } = result.manifest;
+    const contents = counts.fileContents > 0 ? ` (${counts.fileContents} with content)` : '';
+    return (
+        `Exported ${book.name || book.id} to ${result.out} (${result.bytes} bytes): ` +
+        `${counts.groups} group(s), ${counts.accounts} account(s), ` +
+        `${counts.transactions} transaction(s), ${counts.files} file(s)${contents}.`
+    );
+}
+
+/**
+ * Orders groups so every parent comes before its children, walking the tree
+ * from the root groups with siblings sorted by name.
+ */
+export function sortGroupsParentFirst(groups: bkper.Group[]): bkper.Group[] {
+    const ids = new Set(groups.map(group => group.id));
+    const children = new Map<string | undefined, bkper.Group[]>();
+    for (const group of groups) {
+        const parentId = group.parent?.id;
+        // Groups whose parent is missing are treated as roots
+        const key = parentId && ids.has(parentId) ? parentId : undefined;
+        children.set(key, [...(children.get(key) || []), group]);
+    }
+
+    const sorted: bkper.Group[] = [];
+    const visit = (parentId: string | undefined) => {
+        const siblings = (children.get(parentId) || []).sort((a, b) =>
+            compareCodePoints(a.name || '', b.name || '')
+        );
+        for (const group of siblings) {
+            sorted.push(group);
+            visit(group.id);
+        }
+    };
+    visit(undefined);
+    return sorted;
+}
+
+/**
+ * Yields every transaction of the book one page at a time, trashed
+ * transactions included, each once.
+ */
+async function* iterateAllTransactions(book: Book): AsyncGenerator<Transaction[]> {
+    const seen = new Set<string>();
+    for (const query of ['', 'is:trashed']) {
+        for await (const page of iterateTransactionPages(book, query)) {
+            yield page.items.filter(tx => {
+                const id = tx.getId() || '';
+                if (seen.has(id)) {
+                    return false;
+                }
+                seen.add(id);
+                return true;
+            });
+        }
+    }
+}
+
+async function* iterateFiles(book: Book): AsyncGenerator<BkperFile[]> {
+    let cursor: string | undefined;
+    do {
+        const page = await book.listFiles(FILE_PAGE_SIZE, cursor);
+        const items: BkperFile[] = page.getItems() || [];
+        yield items;
+        const nextCursor = page.getCursor();
+        if (!nextCursor || items.length === 0 || nextCursor === cursor) {
+            break;
+        }
+        cursor = nextCursor;
+    } while (true);
+}
+
+/**
+ * Turns pages of records into NDJSON chunks, one chunk per page.
+ */
+async function* ndjsonChunks<T>(
+    pages: AsyncIterable<T[]>,
+    toJson: (record: T) => unknown
+): AsyncGenerator<Buffer> {
+    for await (const page of pages) {
+        const lines = page.map(record => `${JSON.stringify(toJson(record))}\n`);
+        yield Buffer.from(lines.join(''), 'utf8');
+    }
+}
+
+async function addEntry(
+    zip: ZipWriter,
+    checksums: BookExportChecksum[],
+    entry: ZipEntry
+): Promise<void> {
+    await zip.add(entry);
+    checksums.push({ path: entry.name, size: entry.data.length, sha256: sha256(entry.data) });
+}
+
+/**
+ * Streams an entry into the archive, hashing its chunks as they pass.
+ */
+async function addStreamEntry(
+    zip: ZipWriter,
+    checksums: BookExportChecksum[],
+    path: string,
+    chunks: AsyncIterable<Buffer>
+): Promise<void> {
+    const hash = createHash('sha256');
+    async function* hashed() {
+        for await (const chunk of chunks) {
+            hash.update(chunk);
+            yield chunk;
+        }
+    }
+    const size = await zip.addStream(path, hashed());
+    checksums.push({ path, size, sha256: hash.digest('hex') });
+}
+
+function jsonEntry(name: string, value: unknown): ZipEntry {
+    return { name, data: Buffer.from(`${JSON.stringify(value, null, 2)}\n`, 'utf8') };
+}
+
+function sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
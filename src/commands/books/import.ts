@@ -0,0 +1,550 @@
+import { createHash } from 'node:crypto';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { Account, Bkper, Book, DecimalSeparator, Group, Period, Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { openZipReader, type ZipReader } from '../../utils/zip.js';
+import { buildAccountFromStdin } from '../accounts/batch-create.js';
+import { buildTransactionsFromItems } from '../transactions/batch-create.js';
+import { BULK_CHUNK_SIZE } from '../transactions/bulk.js';
+import {
+    BOOK_EXPORT_FORMAT,
+    BOOK_EXPORT_FORMAT_VERSION,
+    BOOK_EXPORT_PATHS,
+    sortGroupsParentFirst,
+    type BookExportManifest,
+} from './export.js';
+import { ValidationError } from '../../utils/validation.js';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+
+/**
+ * Options for importing a book archive.
+ */
+export interface ImportBookOptions {
+    /** Name of the new book; defaults to the name of the archived book. */
+    name?: string;
+    /** Progress file path; defaults to the archive path with `.progress.json` appended. */
+    progress?: string;
+}
+
+/**
+ * The contents of a book export archive, verified against its manifest.
+ * Transactions are not held in memory: read them with
+ * {@link readArchivedTransactions}.
+ */
+export interface BookArchive {
+    manifest: BookExportManifest;
+    book: bkper.Book;
+    groups: bkper.Group[];
+    accounts: bkper.Account[];
+}
+
+/**
+ * Progress of an import, saved after every step so a failed import can
+ * resume into the same book.
+ */
+export interface BookImportProgress {
+    /** SHA-256 of the archive manifest, identifying the archive being restored. */
+    archive: string;
+    name: string;
+    bookId: string;
+    /** New group IDs by archived group ID. */
+    groups: Record<string, string>;
+    /** New account IDs by archived account ID. */
+    accounts: Record<string, string>;
+    /** Number of archived transactions already replayed, in archive order. */
+    transactions: number;
+}
+
+/**
+ * Summary of a completed import.
+ */
+export interface ImportBookResult {
+    bookId: string;
+    name: string;
+    resumed: boolean;
+    counts: { groups: number; accounts: number; transactions: number };
+}
+
+/**
+ * Reads a book export archive, checking its format version and the size and
+ * checksum of every entry listed in the manifest. Entries are checked one
+ * chunk at a time, so the archive is never held in memory.
+ *
+ * @param archivePath - Path of the zip archive
+ * @returns The archived book, groups and accounts
+ * @throws NotFoundError if the archive cannot be read
+ * @throws ValidationError if the archive is not a book export, is newer than this CLI or is corrupt
+ */
+export async function readBookArchive(archivePath: string): Promise<BookArchive> {
+    const zip = await openBookArchive(archivePath);
+    try {
+        if (!zip.names.includes(BOOK_EXPORT_PATHS.manifest)) {
+            throw new ValidationError([
+                `Not a book archive: ${archivePath} has no ${BOOK_EXPORT_PATHS.manifest}`,
+            ]);
+        }
+        const manifest = parseJson(
+            await readEntry(zip, BOOK_EXPORT_PATHS.manifest),
+            BOOK_EXPORT_PATHS.manifest
+        ) as BookExportManifest;
+        if (manifest.format !== BOOK_EXPORT_FORMAT) {
+            throw new ValidationError([
+                `Not a book archive: ${archivePath} has format ${manifest.format}`,
+            ]);
+        }
+        if (
+            !Number.isInteger(manifest.formatVersion) ||
+            manifest.formatVersion > BOOK_EXPORT_FORMAT_VERSION
+        ) {
+            throw new ValidationError([
+                `Unsupported book archive version ${manifest.formatVersion} (this CLI reads up to ${BOOK_EXPORT_FORMAT_VERSION})`,
+            ]);
+        }
+
+        for (const expected of manifest.entries || []) {
+            if (!zip.names.includes(expected.path)) {
+                throw new ValidationError([`Book archive is missing ${expected.path}`]);
+            }
+            const hash = createHash('sha256');
+            let size = 0;
+            for await (const chunk of streamEntry(zip, expected.path)) {
+                hash.update(chunk);
+                size += chunk.length;
+            }
+            if (size !== expected.size || hash.digest('hex') !== expected.sha256) {
+                throw new ValidationError([`Book archive checksum mismatch: ${expected.path}`]);
+            }
+        }
+
+        const read = async (path: string) => {
+            if (!zip.names.includes(path)) {
+                throw new ValidationError([`Book archive is missing ${path}`]);
+            }
+            return parseJson(await readEntry(zip, path), path);
+        };
+        if (!zip.names.includes(BOOK_EXPORT_PATHS.transactions)) {
+            throw new ValidationError([
+                `Book archive is missing ${BOOK_EXPORT_PATHS.transactions}`,
+            ]);
+        }
+
+        return {
+            manifest,
+            book: (await read(BOOK_EXPORT_PATHS.book)) as bkper.Book,
+            groups: (await read(BOOK_EXPORT_PATHS.groups)) as bkper.Group[],
+            accounts: (await read(BOOK_EXPORT_PATHS.accounts)) as bkper.Account[],
+        };
+    } finally {
+        await zip.close();
+    }
+}
+
+/**
+ * Reads the archived transactions in archive order, one chunk of
+ * {@link BULK_CHUNK_SIZE} at a time, so only one chunk is held in memory.
+ *
+ * @param archivePath - Path of a zip archive checked by {@link readBookArchive}
+ * @param skip - Number of transactions to skip, e.g. those already replayed
+ * @throws ValidationError if a line is not valid JSON or the entry is corrupt
+ */
+export async function* readArchivedTransactions(
+    archivePath: string,
+    skip = 0
+): AsyncGenerator<bkper.Transaction[]> {
+    const path = BOOK_EXPORT_PATHS.transactions;
+    const zip = await openBookArchive(archivePath);
+    try {
+        const lines = createInterface({
+            input: Readable.from(streamEntry(zip, path)),
+            crlfDelay: Infinity,
+        });
+        let chunk: bkper.Transaction[] = [];
+        let index = 0;
+        let number = 0;
+        for await (const line of lines) {
+            number++;
+            if (line.trim() === '') {
+                continue;
+            }
+            if (index++ < skip) {
+                continue;
+            }
+            try {
+                chunk.push(JSON.parse(line));
+            } catch {
+                throw new ValidationError([`Invalid JSON in ${path} at line ${number}`]);
+            }
+            if (chunk.length === BULK_CHUNK_SIZE) {
+                yield chunk;
+                chunk = [];
+            }
+        }
+        if (chunk.length > 0) {
+            yield chunk;
+        }
+    } finally {
+        await zip.close();
+    }
+}
+
+/**
+ * Restores a book export archive into a new book.
+ *
+ * Groups are created parent first, then accounts with their group links, then
+ * transactions in batches with account IDs remapped to the new book. Posted,
+ * checked and trashed states are replayed after each batch. The lock and
+ * closing dates are set last, so they do not block older transactions.
+ *
+ * Progress is saved to a file after every step. When an import fails, running
+ * it again with the same archive resumes into the same book; the progress file
+ * is removed once the import completes. Each transaction keeps its archived ID
+ * as a remote ID, so a batch replayed after a failure is not created twice.
+ *
+ * @param archivePath - Path of the zip archive written by `book export`
+ * @param options - Name of the new book and progress file path
+ * @returns The new book and the number of records restored
+ */
+export async function importBook(
+    archivePath: string,
+    options: ImportBookOptions = {}
+): Promise<ImportBookResult> {
+    const archive = await readBookArchive(archivePath);
+    const archiveId = sha256(Buffer.from(JSON.stringify(archive.manifest)));
+    const progressPath = options.progress || `${archivePath}.progress.json`;
+    const name = options.name || archive.book.name || archive.manifest.book.name;
+    if (!name) {
+        throw new ValidationError(['Book name is required: the archive has none, use --name']);
+    }
+
+    const saved = await loadProgress(progressPath);
+    if (saved && saved.archive !== archiveId) {
+        throw new ConflictError(
+            `Progress file ${progressPath} belongs to another archive: delete it to start over`
+        );
+    }
+    if (saved && saved.name !== name) {
+        throw new ConflictError(
+            `An unfinished import into "${saved.name}" (${saved.bookId}) exists: rerun with --name "${saved.name}" to resume, or delete ${progressPath} to start over`
+        );
+    }
+
+    const bkper = getBkperInstance();
+    let progress: BookImportProgress;
+    let book: Book;
+    if (saved) {
+        progress = saved;
+        book = await bkper.getBook(saved.bookId, true, true);
+        console.error(`Resuming import into ${name} (${saved.bookId}).`);
+    } else {
+        const created = await buildBook(archive.book, name, bkper).create();
+        progress = {
+            archive: archiveId,
+            name,
+            bookId: created.getId(),
+            groups: {},
+            accounts: {},
+            transactions: 0,
+        };
+        await saveProgress(progressPath, progress);
+        book = await bkper.getBook(progress.bookId, true, true);
+    }
+
+    await restoreGroups(book, archive.groups, progress, progressPath);
+    await restoreAccounts(book, archive.accounts, progress, progressPath);
+    await restoreTransactions(book, archivePath, progress, progressPath);
+
+    if (archive.book.lockDate || archive.book.closingDate) {
+        if (archive.book.lockDate) book.setLockDate(archive.book.lockDate);
+        if (archive.book.closingDate) book.setClosingDate(archive.book.closingDate);
+        await book.update();
+    }
+
+    await rm(progressPath, { force: true });
+
+    return {
+        bookId: progress.bookId,
+        name,
+        resumed: saved !== undefined,
+        counts: {
+            groups: Object.keys(progress.groups).length,
+            accounts: Object.keys(progress.accounts).length,
+            transactions: progress.transactions,
+        },
+    };
+}
+
+/**
+ * Formats a one-line, human-readable summary of an import.
+ */
+export function formatImportSummary(result: ImportBookResult): string {
+    const { groups, accounts, transactions } = result.counts;
+    return (
+        `${result.resumed ? 'Resumed and restored' : 'Restored'} ${result.name} (${
+            result.bookId
+        }): ` + `${groups} group(s), ${accounts} account(s), ${transactions} transaction(s).`
+    );
+}
+
+/**
+ * Builds the payload of a restored transaction: archived fields with account
+ * IDs remapped to the new book, and the archived ID added to the remote IDs.
+ * States (posted, checked, trashed) are left out, as they are replayed after
+ * creation.
+ *
+ * @param transaction - The archived transaction
+ * @param accountIds - New account IDs by archived account ID
+ * @throws ValidationError if an account of the transaction was not restored
+ */
+export function buildRestoredTransactionPayload(
+    transaction: bkper.Transaction,
+    accountIds: Record<string, string>
+): bkper.Transaction {
+    const payload: bkper.Transaction = {
+        date: transaction.date,
+        amount: transaction.amount,
+        description: transaction.description,
+    };
+
+    const creditAccount = remapAccount(transaction.creditAccount, accountIds, transaction);
+    if (creditAccount) {
+        payload.creditAccount = creditAccount;
+    }
+    const debitAccount = remapAccount(transaction.debitAccount, accountIds, transaction);
+    if (debitAccount) {
+        payload.debitAccount = debitAccount;
+    }
+    if (transaction.properties) {
+        payload.properties = { ...transaction.properties };
+    }
+    if (transaction.urls && transaction.urls.length > 0) {
+        payload.urls = [...transaction.urls];
+    }
+
+    const remoteIds = [...(transaction.remoteIds || [])];
+    if (transaction.id && !remoteIds.includes(transaction.id)) {
+        remoteIds.push(transaction.id);
+    }
+    if (remoteIds.length > 0) {
+        payload.remoteIds = remoteIds;
+    }
+
+    return payload;
+}
+
+function buildBook(archived: bkper.Book, name: string, bkper: Bkper): Book {
+    const book = new Book({ name }, bkper.getConfig());
+    book.setName(name);
+    if (archived.fractionDigits !== undefined) book.setFractionDigits(archived.fractionDigits);
+    if (archived.datePattern !== undefined) book.setDatePattern(archived.datePattern);
+    if (archived.decimalSeparator !== undefined)
+        book.setDecimalSeparator(archived.decimalSeparator as DecimalSeparator);
+    if (archived.timeZone !== undefined) book.setTimeZone(archived.timeZone);
+    if (archived.period !== undefined) book.setPeriod(archived.period as Period);
+    for (const [key, value] of Object.entries(archived.properties || {})) {
+        book.setProperty(key, value);
+    }
+    return book;
+}
+
+async function restoreGroups(
+    book: Book,
+    groups: bkper.Group[],
+    progress: BookImportProgress,
+    progressPath: string
+): Promise<void> {
+    for (const archived of sortGroupsParentFirst(groups)) {
+        const archivedId = archived.id || archived.name || '';
+        if (progress.groups[archivedId]) {
+            continue;
+        }
+
+        // A group created right before a failure may be missing from the progress file
+        let group: Group | undefined = archived.name
+            ? await book.getGroup(archived.name)
+            : undefined;
+        if (!group) {
+            group = new Group(book).setName(archived.name);
+            if (archived.hidden !== undefined) group.setHidden(archived.hidden);
+            for (const [key, value] of Object.entries(archived.properties || {})) {
+                group.setProperty(key, value);
+            }
+            const parentId = archived.parent?.id && progress.groups[archived.parent.id];
+            if (parentId) {
+                const parent = await book.getGroup(parentId);
+                if (parent) {
+                    group.setParent(parent);
+                }
+            }
+            group = await group.create();
+        }
+
+        progress.groups[archivedId] = group.getId() || '';
+        await saveProgress(progressPath, progress);
+    }
+}
+
+async function restoreAccounts(
+    book: Book,
+    accounts: bkper.Account[],
+    progress: BookImportProgress,
+    progressPath: string
+): Promise<void> {
+    const pending: bkper.Account[] = [];
+    for (const archived of accounts) {
+        const archivedId = archived.id || archived.name || '';
+        if (progress.accounts[archivedId]) {
+            continue;
+        }
+        // An account created right before a failure may be missing from the progress file
+        const existing: Account | undefined = archived.name
+            ? await book.getAccount(archived.name)
+            : undefined;
+        if (existing) {
+            progress.accounts[archivedId] = existing.getId() || '';
+        } else {
+            pending.push(archived);
+        }
+    }
+    await saveProgress(progressPath, progress);
+
+    for (let i = 0; i < pending.length; i += BULK_CHUNK_SIZE) {
+        const chunk = pending.slice(i, i + BULK_CHUNK_SIZE);
+        const built: Account[] = [];
+        for (const archived of chunk) {
+            built.push(
+                await buildAccountFromStdin(book, {
+                    name: archived.name,
+                    type: archived.type,
+                    archived: archived.archived,
+                    properties: { ...(archived.properties || {}) },
+                    groups: (archived.groups || []).map(ref => {
+                        const id = ref.id && progress.groups[ref.id];
+                        return id ? { id } : { name: ref.name };
+                    }),
+                })
+            );
+        }
+
+        const created: Account[] = await book.batchCreateAccounts(built);
+        chunk.forEach((archived, index) => {
+            progress.accounts[archived.id || archived.name || ''] = created[index]?.getId() || '';
+        });
+        await saveProgress(progressPath, progress);
+    }
+}
+
+async function restoreTransactions(
+    book: Book,
+    archivePath: string,
+    progress: BookImportProgress,
+    progressPath: string
+): Promise<void> {
+    for await (const chunk of readArchivedTransactions(archivePath, progress.transactions)) {
+        const payloads = chunk.map(tx => buildRestoredTransactionPayload(tx, progress.accounts));
+        const created: Transaction[] = await book.batchCreateTransactions(
+            buildTransactionsFromItems(book, payloads)
+        );
+
+        const toPost: Transaction[] = [];
+        const toCheck: Transaction[] = [];
+        const toTrash: Transaction[] = [];
+        chunk.forEach((archived, index) => {
+            const tx = created[index];
+            if (!tx) {
+                return;
+            }
+            if (archived.posted && !tx.isPosted()) toPost.push(tx);
+            if (archived.checked && !tx.isChecked()) toCheck.push(tx);
+            if (archived.trashed && !tx.isTrashed()) toTrash.push(tx);
+        });
+        if (toPost.length > 0) await book.batchPostTransactions(toPost);
+        if (toCheck.length > 0) await book.batchCheckTransactions(toCheck);
+        if (toTrash.length > 0) await book.batchTrashTransactions(toTrash);
+
+        progress.transactions += chunk.length;
+        await saveProgress(progressPath, progress);
+    }
+}
+
+function remapAccount(
+    account: bkper.Account | undefined,
+    accountIds: Record<string, string>,
+    transaction: bkper.Transaction
+): bkper.Account | undefined {
+    if (!account) {
+        return undefined;
+    }
+    const id = account.id && accountIds[account.id];
+    if (id) {
+        return { id };
+    }
+    if (account.name) {
+        return { name: account.name };
+    }
+    throw new ValidationError([
+        `Account ${account.id} of transaction ${transaction.id} is not in the archive`,
+    ]);
+}
+
+async function loadProgress(progressPath: string): Promise<BookImportProgress | undefined> {
+    let content: string;
+    try {
+        content = await readFile(progressPath, 'utf8');
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw new Error(`Progress file not readable: ${progressPath}`);
+    }
+    return parseJson(Buffer.from(content), progressPath) as BookImportProgress;
+}
+
+async function saveProgress(progressPath: string, progress: BookImportProgress): Promise<void> {
+    await writeFile(progressPath, `${JSON.stringify(progress, null, 2)}\n`, 'utf8');
+}
+
+function parseJson(data: Buffer, path: string): unknown {
+    try {
+        return JSON.parse(data.toString('utf8'));
+    } catch {
+        throw new ValidationError([`Invalid JSON in ${path}`]);
+    }
+}
+
+async function openBookArchive(archivePath: string): Promise<ZipReader> {
+    try {
+        return await openZipReader(archivePath);
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new NotFoundError('Archive', archivePath);
+        }
+        throw new ValidationError([
+            `Archive not readable: ${archivePath}: ${(err as Error).message}`,
+        ]);
+    }
+}
+
+async function readEntry(zip: ZipReader, path: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of streamEntry(zip, path)) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Streams an archive entry, reporting a corrupt entry as a validation error.
+ */
+async function* streamEntry(zip: ZipReader, path: string): AsyncGenerator<Buffer> {
+    try {
+        yield* zip.stream(path);
+    } catch (err: unknown) {
+        throw new ValidationError([(err as Error).message]);
+    }
+}
+
+function sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
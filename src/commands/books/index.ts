@@ -1,5 +1,56 @@
 export { listBooks, listBooksFormatted } from './list.js';
 export { getBook } from './get.js';
-export { createBook, CreateBookOptions } from './create.js';
-export { copyBook, CopyBookOptions } from './copy.js';
-export { updateBook, UpdateBookOptions } from './update.js';
+export { createBook, type CreateBookOptions } from './create.js';
+export { copyBook, type CopyBookOptions } from './copy.js';
+export { updateBook, type UpdateBookOptions } from './update.js';
+export {
+    exportBook,
+    formatExportSummary,
+    sortGroupsParentFirst,
+    type ExportBookOptions,
+    type ExportBookResult,
+    type BookExportManifest,
+    type BookExportCounts,
+    type BookExportChecksum,
+    BOOK_EXPORT_FORMAT,
+    BOOK_EXPORT_FORMAT_VERSION,
+    BOOK_EXPORT_PATHS,
+} from './export.js';
+export {
+    importBook,
+    readBookArchive,
+    readArchivedTransactions,
+    formatImportSummary,
+    buildRestoredTransactionPayload,
+    type ImportBookOptions,
+    type ImportBookResult,
+    type BookArchive,
+    type BookImportProgress,
+} from './import.js';
+export {
+    diffBooks,
+    buildBookDiff,
+    formatBookDiff,
+    type BookDiff,
+    type BookDiffEntry,
+    type BookDiffChange,
+    type BookDiffSection,
+    type BookStructure,
+    BOOK_DIFF_SETTINGS,
+} from './diff.js';
+export {
+    closeBook,
+    parseClosingPeriod,
+    buildClosingEntries,
+    buildClosingChecks,
+    buildClosingMatrix,
+    formatClosingReport,
+    CLOSING_ACCOUNT_TYPES,
+    CLOSING_PERIOD_PROPERTY,
+    type CloseBookOptions,
+    type ClosingPeriod,
+    type ClosingAccountBalance,
+    type ClosingEntry,
+    type ClosingChecks,
+    type ClosingReport,
+} from './close.js';
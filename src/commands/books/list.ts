@@ -1,6 +1,11 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Book, BooksDataTableBuilder } from 'bkper-js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import {
+    isJsonFormat,
+    isSpreadsheetFormat,
+    type OutputFormat,
+    type ListResult,
+} from '../../render/output.js';
 
 /**
  * Lists books matching an optional query string.
@@ -24,7 +29,7 @@ export async function listBooksFormatted(
 ): Promise<ListResult> {
     const books = await listBooks(query);
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         return { kind: 'json', items: books.map(b => b.json()) };
     }
 
@@ -45,7 +50,7 @@ export async function listBooksFormatted(
     });
 
     const builder = new BooksDataTableBuilder(books).ids(true);
-    if (format === 'csv') {
+    if (isSpreadsheetFormat(format)) {
         builder.properties(true).hiddenProperties(true);
     }
     const matrix = builder.build();
@@ -1,9 +1,25 @@
 import type { Command } from 'commander';
 import { withAction } from '../action.js';
-import { collectProperty } from '../cli-helpers.js';
-import { renderListResult, renderItem } from '../../render/index.js';
+import { collectProperty, getOutputFile } from '../cli-helpers.js';
+import { isJsonFormat, renderListResult, renderItem } from '../../render/index.js';
 import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
-import { listBooksFormatted, getBook, createBook, copyBook, updateBook } from './index.js';
+import { EXIT_CODES } from '../../utils/errors.js';
+import {
+    listBooksFormatted,
+    getBook,
+    createBook,
+    copyBook,
+    updateBook,
+    exportBook,
+    formatExportSummary,
+    importBook,
+    formatImportSummary,
+    diffBooks,
+    formatBookDiff,
+    closeBook,
+    buildClosingMatrix,
+    formatClosingReport,
+} from './index.js';
 
 export function registerBookCommands(program: Command): void {
     const bookCommand = program.command('book').description('Manage Books');
@@ -13,9 +29,9 @@ export function registerBookCommands(program: Command): void {
         .description('List all books')
         .option('-q, --query <query>', 'Search query')
         .action(options =>
-            withAction('listing books', async format => {
+            withAction('listing books', async (format, output) => {
                 const result = await listBooksFormatted(options.query, format);
-                renderListResult(result, format);
+                renderListResult(result, format, output);
             })()
         );
 
@@ -23,9 +39,9 @@ export function registerBookCommands(program: Command): void {
         .command('get <bookId>')
         .description('Get a book by ID')
         .action((bookId: string) =>
-            withAction('getting book', async format => {
+            withAction('getting book', async (format, output) => {
                 const book = await getBook(bookId);
-                renderItem(book.json(), format);
+                renderItem(book.json(), format, output);
             })()
         );
 
@@ -43,7 +59,7 @@ export function registerBookCommands(program: Command): void {
         .option('--period <period>', 'Period (MONTH, QUARTER, or YEAR)')
         .option('-p, --property <key=value>', 'Set a property (repeatable)', collectProperty)
         .action(options =>
-            withAction('creating book', async format => {
+            withAction('creating book', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'name', flag: '--name' }]));
                 const book = await createBook({
                     name: options.name,
@@ -54,7 +70,7 @@ export function registerBookCommands(program: Command): void {
                     period: options.period,
                     property: options.property,
                 });
-                renderItem(book.json(), format);
+                renderItem(book.json(), format, output);
             })()
         );
 
@@ -65,14 +81,14 @@ export function registerBookCommands(program: Command): void {
         .option('--transactions', 'Copy transactions (source book owner only)')
         .option('--from-date <date>', 'Copy transactions from this date (YYYY-MM-DD)')
         .action((bookId: string, options) =>
-            withAction('copying book', async format => {
+            withAction('copying book', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'name', flag: '--name' }]));
                 const book = await copyBook(bookId, {
                     name: options.name,
                     transactions: options.transactions,
                     fromDate: options.fromDate,
                 });
-                renderItem(book.json(), format);
+                renderItem(book.json(), format, output);
             })()
         );
 
@@ -96,7 +112,7 @@ export function registerBookCommands(program: Command): void {
             collectProperty
         )
         .action((bookId: string, options) =>
-            withAction('updating book', async format => {
+            withAction('updating book', async (format, output) => {
                 const book = await updateBook(bookId, {
                     name: options.name,
                     fractionDigits: options.fractionDigits,
@@ -108,7 +124,126 @@ export function registerBookCommands(program: Command): void {
                     period: options.period,
                     property: options.property,
                 });
-                renderItem(book.json(), format);
+                renderItem(book.json(), format, output);
+            })()
+        );
+
+    bookCommand
+        .command('export <bookId>')
+        .description('Export a book to a zip archive')
+        .option('--include-files', 'Also export the content of attached files')
+        .action((bookId: string, options) =>
+            withAction(
+                'exporting book',
+                async (format, output) => {
+                    // The root program parses --out, which names the zip archive here
+                    const out = getOutputFile();
+                    throwIfErrors(
+                        validateRequiredOptions({ out }, [{ name: 'out', flag: '--out' }])
+                    );
+                    const result = await exportBook(bookId, {
+                        out: out!,
+                        includeFiles: options.includeFiles,
+                    });
+                    if (isJsonFormat(format)) {
+                        renderItem(result, format, output);
+                    } else {
+                        console.log(formatExportSummary(result));
+                    }
+                },
+                { writesOutFile: true }
+            )()
+        );
+
+    bookCommand
+        .command('import <archive>')
+        .description('Restore a book from an export archive into a new book')
+        .option('--name <name>', 'Name for the new book (defaults to the archived name)')
+        .option(
+            '--progress <file>',
+            'Progress file used to resume (defaults to <archive>.progress.json)'
+        )
+        .action((archive: string, options) =>
+            withAction('importing book', async (format, output) => {
+                const result = await importBook(archive, {
+                    name: options.name,
+                    progress: options.progress,
+                });
+                if (isJsonFormat(format)) {
+                    renderItem(result, format, output);
+                } else {
+                    console.log(formatImportSummary(result));
+                }
+            })()
+        );
+
+    bookCommand
+        .command('diff <bookA> <bookB>')
+        .description('Compare the settings, properties, groups and accounts of two books')
+        .action((bookA: string, bookB: string) =>
+            withAction('comparing books', async (format, output) => {
+                const diff = await diffBooks(bookA, bookB);
+                if (isJsonFormat(format)) {
+                    renderItem(diff, format, output);
+                } else {
+                    const color = process.stdout.isTTY === true && !process.env.NO_COLOR;
+                    console.log(formatBookDiff(diff, color));
+                }
+                // Exit with a distinct code when the books differ, so CI can tell it from a failure
+                if (!diff.identical) {
+                    process.exitCode = EXIT_CODES.differences;
+                }
+            })()
+        );
+
+    bookCommand
+        .command('close')
+        .description(
+            'Close a period: check it, close income and expenses into retained earnings, set closing and lock dates'
+        )
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('--period <period>', 'Period to close: YYYY, YYYY-Qn or YYYY-MM')
+        .option(
+            '--retained-earnings <account>',
+            'Asset or liability account income and expenses are closed into'
+        )
+        .option('--dry-run', 'Show the closing report without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action(options =>
+            withAction('closing period', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'period', flag: '--period' },
+                        { name: 'retainedEarnings', flag: '--retained-earnings' },
+                    ])
+                );
+                const report = await closeBook(options.book, {
+                    period: options.period,
+                    retainedEarnings: options.retainedEarnings,
+                    dryRun: options.dryRun,
+                    yes: options.yes,
+                });
+                if (isJsonFormat(format)) {
+                    renderItem(report, format, output);
+                } else {
+                    renderListResult(
+                        {
+                            kind: 'matrix',
+                            matrix: buildClosingMatrix(report),
+                            footer: formatClosingReport(report),
+                        },
+                        format,
+                        output
+                    );
+                }
+                // Failed checks exit with the validation code, so scripted closings stop there
+                if (!report.checks.passed) {
+                    if (format !== 'table') {
+                        console.error(formatClosingReport(report));
+                    }
+                    process.exitCode = EXIT_CODES.validation;
+                }
             })()
         );
 }
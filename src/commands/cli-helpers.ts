@@ -1,5 +1,12 @@
-import { program } from 'commander';
-import type { OutputFormat } from '../render/output.js';
+import { InvalidArgumentError, program } from 'commander';
+import type { Book } from 'bkper-js';
+import type { OutputFormat, RenderOptions } from '../render/output.js';
+import { ValidationError } from '../utils/validation.js';
+import {
+    parseWhereCondition,
+    type MatrixQuery,
+    type WhereCondition,
+} from '../render/matrix-query.js';
 
 /**
  * Commander option collector for repeatable scalar flags.
@@ -22,29 +29,129 @@ export function collectBook(value: string, previous: string[] | undefined): stri
     return collectRepeatable(value, previous);
 }
 
+/**
+ * Commander option collector for repeatable --where conditions.
+ */
+export function collectWhereCondition(
+    value: string,
+    previous: WhereCondition[] | undefined
+): WhereCondition[] {
+    return [...(previous || []), parseWhereCondition(value)];
+}
+
 /**
  * Commander parser for positive integer options such as pagination limits.
+ * Like the other parsers, it throws InvalidArgumentError, so the message
+ * names the option and is reported as a validation error.
  */
 export function parsePositiveInteger(value: string): number {
     const parsed = Number(value);
     if (!Number.isInteger(parsed) || parsed <= 0) {
-        throw new Error('Value must be a positive integer');
+        throw new InvalidArgumentError('Value must be a positive integer');
+    }
+    return parsed;
+}
+
+/**
+ * Commander parser for non-negative integer options such as day windows.
+ */
+export function parseNonNegativeInteger(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InvalidArgumentError('Value must be a non-negative integer');
+    }
+    return parsed;
+}
+
+/**
+ * Commander parser for ratio options between 0 and 1, such as similarity thresholds.
+ */
+export function parseRatio(value: string): number {
+    const parsed = Number(value);
+    if (value.trim() === '' || Number.isNaN(parsed) || parsed < 0 || parsed > 1) {
+        throw new InvalidArgumentError('Value must be a number between 0 and 1');
     }
     return parsed;
 }
 
 /**
  * Returns the active output format, considering both --format and --json flags.
- * --json acts as a silent alias for --format json.
+ * --json acts as a silent alias for --format json, and --template implies it,
+ * so commands build the JSON data the template is rendered over.
+ *
+ * @throws ValidationError if --format xlsx is given without --out
  */
 export function getFormat(): OutputFormat {
     const opts = program.opts();
-    if (opts.json === true) {
+    if (opts.json === true || getTemplateFile()) {
         return 'json';
     }
     const format = opts.format as string;
-    if (format === 'json' || format === 'csv') {
+    if (
+        format === 'json' ||
+        format === 'csv' ||
+        format === 'ndjson' ||
+        format === 'markdown' ||
+        format === 'html'
+    ) {
+        return format;
+    }
+    if (format === 'xlsx') {
+        // Workbooks are binary, so they are never written to the terminal
+        if (!getOutputFile()) {
+            throw new ValidationError(['--format xlsx requires --out <file>']);
+        }
         return format;
     }
     return 'table';
 }
+
+/**
+ * Returns whether machine-readable output was asked for with --json,
+ * --format json or --format ndjson. Unlike {@link getFormat}, this never
+ * throws, so it can decide how to report the errors getFormat raises.
+ */
+export function isJsonOutput(): boolean {
+    const opts = program.opts();
+    return opts.json === true || opts.format === 'json' || opts.format === 'ndjson';
+}
+
+/**
+ * Returns the file given with the global --out option, if any.
+ *
+ * The root program parses --out wherever it appears, so commands that write
+ * files read it here rather than declaring their own option.
+ */
+export function getOutputFile(): string | undefined {
+    const out = program.opts().out;
+    return typeof out === 'string' && out !== '' ? out : undefined;
+}
+
+/**
+ * Returns the file given with the global --template option, if any.
+ */
+export function getTemplateFile(): string | undefined {
+    const template = program.opts().template;
+    return typeof template === 'string' && template !== '' ? template : undefined;
+}
+
+/**
+ * Returns the settings of a book used to render its amounts and dates.
+ */
+export function getBookRenderOptions(book: Book): RenderOptions {
+    const settings: bkper.Book = book.json();
+    return {
+        fractionDigits: settings.fractionDigits,
+        decimalSeparator: settings.decimalSeparator,
+        datePattern: settings.datePattern,
+    };
+}
+
+/**
+ * Returns the column selection, sort and filters given with the global
+ * --columns, --sort and --where options.
+ */
+export function getMatrixQuery(): MatrixQuery {
+    const opts = program.opts();
+    return { columns: opts.columns, sort: opts.sort, where: opts.where };
+}
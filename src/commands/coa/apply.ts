@@ -0,0 +1,204 @@
+import { Account, AccountType, Book, Group } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { confirm } from '../../utils/confirm.js';
+import { buildAccountFromStdin } from '../accounts/batch-create.js';
+import { BULK_CHUNK_SIZE } from '../transactions/bulk.js';
+import { formatCoaPlanSummary, getCoaPlan, type CoaChange, type CoaPlan } from './plan.js';
+import type { CoaAccountSpec, CoaGroupSpec, CoaSpec } from './spec.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+/**
+ * Options for applying a chart of accounts.
+ */
+export interface ApplyCoaOptions {
+    /** Skip the confirmation prompt. */
+    yes?: boolean;
+}
+
+/**
+ * Result of applying a chart of accounts.
+ */
+export interface ApplyCoaResult {
+    plan: CoaPlan;
+    applied: boolean;
+    cancelled: boolean;
+}
+
+/**
+ * Plans and applies the changes that make a book match a chart of accounts.
+ *
+ * The plan summary is printed to stderr and confirmed, unless `yes` is set.
+ * Groups are created and updated one at a time, parents first, so children
+ * can link to them. Accounts are then created, and existing accounts updated
+ * or archived, through the batch API in chunks.
+ *
+ * @param bookId - The book to change
+ * @param spec - The chart of accounts
+ * @param options - Confirmation flag
+ * @returns The plan and whether it was applied
+ */
+export async function applyCoa(
+    bookId: string,
+    spec: CoaSpec,
+    options: ApplyCoaOptions = {}
+): Promise<ApplyCoaResult> {
+    const plan = await getCoaPlan(bookId, spec);
+    if (plan.changes.length === 0) {
+        return { plan, applied: false, cancelled: false };
+    }
+
+    console.error(formatCoaPlanSummary(plan));
+    if (!options.yes && !(await confirm('Apply these changes?'))) {
+        return { plan, applied: false, cancelled: true };
+    }
+
+    const bkper = getBkperInstance();
+    const groupChanges = plan.changes.filter(change => change.kind === 'group');
+    if (groupChanges.length > 0) {
+        const book = await bkper.getBook(bookId, false, true);
+        await applyGroupChanges(book, groupChanges, spec.groups);
+    }
+
+    const accountChanges = plan.changes.filter(change => change.kind === 'account');
+    if (accountChanges.length > 0) {
+        // Reload so new and reparented groups resolve by name
+        const book = await bkper.getBook(bookId, true, true);
+        await applyAccountChanges(book, accountChanges, spec.accounts);
+    }
+
+    return { plan, applied: true, cancelled: false };
+}
+
+/**
+ * Formats a one-line, human-readable summary of an apply result.
+ */
+export function formatApplyCoaResult(result: ApplyCoaResult): string {
+    if (result.cancelled) {
+        return 'Cancelled: no changes were applied.';
+    }
+    if (!result.applied) {
+        return formatCoaPlanSummary(result.plan);
+    }
+    const { create, update, archive } = result.plan.summary;
+    return `Applied: ${create} created, ${update} updated, ${archive} archived.`;
+}
+
+async function applyGroupChanges(
+    book: Book,
+    changes: CoaChange[],
+    declared: CoaGroupSpec[]
+): Promise<void> {
+    const specs = new Map(declared.map(group => [group.name, group]));
+    const saved = new Map<string, Group>();
+    const findGroup = async (name: string): Promise<Group | undefined> =>
+        saved.get(name) || (await book.getGroup(name));
+
+    for (const change of changes) {
+        const spec = specs.get(change.name);
+        if (!spec) {
+            continue;
+        }
+
+        const group: Group | undefined =
+            change.action === 'create'
+                ? new Group(book).setName(spec.name)
+                : await findGroup(spec.name);
+        if (!group) {
+            throw new NotFoundError('Group', spec.name);
+        }
+
+        if (spec.hidden !== undefined) group.setHidden(spec.hidden);
+        applyProperties(group, spec.properties);
+        if (spec.parent) {
+            const parent = await findGroup(spec.parent);
+            if (!parent) {
+                throw new NotFoundError('Parent group', spec.parent);
+            }
+            group.setParent(parent);
+        } else if (change.action === 'update') {
+            group.setParent(null);
+        }
+
+        saved.set(
+            spec.name,
+            change.action === 'create' ? await group.create() : await group.update()
+        );
+    }
+}
+
+async function applyAccountChanges(
+    book: Book,
+    changes: CoaChange[],
+    declared: CoaAccountSpec[]
+): Promise<void> {
+    const specs = new Map(declared.map(account => [account.name, account]));
+
+    const toCreate: Account[] = [];
+    for (const change of changes.filter(change => change.action === 'create')) {
+        const spec = specs.get(change.name);
+        if (spec) {
+            const account = await buildAccountFromStdin(book, {
+                name: spec.name,
+                type: spec.type,
+                archived: spec.archived === true,
+                groups: (spec.groups || []).map(name => ({ name })),
+            });
+            applyProperties(account, spec.properties);
+            toCreate.push(account);
+        }
+    }
+    for (let i = 0; i < toCreate.length; i += BULK_CHUNK_SIZE) {
+        await book.batchCreateAccounts(toCreate.slice(i, i + BULK_CHUNK_SIZE));
+    }
+
+    const toUpdate: Account[] = [];
+    for (const change of changes.filter(change => change.action !== 'create')) {
+        const account: Account | undefined = await book.getAccount(change.name);
+        if (!account) {
+            throw new NotFoundError('Account', change.name);
+        }
+        toUpdate.push(account);
+
+        const spec = specs.get(change.name);
+        if (change.action === 'archive' || !spec) {
+            account.setArchived(true);
+            continue;
+        }
+
+        account.setType(spec.type as AccountType);
+        account.setArchived(spec.archived === true);
+        applyProperties(account, spec.properties);
+        if (spec.groups !== undefined) {
+            const current: Group[] = await account.getGroups();
+            for (const group of current) {
+                if (!spec.groups.includes(group.getName())) {
+                    account.removeGroup(group);
+                }
+            }
+            const currentNames = current.map(group => group.getName());
+            for (const name of spec.groups.filter(name => !currentNames.includes(name))) {
+                const group = await book.getGroup(name);
+                if (!group) {
+                    throw new NotFoundError('Group', name);
+                }
+                account.addGroup(group);
+            }
+        }
+    }
+    for (let i = 0; i < toUpdate.length; i += BULK_CHUNK_SIZE) {
+        await book.batchUpdateAccounts(toUpdate.slice(i, i + BULK_CHUNK_SIZE));
+    }
+}
+
+function applyProperties(
+    target: Group | Account,
+    properties: Record<string, string> | undefined
+): void {
+    for (const [key, value] of Object.entries(properties || {})) {
+        if (value === '') {
+            target.deleteProperty(key);
+        } else {
+            target.setProperty(key, value);
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import YAML from 'yaml';
+import { listAccounts } from '../accounts/list.js';
+import { listGroups } from '../groups/list.js';
+import { accountGroupNames } from './plan.js';
+import type { CoaAccountSpec, CoaAccountType, CoaGroupSpec, CoaSpec } from './spec.js';
+import { compareCodePoints } from '../../utils/compare.js';
+
+/**
+ * Reads the groups and accounts of a book as a chart of accounts, in the
+ * format read by `coa plan` and `coa apply`.
+ *
+ * @param bookId - The book to export
+ * @returns The chart of accounts, deterministically sorted
+ */
+export async function exportCoa(bookId: string): Promise<CoaSpec> {
+    const groups = (await listGroups(bookId)).map(group => group.json());
+    const accounts = (await listAccounts(bookId)).map(account => account.json());
+    return buildCoaSpec(groups, accounts);
+}
+
+/**
+ * Builds a chart of accounts from the groups and accounts of a book.
+ *
+ * Groups are listed parent first, walking the tree from the root groups with
+ * siblings sorted by name; accounts, account groups and property keys are
+ * sorted too. Names are compared by code point rather than locale, so the
+ * same book gives the same output on any machine. Fields at their default
+ * (not hidden, not archived, no parent, no properties) are left out.
+ *
+ * @param groups - Groups of the book
+ * @param accounts - Accounts of the book
+ */
+export function buildCoaSpec(groups: bkper.Group[], accounts: bkper.Account[]): CoaSpec {
+    const groupNames = new Map(groups.map(group => [group.id, group.name || '']));
+    const children = new Map<string | undefined, bkper.Group[]>();
+    for (const group of groups) {
+        const parentId = group.parent?.id;
+        // Groups whose parent is missing are treated as roots
+        const key = parentId && groupNames.has(parentId) ? parentId : undefined;
+        children.set(key, [...(children.get(key) || []), group]);
+    }
+
+    const groupSpecs: CoaGroupSpec[] = [];
+    const visit = (parentId: string | undefined) => {
+        const siblings = (children.get(parentId) || []).sort((a, b) =>
+            compareCodePoints(a.name || '', b.name || '')
+        );
+        for (const group of siblings) {
+            const spec: CoaGroupSpec = { name: group.name || '' };
+            if (parentId) spec.parent = groupNames.get(parentId);
+            if (group.hidden) spec.hidden = true;
+            const properties = sortProperties(group.properties);
+            if (properties) spec.properties = properties;
+            groupSpecs.push(spec);
+            visit(group.id);
+        }
+    };
+    visit(undefined);
+
+    const accountSpecs = [...accounts]
+        .sort((a, b) => compareCodePoints(a.name || '', b.name || ''))
+        .map(account => {
+            const spec: CoaAccountSpec = {
+                name: account.name || '',
+                type: (account.type || 'ASSET') as CoaAccountType,
+            };
+            const memberships = accountGroupNames(account, groupNames).sort(compareCodePoints);
+            if (memberships.length > 0) spec.groups = memberships;
+            if (account.archived) spec.archived = true;
+            const properties = sortProperties(account.properties);
+            if (properties) spec.properties = properties;
+            return spec;
+        });
+
+    return { groups: groupSpecs, accounts: accountSpecs };
+}
+
+/**
+ * Serializes a chart of accounts as YAML, without line wrapping so long
+ * names and values stay on one line in diffs.
+ */
+export function formatCoaYaml(spec: CoaSpec): string {
+    return YAML.stringify(spec, { lineWidth: 0 });
+}
+
+function sortProperties(
+    properties: Record<string, string> | undefined
+): Record<string, string> | undefined {
+    const keys = Object.keys(properties || {}).sort(compareCodePoints);
+    if (!properties || keys.length === 0) {
+        return undefined;
+    }
+    const sorted: Record<string, string> = {};
+    for (const key of keys) {
+        sorted[key] = properties[key];
+    }
+    return sorted;
+}
@@ -0,0 +1,22 @@
+export {
+    loadCoaSpec,
+    parseCoaSpec,
+    sortCoaGroupsParentFirst,
+    COA_ACCOUNT_TYPES,
+    CoaSpec,
+    CoaGroupSpec,
+    CoaAccountSpec,
+    CoaAccountType,
+} from './spec.js';
+export {
+    getCoaPlan,
+    buildCoaPlan,
+    buildCoaPlanMatrix,
+    formatCoaPlanSummary,
+    accountGroupNames,
+    CoaPlan,
+    CoaChange,
+    CoaAction,
+} from './plan.js';
+export { applyCoa, formatApplyCoaResult, ApplyCoaOptions, ApplyCoaResult } from './apply.js';
+export { exportCoa, buildCoaSpec, formatCoaYaml } from './export.js';
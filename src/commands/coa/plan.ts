@@ -0,0 +1,259 @@
+import { listAccounts } from '../accounts/list.js';
+import { listGroups } from '../groups/list.js';
+import {
+    sortCoaGroupsParentFirst,
+    type CoaAccountSpec,
+    type CoaGroupSpec,
+    type CoaSpec,
+} from './spec.js';
+import { compareCodePoints } from '../../utils/compare.js';
+
+/**
+ * What a plan does to a group or account.
+ */
+export type CoaAction = 'create' | 'update' | 'archive';
+
+/**
+ * One planned change, with a human-readable description of each field it
+ * sets or changes.
+ */
+export interface CoaChange {
+    action: CoaAction;
+    kind: 'group' | 'account';
+    name: string;
+    /** Field changes, e.g. `type: ASSET -> LIABILITY` or `groups: +Cash -Bank`. */
+    details: string[];
+}
+
+/**
+ * The changes that make a book match a chart of accounts.
+ */
+export interface CoaPlan {
+    bookId: string;
+    changes: CoaChange[];
+    summary: Record<CoaAction, number>;
+}
+
+const NONE = '(none)';
+const DELETED = '(deleted)';
+
+/**
+ * Compares a chart of accounts with the groups and accounts of a book and
+ * plans the changes that make the book match it.
+ *
+ * @param bookId - The book to compare
+ * @param spec - The chart of accounts
+ * @returns Changes in the order they are applied
+ */
+export async function getCoaPlan(bookId: string, spec: CoaSpec): Promise<CoaPlan> {
+    const groups = (await listGroups(bookId)).map(group => group.json());
+    const accounts = (await listAccounts(bookId)).map(account => account.json());
+    return { bookId, ...buildCoaPlan(spec, groups, accounts) };
+}
+
+/**
+ * Plans the changes that make a book's groups and accounts match a chart of
+ * accounts:
+ *
+ * - declared groups and accounts missing from the book are created, parents first
+ * - declared groups and accounts that differ are updated; properties not in
+ *   the file are left as they are, and an empty value deletes a property
+ * - declared accounts are active unless marked `archived: true`
+ * - accounts not in the file are archived; groups not in the file are left as they are
+ *
+ * Names are matched exactly.
+ *
+ * @param spec - The chart of accounts
+ * @param groups - Groups of the book
+ * @param accounts - Accounts of the book
+ */
+export function buildCoaPlan(
+    spec: CoaSpec,
+    groups: bkper.Group[],
+    accounts: bkper.Account[]
+): Pick<CoaPlan, 'changes' | 'summary'> {
+    const groupNames = new Map(groups.map(group => [group.id, group.name || '']));
+    const groupsByName = new Map(groups.map(group => [group.name || '', group]));
+    const accountsByName = new Map(accounts.map(account => [account.name || '', account]));
+
+    const changes: CoaChange[] = [];
+    for (const declared of sortCoaGroupsParentFirst(spec.groups)) {
+        const existing = groupsByName.get(declared.name);
+        if (!existing) {
+            changes.push({
+                action: 'create',
+                kind: 'group',
+                name: declared.name,
+                details: describeNewGroup(declared),
+            });
+            continue;
+        }
+        const details = diffGroup(declared, existing, groupNames);
+        if (details.length > 0) {
+            changes.push({ action: 'update', kind: 'group', name: declared.name, details });
+        }
+    }
+
+    for (const declared of spec.accounts) {
+        const existing = accountsByName.get(declared.name);
+        if (!existing) {
+            changes.push({
+                action: 'create',
+                kind: 'account',
+                name: declared.name,
+                details: describeNewAccount(declared),
+            });
+            continue;
+        }
+        const details = diffAccount(declared, existing, groupNames);
+        if (details.length > 0) {
+            changes.push({ action: 'update', kind: 'account', name: declared.name, details });
+        }
+    }
+
+    const declaredAccounts = new Set(spec.accounts.map(account => account.name));
+    const undeclared = accounts
+        .filter(account => !declaredAccounts.has(account.name || '') && !account.archived)
+        .sort((a, b) => compareCodePoints(a.name || '', b.name || ''));
+    for (const account of undeclared) {
+        changes.push({
+            action: 'archive',
+            kind: 'account',
+            name: account.name || '',
+            details: ['not in file'],
+        });
+    }
+
+    const summary: Record<CoaAction, number> = { create: 0, update: 0, archive: 0 };
+    for (const change of changes) {
+        summary[change.action]++;
+    }
+    return { changes, summary };
+}
+
+/**
+ * Builds a matrix with one row per planned change.
+ */
+export function buildCoaPlanMatrix(plan: CoaPlan): unknown[][] {
+    if (plan.changes.length === 0) {
+        return [];
+    }
+    const matrix: unknown[][] = [['Action', 'Kind', 'Name', 'Changes']];
+    for (const change of plan.changes) {
+        matrix.push([change.action, change.kind, change.name, change.details.join('; ')]);
+    }
+    return matrix;
+}
+
+/**
+ * Summarizes a plan in one line.
+ */
+export function formatCoaPlanSummary(plan: CoaPlan): string {
+    if (plan.changes.length === 0) {
+        return 'No changes: the book matches the chart of accounts.';
+    }
+    const { create, update, archive } = plan.summary;
+    return `Plan: ${create} to create, ${update} to update, ${archive} to archive.`;
+}
+
+/**
+ * Returns the names of the groups of an account, resolving references that
+ * only carry an ID.
+ */
+export function accountGroupNames(
+    account: bkper.Account,
+    groupNames: Map<string | undefined, string>
+): string[] {
+    return (account.groups || [])
+        .map(group => group.name || groupNames.get(group.id) || '')
+        .filter(Boolean);
+}
+
+function describeNewGroup(group: CoaGroupSpec): string[] {
+    const details: string[] = [];
+    if (group.parent) details.push(`parent: ${group.parent}`);
+    if (group.hidden) details.push('hidden: true');
+    details.push(...describeNewProperties(group.properties));
+    return details;
+}
+
+function describeNewAccount(account: CoaAccountSpec): string[] {
+    const details = [`type: ${account.type}`];
+    if (account.groups && account.groups.length > 0) {
+        details.push(`groups: ${account.groups.join(', ')}`);
+    }
+    if (account.archived) details.push('archived: true');
+    details.push(...describeNewProperties(account.properties));
+    return details;
+}
+
+function describeNewProperties(properties: Record<string, string> | undefined): string[] {
+    return Object.entries(properties || {})
+        .filter(([, value]) => value !== '')
+        .map(([key, value]) => `properties.${key}: ${value}`);
+}
+
+function diffGroup(
+    declared: CoaGroupSpec,
+    existing: bkper.Group,
+    groupNames: Map<string | undefined, string>
+): string[] {
+    const details: string[] = [];
+    const parent = existing.parent
+        ? existing.parent.name || groupNames.get(existing.parent.id) || ''
+        : '';
+    if ((declared.parent || '') !== parent) {
+        details.push(`parent: ${parent || NONE} -> ${declared.parent || NONE}`);
+    }
+    if (declared.hidden !== undefined && declared.hidden !== (existing.hidden === true)) {
+        details.push(`hidden: ${existing.hidden === true} -> ${declared.hidden}`);
+    }
+    details.push(...diffProperties(declared.properties, existing.properties));
+    return details;
+}
+
+function diffAccount(
+    declared: CoaAccountSpec,
+    existing: bkper.Account,
+    groupNames: Map<string | undefined, string>
+): string[] {
+    const details: string[] = [];
+    if (existing.type !== declared.type) {
+        details.push(`type: ${existing.type || NONE} -> ${declared.type}`);
+    }
+    if (declared.groups !== undefined) {
+        const current = accountGroupNames(existing, groupNames);
+        const added = declared.groups.filter(name => !current.includes(name));
+        const removed = current.filter(name => !declared.groups?.includes(name));
+        if (added.length > 0 || removed.length > 0) {
+            details.push(
+                `groups: ${[
+                    ...added.map(name => `+${name}`),
+                    ...removed.map(name => `-${name}`),
+                ].join(' ')}`
+            );
+        }
+    }
+    const archived = declared.archived === true;
+    if (archived !== (existing.archived === true)) {
+        details.push(`archived: ${existing.archived === true} -> ${archived}`);
+    }
+    details.push(...diffProperties(declared.properties, existing.properties));
+    return details;
+}
+
+function diffProperties(
+    declared: Record<string, string> | undefined,
+    existing: Record<string, string> | undefined
+): string[] {
+    const details: string[] = [];
+    for (const [key, value] of Object.entries(declared || {})) {
+        const current = existing?.[key];
+        if (value === '' && current !== undefined && current !== '') {
+            details.push(`properties.${key}: ${current} -> ${DELETED}`);
+        } else if (value !== '' && value !== current) {
+            details.push(`properties.${key}: ${current ?? NONE} -> ${value}`);
+        }
+    }
+    return details;
+}
@@ -0,0 +1,119 @@
+import { writeFile } from 'node:fs/promises';
+import type { Command } from 'commander';
+import { withAction } from '../action.js';
+import { getOutputFile } from '../cli-helpers.js';
+import { isJsonFormat, renderItem, renderListResult } from '../../render/index.js';
+import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
+import {
+    applyCoa,
+    buildCoaPlanMatrix,
+    exportCoa,
+    formatApplyCoaResult,
+    formatCoaPlanSummary,
+    formatCoaYaml,
+    getCoaPlan,
+    loadCoaSpec,
+} from './index.js';
+
+export function registerCoaCommands(program: Command): void {
+    const coaCommand = program
+        .command('coa')
+        .description('Manage a chart of accounts as code (groups and accounts from YAML)');
+
+    coaCommand
+        .command('plan')
+        .description('Show the changes that make a book match a chart of accounts file')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('-f, --file <file>', 'Chart of accounts YAML file')
+        .action(options =>
+            withAction('planning chart of accounts', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'file', flag: '--file' },
+                    ])
+                );
+                const spec = await loadCoaSpec(options.file);
+                const plan = await getCoaPlan(options.book, spec);
+                if (isJsonFormat(format)) {
+                    renderItem(plan, format, output);
+                } else {
+                    renderListResult(
+                        {
+                            kind: 'matrix',
+                            matrix: buildCoaPlanMatrix(plan),
+                            footer: formatCoaPlanSummary(plan),
+                        },
+                        format,
+                        output
+                    );
+                }
+            })()
+        );
+
+    coaCommand
+        .command('apply')
+        .description('Apply a chart of accounts file to a book')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('-f, --file <file>', 'Chart of accounts YAML file')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action(options =>
+            withAction('applying chart of accounts', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'file', flag: '--file' },
+                    ])
+                );
+                const spec = await loadCoaSpec(options.file);
+                const result = await applyCoa(options.book, spec, { yes: options.yes });
+                if (isJsonFormat(format)) {
+                    renderItem(result, format, output);
+                } else {
+                    renderListResult(
+                        {
+                            kind: 'matrix',
+                            matrix: buildCoaPlanMatrix(result.plan),
+                            footer: formatApplyCoaResult(result),
+                        },
+                        format,
+                        output
+                    );
+                }
+            })()
+        );
+
+    coaCommand
+        .command('export')
+        .description('Export the groups and accounts of a book as a chart of accounts file')
+        .option('-b, --book <bookId>', 'Book ID')
+        .action(options =>
+            withAction(
+                'exporting chart of accounts',
+                async (format, output) => {
+                    throwIfErrors(
+                        validateRequiredOptions(options, [{ name: 'book', flag: '--book' }])
+                    );
+                    const spec = await exportCoa(options.book);
+                    // The root program parses --out, which names the YAML file here
+                    const out = getOutputFile();
+                    throwIfErrors(
+                        out && isJsonFormat(format)
+                            ? ['--out writes the YAML file; do not combine it with JSON output']
+                            : []
+                    );
+                    if (isJsonFormat(format)) {
+                        renderItem(spec, format, output);
+                    } else if (out) {
+                        await writeFile(out, formatCoaYaml(spec), 'utf8');
+                        console.log(
+                            `Exported ${spec.groups.length} group(s) and ${spec.accounts.length} account(s) to ${out}.`
+                        );
+                    } else {
+                        process.stdout.write(formatCoaYaml(spec));
+                    }
+                },
+                { writesOutFile: true }
+            )()
+        );
+}
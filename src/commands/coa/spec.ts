@@ -0,0 +1,286 @@
+import { readFile } from 'node:fs/promises';
+import YAML from 'yaml';
+import { throwIfErrors, ValidationError } from '../../utils/validation.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+/**
+ * Account types accepted in a chart of accounts file.
+ */
+export const COA_ACCOUNT_TYPES = ['ASSET', 'LIABILITY', 'INCOMING', 'OUTGOING'] as const;
+
+export type CoaAccountType = (typeof COA_ACCOUNT_TYPES)[number];
+
+/**
+ * A group declared in a chart of accounts file.
+ */
+export interface CoaGroupSpec {
+    name: string;
+    /** Name of the parent group. */
+    parent?: string;
+    hidden?: boolean;
+    /** Properties to set; an empty value deletes the property. Others are left as they are. */
+    properties?: Record<string, string>;
+}
+
+/**
+ * An account declared in a chart of accounts file.
+ */
+export interface CoaAccountSpec {
+    name: string;
+    type: CoaAccountType;
+    /** Names of the groups the account belongs to; the account leaves any other group. */
+    groups?: string[];
+    archived?: boolean;
+    /** Properties to set; an empty value deletes the property. Others are left as they are. */
+    properties?: Record<string, string>;
+}
+
+/**
+ * A declarative chart of accounts: the groups and accounts a book should have.
+ */
+export interface CoaSpec {
+    /** Groups, in any order; parents are created before their children. */
+    groups: CoaGroupSpec[];
+    accounts: CoaAccountSpec[];
+}
+
+/**
+ * Loads and validates a chart of accounts from a YAML file.
+ *
+ * @param file - Chart of accounts file path
+ * @returns The validated chart of accounts
+ * @throws NotFoundError if the file does not exist, ValidationError if it cannot be
+ *   parsed, or Error if it cannot be read
+ * @throws ValidationError if the chart of accounts is invalid
+ */
+export async function loadCoaSpec(file: string): Promise<CoaSpec> {
+    let content: string;
+    try {
+        content = await readFile(file, 'utf8');
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new NotFoundError('Chart of accounts file', file);
+        }
+        throw new Error(`Chart of accounts file is not readable: ${file}`);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = YAML.parse(content);
+    } catch (err: unknown) {
+        throw new ValidationError([
+            `Invalid chart of accounts file ${file}: ${(err as Error).message}`,
+        ]);
+    }
+
+    return parseCoaSpec(parsed);
+}
+
+/**
+ * Validates a parsed chart of accounts.
+ *
+ * Names must be unique, group parents must be declared groups without cycles,
+ * and account types must be valid. Property values may be any scalar and are
+ * read as strings. All problems are reported at once so the file can be fixed
+ * in one pass.
+ *
+ * @param raw - Parsed YAML content
+ * @returns The validated chart of accounts
+ * @throws ValidationError if the chart of accounts is invalid
+ */
+export function parseCoaSpec(raw: unknown): CoaSpec {
+    if (!isRecord(raw)) {
+        throw new ValidationError(['Invalid chart of accounts: expected a YAML object']);
+    }
+
+    const errors: string[] = [];
+    const groups = parseList(raw.groups, 'groups', errors).map((item, index) =>
+        parseGroup(item, `groups[${index}]`, errors)
+    );
+    const accounts = parseList(raw.accounts, 'accounts', errors).map((item, index) =>
+        parseAccount(item, `accounts[${index}]`, errors)
+    );
+
+    checkUniqueNames(groups, 'group', errors);
+    checkUniqueNames(accounts, 'account', errors);
+
+    const groupNames = new Set(groups.map(group => group.name));
+    for (const group of groups) {
+        if (group.parent !== undefined && !groupNames.has(group.parent)) {
+            errors.push(`group ${group.name}: parent ${group.parent} is not a declared group`);
+        }
+    }
+    for (const account of accounts) {
+        for (const groupName of account.groups || []) {
+            if (!groupNames.has(groupName)) {
+                errors.push(`account ${account.name}: group ${groupName} is not a declared group`);
+            }
+        }
+    }
+    for (const name of findParentCycles(groups)) {
+        errors.push(`group ${name}: parent chain forms a cycle`);
+    }
+
+    throwIfErrors(errors);
+    return { groups, accounts };
+}
+
+/**
+ * Orders groups so every parent comes before its children, keeping the file
+ * order otherwise.
+ */
+export function sortCoaGroupsParentFirst(groups: CoaGroupSpec[]): CoaGroupSpec[] {
+    const byName = new Map(groups.map(group => [group.name, group]));
+    const sorted: CoaGroupSpec[] = [];
+    const visited = new Set<string>();
+    const visit = (group: CoaGroupSpec) => {
+        if (visited.has(group.name)) {
+            return;
+        }
+        visited.add(group.name);
+        const parent = group.parent !== undefined ? byName.get(group.parent) : undefined;
+        if (parent) {
+            visit(parent);
+        }
+        sorted.push(group);
+    };
+    groups.forEach(visit);
+    return sorted;
+}
+
+function parseList(value: unknown, field: string, errors: string[]): unknown[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        errors.push(`${field} must be a list`);
+        return [];
+    }
+    return value;
+}
+
+function parseGroup(item: unknown, path: string, errors: string[]): CoaGroupSpec {
+    if (!isRecord(item)) {
+        errors.push(`${path} must be an object`);
+        return { name: '' };
+    }
+    const group: CoaGroupSpec = { name: parseName(item.name, `${path}.name`, errors) };
+    if (item.parent !== undefined && item.parent !== null) {
+        group.parent = parseName(item.parent, `${path}.parent`, errors);
+    }
+    if (item.hidden !== undefined) {
+        if (typeof item.hidden === 'boolean') {
+            group.hidden = item.hidden;
+        } else {
+            errors.push(`${path}.hidden must be true or false`);
+        }
+    }
+    const properties = parseProperties(item.properties, path, errors);
+    if (properties) {
+        group.properties = properties;
+    }
+    return group;
+}
+
+function parseAccount(item: unknown, path: string, errors: string[]): CoaAccountSpec {
+    if (!isRecord(item)) {
+        errors.push(`${path} must be an object`);
+        return { name: '', type: 'ASSET' };
+    }
+    const name = parseName(item.name, `${path}.name`, errors);
+    const type = typeof item.type === 'string' ? item.type.toUpperCase() : item.type;
+    if (!COA_ACCOUNT_TYPES.includes(type as CoaAccountType)) {
+        errors.push(`${path}.type must be one of ${COA_ACCOUNT_TYPES.join(', ')}`);
+    }
+    const account: CoaAccountSpec = { name, type: type as CoaAccountType };
+
+    if (item.groups !== undefined && item.groups !== null) {
+        if (Array.isArray(item.groups)) {
+            account.groups = item.groups.map((groupName, index) =>
+                parseName(groupName, `${path}.groups[${index}]`, errors)
+            );
+        } else {
+            errors.push(`${path}.groups must be a list of group names`);
+        }
+    }
+    if (item.archived !== undefined) {
+        if (typeof item.archived === 'boolean') {
+            account.archived = item.archived;
+        } else {
+            errors.push(`${path}.archived must be true or false`);
+        }
+    }
+    const properties = parseProperties(item.properties, path, errors);
+    if (properties) {
+        account.properties = properties;
+    }
+    return account;
+}
+
+function parseName(value: unknown, field: string, errors: string[]): string {
+    if (typeof value === 'string' && value.trim() !== '') {
+        return value.trim();
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    errors.push(`${field} must be a non-empty string`);
+    return '';
+}
+
+function parseProperties(
+    value: unknown,
+    path: string,
+    errors: string[]
+): Record<string, string> | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!isRecord(value)) {
+        errors.push(`${path}.properties must be an object`);
+        return undefined;
+    }
+    const properties: Record<string, string> = {};
+    for (const [key, raw] of Object.entries(value)) {
+        if (raw === null || raw === undefined) {
+            properties[key] = '';
+        } else if (['string', 'number', 'boolean'].includes(typeof raw)) {
+            properties[key] = String(raw);
+        } else {
+            errors.push(`${path}.properties.${key} must be a string`);
+        }
+    }
+    return properties;
+}
+
+function checkUniqueNames(items: { name: string }[], kind: string, errors: string[]): void {
+    const seen = new Set<string>();
+    for (const { name } of items) {
+        if (name && seen.has(name)) {
+            errors.push(`Duplicate ${kind}: ${name}`);
+        }
+        seen.add(name);
+    }
+}
+
+function findParentCycles(groups: CoaGroupSpec[]): string[] {
+    const parents = new Map(groups.map(group => [group.name, group.parent]));
+    return groups
+        .filter(group => {
+            const seen = new Set<string>([group.name]);
+            let parent = group.parent;
+            while (parent !== undefined) {
+                if (seen.has(parent)) {
+                    return parent === group.name;
+                }
+                seen.add(parent);
+                parent = parents.get(parent);
+            }
+            return false;
+        })
+        .map(group => group.name);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
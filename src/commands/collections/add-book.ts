@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Book } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Adds one or more books to a collection.
@@ -18,7 +19,7 @@ export async function addBookToCollection(
     const collection = collections.find(c => c.getId() === collectionId);
 
     if (!collection) {
-        throw new Error(`Collection not found: ${collectionId}`);
+        throw new NotFoundError('Collection', collectionId);
     }
 
     const books: Book[] = [];
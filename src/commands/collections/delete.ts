@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Book } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Deletes a collection by its ID.
@@ -14,7 +15,7 @@ export async function deleteCollection(collectionId: string): Promise<Book[]> {
     const collection = collections.find(c => c.getId() === collectionId);
 
     if (!collection) {
-        throw new Error(`Collection not found: ${collectionId}`);
+        throw new NotFoundError('Collection', collectionId);
     }
 
     return collection.remove();
@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Collection } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Retrieves a collection by its ID.
@@ -14,7 +15,7 @@ export async function getCollection(collectionId: string): Promise<Collection> {
     const collection = collections.find(c => c.getId() === collectionId);
 
     if (!collection) {
-        throw new Error(`Collection not found: ${collectionId}`);
+        throw new NotFoundError('Collection', collectionId);
     }
 
     return collection;
@@ -1,6 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Collection } from 'bkper-js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import { isJsonFormat, type OutputFormat, type ListResult } from '../../render/output.js';
 
 /**
  * Fetches all collections for the authenticated user.
@@ -20,7 +20,7 @@ export async function listCollections(): Promise<Collection[]> {
 export async function listCollectionsFormatted(format: OutputFormat): Promise<ListResult> {
     const collections = await listCollections();
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         return { kind: 'json', items: collections.map(c => c.json()) };
     }
 
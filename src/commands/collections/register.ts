@@ -20,9 +20,9 @@ export function registerCollectionCommands(program: Command): void {
         .command('list')
         .description('List all collections')
         .action(
-            withAction('listing collections', async format => {
+            withAction('listing collections', async (format, output) => {
                 const result = await listCollectionsFormatted(format);
-                renderListResult(result, format);
+                renderListResult(result, format, output);
             })
         );
 
@@ -30,9 +30,9 @@ export function registerCollectionCommands(program: Command): void {
         .command('get <collectionId>')
         .description('Get a collection by ID')
         .action((collectionId: string) =>
-            withAction('getting collection', async format => {
+            withAction('getting collection', async (format, output) => {
                 const collection = await getCollection(collectionId);
-                renderItem(collection.json(), format);
+                renderItem(collection.json(), format, output);
             })()
         );
 
@@ -41,10 +41,10 @@ export function registerCollectionCommands(program: Command): void {
         .description('Create a new collection')
         .option('--name <name>', 'Collection name')
         .action(options =>
-            withAction('creating collection', async format => {
+            withAction('creating collection', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'name', flag: '--name' }]));
                 const collection = await createCollection({ name: options.name });
-                renderItem(collection.json(), format);
+                renderItem(collection.json(), format, output);
             })()
         );
 
@@ -53,11 +53,11 @@ export function registerCollectionCommands(program: Command): void {
         .description('Update a collection')
         .option('--name <name>', 'Collection name')
         .action((collectionId: string, options) =>
-            withAction('updating collection', async format => {
+            withAction('updating collection', async (format, output) => {
                 const collection = await updateCollection(collectionId, {
                     name: options.name,
                 });
-                renderItem(collection.json(), format);
+                renderItem(collection.json(), format, output);
             })()
         );
 
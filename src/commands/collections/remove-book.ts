@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Book } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Removes one or more books from a collection.
@@ -18,7 +19,7 @@ export async function removeBookFromCollection(
     const collection = collections.find(c => c.getId() === collectionId);
 
     if (!collection) {
-        throw new Error(`Collection not found: ${collectionId}`);
+        throw new NotFoundError('Collection', collectionId);
     }
 
     const books: Book[] = [];
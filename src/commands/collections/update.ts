@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Collection } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Options for updating a collection.
@@ -25,7 +26,7 @@ export async function updateCollection(
     const collection = collections.find(c => c.getId() === collectionId);
 
     if (!collection) {
-        throw new Error(`Collection not found: ${collectionId}`);
+        throw new NotFoundError('Collection', collectionId);
     }
 
     if (options.name !== undefined) collection.setName(options.name);
@@ -1,6 +1,6 @@
 import { Event, EventType, type ListEventsOptions } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import { isJsonFormat, type OutputFormat, type ListResult } from '../../render/output.js';
 import { quoteShellArg } from '../../utils/shell-quote.js';
 
 export const DEFAULT_EVENT_LIST_LIMIT = 50;
@@ -64,7 +64,7 @@ export async function listEventsFormatted(
 ): Promise<ListResult> {
     const result = await listEvents(bookId, options);
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         const jsonResult: ListResult = {
             kind: 'json',
             items: result.items.map(event => event.json()),
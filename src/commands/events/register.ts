@@ -1,4 +1,4 @@
-import type { Command } from 'commander';
+import { InvalidArgumentError, type Command } from 'commander';
 import { EventType } from 'bkper-js';
 import { withAction } from '../action.js';
 import { parsePositiveInteger } from '../cli-helpers.js';
@@ -13,7 +13,7 @@ const EVENT_TYPE_VALUES = new Set<string>(Object.values(EventType));
  */
 export function parseEventType(value: string): EventType {
     if (!EVENT_TYPE_VALUES.has(value)) {
-        throw new Error(
+        throw new InvalidArgumentError(
             `Invalid event type '${value}'. Valid types: ${Object.values(EventType).join(', ')}`
         );
     }
@@ -39,7 +39,7 @@ export function registerEventCommands(program: Command): void {
         )
         .option('--cursor <cursor>', 'Cursor for fetching the next page')
         .action(options =>
-            withAction('listing events', async format => {
+            withAction('listing events', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const result = await listEventsFormatted(
                     options.book,
@@ -54,7 +54,7 @@ export function registerEventCommands(program: Command): void {
                     },
                     format
                 );
-                renderListResult(result, format);
+                renderListResult(result, format, output);
             })()
         );
 
@@ -64,7 +64,7 @@ export function registerEventCommands(program: Command): void {
         .option('-b, --book <bookId>', 'Book ID')
         .option('--agent-id <agentId>', 'Bot/agent ID to replay')
         .action((eventId: string, options) =>
-            withAction('replaying event bot response', async format => {
+            withAction('replaying event bot response', async (format, output) => {
                 throwIfErrors(
                     validateRequiredOptions(options, [
                         { name: 'book', flag: '--book' },
@@ -72,7 +72,7 @@ export function registerEventCommands(program: Command): void {
                     ])
                 );
                 const event = await replayEventBotResponse(options.book, eventId, options.agentId);
-                renderItem(event.json(), format);
+                renderItem(event.json(), format, output);
             })()
         );
 }
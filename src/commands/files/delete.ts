@@ -1,5 +1,6 @@
 import { File as BkperFile } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Deletes a file from the specified book.
@@ -13,7 +14,7 @@ export async function deleteFile(bookId: string, fileId: string): Promise<BkperF
     const book = await bkper.getBook(bookId);
     const file = await book.getFile(fileId);
     if (!file) {
-        throw new Error(`File not found: ${fileId}`);
+        throw new NotFoundError('File', fileId);
     }
 
     return file.remove();
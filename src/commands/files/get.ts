@@ -1,5 +1,6 @@
 import { File as BkperFile } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Retrieves a single file by ID from the specified book.
@@ -17,7 +18,7 @@ export async function getFile(bookId: string, fileId: string): Promise<BkperFile
     const book = await bkper.getBook(bookId);
     const file = await book.getFile(fileId);
     if (!file) {
-        throw new Error(`File not found: ${fileId}`);
+        throw new NotFoundError('File', fileId);
     }
 
     await file.getContent();
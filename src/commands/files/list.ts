@@ -1,6 +1,6 @@
 import { File as BkperFile } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import { isJsonFormat, type OutputFormat, type ListResult } from '../../render/output.js';
 import { quoteShellArg } from '../../utils/shell-quote.js';
 
 export const DEFAULT_FILE_LIST_LIMIT = 100;
@@ -51,7 +51,7 @@ export async function listFilesFormatted(
 ): Promise<ListResult> {
     const result = await listFiles(bookId, options);
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         const jsonResult: ListResult = {
             kind: 'json',
             items: result.items.map(file => fileToListJson(file)),
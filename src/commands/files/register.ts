@@ -19,14 +19,14 @@ export function registerFileCommands(program: Command): void {
         )
         .option('--cursor <cursor>', 'Cursor for fetching the next page')
         .action(options =>
-            withAction('listing files', async format => {
+            withAction('listing files', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const result = await listFilesFormatted(
                     options.book,
                     { limit: options.limit, cursor: options.cursor },
                     format
                 );
-                renderListResult(result, format);
+                renderListResult(result, format, output);
             })()
         );
 
@@ -35,10 +35,10 @@ export function registerFileCommands(program: Command): void {
         .description('Get a file by ID')
         .option('-b, --book <bookId>', 'Book ID')
         .action((fileId: string, options) =>
-            withAction('getting file', async format => {
+            withAction('getting file', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const file = await getFile(options.book, fileId);
-                renderItem(file.json(), format);
+                renderItem(file.json(), format, output);
             })()
         );
 
@@ -47,10 +47,10 @@ export function registerFileCommands(program: Command): void {
         .description('Delete a file by ID')
         .option('-b, --book <bookId>', 'Book ID')
         .action((fileId: string, options) =>
-            withAction('deleting file', async format => {
+            withAction('deleting file', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const file = await deleteFile(options.book, fileId);
-                renderItem(file.json(), format);
+                renderItem(file.json(), format, output);
             })()
         );
 
@@ -65,14 +65,14 @@ export function registerFileCommands(program: Command): void {
             collectProperty
         )
         .action((filePath: string, options) =>
-            withAction('uploading file', async format => {
+            withAction('uploading file', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const file = await uploadFile(options.book, {
                     path: filePath,
                     account: options.account,
                     property: options.property,
                 });
-                renderItem(file.json(), format);
+                renderItem(file.json(), format, output);
             })()
         );
 }
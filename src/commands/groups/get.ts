@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Group } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Retrieves a group by its ID or name from the specified book.
@@ -13,7 +14,7 @@ export async function getGroup(bookId: string, groupIdOrName: string): Promise<G
     const book = await bkper.getBook(bookId);
     const group = await book.getGroup(groupIdOrName);
     if (!group) {
-        throw new Error(`Group not found: ${groupIdOrName}`);
+        throw new NotFoundError('Group', groupIdOrName);
     }
     return group;
 }
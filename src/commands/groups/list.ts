@@ -1,6 +1,11 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Group, GroupsDataTableBuilder } from 'bkper-js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import {
+    isJsonFormat,
+    isSpreadsheetFormat,
+    type OutputFormat,
+    type ListResult,
+} from '../../render/output.js';
 
 /**
  * Retrieves all groups from the specified book.
@@ -28,12 +33,12 @@ export async function listGroupsFormatted(
 ): Promise<ListResult> {
     const groups = await listGroups(bookId);
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         return { kind: 'json', items: groups.map(g => g.json()) };
     }
 
     const builder = new GroupsDataTableBuilder(groups).ids(true).tree(true);
-    if (format === 'csv') {
+    if (isSpreadsheetFormat(format)) {
         builder.properties(true).hiddenProperties(true);
     }
     const matrix = builder.build();
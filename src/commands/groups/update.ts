@@ -2,6 +2,7 @@ import { getBkperInstance } from '../../bkper-factory.js';
 import { Group } from 'bkper-js';
 import { parsePropertyFlag } from '../../utils/properties.js';
 import { throwIfErrors } from '../../utils/validation.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /** Options for updating an existing group in a book. */
 export interface UpdateGroupOptions {
@@ -27,7 +28,7 @@ export async function updateGroup(
     const book = await bkper.getBook(bookId);
     const group = await book.getGroup(groupIdOrName);
     if (!group) {
-        throw new Error(`Group not found: ${groupIdOrName}`);
+        throw new NotFoundError('Group', groupIdOrName);
     }
 
     const errors: string[] = [];
@@ -0,0 +1,19 @@
+export {
+    reconcile,
+    buildReconcileLines,
+    buildReconcileMatrix,
+    formatReconcileSummary,
+    formatBalanceCheck,
+    ReconcileOptions,
+    ReconcileResult,
+    ReconcileLine,
+    ReconcileStatus,
+    ReconcileBalanceCheck,
+} from './reconcile.js';
+export {
+    matchStatementEntries,
+    accountAmount,
+    DEFAULT_RECONCILE_WINDOW_DAYS,
+    DEFAULT_RECONCILE_MIN_SIMILARITY,
+} from './matching.js';
+export type { StatementMatch, StatementMatching, StatementMatchingOptions } from './matching.js';
@@ -0,0 +1,195 @@
+import { toMinorUnits } from '../reports/amounts.js';
+import { descriptionSimilarity } from '../transactions/duplicates/grouping.js';
+import type { StatementEntry } from '../transactions/import/types.js';
+
+/**
+ * Default number of days a statement line and a book transaction may be apart to match.
+ */
+export const DEFAULT_RECONCILE_WINDOW_DAYS = 3;
+
+/**
+ * Default minimum description similarity (0-1) for a statement line to match
+ * a book transaction. Zero lets amount and date decide, with similarity only
+ * ranking the candidates.
+ */
+export const DEFAULT_RECONCILE_MIN_SIMILARITY = 0;
+
+/**
+ * Options for matching statement lines with book transactions.
+ */
+export interface StatementMatchingOptions {
+    /** Maximum distance in days between a statement line and its transaction. */
+    days?: number;
+    /** Minimum description similarity, from 0 to 1. */
+    minSimilarity?: number;
+}
+
+/**
+ * A statement line paired with the book transaction it records.
+ */
+export interface StatementMatch {
+    entry: StatementEntry;
+    transaction: bkper.Transaction;
+    /** Days between the statement line and the transaction. */
+    days: number;
+    /** Description similarity, from 0 to 1. */
+    similarity: number;
+}
+
+/**
+ * Statement lines paired with book transactions, and what is left on each side.
+ */
+export interface StatementMatching {
+    /** Matches, in statement order. */
+    matches: StatementMatch[];
+    /** Statement lines without a transaction, in statement order. */
+    unmatchedEntries: StatementEntry[];
+    /**
+     * Posted, unchecked transactions dated within the statement lines without
+     * a statement line, by date and ID.
+     */
+    unmatchedTransactions: bkper.Transaction[];
+}
+
+interface Candidate {
+    entryIndex: number;
+    transaction: bkper.Transaction;
+    byRemoteId: boolean;
+    days: number;
+    similarity: number;
+}
+
+/**
+ * Pairs statement lines with the book transactions of the statement account,
+ * one to one.
+ *
+ * A transaction is a candidate for a line when it moves the same amount in
+ * the same direction on the account and either carries the line's bank
+ * reference as a remote ID, or falls within the date window with a similar
+ * enough description. Candidates are then assigned best first: bank
+ * reference, then closest date, then most similar description, so the result
+ * does not depend on the order transactions are listed in.
+ *
+ * Checked transactions and drafts take part in matching, so lines reconciled
+ * or drafted by an earlier run are recognized instead of drafted again, but
+ * only posted, unchecked transactions dated from the first to the last
+ * statement line are reported as unmatched: those in the date window around
+ * the statement may belong to the previous or next one.
+ *
+ * @param entries - Statement lines, signed from the account's point of view
+ * @param transactions - Book transactions on the account around the statement dates
+ * @param accountId - ID of the statement account
+ * @param fractionDigits - Fraction digits of the book, to compare amounts exactly
+ * @param options - Date window and similarity threshold
+ */
+export function matchStatementEntries(
+    entries: StatementEntry[],
+    transactions: bkper.Transaction[],
+    accountId: string,
+    fractionDigits: number,
+    options: StatementMatchingOptions = {}
+): StatementMatching {
+    const days = options.days ?? DEFAULT_RECONCILE_WINDOW_DAYS;
+    const minSimilarity = options.minSimilarity ?? DEFAULT_RECONCILE_MIN_SIMILARITY;
+
+    const amounts = new Map<bkper.Transaction, bigint | undefined>(
+        transactions.map(tx => [tx, accountAmount(tx, accountId, fractionDigits)])
+    );
+
+    const candidates: Candidate[] = [];
+    entries.forEach((entry, entryIndex) => {
+        const amount = toMinorUnits(entry.amount, fractionDigits);
+        for (const transaction of transactions) {
+            if (amounts.get(transaction) !== amount || !transaction.date) {
+                continue;
+            }
+            const byRemoteId =
+                entry.remoteId !== undefined &&
+                (transaction.remoteIds || []).includes(entry.remoteId);
+            const distance = daysBetween(entry.date, transaction.date);
+            const similarity = descriptionSimilarity(entry.description, transaction.description);
+            if (byRemoteId || (distance <= days && similarity >= minSimilarity)) {
+                candidates.push({
+                    entryIndex,
+                    transaction,
+                    byRemoteId,
+                    days: distance,
+                    similarity,
+                });
+            }
+        }
+    });
+    candidates.sort(compareCandidates);
+
+    const matched = new Map<number, StatementMatch>();
+    const used = new Set<bkper.Transaction>();
+    for (const candidate of candidates) {
+        if (matched.has(candidate.entryIndex) || used.has(candidate.transaction)) {
+            continue;
+        }
+        used.add(candidate.transaction);
+        matched.set(candidate.entryIndex, {
+            entry: entries[candidate.entryIndex],
+            transaction: candidate.transaction,
+            days: candidate.days,
+            similarity: Math.round(candidate.similarity * 100) / 100,
+        });
+    }
+
+    const matches: StatementMatch[] = [];
+    const unmatchedEntries: StatementEntry[] = [];
+    entries.forEach((entry, index) => {
+        const match = matched.get(index);
+        if (match) {
+            matches.push(match);
+        } else {
+            unmatchedEntries.push(entry);
+        }
+    });
+
+    const dates = entries.map(entry => entry.date).sort();
+    const inStatement = (tx: bkper.Transaction) =>
+        tx.date !== undefined && tx.date >= dates[0] && tx.date <= dates[dates.length - 1];
+    const unmatchedTransactions = transactions
+        .filter(tx => !used.has(tx) && tx.posted && !tx.checked && !tx.trashed && inStatement(tx))
+        .sort(compareTransactions);
+
+    return { matches, unmatchedEntries, unmatchedTransactions };
+}
+
+/**
+ * Returns the amount a transaction moves on an account in minor units:
+ * positive when it debits the account (money in), negative when it credits
+ * it (money out), and undefined when the account is on neither or both sides.
+ */
+export function accountAmount(
+    tx: bkper.Transaction,
+    accountId: string,
+    fractionDigits: number
+): bigint | undefined {
+    const debits = tx.debitAccount?.id === accountId;
+    const credits = tx.creditAccount?.id === accountId;
+    if (debits === credits || tx.amount === undefined) {
+        return undefined;
+    }
+    const units = toMinorUnits(tx.amount, fractionDigits);
+    return debits ? units : -units;
+}
+
+function compareCandidates(a: Candidate, b: Candidate): number {
+    return (
+        Number(b.byRemoteId) - Number(a.byRemoteId) ||
+        a.days - b.days ||
+        b.similarity - a.similarity ||
+        a.entryIndex - b.entryIndex ||
+        compareTransactions(a.transaction, b.transaction)
+    );
+}
+
+function compareTransactions(a: bkper.Transaction, b: bkper.Transaction): number {
+    return (a.date || '').localeCompare(b.date || '') || (a.id || '').localeCompare(b.id || '');
+}
+
+function daysBetween(a: string, b: string): number {
+    return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
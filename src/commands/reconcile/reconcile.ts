@@ -0,0 +1,407 @@
+import { Account, Book, Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { confirm } from '../../utils/confirm.js';
+import { formatMinorUnits, toMinorUnits, ZERO } from '../reports/amounts.js';
+import { collectAccountContainers } from '../reports/containers.js';
+import { addDays } from '../reports/dates.js';
+import { buildTransactionsFromItems } from '../transactions/batch-create.js';
+import { BULK_CHUNK_SIZE } from '../transactions/bulk.js';
+import { normalizeAmount } from '../transactions/import/amounts.js';
+import { buildStatementTransactionPayload, loadStatements } from '../transactions/import/import.js';
+import type { Statement, StatementBalance, StatementEntry } from '../transactions/import/types.js';
+import { listTransactions } from '../transactions/list.js';
+import {
+    accountAmount,
+    DEFAULT_RECONCILE_WINDOW_DAYS,
+    matchStatementEntries,
+    type StatementMatchingOptions,
+    type StatementMatching,
+} from './matching.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { quoteQueryValue } from '../../utils/query-quote.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Options for reconciling a book account with a bank statement.
+ */
+export interface ReconcileOptions extends StatementMatchingOptions {
+    /** Statement account name or ID. */
+    account: string;
+    /** Statement file path. */
+    statement: string;
+    /** Raw --statement-format value, if any. */
+    format?: string;
+    /** CSV mapping profile (YAML) file path; required for CSV statements. */
+    mapping?: string;
+    /** Statement closing balance, overriding the one read from the file. */
+    closingBalance?: string;
+    /** Report what would change without changing anything. */
+    dryRun?: boolean;
+    /** Skip the confirmation prompt. */
+    yes?: boolean;
+}
+
+/**
+ * How a statement line or book transaction came out of the reconciliation.
+ *
+ * - `matched`: the line matched an unchecked transaction, which is checked
+ * - `already checked`: the line matched a transaction checked before
+ * - `existing draft`: the line matched a draft, e.g. one created by an earlier run
+ * - `new draft`: nothing matched the line, so a draft is created for it
+ * - `not in statement`: an unchecked transaction dated within the statement that no line matched
+ */
+export type ReconcileStatus =
+    | 'matched'
+    | 'already checked'
+    | 'existing draft'
+    | 'new draft'
+    | 'not in statement';
+
+/**
+ * One statement line or unmatched book transaction of a reconciliation.
+ */
+export interface ReconcileLine {
+    status: ReconcileStatus;
+    date: string;
+    /** Signed amount: positive when money comes into the account. */
+    amount: string;
+    description: string;
+    /** The matched, created or unmatched book transaction, when there is one. */
+    transactionId?: string;
+    /** Bank reference of the statement line. */
+    remoteId?: string;
+}
+
+/**
+ * The statement closing balance compared with the book balance of the
+ * account at the end of the same day.
+ */
+export interface ReconcileBalanceCheck {
+    date: string;
+    statement: string;
+    book: string;
+    /** Statement minus book balance; zero when they agree. */
+    difference: string;
+    balanced: boolean;
+}
+
+/**
+ * Result of reconciling a book account with a bank statement.
+ */
+export interface ReconcileResult {
+    account: string;
+    dryRun: boolean;
+    cancelled: boolean;
+    /** Statement lines in file order, then unmatched book transactions. */
+    lines: ReconcileLine[];
+    /** Absent when the statement reports no closing balance and none was given. */
+    balance?: ReconcileBalanceCheck;
+}
+
+/**
+ * Reconciles a book account with a bank statement file.
+ *
+ * Statement lines are matched with the account's transactions around the
+ * statement dates by amount, date window and description similarity (see
+ * {@link matchStatementEntries}). Matched unchecked transactions are checked,
+ * and unmatched lines are recorded as drafts, with their bank reference as
+ * remote ID, for categorization. Unchecked transactions no line matched are
+ * listed for review. Before changing anything, a summary is printed to
+ * stderr and confirmed, unless `yes` is set; a dry run only reports.
+ *
+ * The statement closing balance is compared with the account balance at the
+ * end of the closing day, from the book's balances report.
+ *
+ * @param bookId - The book ID holding the account
+ * @param options - Account, statement file, matching thresholds and confirmation flags
+ * @returns One line per statement line and unmatched transaction, and the balance check
+ */
+export async function reconcile(
+    bookId: string,
+    options: ReconcileOptions
+): Promise<ReconcileResult> {
+    const statements = await loadStatements({
+        file: options.statement,
+        format: options.format,
+        mapping: options.mapping,
+    });
+    const entries = statements.flatMap(statement => statement.entries);
+    const closingBalance = resolveClosingBalance(statements, entries, options.closingBalance);
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId, true);
+    const account: Account | undefined = await book.getAccount(options.account);
+    if (!account) {
+        throw new NotFoundError('Account', options.account);
+    }
+    const accountName = account.getName() || options.account;
+    const fractionDigits = book.getFractionDigits() ?? 2;
+
+    const transactions = await listAccountTransactions(bookId, accountName, entries, options);
+    const matching = matchStatementEntries(
+        entries,
+        transactions.map(tx => tx.json()),
+        account.getId() || '',
+        fractionDigits,
+        options
+    );
+
+    const byId = new Map(transactions.map(tx => [tx.getId(), tx]));
+    const toCheck = matching.matches
+        .filter(match => match.transaction.posted && !match.transaction.checked)
+        .map(match => byId.get(match.transaction.id)!);
+
+    const accountRef: bkper.Account = { id: account.getId(), name: accountName };
+    // The draft flag keeps complete lines, e.g. with a mapped counterpart, from being posted
+    const drafts = buildTransactionsFromItems(
+        book,
+        matching.unmatchedEntries.map(entry => ({
+            ...buildStatementTransactionPayload(entry, accountRef),
+            draft: true,
+        }))
+    );
+
+    const result: ReconcileResult = {
+        account: accountName,
+        dryRun: options.dryRun === true,
+        cancelled: false,
+        lines: buildReconcileLines(entries, matching, account.getId() || '', fractionDigits),
+    };
+    if (closingBalance) {
+        result.balance = await checkClosingBalance(book, accountName, closingBalance);
+    }
+
+    if (result.dryRun || (toCheck.length === 0 && drafts.length === 0)) {
+        return result;
+    }
+
+    console.error(
+        `About to check ${toCheck.length} transaction(s) and create ${drafts.length} draft(s) on ${accountName}.`
+    );
+    if (!options.yes && !(await confirm('Proceed?'))) {
+        return { ...result, cancelled: true };
+    }
+
+    for (let i = 0; i < toCheck.length; i += BULK_CHUNK_SIZE) {
+        await book.batchCheckTransactions(toCheck.slice(i, i + BULK_CHUNK_SIZE));
+    }
+    const created: Transaction[] = [];
+    for (let i = 0; i < drafts.length; i += BULK_CHUNK_SIZE) {
+        created.push(...(await book.batchCreateTransactions(drafts.slice(i, i + BULK_CHUNK_SIZE))));
+    }
+
+    // Drafts are created in statement order, so they pair with the new draft lines
+    const newDrafts = result.lines.filter(line => line.status === 'new draft');
+    created.forEach((tx, index) => {
+        const id = tx.getId();
+        if (newDrafts[index] && id) {
+            newDrafts[index].transactionId = id;
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Lists the outcome of a matching as reconciliation lines: every statement
+ * line in statement order, then the unmatched book transactions with their
+ * amounts signed from the account's point of view.
+ *
+ * @param entries - Statement lines, in statement order
+ * @param matching - Matching of those lines with the account's transactions
+ * @param accountId - ID of the statement account
+ * @param fractionDigits - Fraction digits of the book
+ */
+export function buildReconcileLines(
+    entries: StatementEntry[],
+    matching: StatementMatching,
+    accountId: string,
+    fractionDigits: number
+): ReconcileLine[] {
+    const matched = new Map(matching.matches.map(match => [match.entry, match.transaction]));
+
+    const lines: ReconcileLine[] = [];
+    for (const entry of entries) {
+        const transaction = matched.get(entry);
+        const line: ReconcileLine = {
+            status: !transaction
+                ? 'new draft'
+                : !transaction.posted
+                ? 'existing draft'
+                : transaction.checked
+                ? 'already checked'
+                : 'matched',
+            date: entry.date,
+            amount: entry.amount,
+            description: entry.description,
+        };
+        if (transaction?.id) line.transactionId = transaction.id;
+        if (entry.remoteId) line.remoteId = entry.remoteId;
+        lines.push(line);
+    }
+
+    for (const tx of matching.unmatchedTransactions) {
+        const amount = accountAmount(tx, accountId, fractionDigits);
+        lines.push({
+            status: 'not in statement',
+            date: tx.date || '',
+            amount:
+                amount === undefined ? tx.amount || '' : formatMinorUnits(amount, fractionDigits),
+            description: tx.description || '',
+            transactionId: tx.id,
+        });
+    }
+    return lines;
+}
+
+/**
+ * Builds a matrix with one row per reconciliation line.
+ */
+export function buildReconcileMatrix(result: ReconcileResult): unknown[][] {
+    if (result.lines.length === 0) {
+        return [];
+    }
+    const matrix: unknown[][] = [['Status', 'Date', 'Amount', 'Description', 'Transaction ID']];
+    for (const line of result.lines) {
+        matrix.push([
+            line.status,
+            line.date,
+            line.amount,
+            line.description,
+            line.transactionId ?? '',
+        ]);
+    }
+    return matrix;
+}
+
+/**
+ * Summarizes a reconciliation: what was (or, on a dry run, would be) checked
+ * and drafted, what is left to review, and the closing balance check.
+ */
+export function formatReconcileSummary(result: ReconcileResult): string {
+    const count = (status: ReconcileStatus) =>
+        result.lines.filter(line => line.status === status).length;
+    const matched = count('matched');
+    const drafts = count('new draft');
+    const known = count('already checked') + count('existing draft');
+    const review = count('not in statement');
+
+    const lines: string[] = [];
+    const changes = `check ${matched} transaction(s) and create ${drafts} draft(s) on ${result.account}`;
+    if (result.cancelled) {
+        lines.push('Cancelled: no transactions were changed.');
+    } else if (result.dryRun) {
+        lines.push(`Dry run: would ${changes}.`);
+    } else {
+        lines.push(
+            `Checked ${matched} transaction(s) and created ${drafts} draft(s) on ${result.account}.`
+        );
+    }
+    if (known > 0) {
+        lines.push(`${known} statement line(s) were already checked or drafted.`);
+    }
+    if (review > 0) {
+        lines.push(`${review} unchecked transaction(s) are not in the statement.`);
+    }
+    lines.push(formatBalanceCheck(result.balance));
+    return lines.join('\n');
+}
+
+/**
+ * Describes the closing balance check in one line.
+ */
+export function formatBalanceCheck(balance: ReconcileBalanceCheck | undefined): string {
+    if (!balance) {
+        return 'Closing balance not checked: the statement reports none (use --closing-balance).';
+    }
+    const amounts = `statement ${balance.statement}, book ${balance.book}`;
+    return balance.balanced
+        ? `Closing balance on ${balance.date} agrees: ${amounts}.`
+        : `Closing balance on ${balance.date} differs by ${balance.difference}: ${amounts}.`;
+}
+
+/**
+ * Picks the closing balance to check: the one given on the command line,
+ * dated at the statement's closing date or last line, or otherwise the
+ * latest closing balance the statement file reports.
+ */
+function resolveClosingBalance(
+    statements: Statement[],
+    entries: StatementEntry[],
+    override: string | undefined
+): StatementBalance | undefined {
+    const reported = statements
+        .map(statement => statement.closingBalance)
+        .filter((balance): balance is StatementBalance => balance !== undefined)
+        .reduce<StatementBalance | undefined>(
+            (latest, balance) => (!latest || balance.date >= latest.date ? balance : latest),
+            undefined
+        );
+    if (override === undefined) {
+        return reported;
+    }
+
+    const lastDate = entries.reduce<string | undefined>(
+        (latest, entry) => (!latest || entry.date > latest ? entry.date : latest),
+        undefined
+    );
+    const date = reported?.date ?? lastDate;
+    if (!date) {
+        throw new ValidationError(['Unable to date --closing-balance: the statement has no lines']);
+    }
+    return { date, amount: normalizeAmount(override, '.') };
+}
+
+/**
+ * Lists the account's transactions, checked, unchecked and drafts, from the
+ * date window before the first statement line to the window after the last.
+ */
+async function listAccountTransactions(
+    bookId: string,
+    accountName: string,
+    entries: StatementEntry[],
+    options: StatementMatchingOptions
+): Promise<Transaction[]> {
+    if (entries.length === 0) {
+        return [];
+    }
+    const days = options.days ?? DEFAULT_RECONCILE_WINDOW_DAYS;
+    const dates = entries.map(entry => entry.date).sort();
+    const from = addDays(dates[0], -days);
+    // before: is exclusive, so the day after includes the whole last day
+    const to = addDays(dates[dates.length - 1], days + 1);
+    const result = await listTransactions(bookId, {
+        query: `account:${quoteQueryValue(accountName)} after:${from} before:${to}`,
+    });
+    return result.items;
+}
+
+async function checkClosingBalance(
+    book: Book,
+    accountName: string,
+    closing: StatementBalance
+): Promise<ReconcileBalanceCheck> {
+    const fractionDigits = book.getFractionDigits() ?? 2;
+    // before: is exclusive, so the day after includes the whole closing day
+    const report = await book.getBalancesReport(
+        `account:${quoteQueryValue(accountName)} before:${addDays(closing.date, 1)}`
+    );
+    const container = collectAccountContainers(report.getBalancesContainers()).find(
+        item => item.getName() === accountName
+    );
+
+    // Statements sign balances like their lines: money in the account is positive
+    const bookUnits = container
+        ? toMinorUnits(container.getCumulativeDebit().toFixed(fractionDigits), fractionDigits) -
+          toMinorUnits(container.getCumulativeCredit().toFixed(fractionDigits), fractionDigits)
+        : ZERO;
+    const statementUnits = toMinorUnits(closing.amount, fractionDigits);
+
+    return {
+        date: closing.date,
+        statement: formatMinorUnits(statementUnits, fractionDigits),
+        book: formatMinorUnits(bookUnits, fractionDigits),
+        difference: formatMinorUnits(statementUnits - bookUnits, fractionDigits),
+        balanced: statementUnits === bookUnits,
+    };
+}
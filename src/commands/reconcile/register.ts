@@ -0,0 +1,85 @@
+import type { Command } from 'commander';
+import { withAction } from '../action.js';
+import { parseNonNegativeInteger, parseRatio } from '../cli-helpers.js';
+import { isJsonFormat, renderItem, renderListResult } from '../../render/index.js';
+import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
+import { EXIT_CODES } from '../../utils/errors.js';
+import {
+    buildReconcileMatrix,
+    formatBalanceCheck,
+    formatReconcileSummary,
+    reconcile,
+    DEFAULT_RECONCILE_MIN_SIMILARITY,
+    DEFAULT_RECONCILE_WINDOW_DAYS,
+} from './index.js';
+
+export function registerReconcileCommand(program: Command): void {
+    program
+        .command('reconcile')
+        .description(
+            'Reconcile an account with a bank statement: check matches, draft the rest, compare balances'
+        )
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('--account <account>', 'Account name or ID the statement belongs to')
+        .option('--statement <file>', 'Statement file (OFX/QFX, CSV, camt.053, MT940)')
+        .option(
+            '--statement-format <format>',
+            'Statement format: ofx, csv, camt053 or mt940 (default: from the file extension)'
+        )
+        .option('--mapping <file>', 'CSV column mapping profile (YAML)')
+        .option(
+            '--days <days>',
+            `Maximum days between a statement line and its transaction (default: ${DEFAULT_RECONCILE_WINDOW_DAYS})`,
+            parseNonNegativeInteger
+        )
+        .option(
+            '--similarity <ratio>',
+            `Minimum description similarity from 0 to 1 (default: ${DEFAULT_RECONCILE_MIN_SIMILARITY})`,
+            parseRatio
+        )
+        .option('--closing-balance <amount>', 'Statement closing balance, if the file has none')
+        .option('--dry-run', 'Show the reconciliation without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action(options =>
+            withAction('reconciling account', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'account', flag: '--account' },
+                        { name: 'statement', flag: '--statement' },
+                    ])
+                );
+                const result = await reconcile(options.book, {
+                    account: options.account,
+                    statement: options.statement,
+                    format: options.statementFormat,
+                    mapping: options.mapping,
+                    days: options.days,
+                    minSimilarity: options.similarity,
+                    closingBalance: options.closingBalance,
+                    dryRun: options.dryRun,
+                    yes: options.yes,
+                });
+                if (isJsonFormat(format)) {
+                    renderItem(result, format, output);
+                } else {
+                    renderListResult(
+                        {
+                            kind: 'matrix',
+                            matrix: buildReconcileMatrix(result),
+                            footer: formatReconcileSummary(result),
+                        },
+                        format,
+                        output
+                    );
+                }
+                if (result.balance && !result.balance.balanced) {
+                    // Only the table output carries the summary with the balance check
+                    if (format !== 'table') {
+                        console.error(formatBalanceCheck(result.balance));
+                    }
+                    process.exitCode = EXIT_CODES.differences;
+                }
+            })()
+        );
+}
@@ -0,0 +1,43 @@
+import { ValidationError } from '../../utils/validation.js';
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/** Zero minor units, for summing report amounts. */
+export const ZERO = BigInt(0);
+
+/**
+ * Converts a decimal string into integer minor units, e.g. "-12.3" with two
+ * fraction digits becomes -1230. Extra digits are rounded half away from zero.
+ *
+ * Report totals are summed in minor units so they never pick up floating
+ * point drift and always tie out to the cent.
+ *
+ * @param value - Decimal string with a dot separator
+ * @param fractionDigits - Fraction digits of the book
+ * @throws ValidationError if the value is not a valid decimal
+ */
+export function toMinorUnits(value: string, fractionDigits: number): bigint {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match) {
+        throw new ValidationError([`Invalid amount: ${value}`]);
+    }
+    const [, sign, integer, fraction = ''] = match;
+
+    const kept = fraction.slice(0, fractionDigits).padEnd(fractionDigits, '0');
+    let units = BigInt(`${integer}${kept}`);
+    if (fraction.length > fractionDigits && Number(fraction[fractionDigits]) >= 5) {
+        units += BigInt(1);
+    }
+    return sign ? -units : units;
+}
+
+/**
+ * Formats integer minor units back into a decimal string with a dot separator.
+ */
+export function formatMinorUnits(units: bigint, fractionDigits: number): string {
+    const negative = units < ZERO;
+    const digits = (negative ? -units : units).toString().padStart(fractionDigits + 1, '0');
+    const integer = digits.slice(0, digits.length - fractionDigits);
+    const fraction = digits.slice(digits.length - fractionDigits);
+    return `${negative ? '-' : ''}${integer}${fractionDigits > 0 ? `.${fraction}` : ''}`;
+}
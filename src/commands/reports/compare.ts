@@ -0,0 +1,293 @@
+import { formatMinorUnits, toMinorUnits, ZERO } from './amounts.js';
+import { addDays, parseIsoDate } from './dates.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * A reporting period with inclusive boundaries, as yyyy-mm-dd. Without
+ * `from` it is a point in time: balances up to and including `to`.
+ */
+export interface ReportPeriod {
+    from?: string;
+    to: string;
+    /** Budget book to read the period from instead of the reported book. */
+    budgetBookId?: string;
+}
+
+/**
+ * One row of a report to compare across periods. Rows without an amount are
+ * headings.
+ */
+export interface ComparisonInputRow {
+    /** Identifies the same row across periods. */
+    key: string;
+    name: string;
+    depth: number;
+    amount?: string;
+}
+
+/**
+ * Change of the current period against one comparison period.
+ */
+export interface ComparisonChange {
+    amount: string;
+    /** Change relative to the comparison amount, or null when that amount is zero. */
+    percent: string | null;
+}
+
+/**
+ * A row of a comparative report: one amount per period, current first, and
+ * one change per comparison period. Headings have no amounts.
+ */
+export interface ComparisonRow {
+    name: string;
+    depth: number;
+    amounts: string[];
+    changes: ComparisonChange[];
+}
+
+const PRESETS = ['previous-period', 'previous-year', 'budget:<bookId>'];
+
+const BUDGET_PREFIX = 'budget:';
+
+/**
+ * Splits `--compare` values into period specs, accepting repeated options
+ * and comma-separated lists.
+ */
+export function parseCompareSpecs(values: string[]): string[] {
+    return values
+        .flatMap(value => value.split(','))
+        .map(spec => spec.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Resolves comparison periods against the current period.
+ *
+ * Specs are `previous-period` (the period of the same length right before,
+ * in whole months when the period spans whole months), `previous-year` (the
+ * same period twelve months earlier), `budget:<bookId>` (the current period
+ * read from a budget book with the same groups and accounts), a custom
+ * `yyyy-mm-dd..yyyy-mm-dd` range or a single `yyyy-mm-dd` point in time.
+ *
+ * @param current - The current period
+ * @param specs - Comparison period specs, in column order
+ * @returns One period per spec
+ * @throws ValidationError if a spec is invalid
+ */
+export function resolveComparePeriods(current: ReportPeriod, specs: string[]): ReportPeriod[] {
+    return specs.map(spec => {
+        if (spec === 'previous-year') {
+            return shiftPeriod(current, { months: 12 });
+        }
+        if (spec === 'previous-period') {
+            return shiftPeriod(current, previousPeriodShift(current));
+        }
+        if (spec.startsWith(BUDGET_PREFIX)) {
+            const budgetBookId = spec.slice(BUDGET_PREFIX.length).trim();
+            if (!budgetBookId) {
+                throw invalidSpec(spec);
+            }
+            return { ...current, budgetBookId };
+        }
+
+        const [from, to, extra] = spec.split('..');
+        if (extra !== undefined) {
+            throw invalidSpec(spec);
+        }
+        try {
+            const period: ReportPeriod = to === undefined ? { to: from } : { from, to };
+            if (period.from) {
+                parseIsoDate(period.from);
+            }
+            parseIsoDate(period.to);
+            if (period.from && period.from > period.to) {
+                throw new Error('reversed');
+            }
+            return period;
+        } catch {
+            throw invalidSpec(spec);
+        }
+    });
+}
+
+/**
+ * Formats a period as a column label, e.g. `2025-01-01 to 2025-03-31`, or
+ * `Budget 2025-01-01 to 2025-03-31` for a period read from a budget book.
+ */
+export function formatPeriodLabel(period: ReportPeriod): string {
+    const label = period.from ? `${period.from} to ${period.to}` : period.to;
+    return period.budgetBookId ? `Budget ${label}` : label;
+}
+
+/**
+ * Lines rows of the same report for several periods up by key and computes
+ * the change of the current period against each comparison period.
+ *
+ * Rows keep the order of the current period; rows found only in a comparison
+ * period are placed after the row that precedes them there. Amounts missing
+ * from a period count as zero.
+ *
+ * @param periods - Rows per period, current period first
+ * @param fractionDigits - Fraction digits of the book
+ */
+export function compareRows(
+    periods: ComparisonInputRow[][],
+    fractionDigits: number
+): ComparisonRow[] {
+    const order: ComparisonInputRow[] = [];
+    for (const rows of periods) {
+        let previousKey: string | undefined;
+        for (const row of rows) {
+            if (!order.some(existing => existing.key === row.key)) {
+                const index = order.findIndex(existing => existing.key === previousKey) + 1;
+                order.splice(index, 0, row);
+            }
+            previousKey = row.key;
+        }
+    }
+
+    const amountsByPeriod = periods.map(
+        rows => new Map(rows.map(row => [row.key, row.amount] as const))
+    );
+
+    return order.map(row => {
+        const isHeading = amountsByPeriod.every(amounts => amounts.get(row.key) === undefined);
+        if (isHeading) {
+            return { name: row.name, depth: row.depth, amounts: [], changes: [] };
+        }
+
+        const units = amountsByPeriod.map(amounts => {
+            const amount = amounts.get(row.key);
+            return amount === undefined ? ZERO : toMinorUnits(amount, fractionDigits);
+        });
+        const [current, ...comparisons] = units;
+        return {
+            name: row.name,
+            depth: row.depth,
+            amounts: units.map(value => formatMinorUnits(value, fractionDigits)),
+            changes: comparisons.map(previous => ({
+                amount: formatMinorUnits(current - previous, fractionDigits),
+                percent: formatPercentChange(current, previous),
+            })),
+        };
+    });
+}
+
+/**
+ * Builds a comparative matrix: the row name, one amount column per period,
+ * then an absolute and a percentage change column per comparison period.
+ *
+ * @param title - Header of the name column
+ * @param periods - Period labels, current period first
+ * @param rows - Rows from {@link compareRows}
+ */
+export function buildComparisonMatrix(
+    title: string,
+    periods: string[],
+    rows: ComparisonRow[]
+): unknown[][] {
+    const [current, ...comparisons] = periods;
+    const header: unknown[] = [title, current, ...comparisons];
+    for (const label of comparisons) {
+        header.push(`Change vs ${label}`, `Change % vs ${label}`);
+    }
+
+    const matrix: unknown[][] = [header];
+    for (const row of rows) {
+        const line: unknown[] = [`${'  '.repeat(row.depth)}${row.name}`];
+        if (row.amounts.length === 0) {
+            line.push(...new Array(header.length - 1).fill(''));
+        } else {
+            line.push(...row.amounts);
+            for (const change of row.changes) {
+                line.push(change.amount, change.percent === null ? '' : `${change.percent}%`);
+            }
+        }
+        matrix.push(line);
+    }
+    return matrix;
+}
+
+/**
+ * Percentage change with one decimal, relative to the absolute comparison
+ * amount so a smaller loss reads as an improvement.
+ */
+function formatPercentChange(current: bigint, previous: bigint): string | null {
+    if (previous === ZERO) {
+        return null;
+    }
+    const base = previous < ZERO ? -previous : previous;
+    const percent = (Number(current - previous) / Number(base)) * 100;
+    return (Math.round(percent * 10) / 10).toFixed(1);
+}
+
+interface Shift {
+    months?: number;
+    days?: number;
+}
+
+/**
+ * A period spanning whole months moves back by its number of months; any
+ * other range moves back by its number of days. A point in time moves back
+ * one month.
+ */
+function previousPeriodShift(period: ReportPeriod): Shift {
+    if (!period.from) {
+        return { months: 1 };
+    }
+    if (isMonthStart(period.from) && isMonthEnd(period.to)) {
+        const [fromYear, fromMonth] = period.from.split('-').map(Number);
+        const [toYear, toMonth] = period.to.split('-').map(Number);
+        return { months: (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1 };
+    }
+    const days =
+        (parseIsoDate(period.to).getTime() - parseIsoDate(period.from).getTime()) / 86_400_000;
+    return { days: days + 1 };
+}
+
+function shiftPeriod(period: ReportPeriod, shift: Shift): ReportPeriod {
+    const move = (date: string, keepMonthEnd: boolean) =>
+        shift.days !== undefined
+            ? addDays(date, -shift.days)
+            : subtractMonths(date, shift.months || 0, keepMonthEnd);
+
+    const to = move(period.to, isMonthEnd(period.to));
+    return period.from ? { from: move(period.from, false), to } : { to };
+}
+
+/**
+ * Moves a date back by whole months, clamping to the last day of the target
+ * month. Month-end dates stay at month end, so 2024-02-29 minus 12 months is
+ * 2023-02-28 and 2025-04-30 minus 1 month is 2025-03-31.
+ */
+function subtractMonths(date: string, months: number, keepMonthEnd: boolean): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const index = year * 12 + (month - 1) - months;
+    const targetYear = Math.floor(index / 12);
+    const targetMonth = (index % 12) + 1;
+    const lastDay = daysInMonth(targetYear, targetMonth);
+    const targetDay = keepMonthEnd ? lastDay : Math.min(day, lastDay);
+    return [targetYear, targetMonth, targetDay]
+        .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, '0'))
+        .join('-');
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isMonthStart(date: string): boolean {
+    return date.endsWith('-01');
+}
+
+function isMonthEnd(date: string): boolean {
+    return addDays(date, 1).endsWith('-01');
+}
+
+function invalidSpec(spec: string): ValidationError {
+    return new ValidationError([
+        `Invalid --compare period: ${spec} (expected ${PRESETS.join(
+            ', '
+        )}, yyyy-mm-dd..yyyy-mm-dd or yyyy-mm-dd)`,
+    ]);
+}
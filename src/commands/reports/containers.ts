@@ -0,0 +1,20 @@
+import type { BalancesContainer } from 'bkper-js';
+
+/**
+ * Collects the account containers of a balances report, descending into
+ * groups. An account in several groups is listed once.
+ */
+export function collectAccountContainers(containers: BalancesContainer[]): BalancesContainer[] {
+    const accounts = new Map<string, BalancesContainer>();
+    const visit = (list: BalancesContainer[] | null) => {
+        for (const container of list || []) {
+            if (container.isFromAccount()) {
+                accounts.set(container.getName(), container);
+            } else {
+                visit(container.getBalancesContainers());
+            }
+        }
+    };
+    visit(containers);
+    return [...accounts.values()];
+}
@@ -0,0 +1,36 @@
+import { ValidationError } from '../../utils/validation.js';
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses an ISO yyyy-mm-dd date into a UTC Date.
+ *
+ * @throws ValidationError if the value is not a valid ISO date
+ */
+export function parseIsoDate(value: string): Date {
+    const match = ISO_DATE_PATTERN.exec(value);
+    const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : undefined;
+    if (!date || date.toISOString().slice(0, 10) !== value) {
+        throw new ValidationError([`Invalid date: ${value} (expected yyyy-mm-dd)`]);
+    }
+    return date;
+}
+
+/**
+ * Adds days to an ISO yyyy-mm-dd date.
+ */
+export function addDays(value: string, days: number): string {
+    const date = parseIsoDate(value);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns today's date in the local time zone as yyyy-mm-dd.
+ */
+export function today(): string {
+    const now = new Date();
+    return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+        .toISOString()
+        .slice(0, 10);
+}
@@ -0,0 +1,42 @@
+export {
+    getTrialBalance,
+    buildTrialBalance,
+    buildTrialBalanceMatrix,
+    formatTrialBalanceStatus,
+} from './trial-balance.js';
+export type {
+    TrialBalanceOptions,
+    AccountTotals,
+    TrialBalance,
+    TrialBalanceLine,
+} from './trial-balance.js';
+export {
+    getStatement,
+    getComparativeStatement,
+    buildStatementQuery,
+    buildStatementMatrix,
+    buildComparativeStatementMatrix,
+    buildStatementSheets,
+    flattenStatement,
+    formatStatementFooter,
+} from './statements.js';
+export type {
+    StatementType,
+    StatementOptions,
+    StatementNode,
+    Statement,
+    ComparativeStatement,
+} from './statements.js';
+export {
+    parseCompareSpecs,
+    resolveComparePeriods,
+    formatPeriodLabel,
+    compareRows,
+    buildComparisonMatrix,
+} from './compare.js';
+export type {
+    ReportPeriod,
+    ComparisonInputRow,
+    ComparisonChange,
+    ComparisonRow,
+} from './compare.js';
@@ -0,0 +1,170 @@
+import type { Command } from 'commander';
+import { withAction } from '../action.js';
+import { collectRepeatable } from '../cli-helpers.js';
+import {
+    isJsonFormat,
+    renderItem,
+    renderListResult,
+    type OutputFormat,
+    type OutputOptions,
+} from '../../render/index.js';
+import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
+import { EXIT_CODES } from '../../utils/errors.js';
+import {
+    buildComparativeStatementMatrix,
+    buildStatementMatrix,
+    buildStatementSheets,
+    buildTrialBalanceMatrix,
+    formatStatementFooter,
+    formatTrialBalanceStatus,
+    getComparativeStatement,
+    getStatement,
+    getTrialBalance,
+    parseCompareSpecs,
+    type StatementOptions,
+    type StatementType,
+} from './index.js';
+
+export function registerReportCommands(program: Command): void {
+    const reportCommand = program.command('report').description('Generate financial reports');
+
+    reportCommand
+        .command('trial-balance')
+        .description('Trial balance with debit and credit columns; exits 8 if out of balance')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('--as-of <date>', 'Last day included in the balances (yyyy-mm-dd)')
+        .action(options =>
+            withAction('generating trial balance', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'asOf', flag: '--as-of' },
+                    ])
+                );
+                const trialBalance = await getTrialBalance(options.book, { asOf: options.asOf });
+                if (isJsonFormat(format)) {
+                    renderItem(trialBalance, format, output);
+                } else {
+                    renderListResult(
+                        {
+                            kind: 'matrix',
+                            matrix: buildTrialBalanceMatrix(trialBalance),
+                            footer: formatTrialBalanceStatus(trialBalance),
+                        },
+                        format,
+                        output
+                    );
+                }
+                if (!trialBalance.balanced) {
+                    // The table footer already reports it; keep json/csv stdout clean
+                    if (format !== 'table') {
+                        console.error(formatTrialBalanceStatus(trialBalance));
+                    }
+                    process.exitCode = EXIT_CODES.differences;
+                }
+            })()
+        );
+
+    reportCommand
+        .command('balance-sheet')
+        .description('Balance sheet of a root group, with section subtotals')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('-g, --group <group>', 'Root reporting group ID or name')
+        .option('--as-of <date>', 'Last day included in the balances (yyyy-mm-dd)')
+        .option('--timezone <timezone>', 'Expected book time zone (fails if the book differs)')
+        .option(
+            '--compare <periods>',
+            'Compare with previous-period, previous-year, budget:<bookId> or yyyy-mm-dd..yyyy-mm-dd (repeatable or comma-separated)',
+            collectRepeatable
+        )
+        .action(options =>
+            withAction('generating balance sheet', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'group', flag: '--group' },
+                        { name: 'asOf', flag: '--as-of' },
+                    ])
+                );
+                await renderStatement(
+                    options.book,
+                    'balance-sheet',
+                    { group: options.group, to: options.asOf, timezone: options.timezone },
+                    options.compare,
+                    format,
+                    output
+                );
+            })()
+        );
+
+    reportCommand
+        .command('income-statement')
+        .description('Income statement (P&L) of a root group over a period, with net income')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('-g, --group <group>', 'Root reporting group ID or name')
+        .option('--from <date>', 'First day of the period (yyyy-mm-dd)')
+        .option('--to <date>', 'Last day of the period (yyyy-mm-dd)')
+        .option('--timezone <timezone>', 'Expected book time zone (fails if the book differs)')
+        .option(
+            '--compare <periods>',
+            'Compare with previous-period, previous-year, budget:<bookId> or yyyy-mm-dd..yyyy-mm-dd (repeatable or comma-separated)',
+            collectRepeatable
+        )
+        .action(options =>
+            withAction('generating income statement', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'group', flag: '--group' },
+                        { name: 'from', flag: '--from' },
+                        { name: 'to', flag: '--to' },
+                    ])
+                );
+                await renderStatement(
+                    options.book,
+                    'income-statement',
+                    {
+                        group: options.group,
+                        from: options.from,
+                        to: options.to,
+                        timezone: options.timezone,
+                    },
+                    options.compare,
+                    format,
+                    output
+                );
+            })()
+        );
+}
+
+async function renderStatement(
+    bookId: string,
+    type: StatementType,
+    options: StatementOptions,
+    compare: string[] | undefined,
+    format: OutputFormat,
+    output: OutputOptions
+): Promise<void> {
+    const statement = compare
+        ? await getComparativeStatement(bookId, type, options, parseCompareSpecs(compare))
+        : await getStatement(bookId, type, options);
+    if (isJsonFormat(format)) {
+        renderItem(statement, format, output);
+        return;
+    }
+    const matrix =
+        'periods' in statement
+            ? buildComparativeStatementMatrix(statement)
+            : buildStatementMatrix(statement);
+    renderListResult(
+        {
+            kind: 'matrix',
+            matrix,
+            footer: formatStatementFooter(statement),
+            fractionDigits: statement.fractionDigits,
+            sheets: buildStatementSheets(matrix),
+        },
+        format,
+        output
+    );
+}
@@ -0,0 +1,398 @@
+import type { BalancesContainer, Book } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import type { XlsxSheet } from '../../render/xlsx-formatter.js';
+import { formatMinorUnits, toMinorUnits, ZERO } from './amounts.js';
+import {
+    buildComparisonMatrix,
+    compareRows,
+    formatPeriodLabel,
+    resolveComparePeriods,
+    type ComparisonInputRow,
+    type ComparisonRow,
+    type ReportPeriod,
+} from './compare.js';
+import { addDays, parseIsoDate } from './dates.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { quoteQueryValue } from '../../utils/query-quote.js';
+import { compareCodePoints } from '../../utils/compare.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Financial statements built from a root group.
+ */
+export type StatementType = 'balance-sheet' | 'income-statement';
+
+/**
+ * Options for building a financial statement.
+ */
+export interface StatementOptions {
+    /** Root reporting group ID or name. */
+    group: string;
+    /** First day of the period (income statement only), as yyyy-mm-dd. */
+    from?: string;
+    /** Last day included in the statement, as yyyy-mm-dd. */
+    to: string;
+    /** Expected book time zone; the statement fails if the book uses another one. */
+    timezone?: string;
+}
+
+/**
+ * A group or account of a statement. Amounts follow the nature of the group
+ * or account: credit balances of liabilities and revenue are positive.
+ */
+export interface StatementNode {
+    name: string;
+    kind: 'group' | 'account';
+    amount: string;
+    /** Child groups and accounts, sorted by name (groups only). */
+    children?: StatementNode[];
+}
+
+/**
+ * A balance sheet or income statement, with the inputs that produced it.
+ */
+export interface Statement {
+    type: StatementType;
+    bookId: string;
+    group: string;
+    /** First day of the period; absent on a balance sheet. */
+    from?: string;
+    to: string;
+    /** The query sent to the balances report. */
+    query: string;
+    timezone: string;
+    fractionDigits: number;
+    /** Top-level sections: the children of the root group. */
+    sections: StatementNode[];
+    /**
+     * Credits minus debits of incoming and outgoing accounts on an income
+     * statement; on a balance sheet, debit balances minus credit balances,
+     * i.e. earnings not yet closed into equity.
+     */
+    netIncome: string;
+}
+
+/**
+ * A statement over several periods, current period first, with the change
+ * of the current period against each comparison period.
+ */
+export interface ComparativeStatement {
+    type: StatementType;
+    bookId: string;
+    group: string;
+    timezone: string;
+    fractionDigits: number;
+    /** Periods in column order; `bookId` is set on periods read from a budget book. */
+    periods: { label: string; from?: string; to: string; query: string; bookId?: string }[];
+    rows: ComparisonRow[];
+}
+
+interface BuiltNode {
+    node: StatementNode;
+    /** Debits minus credits, in minor units. */
+    raw: bigint;
+}
+
+const STATEMENT_TITLES: Record<StatementType, string> = {
+    'balance-sheet': 'Balance Sheet',
+    'income-statement': 'Income Statement',
+};
+
+/**
+ * Builds a balance sheet or income statement from a root reporting group.
+ *
+ * The statement follows the group tree under the root, with accounts and
+ * child groups sorted by name and subtotals summed in minor units, so two
+ * runs over the same book snapshot produce identical output.
+ *
+ * A balance sheet holds cumulative balances up to and including `to`. An
+ * income statement holds the activity from `from` through `to`.
+ *
+ * @param bookId - The book ID to report on
+ * @param type - The statement to build
+ * @param options - Root group, period boundaries and expected time zone
+ * @returns The statement tree with net income
+ * @throws ValidationError if dates are invalid or the time zone differs, NotFoundError if the
+ *   group is not found
+ */
+export async function getStatement(
+    bookId: string,
+    type: StatementType,
+    options: StatementOptions
+): Promise<Statement> {
+    const period = buildStatementQuery(type, options);
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId);
+    const timezone = resolveTimezone(book, options.timezone);
+
+    const group = await book.getGroup(options.group);
+    if (!group) {
+        throw new NotFoundError('Group', options.group);
+    }
+    const groupName = group.getName() || options.group;
+
+    const fractionDigits = book.getFractionDigits() ?? 2;
+    const query = `group:${quoteQueryValue(groupName)} ${period}`;
+    const report = await book.getBalancesReport(query);
+    const containers: BalancesContainer[] = report.getBalancesContainers();
+    const root = containers.find(container => container.getName() === groupName) || containers[0];
+
+    const built = root ? buildNode(root, type, fractionDigits) : undefined;
+    const raw = built ? built.raw : ZERO;
+
+    return {
+        type,
+        bookId,
+        group: groupName,
+        ...(type === 'income-statement' ? { from: options.from } : {}),
+        to: options.to,
+        query,
+        timezone,
+        fractionDigits,
+        sections: built?.node.children || [],
+        netIncome: formatMinorUnits(type === 'income-statement' ? -raw : raw, fractionDigits),
+    };
+}
+
+/**
+ * Builds the date part of the balances query for a statement, validating
+ * the period boundaries.
+ *
+ * @throws ValidationError if a date is invalid, or the income statement period is missing or reversed
+ */
+export function buildStatementQuery(type: StatementType, options: StatementOptions): string {
+    parseIsoDate(options.to);
+    // before: is exclusive, so the day after includes the whole last day
+    const before = `before:${addDays(options.to, 1)}`;
+    if (type === 'balance-sheet') {
+        return before;
+    }
+
+    if (!options.from) {
+        throw new ValidationError(['Income statement requires --from']);
+    }
+    parseIsoDate(options.from);
+    if (options.from > options.to) {
+        throw new ValidationError([
+            `Invalid period: --from ${options.from} is after --to ${options.to}`,
+        ]);
+    }
+    return `after:${options.from} ${before}`;
+}
+
+/**
+ * Flattens a statement into a matrix: each group as an indented heading,
+ * its accounts and child groups, then a total row. The statement ends with
+ * the net income row.
+ */
+export function buildStatementMatrix(statement: Statement): unknown[][] {
+    const matrix: unknown[][] = [[STATEMENT_TITLES[statement.type], formatPeriodLabel(statement)]];
+    for (const row of flattenStatement(statement)) {
+        matrix.push([`${'  '.repeat(row.depth)}${row.name}`, row.amount ?? '']);
+    }
+    return matrix;
+}
+
+/**
+ * Flattens a statement into rows in display order: group headings, accounts,
+ * group totals and net income. Row keys are the group path, so the same row
+ * can be found in the statement of another period.
+ */
+export function flattenStatement(statement: Statement): ComparisonInputRow[] {
+    const rows: ComparisonInputRow[] = [];
+    const visit = (node: StatementNode, path: string[]) => {
+        const nodePath = [...path, node.name];
+        const key = nodePath.join('\n');
+        const depth = path.length;
+        if (node.kind === 'account') {
+            rows.push({ key, name: node.name, depth, amount: node.amount });
+            return;
+        }
+        rows.push({ key, name: node.name, depth });
+        for (const child of node.children || []) {
+            visit(child, nodePath);
+        }
+        rows.push({ key: `${key}\ntotal`, name: `Total ${node.name}`, depth, amount: node.amount });
+    };
+    for (const section of statement.sections) {
+        visit(section, []);
+    }
+
+    rows.push({ key: '\nnet-income', name: 'Net Income', depth: 0, amount: statement.netIncome });
+    return rows;
+}
+
+/**
+ * Builds a statement for the current period and each comparison period, and
+ * lines them up with the change against each comparison period. Budget
+ * periods are built from the budget book, finding the root group by name.
+ *
+ * @param bookId - The book ID to report on
+ * @param type - The statement to build
+ * @param options - Root group, current period boundaries and expected time zone
+ * @param compare - Comparison period specs, see {@link resolveComparePeriods}
+ * @returns Periods with their queries, and comparative rows
+ * @throws ValidationError if a comparison period does not fit the statement
+ */
+export async function getComparativeStatement(
+    bookId: string,
+    type: StatementType,
+    options: StatementOptions,
+    compare: string[]
+): Promise<ComparativeStatement> {
+    const current: ReportPeriod =
+        type === 'income-statement' ? { from: options.from, to: options.to } : { to: options.to };
+    buildStatementQuery(type, options);
+    const comparisons = resolveComparePeriods(current, compare);
+    for (const [index, period] of comparisons.entries()) {
+        if (type === 'income-statement' && !period.from) {
+            throw new ValidationError([
+                `Invalid --compare period for an income statement: ${compare[index]} (expected yyyy-mm-dd..yyyy-mm-dd)`,
+            ]);
+        }
+    }
+
+    const periods = [current, ...comparisons];
+    const statements: Statement[] = [];
+    for (const period of periods) {
+        statements.push(
+            await getStatement(period.budgetBookId ?? bookId, type, {
+                ...options,
+                // A budget book is matched by the name of the root group
+                group: period.budgetBookId ? statements[0].group : options.group,
+                from: type === 'income-statement' ? period.from : undefined,
+                to: period.to,
+            })
+        );
+    }
+
+    const [first] = statements;
+    return {
+        type,
+        bookId,
+        group: first.group,
+        timezone: first.timezone,
+        fractionDigits: first.fractionDigits,
+        periods: statements.map((statement, index) => ({
+            label: formatPeriodLabel(periods[index]),
+            ...(statement.from ? { from: statement.from } : {}),
+            to: statement.to,
+            query: statement.query,
+            ...(periods[index].budgetBookId ? { bookId: statement.bookId } : {}),
+        })),
+        rows: compareRows(statements.map(flattenStatement), first.fractionDigits),
+    };
+}
+
+/**
+ * Builds the matrix of a comparative statement, with amount and change columns.
+ */
+export function buildComparativeStatementMatrix(statement: ComparativeStatement): unknown[][] {
+    return buildComparisonMatrix(
+        STATEMENT_TITLES[statement.type],
+        statement.periods.map(period => period.label),
+        statement.rows
+    );
+}
+
+/**
+ * Splits a statement matrix, plain or comparative, into workbook sheets: a
+ * Summary sheet with the total of each top-level section and net income,
+ * then one sheet per section with its heading, rows and total. Every sheet
+ * starts with the header row of the matrix.
+ */
+export function buildStatementSheets(matrix: unknown[][]): XlsxSheet[] {
+    const [header, ...rows] = matrix;
+    const summary: XlsxSheet = { name: 'Summary', matrix: [header] };
+    const sheets: XlsxSheet[] = [summary];
+    let section: XlsxSheet | undefined;
+    for (const row of rows) {
+        const name = String(row[0]);
+        if (section) {
+            section.matrix.push(row);
+            if (name === `Total ${section.name}`) {
+                summary.matrix.push(row);
+                section = undefined;
+            }
+        } else if (!/^\s/.test(name) && row.slice(1).every(cell => cell === '')) {
+            section = { name, matrix: [header, row] };
+            sheets.push(section);
+        } else {
+            summary.matrix.push(row);
+        }
+    }
+    return sheets;
+}
+
+/**
+ * Describes the inputs of a statement, for the table footer.
+ */
+export function formatStatementFooter(statement: Statement | ComparativeStatement): string {
+    const queries =
+        'periods' in statement
+            ? statement.periods.map(period => period.query).join('; ')
+            : statement.query;
+    return `Book ${statement.bookId}, query: ${queries}, time zone: ${statement.timezone}`;
+}
+
+function buildNode(
+    container: BalancesContainer,
+    type: StatementType,
+    fractionDigits: number
+): BuiltNode {
+    const credit = container.isCredit() === true;
+
+    if (container.isFromAccount()) {
+        const [debit, creditAmount] =
+            type === 'balance-sheet'
+                ? [container.getCumulativeDebit(), container.getCumulativeCredit()]
+                : [container.getPeriodDebit(), container.getPeriodCredit()];
+        const raw =
+            toMinorUnits(debit.toFixed(fractionDigits), fractionDigits) -
+            toMinorUnits(creditAmount.toFixed(fractionDigits), fractionDigits);
+        return {
+            node: {
+                name: container.getName(),
+                kind: 'account',
+                amount: formatMinorUnits(credit ? -raw : raw, fractionDigits),
+            },
+            raw,
+        };
+    }
+
+    const childContainers: BalancesContainer[] = container.getBalancesContainers() || [];
+    const children = childContainers
+        .map(child => buildNode(child, type, fractionDigits))
+        .sort((a, b) => compareNodes(a.node, b.node));
+    const raw = children.reduce((sum, child) => sum + child.raw, ZERO);
+    return {
+        node: {
+            name: container.getName(),
+            kind: 'group',
+            amount: formatMinorUnits(credit ? -raw : raw, fractionDigits),
+            children: children.map(child => child.node),
+        },
+        raw,
+    };
+}
+
+/**
+ * Orders groups before accounts, then by name.
+ */
+function compareNodes(a: StatementNode, b: StatementNode): number {
+    if (a.kind !== b.kind) {
+        return a.kind === 'group' ? -1 : 1;
+    }
+    return compareCodePoints(a.name, b.name);
+}
+
+function resolveTimezone(book: Book, expected?: string): string {
+    const timezone = book.getTimeZone() || 'UTC';
+    if (expected && expected !== timezone) {
+        throw new ValidationError([
+            `Book time zone is ${timezone}, not ${expected}: statement dates are interpreted in the book time zone`,
+        ]);
+    }
+    return timezone;
+}
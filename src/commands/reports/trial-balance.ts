@@ -0,0 +1,142 @@
+import { getBkperInstance } from '../../bkper-factory.js';
+import { formatMinorUnits, toMinorUnits, ZERO } from './amounts.js';
+import { collectAccountContainers } from './containers.js';
+import { addDays, parseIsoDate } from './dates.js';
+import { compareCodePoints } from '../../utils/compare.js';
+
+/**
+ * Options for building a trial balance.
+ */
+export interface TrialBalanceOptions {
+    /** Last day included in the balances, as yyyy-mm-dd. */
+    asOf: string;
+}
+
+/**
+ * Cumulative debits and credits of one account, as decimal strings.
+ */
+export interface AccountTotals {
+    account: string;
+    debit: string;
+    credit: string;
+}
+
+/**
+ * One account of a trial balance. Only one of debit or credit is non-zero,
+ * holding the net balance on its side.
+ */
+export interface TrialBalanceLine {
+    account: string;
+    debit: string;
+    credit: string;
+}
+
+/**
+ * A trial balance: every account with its net balance on the debit or credit
+ * side, and the totals of both sides.
+ */
+export interface TrialBalance {
+    asOf: string;
+    lines: TrialBalanceLine[];
+    totalDebit: string;
+    totalCredit: string;
+    /** Total debit minus total credit; zero when the book is in balance. */
+    difference: string;
+    balanced: boolean;
+}
+
+/**
+ * Builds the trial balance of a book as of a date.
+ *
+ * Balances are cumulative up to and including the as-of date, for every
+ * account of the book.
+ *
+ * @param bookId - The book ID to report on
+ * @param options - The as-of date
+ * @returns Accounts sorted by name, with totals and balance check
+ */
+export async function getTrialBalance(
+    bookId: string,
+    options: TrialBalanceOptions
+): Promise<TrialBalance> {
+    parseIsoDate(options.asOf);
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId);
+    const fractionDigits = book.getFractionDigits() ?? 2;
+
+    // before: is exclusive, so the day after includes the whole as-of date
+    const report = await book.getBalancesReport(`before:${addDays(options.asOf, 1)}`);
+    const totals = collectAccountContainers(report.getBalancesContainers()).map(container => ({
+        account: container.getName(),
+        debit: container.getCumulativeDebit().toFixed(fractionDigits),
+        credit: container.getCumulativeCredit().toFixed(fractionDigits),
+    }));
+
+    return buildTrialBalance(options.asOf, totals, fractionDigits);
+}
+
+/**
+ * Nets the debits and credits of each account onto one side and totals both
+ * sides. Totals are summed in minor units, so they tie out exactly.
+ *
+ * @param asOf - The as-of date of the balances
+ * @param totals - Cumulative debits and credits per account
+ * @param fractionDigits - Fraction digits of the book
+ */
+export function buildTrialBalance(
+    asOf: string,
+    totals: AccountTotals[],
+    fractionDigits: number
+): TrialBalance {
+    let totalDebit = ZERO;
+    let totalCredit = ZERO;
+
+    const lines = [...totals]
+        .sort((a, b) => compareCodePoints(a.account, b.account))
+        .map(({ account, debit, credit }) => {
+            const net = toMinorUnits(debit, fractionDigits) - toMinorUnits(credit, fractionDigits);
+            const debitSide = net > ZERO ? net : ZERO;
+            const creditSide = net < ZERO ? -net : ZERO;
+            totalDebit += debitSide;
+            totalCredit += creditSide;
+            return {
+                account,
+                debit: formatMinorUnits(debitSide, fractionDigits),
+                credit: formatMinorUnits(creditSide, fractionDigits),
+            };
+        });
+
+    return {
+        asOf,
+        lines,
+        totalDebit: formatMinorUnits(totalDebit, fractionDigits),
+        totalCredit: formatMinorUnits(totalCredit, fractionDigits),
+        difference: formatMinorUnits(totalDebit - totalCredit, fractionDigits),
+        balanced: totalDebit === totalCredit,
+    };
+}
+
+/**
+ * Builds a matrix with one row per account and a final totals row. Zero
+ * sides are left blank, as on a printed trial balance.
+ */
+export function buildTrialBalanceMatrix(trialBalance: TrialBalance): unknown[][] {
+    const blankZero = (value: string) => (/^-?[0.]+$/.test(value) ? '' : value);
+
+    const matrix: unknown[][] = [['Account', 'Debit', 'Credit']];
+    for (const line of trialBalance.lines) {
+        matrix.push([line.account, blankZero(line.debit), blankZero(line.credit)]);
+    }
+    matrix.push(['Total', trialBalance.totalDebit, trialBalance.totalCredit]);
+    return matrix;
+}
+
+/**
+ * Describes whether the trial balance ties out, for the table footer.
+ */
+export function formatTrialBalanceStatus(trialBalance: TrialBalance): string {
+    return trialBalance.balanced
+        ? `Trial balance as of ${trialBalance.asOf}: debits equal credits.`
+        : `Trial balance as of ${trialBalance.asOf} is out of balance by ${trialBalance.difference}.`;
+}
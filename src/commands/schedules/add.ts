@@ -0,0 +1,78 @@
+import { writeFile } from 'node:fs/promises';
+import YAML from 'yaml';
+import { ConflictError } from '../../utils/errors.js';
+import { parseSchedules, readScheduleFile, validateSchedule, type ScheduleSpec } from './spec.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Adds a schedule to a schedule file, creating the file when it does not
+ * exist. The rest of the file, comments included, is kept as it is.
+ *
+ * @param file - Schedule file path
+ * @param schedule - Schedule to add, e.g. built from command line options
+ * @returns The validated schedule as written
+ * @throws ValidationError if the schedule is invalid
+ * @throws ConflictError if a schedule with the same name exists
+ * @throws ValidationError if the file is invalid
+ */
+export async function addSchedule(file: string, schedule: ScheduleSpec): Promise<ScheduleSpec> {
+    const validated = validateSchedule(schedule);
+    const doc = parseScheduleDocument(file, (await readScheduleFile(file)) ?? '');
+
+    const existing = parseSchedules(doc.toJS());
+    if (existing.some(item => item.name === validated.name)) {
+        throw new ConflictError(`Schedule already exists: ${validated.name}`, {
+            name: validated.name,
+        });
+    }
+
+    const node = doc.createNode(toYamlObject(validated));
+    const list = doc.get('schedules');
+    if (YAML.isSeq(list)) {
+        list.add(node);
+    } else {
+        doc.set('schedules', doc.createNode([node]));
+    }
+    await writeFile(file, doc.toString(), 'utf8');
+    return validated;
+}
+
+/**
+ * Parses a schedule file keeping its comments and layout for rewriting.
+ *
+ * @throws ValidationError if the file is not valid YAML
+ */
+export function parseScheduleDocument(file: string, content: string): YAML.Document {
+    const doc = YAML.parseDocument(content);
+    if (doc.errors.length > 0) {
+        throw new ValidationError([`Invalid schedule file ${file}: ${doc.errors[0].message}`]);
+    }
+    return doc;
+}
+
+/**
+ * Orders schedule fields the way they read best in the file.
+ */
+function toYamlObject(schedule: ScheduleSpec): Record<string, unknown> {
+    const fields: (keyof ScheduleSpec)[] = [
+        'name',
+        'every',
+        'cron',
+        'day',
+        'start',
+        'end',
+        'amount',
+        'from',
+        'to',
+        'description',
+        'properties',
+        'draft',
+    ];
+    const object: Record<string, unknown> = {};
+    for (const field of fields) {
+        if (schedule[field] !== undefined) {
+            object[field] = schedule[field];
+        }
+    }
+    return object;
+}
@@ -0,0 +1,29 @@
+export {
+    loadSchedules,
+    parseSchedules,
+    validateSchedule,
+    DEFAULT_SCHEDULE_FILE,
+    ScheduleSpec,
+} from './spec.js';
+export {
+    listOccurrences,
+    nextOccurrence,
+    describeRule,
+    SCHEDULE_FREQUENCIES,
+    WEEKDAYS,
+    ScheduleFrequency,
+    ScheduleRule,
+} from './rules.js';
+export { addSchedule } from './add.js';
+export { removeSchedule } from './remove.js';
+export { listSchedules, buildScheduleMatrix, ScheduleListItem } from './list.js';
+export {
+    runSchedules,
+    listDueOccurrences,
+    buildOccurrencePayload,
+    scheduleRemoteId,
+    RunSchedulesOptions,
+    RunSchedulesResult,
+    ScheduleOccurrence,
+    ScheduledTransactionPayload,
+} from './run.js';
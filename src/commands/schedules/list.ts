@@ -0,0 +1,48 @@
+import { describeRule, nextOccurrence } from './rules.js';
+import type { ScheduleSpec } from './spec.js';
+
+/**
+ * A schedule with its next occurrence.
+ */
+export interface ScheduleListItem extends ScheduleSpec {
+    /** Next occurrence on or after the listing date; absent once the schedule ended. */
+    next?: string;
+}
+
+/**
+ * Adds the next occurrence to each schedule.
+ *
+ * @param schedules - Validated schedules
+ * @param from - Date to look for the next occurrence from, as yyyy-mm-dd
+ */
+export function listSchedules(schedules: ScheduleSpec[], from: string): ScheduleListItem[] {
+    return schedules.map(schedule => {
+        const next = nextOccurrence(schedule, from);
+        return next ? { ...schedule, next } : { ...schedule };
+    });
+}
+
+/**
+ * Builds a table of schedules.
+ *
+ * @returns Matrix with a header row, one row per schedule
+ */
+export function buildScheduleMatrix(items: ScheduleListItem[]): unknown[][] {
+    const matrix: unknown[][] = [
+        ['Name', 'Rule', 'Amount', 'From', 'To', 'Description', 'Start', 'End', 'Next'],
+    ];
+    for (const item of items) {
+        matrix.push([
+            item.draft ? `${item.name} (draft)` : item.name,
+            describeRule(item),
+            item.amount,
+            item.from ?? '',
+            item.to ?? '',
+            item.description ?? '',
+            item.start,
+            item.end ?? '',
+            item.next ?? '',
+        ]);
+    }
+    return matrix;
+}
@@ -0,0 +1,165 @@
+import type { Command } from 'commander';
+import { withAction } from '../action.js';
+import { collectProperty } from '../cli-helpers.js';
+import { isJsonFormat, renderItem, renderListResult, renderTable } from '../../render/index.js';
+import { parsePropertyFlag } from '../../utils/properties.js';
+import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
+import { today } from '../reports/dates.js';
+import { buildImportPreviewMatrix } from '../transactions/import/index.js';
+import {
+    addSchedule,
+    buildScheduleMatrix,
+    listSchedules,
+    loadSchedules,
+    removeSchedule,
+    runSchedules,
+    DEFAULT_SCHEDULE_FILE,
+    SCHEDULE_FREQUENCIES,
+    ScheduleFrequency,
+    ScheduleSpec,
+} from './index.js';
+
+const FILE_OPTION_DESCRIPTION = `Schedule YAML file (default: ${DEFAULT_SCHEDULE_FILE})`;
+
+export function registerScheduleCommands(program: Command): void {
+    const scheduleCommand = program
+        .command('schedule')
+        .description('Manage recurring transaction schedules kept in a local YAML file');
+
+    scheduleCommand
+        .command('list')
+        .description('List schedules and their next occurrence')
+        .option('-f, --file <file>', FILE_OPTION_DESCRIPTION)
+        .action(options =>
+            withAction('listing schedules', async (format, output) => {
+                const schedules = await loadSchedules(options.file ?? DEFAULT_SCHEDULE_FILE);
+                const items = listSchedules(schedules, today());
+                renderListResult(
+                    isJsonFormat(format)
+                        ? { kind: 'json', items }
+                        : { kind: 'matrix', matrix: buildScheduleMatrix(items) },
+                    format,
+                    output
+                );
+            })()
+        );
+
+    scheduleCommand
+        .command('add <name>')
+        .description('Add a recurring transaction schedule')
+        .option('--every <frequency>', `Repeat ${SCHEDULE_FREQUENCIES.join(', ')}`)
+        .option(
+            '--day <day>',
+            'Day of the month (1-31 or last), or of the week (mon-sun) for weekly schedules'
+        )
+        .option('--cron <expression>', 'Cron expression, instead of --every')
+        .option('--start <date>', 'First date the schedule may occur on (yyyy-mm-dd)')
+        .option('--end <date>', 'Last date the schedule may occur on (yyyy-mm-dd)')
+        .option('--amount <amount>', 'Transaction amount')
+        .option('--from <from>', 'Credit account name')
+        .option('--to <to>', 'Debit account name')
+        .option('--description <description>', 'Transaction description')
+        .option('-p, --property <key=value>', 'Set a property (repeatable)', collectProperty)
+        .option('--draft', 'Create occurrences as drafts instead of posting them')
+        .option('-f, --file <file>', FILE_OPTION_DESCRIPTION)
+        .action((name: string, options) =>
+            withAction('adding schedule', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'start', flag: '--start' },
+                        { name: 'amount', flag: '--amount' },
+                    ])
+                );
+                const file = options.file ?? DEFAULT_SCHEDULE_FILE;
+                const schedule = await addSchedule(file, {
+                    name,
+                    every: options.every as ScheduleFrequency | undefined,
+                    day:
+                        options.day !== undefined && /^\d+$/.test(options.day)
+                            ? Number(options.day)
+                            : options.day,
+                    cron: options.cron,
+                    start: options.start,
+                    end: options.end,
+                    amount: options.amount,
+                    from: options.from,
+                    to: options.to,
+                    description: options.description,
+                    properties: parseProperties(options.property),
+                    draft: options.draft,
+                });
+                if (isJsonFormat(format)) {
+                    renderItem(schedule, format, output);
+                } else {
+                    console.log(`Added schedule ${schedule.name} to ${file}.`);
+                }
+            })()
+        );
+
+    scheduleCommand
+        .command('remove <name>')
+        .description('Remove a schedule; transactions it created stay in the book')
+        .option('-f, --file <file>', FILE_OPTION_DESCRIPTION)
+        .action((name: string, options) =>
+            withAction('removing schedule', async () => {
+                const file = options.file ?? DEFAULT_SCHEDULE_FILE;
+                await removeSchedule(file, name);
+                console.log(`Removed schedule ${name} from ${file}.`);
+            })()
+        );
+
+    scheduleCommand
+        .command('run')
+        .description('Create the transactions of schedule occurrences due up to a date')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('--until <date>', 'Last date to create occurrences for (yyyy-mm-dd)')
+        .option(
+            '--from <date>',
+            "First date to create occurrences for (default: each schedule's start)"
+        )
+        .option('--dry-run', 'Preview the transactions without creating them')
+        .option('-f, --file <file>', FILE_OPTION_DESCRIPTION)
+        .action(options =>
+            withAction('running schedules', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'until', flag: '--until' },
+                    ])
+                );
+                const schedules = await loadSchedules(options.file ?? DEFAULT_SCHEDULE_FILE);
+                const result = await runSchedules(options.book, schedules, {
+                    until: options.until,
+                    from: options.from,
+                    dryRun: options.dryRun,
+                });
+                if (isJsonFormat(format)) {
+                    renderItem(
+                        {
+                            created: result.created.length,
+                            skipped: result.skipped.length,
+                            items: options.dryRun ? result.planned : result.created,
+                        },
+                        format,
+                        output
+                    );
+                } else if (options.dryRun) {
+                    renderTable(buildImportPreviewMatrix(result.planned), format, output);
+                    console.log(
+                        `Dry run: ${result.planned.length} transaction(s) to create, skipped ${result.skipped.length} already created.`
+                    );
+                } else {
+                    console.log(
+                        `Created ${result.created.length} transaction(s), skipped ${result.skipped.length} already created.`
+                    );
+                }
+            })()
+        );
+}
+
+function parseProperties(flags: string[] | undefined): ScheduleSpec['properties'] {
+    if (!flags || flags.length === 0) {
+        return undefined;
+    }
+    return Object.fromEntries(flags.map(parsePropertyFlag));
+}
@@ -0,0 +1,32 @@
+import { writeFile } from 'node:fs/promises';
+import YAML from 'yaml';
+import { parseScheduleDocument } from './add.js';
+import { readScheduleFile } from './spec.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+/**
+ * Removes a schedule from a schedule file, keeping the rest of the file as
+ * it is. Transactions already created by the schedule are left in the book.
+ *
+ * @param file - Schedule file path
+ * @param name - Name of the schedule to remove
+ * @throws NotFoundError if the file or the schedule does not exist
+ */
+export async function removeSchedule(file: string, name: string): Promise<void> {
+    const content = await readScheduleFile(file);
+    if (content === undefined) {
+        throw new NotFoundError('Schedule file', file);
+    }
+    const doc = parseScheduleDocument(file, content);
+
+    const list = doc.get('schedules');
+    const index = YAML.isSeq(list)
+        ? list.items.findIndex(item => YAML.isMap(item) && String(item.get('name')) === name)
+        : -1;
+    if (!YAML.isSeq(list) || index === -1) {
+        throw new NotFoundError('Schedule', name);
+    }
+
+    list.delete(index);
+    await writeFile(file, doc.toString(), 'utf8');
+}
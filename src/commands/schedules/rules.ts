@@ -0,0 +1,257 @@
+import { addDays, parseIsoDate } from '../reports/dates.js';
+
+/**
+ * Fixed frequencies a schedule can repeat at.
+ */
+export const SCHEDULE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'] as const;
+
+export type ScheduleFrequency = (typeof SCHEDULE_FREQUENCIES)[number];
+
+/**
+ * Day names accepted for weekly schedules, Sunday first as in cron.
+ */
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * When a schedule repeats: either a fixed frequency or a cron expression,
+ * between a start date and an optional end date.
+ */
+export interface ScheduleRule {
+    every?: ScheduleFrequency;
+    /**
+     * Day of the month (1-31 or `last`) for monthly, quarterly and yearly
+     * schedules, or day of the week (`mon`-`sun`) for weekly ones. Defaults
+     * to the day of the start date.
+     */
+    day?: number | string;
+    /** Cron expression; only the day of month, month and day of week fields are used. */
+    cron?: string;
+    /** First day the schedule may occur on, as yyyy-mm-dd. */
+    start: string;
+    /** Last day the schedule may occur on, as yyyy-mm-dd. */
+    end?: string;
+}
+
+interface CronField {
+    any: boolean;
+    values: Set<number>;
+}
+
+/**
+ * Lists the dates a schedule occurs on within a period, oldest first.
+ *
+ * Monthly, quarterly and yearly schedules on a day the month does not have
+ * (e.g. the 31st) occur on its last day instead. Quarterly and yearly
+ * schedules repeat from the month of the start date.
+ *
+ * @param rule - The schedule rule
+ * @param from - First day of the period, as yyyy-mm-dd
+ * @param until - Last day of the period, as yyyy-mm-dd
+ * @throws Error if the rule is invalid
+ */
+export function listOccurrences(rule: ScheduleRule, from: string, until: string): string[] {
+    const matches = compileRule(rule);
+    const first = rule.start > from ? rule.start : from;
+    const last = rule.end && rule.end < until ? rule.end : until;
+
+    const dates: string[] = [];
+    for (let date = first; date <= last; date = addDays(date, 1)) {
+        if (matches(parseIsoDate(date))) {
+            dates.push(date);
+        }
+    }
+    return dates;
+}
+
+/**
+ * Returns the first date a schedule occurs on, on or after a date, looking
+ * up to eight years ahead, or undefined when it has ended.
+ *
+ * @param rule - The schedule rule
+ * @param from - Date to search from, as yyyy-mm-dd
+ */
+export function nextOccurrence(rule: ScheduleRule, from: string): string | undefined {
+    const matches = compileRule(rule);
+    const first = rule.start > from ? rule.start : from;
+    // Eight years covers every leap day a cron expression may be waiting for
+    const horizon = addDays(first, 8 * 366);
+    const last = rule.end && rule.end < horizon ? rule.end : horizon;
+
+    for (let date = first; date <= last; date = addDays(date, 1)) {
+        if (matches(parseIsoDate(date))) {
+            return date;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Describes a schedule rule in a few words, e.g. `monthly on day 1` or `cron 0 0 * * 1`.
+ */
+export function describeRule(rule: ScheduleRule): string {
+    if (rule.cron !== undefined) {
+        return `cron ${rule.cron}`;
+    }
+    return rule.day === undefined ? `${rule.every}` : `${rule.every} on ${formatDay(rule)}`;
+}
+
+/**
+ * Checks a schedule rule, returning a description of each problem.
+ */
+export function validateRule(rule: ScheduleRule): string[] {
+    try {
+        compileRule(rule);
+        return [];
+    } catch (err: unknown) {
+        return [(err as Error).message];
+    }
+}
+
+function formatDay(rule: ScheduleRule): string {
+    return rule.every === 'weekly' || rule.day === 'last' ? `${rule.day}` : `day ${rule.day}`;
+}
+
+/**
+ * Turns a rule into a predicate on UTC dates.
+ */
+function compileRule(rule: ScheduleRule): (date: Date) => boolean {
+    const start = parseIsoDate(rule.start);
+    if (rule.cron !== undefined) {
+        if (rule.every !== undefined || rule.day !== undefined) {
+            throw new Error('cron cannot be combined with every or day');
+        }
+        return compileCron(rule.cron);
+    }
+
+    switch (rule.every) {
+        case 'daily':
+            if (rule.day !== undefined) {
+                throw new Error('day cannot be set on daily schedules');
+            }
+            return () => true;
+        case 'weekly': {
+            const weekday = rule.day === undefined ? start.getUTCDay() : parseWeekday(rule.day);
+            return date => date.getUTCDay() === weekday;
+        }
+        case 'monthly':
+        case 'quarterly':
+        case 'yearly': {
+            const day = rule.day === undefined ? start.getUTCDate() : parseMonthDay(rule.day);
+            const months = { monthly: 1, quarterly: 3, yearly: 12 }[rule.every];
+            return date =>
+                (date.getUTCMonth() - start.getUTCMonth() + 12) % months === 0 &&
+                date.getUTCDate() === Math.min(day, lastDayOfMonth(date));
+        }
+        default:
+            throw new Error(`every must be one of ${SCHEDULE_FREQUENCIES.join(', ')}, or use cron`);
+    }
+}
+
+function parseWeekday(day: number | string): number {
+    const index = WEEKDAYS.indexOf(
+        String(day).toLowerCase().slice(0, 3) as (typeof WEEKDAYS)[number]
+    );
+    if (index === -1) {
+        throw new Error(`day of a weekly schedule must be one of ${WEEKDAYS.join(', ')}`);
+    }
+    return index;
+}
+
+function parseMonthDay(day: number | string): number {
+    if (day === 'last') {
+        return 31;
+    }
+    if (typeof day !== 'number' || !Number.isInteger(day) || day < 1 || day > 31) {
+        throw new Error('day must be a day of the month from 1 to 31, or last');
+    }
+    return day;
+}
+
+function lastDayOfMonth(date: Date): number {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+/**
+ * Compiles a five-field cron expression (minute, hour, day of month, month,
+ * day of week) into a date predicate. Minute and hour are validated but
+ * ignored, since transactions are dated by day. As in cron, a date matches
+ * either day field when both are restricted.
+ */
+function compileCron(expression: string): (date: Date) => boolean {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    parseCronField(minute, 0, 59, expression);
+    parseCronField(hour, 0, 23, expression);
+    const days = parseCronField(dayOfMonth, 1, 31, expression);
+    const months = parseCronField(month, 1, 12, expression, MONTHS);
+    const weekdays = parseCronField(dayOfWeek, 0, 7, expression, [...WEEKDAYS]);
+    // 7 is Sunday too
+    if (weekdays.values.has(7)) {
+        weekdays.values.add(0);
+    }
+
+    return date => {
+        if (!months.any && !months.values.has(date.getUTCMonth() + 1)) {
+            return false;
+        }
+        const dayMatches = days.any || days.values.has(date.getUTCDate());
+        const weekdayMatches = weekdays.any || weekdays.values.has(date.getUTCDay());
+        return !days.any && !weekdays.any
+            ? dayMatches || weekdayMatches
+            : dayMatches && weekdayMatches;
+    };
+}
+
+/**
+ * Parses one cron field: `*`, values, ranges (`1-5`), lists (`1,15`) and
+ * steps (`*\/2`, `1-10/3`), with optional names (e.g. `jan`, `mon`) whose
+ * index is offset by the field minimum.
+ */
+function parseCronField(
+    field: string,
+    min: number,
+    max: number,
+    expression: string,
+    names: string[] = []
+): CronField {
+    const invalid = () => new Error(`Invalid cron expression "${expression}": bad field ${field}`);
+    const value = (token: string): number => {
+        const named = names.indexOf(token.toLowerCase());
+        const parsed = named !== -1 ? named + (names === MONTHS ? 1 : 0) : Number(token);
+        if (!/^\w+$/.test(token) || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+            throw invalid();
+        }
+        return parsed;
+    };
+
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1 || range === '') {
+            throw invalid();
+        }
+        let low = min;
+        let high = max;
+        if (range !== '*') {
+            const bounds = range.split('-');
+            if (bounds.length > 2) {
+                throw invalid();
+            }
+            low = value(bounds[0]);
+            high = bounds.length === 2 ? value(bounds[1]) : stepText === undefined ? low : max;
+            if (low > high) {
+                throw invalid();
+            }
+        }
+        for (let n = low; n <= high; n += step) {
+            values.add(n);
+        }
+    }
+    return { any: field === '*', values };
+}
@@ -0,0 +1,193 @@
+import { Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { addDays, parseIsoDate } from '../reports/dates.js';
+import { buildTransactionsFromItems } from '../transactions/batch-create.js';
+import { BULK_CHUNK_SIZE } from '../transactions/bulk.js';
+import { listTransactions } from '../transactions/list.js';
+import { listOccurrences } from './rules.js';
+import type { ScheduleSpec } from './spec.js';
+
+/**
+ * Options for materializing scheduled transactions.
+ */
+export interface RunSchedulesOptions {
+    /** Last date to materialize occurrences for, as yyyy-mm-dd. */
+    until: string;
+    /** First date to materialize occurrences for; defaults to each schedule's start. */
+    from?: string;
+    /** Build the transactions without creating them. */
+    dryRun?: boolean;
+}
+
+/**
+ * One dated occurrence of a schedule.
+ */
+export interface ScheduleOccurrence {
+    schedule: string;
+    date: string;
+    /** Deterministic remote ID identifying the occurrence in the book. */
+    remoteId: string;
+}
+
+/**
+ * Result of materializing scheduled transactions.
+ */
+export interface RunSchedulesResult {
+    created: bkper.Transaction[];
+    /** Occurrences already in the book, including trashed ones. */
+    skipped: ScheduleOccurrence[];
+    planned: bkper.Transaction[];
+}
+
+/**
+ * Returns the remote ID of a schedule occurrence, e.g. `schedule/rent/2026-01-01`.
+ */
+export function scheduleRemoteId(name: string, date: string): string {
+    return `schedule/${name}/${date}`;
+}
+
+/**
+ * Lists the occurrences of schedules up to a date, by date and then in
+ * schedule order.
+ *
+ * @param schedules - Validated schedules
+ * @param until - Last date, as yyyy-mm-dd
+ * @param from - First date, as yyyy-mm-dd; defaults to each schedule's start
+ */
+export function listDueOccurrences(
+    schedules: ScheduleSpec[],
+    until: string,
+    from?: string
+): ScheduleOccurrence[] {
+    const occurrences = schedules.flatMap(schedule =>
+        listOccurrences(schedule, from ?? schedule.start, until).map(date => ({
+            schedule: schedule.name,
+            date,
+            remoteId: scheduleRemoteId(schedule.name, date),
+        }))
+    );
+    // Stable sort keeps schedule order within a day
+    return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Transaction payload with the `draft` flag, which makes batch creation skip
+ * book auto-posting.
+ */
+export type ScheduledTransactionPayload = bkper.Transaction & { draft?: boolean };
+
+/**
+ * Builds the transaction payload of a schedule occurrence.
+ *
+ * @param schedule - The schedule
+ * @param occurrence - The occurrence to record
+ * @returns Transaction payload ready for batch creation
+ */
+export function buildOccurrencePayload(
+    schedule: ScheduleSpec,
+    occurrence: ScheduleOccurrence
+): ScheduledTransactionPayload {
+    const payload: ScheduledTransactionPayload = {
+        date: occurrence.date,
+        amount: schedule.amount,
+        description: schedule.description ?? '',
+        remoteIds: [occurrence.remoteId],
+    };
+    if (schedule.from) {
+        payload.creditAccount = { name: schedule.from };
+    }
+    if (schedule.to) {
+        payload.debitAccount = { name: schedule.to };
+    }
+    if (schedule.properties) {
+        payload.properties = { ...schedule.properties };
+    }
+    if (schedule.draft) {
+        payload.draft = true;
+    }
+    return payload;
+}
+
+/**
+ * Creates the transactions of every schedule occurrence due up to a date.
+ *
+ * Each occurrence carries a deterministic remote ID (see
+ * {@link scheduleRemoteId}), and occurrences whose remote ID is already in
+ * the book are skipped, so runs can be repeated without posting twice.
+ * Trashed transactions count as recorded, so trashing an occurrence skips it
+ * for good. With `dryRun`, the transactions are built and returned as
+ * `planned` but not created.
+ *
+ * @param bookId - Target book ID
+ * @param schedules - Validated schedules
+ * @param options - Period and dry run flag
+ * @returns Created transactions, planned payloads and skipped occurrences
+ */
+export async function runSchedules(
+    bookId: string,
+    schedules: ScheduleSpec[],
+    options: RunSchedulesOptions
+): Promise<RunSchedulesResult> {
+    parseIsoDate(options.until);
+    if (options.from !== undefined) {
+        parseIsoDate(options.from);
+    }
+
+    const occurrences = listDueOccurrences(schedules, options.until, options.from);
+    if (occurrences.length === 0) {
+        return { created: [], skipped: [], planned: [] };
+    }
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId, true);
+    const knownRemoteIds = await collectExistingRemoteIds(bookId, occurrences);
+
+    const byName = new Map(schedules.map(schedule => [schedule.name, schedule]));
+    const items: ScheduledTransactionPayload[] = [];
+    const skipped: ScheduleOccurrence[] = [];
+    for (const occurrence of occurrences) {
+        if (knownRemoteIds.has(occurrence.remoteId)) {
+            skipped.push(occurrence);
+        } else {
+            items.push(buildOccurrencePayload(byName.get(occurrence.schedule)!, occurrence));
+        }
+    }
+
+    const transactions = buildTransactionsFromItems(book, items);
+    const planned = transactions.map(tx => tx.json());
+    if (options.dryRun || transactions.length === 0) {
+        return { created: [], skipped, planned };
+    }
+
+    const created: Transaction[] = [];
+    for (let i = 0; i < transactions.length; i += BULK_CHUNK_SIZE) {
+        created.push(
+            ...(await book.batchCreateTransactions(transactions.slice(i, i + BULK_CHUNK_SIZE)))
+        );
+    }
+    return { created: created.map(tx => tx.json()), skipped, planned };
+}
+
+/**
+ * Collects remote IDs of transactions, trashed or not, within the dates of
+ * the occurrences.
+ */
+async function collectExistingRemoteIds(
+    bookId: string,
+    occurrences: ScheduleOccurrence[]
+): Promise<Set<string>> {
+    const first = occurrences[0].date;
+    const last = occurrences[occurrences.length - 1].date;
+    const range = `after:${first} before:${addDays(last, 1)}`;
+
+    const remoteIds = new Set<string>();
+    for (const query of [range, `is:trashed ${range}`]) {
+        const result = await listTransactions(bookId, { query });
+        for (const tx of result.items) {
+            for (const remoteId of tx.getRemoteIds() || []) {
+                remoteIds.add(remoteId);
+            }
+        }
+    }
+    return remoteIds;
+}
@@ -0,0 +1,258 @@
+import { readFile } from 'node:fs/promises';
+import YAML from 'yaml';
+import { throwIfErrors, ValidationError } from '../../utils/validation.js';
+import { parseIsoDate } from '../reports/dates.js';
+import {
+    SCHEDULE_FREQUENCIES,
+    validateRule,
+    type ScheduleFrequency,
+    type ScheduleRule,
+} from './rules.js';
+import { NotFoundError } from '../../utils/errors.js';
+
+/**
+ * Schedule file used when no `--file` is given, in the current directory.
+ */
+export const DEFAULT_SCHEDULE_FILE = 'bkper-schedules.yaml';
+
+/**
+ * A recurring transaction template declared in a schedule file.
+ */
+export interface ScheduleSpec extends ScheduleRule {
+    /** Unique name; part of the remote ID of every occurrence. */
+    name: string;
+    /** Positive decimal amount, e.g. `1500.00`. */
+    amount: string;
+    /** Credit account name. */
+    from?: string;
+    /** Debit account name. */
+    to?: string;
+    description?: string;
+    properties?: Record<string, string>;
+    /** Create occurrences as drafts instead of posting them. */
+    draft?: boolean;
+}
+
+/**
+ * Loads and validates the schedules of a YAML schedule file.
+ *
+ * @param file - Schedule file path
+ * @returns The validated schedules, in file order
+ * @throws NotFoundError if the file does not exist, ValidationError if it cannot be
+ *   parsed, or Error if it cannot be read
+ * @throws ValidationError if a schedule is invalid
+ */
+export async function loadSchedules(file: string): Promise<ScheduleSpec[]> {
+    const content = await readScheduleFile(file);
+    if (content === undefined) {
+        throw new NotFoundError('Schedule file', file);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = YAML.parse(content);
+    } catch (err: unknown) {
+        throw new ValidationError([`Invalid schedule file ${file}: ${(err as Error).message}`]);
+    }
+
+    return parseSchedules(parsed);
+}
+
+/**
+ * Reads a schedule file, returning undefined when it does not exist.
+ *
+ * @throws Error if the file exists but cannot be read
+ */
+export async function readScheduleFile(file: string): Promise<string | undefined> {
+    try {
+        return await readFile(file, 'utf8');
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw new Error(`Schedule file is not readable: ${file}`);
+    }
+}
+
+/**
+ * Validates parsed schedule file content: an object with a `schedules` list.
+ *
+ * Names must be unique, each schedule needs either `every` or `cron`, a start
+ * date and a positive amount. All problems are reported at once so the file
+ * can be fixed in one pass.
+ *
+ * @param raw - Parsed YAML content; empty content means no schedules
+ * @returns The validated schedules, in file order
+ * @throws ValidationError if a schedule is invalid
+ */
+export function parseSchedules(raw: unknown): ScheduleSpec[] {
+    if (raw === undefined || raw === null) {
+        return [];
+    }
+    if (!isRecord(raw)) {
+        throw new ValidationError(['Invalid schedule file: expected a YAML object']);
+    }
+
+    const errors: string[] = [];
+    let items: unknown[] = [];
+    if (Array.isArray(raw.schedules)) {
+        items = raw.schedules;
+    } else if (raw.schedules !== undefined && raw.schedules !== null) {
+        errors.push('schedules must be a list');
+    }
+    const schedules = items.map((item, index) =>
+        parseSchedule(item, `schedules[${index}]`, errors)
+    );
+
+    const seen = new Set<string>();
+    for (const { name } of schedules) {
+        if (name && seen.has(name)) {
+            errors.push(`Duplicate schedule: ${name}`);
+        }
+        seen.add(name);
+    }
+
+    throwIfErrors(errors);
+    return schedules;
+}
+
+/**
+ * Validates a single schedule, e.g. one built from command line options.
+ *
+ * @throws ValidationError if the schedule is invalid
+ */
+export function validateSchedule(schedule: unknown): ScheduleSpec {
+    const errors: string[] = [];
+    const parsed = parseSchedule(schedule, 'schedule', errors);
+    throwIfErrors(errors);
+    return parsed;
+}
+
+function parseSchedule(item: unknown, path: string, errors: string[]): ScheduleSpec {
+    if (!isRecord(item)) {
+        errors.push(`${path} must be an object`);
+        return { name: '', amount: '', start: '' };
+    }
+
+    const name = parseText(item.name, `${path}.name`, errors) || '';
+    if (name === '') {
+        errors.push(`${path}.name must be a non-empty string`);
+    }
+    const label = name ? `schedule ${name}` : path;
+
+    const schedule: ScheduleSpec = {
+        name,
+        start: parseDate(item.start, `${label}: start`, errors) || '',
+        amount: parseAmount(item.amount, `${label}: amount`, errors),
+    };
+
+    if (item.every !== undefined && item.every !== null) {
+        if (SCHEDULE_FREQUENCIES.includes(item.every as ScheduleFrequency)) {
+            schedule.every = item.every as ScheduleFrequency;
+        } else {
+            errors.push(`${label}: every must be one of ${SCHEDULE_FREQUENCIES.join(', ')}`);
+        }
+    }
+    if (item.day !== undefined && item.day !== null) {
+        schedule.day = item.day as number | string;
+    }
+    const cron = parseText(item.cron, `${label}: cron`, errors);
+    if (cron !== undefined) {
+        schedule.cron = cron;
+    }
+    if (item.end !== undefined && item.end !== null) {
+        schedule.end = parseDate(item.end, `${label}: end`, errors);
+        if (schedule.end && schedule.start && schedule.end < schedule.start) {
+            errors.push(`${label}: end must not be before start`);
+        }
+    }
+    if (schedule.every === undefined && schedule.cron === undefined) {
+        if (item.every === undefined || item.every === null) {
+            errors.push(`${label}: every or cron is required`);
+        }
+    } else if (schedule.start) {
+        errors.push(...validateRule(schedule).map(message => `${label}: ${message}`));
+    }
+
+    for (const field of ['from', 'to', 'description'] as const) {
+        const value = parseText(item[field], `${label}: ${field}`, errors);
+        if (value !== undefined) {
+            schedule[field] = value;
+        }
+    }
+    const properties = parseProperties(item.properties, label, errors);
+    if (properties) {
+        schedule.properties = properties;
+    }
+    if (item.draft !== undefined && item.draft !== null) {
+        if (typeof item.draft === 'boolean') {
+            schedule.draft = item.draft;
+        } else {
+            errors.push(`${label}: draft must be true or false`);
+        }
+    }
+    return schedule;
+}
+
+function parseText(value: unknown, field: string, errors: string[]): string | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value === 'string') {
+        return value.trim() === '' ? undefined : value.trim();
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    errors.push(`${field} must be a string`);
+    return undefined;
+}
+
+function parseDate(value: unknown, field: string, errors: string[]): string | undefined {
+    if (value === undefined || value === null) {
+        errors.push(`${field} is required`);
+        return undefined;
+    }
+    try {
+        parseIsoDate(String(value));
+        return String(value);
+    } catch {
+        errors.push(`${field} must be a date as yyyy-mm-dd`);
+        return undefined;
+    }
+}
+
+function parseAmount(value: unknown, field: string, errors: string[]): string {
+    const amount = typeof value === 'number' || typeof value === 'string' ? String(value) : '';
+    if (!/^\d+(\.\d+)?$/.test(amount.trim()) || Number(amount) <= 0) {
+        errors.push(`${field} must be a positive number`);
+    }
+    return amount.trim();
+}
+
+function parseProperties(
+    value: unknown,
+    label: string,
+    errors: string[]
+): Record<string, string> | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!isRecord(value)) {
+        errors.push(`${label}: properties must be an object`);
+        return undefined;
+    }
+    const properties: Record<string, string> = {};
+    for (const [key, raw] of Object.entries(value)) {
+        if (['string', 'number', 'boolean'].includes(typeof raw)) {
+            properties[key] = String(raw);
+        } else {
+            errors.push(`${label}: properties.${key} must be a string`);
+        }
+    }
+    return properties;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,25 +1,71 @@
 import { getBkperInstance } from '../../bkper-factory.js';
-import { Transaction } from 'bkper-js';
+import { Book, Transaction } from 'bkper-js';
+import { atItemLocations, chunkInputItems, type InputItems } from '../../input/item-stream.js';
+import { renderNdjson, type OutputFormat } from '../../render/output.js';
 import { parsePropertyFlag } from '../../utils/properties.js';
+import { BULK_CHUNK_SIZE } from './bulk.js';
 
 /**
  * Creates multiple transactions from stdin items using the batch API.
- * Outputs a flat JSON array of all created transactions.
+ * Outputs a flat JSON array of all created transactions, or one line per
+ * created transaction with `ndjson`.
  *
- * Stdin items must follow the bkper.Transaction format exactly.
+ * Stdin items must follow the bkper.Transaction format exactly. An array is
+ * created in one batch call; an item stream is read and created in chunks of
+ * {@link BULK_CHUNK_SIZE}, and with `ndjson` each chunk is written as soon as
+ * it is created. A failing chunk is reported with its input lines.
  *
  * @param bookId - Target book ID
  * @param items - Parsed stdin items as bkper.Transaction payloads
  * @param propertyOverrides - CLI --property flags that override stdin properties
+ * @param format - Output format; `ndjson` writes one line per transaction
  */
 export async function batchCreateTransactions(
     bookId: string,
-    items: Record<string, unknown>[],
-    propertyOverrides?: string[]
+    items: InputItems,
+    propertyOverrides?: string[],
+    format?: OutputFormat
 ): Promise<void> {
     const bkper = getBkperInstance();
     const book = await bkper.getBook(bookId);
 
+    const allResults: bkper.Transaction[] = [];
+    for await (const chunk of chunkInputItems(items, BULK_CHUNK_SIZE)) {
+        const results: Transaction[] = await atItemLocations(chunk, () =>
+            book.batchCreateTransactions(
+                buildTransactionsFromItems(
+                    book,
+                    chunk.map(({ item }) => item),
+                    propertyOverrides
+                )
+            )
+        );
+        if (format === 'ndjson') {
+            renderNdjson(results.map(result => result.json()));
+        } else {
+            allResults.push(...results.map(result => result.json()));
+        }
+    }
+
+    if (format !== 'ndjson') {
+        console.log(JSON.stringify(allResults, null, 2));
+    }
+}
+
+/**
+ * Builds Transaction instances from bkper.Transaction payloads, applying
+ * CLI --property overrides to each one.
+ *
+ * @param book - Book the transactions belong to
+ * @param items - bkper.Transaction payloads
+ * @param propertyOverrides - CLI --property flags that override payload properties
+ * @returns Transactions ready for book.batchCreateTransactions
+ */
+export function buildTransactionsFromItems(
+    book: Book,
+    items: Array<Record<string, unknown> | bkper.Transaction>,
+    propertyOverrides?: string[]
+): Transaction[] {
     const transactions: Transaction[] = [];
 
     for (const item of items) {
@@ -40,8 +86,5 @@ export async function batchCreateTransactions(
         transactions.push(tx);
     }
 
-    const results = await book.batchCreateTransactions(transactions);
-    const allResults = results.map(result => result.json());
-
-    console.log(JSON.stringify(allResults, null, 2));
+    return transactions;
 }
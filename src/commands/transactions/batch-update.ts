@@ -1,55 +1,76 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Transaction } from 'bkper-js';
+import { atItemLocations, chunkInputItems, type InputItems } from '../../input/item-stream.js';
+import { renderNdjson, type OutputFormat } from '../../render/output.js';
 import { parsePropertyFlag } from '../../utils/properties.js';
+import { BULK_CHUNK_SIZE } from './bulk.js';
+import { ValidationError } from '../../utils/validation.js';
 
 /**
  * Updates multiple transactions from stdin items using the batch API.
- * Outputs a flat JSON array of all updated transactions.
+ * Outputs a flat JSON array of all updated transactions, or one line per
+ * updated transaction with `ndjson`.
  *
- * Each stdin item must have an `id` field identifying the transaction to update.
+ * Each stdin item must have an `id` field identifying the transaction to
+ * update. An array is updated in one batch call; an item stream is read and
+ * updated in chunks of {@link BULK_CHUNK_SIZE}, and with `ndjson` each chunk
+ * is written as soon as it is updated. A failing chunk is reported with its
+ * input lines.
  *
  * @param bookId - Target book ID
  * @param items - Parsed stdin items as bkper.Transaction payloads (must include id)
  * @param propertyOverrides - CLI --property flags that override stdin properties
  * @param updateChecked - Whether to also update checked transactions
+ * @param format - Output format; `ndjson` writes one line per transaction
  */
 export async function batchUpdateTransactions(
     bookId: string,
-    items: Record<string, unknown>[],
+    items: InputItems,
     propertyOverrides?: string[],
-    updateChecked?: boolean
+    updateChecked?: boolean,
+    format?: OutputFormat
 ): Promise<void> {
-    const missing = items.map((item, idx) => (item.id ? null : idx)).filter(idx => idx !== null);
-    if (missing.length > 0) {
-        const positions = missing.map(idx => `item[${idx}]`).join(', ');
-        throw new Error(`Missing required "id" field on: ${positions}`);
-    }
-
     const bkper = getBkperInstance();
     const book = await bkper.getBook(bookId);
 
-    const transactions: Transaction[] = [];
+    const allResults: bkper.Transaction[] = [];
+    for await (const chunk of chunkInputItems(items, BULK_CHUNK_SIZE)) {
+        const missing = chunk.filter(({ item }) => !item.id).map(({ location }) => location);
+        if (missing.length > 0) {
+            throw new ValidationError([`Missing required "id" field on: ${missing.join(', ')}`]);
+        }
+
+        const transactions: Transaction[] = [];
 
-    for (const item of items) {
-        const tx = new Transaction(book, item as bkper.Transaction);
+        for (const { item } of chunk) {
+            const tx = new Transaction(book, item as bkper.Transaction);
 
-        // CLI --property flags override stdin properties
-        if (propertyOverrides) {
-            for (const raw of propertyOverrides) {
-                const [key, value] = parsePropertyFlag(raw);
-                if (value === '') {
-                    tx.deleteProperty(key);
-                } else {
-                    tx.setProperty(key, value);
+            // CLI --property flags override stdin properties
+            if (propertyOverrides) {
+                for (const raw of propertyOverrides) {
+                    const [key, value] = parsePropertyFlag(raw);
+                    if (value === '') {
+                        tx.deleteProperty(key);
+                    } else {
+                        tx.setProperty(key, value);
+                    }
                 }
             }
+
+            transactions.push(tx);
         }
 
-        transactions.push(tx);
+        const results: Transaction[] = await atItemLocations(chunk, () =>
+            book.batchUpdateTransactions(transactions, updateChecked)
+        );
+        if (format === 'ndjson') {
+            renderNdjson(results.map(result => result.json()));
+        } else {
+            allResults.push(...results.map(result => result.json()));
+        }
     }
 
-    const results = await book.batchUpdateTransactions(transactions, updateChecked);
-    const allResults = results.map(result => result.json());
-
-    console.log(JSON.stringify(allResults, null, 2));
+    if (format !== 'ndjson') {
+        console.log(JSON.stringify(allResults, null, 2));
+    }
 }
@@ -0,0 +1,238 @@
+import { Book, Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { readStdinIds } from '../../input/index.js';
+import { confirm } from '../../utils/confirm.js';
+import { listTransactions } from './list.js';
+import { NotFoundError } from '../../utils/errors.js';
+import { ValidationError } from '../../utils/validation.js';
+
+/**
+ * Transaction state changes that can be applied in bulk.
+ */
+export type BulkTransactionAction = 'check' | 'uncheck' | 'trash' | 'untrash' | 'post';
+
+/**
+ * Maximum number of transactions sent per batch API call.
+ */
+export const BULK_CHUNK_SIZE = 100;
+
+/**
+ * Options selecting the transactions of a bulk action and how to run it.
+ */
+export interface BulkTransactionOptions {
+    /** Query selecting the transactions. */
+    query?: string;
+    /** Explicit transaction IDs, e.g. piped through stdin. */
+    ids?: string[];
+    /** Report what would change without changing anything. */
+    dryRun?: boolean;
+    /** Skip the confirmation prompt. */
+    yes?: boolean;
+}
+
+/**
+ * A transaction left out of a bulk action, with the reason.
+ */
+export interface BulkSkippedTransaction {
+    id: string;
+    reason: string;
+}
+
+/**
+ * Result of a bulk transaction action.
+ */
+export interface BulkTransactionResult {
+    action: BulkTransactionAction;
+    dryRun: boolean;
+    cancelled: boolean;
+    /** Number of transactions selected by the query or ID list. */
+    matched: number;
+    /** IDs the action was (or, on a dry run, would be) applied to. */
+    ids: string[];
+    skipped: BulkSkippedTransaction[];
+}
+
+interface ActionSpec {
+    past: string;
+    /** Returns why the transaction is not eligible, or undefined if it is. */
+    skipReason(tx: Transaction): string | undefined;
+    run(book: Book, transactions: Transaction[]): Promise<void>;
+}
+
+const ACTIONS: Record<BulkTransactionAction, ActionSpec> = {
+    check: {
+        past: 'Checked',
+        skipReason: tx =>
+            tx.isTrashed()
+                ? 'trashed'
+                : !tx.isPosted()
+                ? 'draft'
+                : tx.isChecked()
+                ? 'already checked'
+                : undefined,
+        run: (book, transactions) => book.batchCheckTransactions(transactions),
+    },
+    uncheck: {
+        past: 'Unchecked',
+        skipReason: tx =>
+            tx.isTrashed() ? 'trashed' : !tx.isChecked() ? 'not checked' : undefined,
+        run: (book, transactions) => book.batchUncheckTransactions(transactions),
+    },
+    trash: {
+        past: 'Trashed',
+        skipReason: tx =>
+            tx.isTrashed() ? 'already trashed' : tx.isChecked() ? 'checked' : undefined,
+        run: (book, transactions) => book.batchTrashTransactions(transactions),
+    },
+    untrash: {
+        past: 'Restored',
+        skipReason: tx => (!tx.isTrashed() ? 'not trashed' : undefined),
+        run: (book, transactions) => book.batchUntrashTransactions(transactions),
+    },
+    post: {
+        past: 'Posted',
+        skipReason: tx =>
+            tx.isTrashed() ? 'trashed' : tx.isPosted() ? 'already posted' : undefined,
+        run: (book, transactions) => book.batchPostTransactions(transactions),
+    },
+};
+
+/**
+ * Resolves the bulk selection from the command options, reading transaction
+ * IDs from stdin when no query is given.
+ *
+ * @param options - Command options with query, dry-run and yes flags
+ * @returns Bulk options with either a query or an ID list
+ * @throws ValidationError if neither a query nor stdin IDs are provided
+ */
+export async function resolveBulkSelection(options: {
+    query?: string;
+    dryRun?: boolean;
+    yes?: boolean;
+}): Promise<BulkTransactionOptions> {
+    const selection: BulkTransactionOptions = { dryRun: options.dryRun, yes: options.yes };
+    if (options.query) {
+        selection.query = options.query;
+        return selection;
+    }
+
+    const ids = !process.stdin.isTTY ? await readStdinIds() : null;
+    if (!ids) {
+        throw new ValidationError([
+            'Transaction ID, --query or a list of IDs on stdin is required',
+        ]);
+    }
+    selection.ids = ids;
+    return selection;
+}
+
+/**
+ * Applies a state change to many transactions through the batch API.
+ *
+ * Transactions already in the target state, or not eligible for it, are
+ * skipped with a reason. Before changing anything, a summary with counts is
+ * printed to stderr and confirmed, unless `yes` is set. A dry run only reports
+ * what would change.
+ *
+ * @param bookId - The book ID containing the transactions
+ * @param action - The state change to apply
+ * @param options - Query or IDs, and dry-run/confirmation flags
+ * @returns Counts, affected IDs and skipped transactions
+ */
+export async function bulkTransactionAction(
+    bookId: string,
+    action: BulkTransactionAction,
+    options: BulkTransactionOptions
+): Promise<BulkTransactionResult> {
+    const spec = ACTIONS[action];
+    const { book, transactions } = await selectTransactions(bookId, options);
+
+    const eligible: Transaction[] = [];
+    const skipped: BulkSkippedTransaction[] = [];
+    for (const tx of transactions) {
+        const reason = spec.skipReason(tx);
+        if (reason) {
+            skipped.push({ id: tx.getId() || '', reason });
+        } else {
+            eligible.push(tx);
+        }
+    }
+
+    const result: BulkTransactionResult = {
+        action,
+        dryRun: options.dryRun === true,
+        cancelled: false,
+        matched: transactions.length,
+        ids: eligible.map(tx => tx.getId() || ''),
+        skipped,
+    };
+
+    if (result.dryRun || eligible.length === 0) {
+        return result;
+    }
+
+    console.error(
+        `About to ${action} ${eligible.length} of ${transactions.length} transaction(s)` +
+            `${formatSkipped(skipped)}.`
+    );
+    if (!options.yes && !(await confirm('Proceed?'))) {
+        return { ...result, cancelled: true, ids: [] };
+    }
+
+    for (let i = 0; i < eligible.length; i += BULK_CHUNK_SIZE) {
+        await spec.run(book, eligible.slice(i, i + BULK_CHUNK_SIZE));
+    }
+
+    return result;
+}
+
+/**
+ * Formats a one-line, human-readable summary of a bulk action result.
+ */
+export function formatBulkResult(result: BulkTransactionResult): string {
+    const skipped = formatSkipped(result.skipped);
+    if (result.cancelled) {
+        return `Cancelled: no transactions were changed${skipped}.`;
+    }
+    if (result.dryRun) {
+        return `Dry run: would ${result.action} ${result.ids.length} of ${result.matched} transaction(s)${skipped}.`;
+    }
+    return `${ACTIONS[result.action].past} ${result.ids.length} transaction(s)${skipped}.`;
+}
+
+async function selectTransactions(
+    bookId: string,
+    options: BulkTransactionOptions
+): Promise<{ book: Book; transactions: Transaction[] }> {
+    if (options.query) {
+        const result = await listTransactions(bookId, { query: options.query });
+        return { book: result.book, transactions: result.items };
+    }
+
+    const ids = options.ids || [];
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId);
+    if (ids.length === 0) {
+        return { book, transactions: [] };
+    }
+
+    const transactions: Transaction[] = await book.getTransactionsByIds(ids);
+    const found = new Set(transactions.map(tx => tx.getId()));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+        throw new NotFoundError('Transaction', missing.join(', '));
+    }
+    return { book, transactions };
+}
+
+function formatSkipped(skipped: BulkSkippedTransaction[]): string {
+    if (skipped.length === 0) {
+        return '';
+    }
+    const reasons = new Map<string, number>();
+    for (const { reason } of skipped) {
+        reasons.set(reason, (reasons.get(reason) || 0) + 1);
+    }
+    const details = [...reasons].map(([reason, count]) => `${reason}: ${count}`).join(', ');
+    return `, ${skipped.length} skipped (${details})`;
+}
@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Transaction } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Marks a transaction as checked (reconciled).
@@ -16,7 +17,7 @@ export async function checkTransaction(
     const book = await bkper.getBook(bookId);
     const transaction = await book.getTransaction(transactionId);
     if (!transaction) {
-        throw new Error(`Transaction not found: ${transactionId}`);
+        throw new NotFoundError('Transaction', transactionId);
     }
     return transaction.check();
 }
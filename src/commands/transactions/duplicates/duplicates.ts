@@ -0,0 +1,110 @@
+import { isJsonFormat, type OutputFormat, type ListResult } from '../../../render/output.js';
+import { quoteShellArg } from '../../../utils/shell-quote.js';
+import { listTransactions } from '../list.js';
+import {
+    groupDuplicateTransactions,
+    type DuplicateGroup,
+    type DuplicateGroupingOptions,
+} from './grouping.js';
+
+/**
+ * Options for finding duplicate transactions.
+ */
+export interface FindDuplicatesOptions extends DuplicateGroupingOptions {
+    query: string;
+}
+
+/**
+ * Finds groups of likely duplicate transactions among those matching a query.
+ *
+ * All pages of the query are fetched, then transactions with the same amount
+ * and accounts, within the date window and with similar descriptions, are grouped.
+ *
+ * @param bookId - The book ID to inspect
+ * @param options - Query, date window and similarity threshold
+ * @returns Duplicate groups, ordered by first date
+ */
+export async function findDuplicateTransactions(
+    bookId: string,
+    options: FindDuplicatesOptions
+): Promise<DuplicateGroup[]> {
+    const result = await listTransactions(bookId, { query: options.query });
+    return groupDuplicateTransactions(
+        result.items.map(tx => tx.json()),
+        options
+    );
+}
+
+/**
+ * Finds duplicate transactions and returns a ListResult ready for rendering.
+ *
+ * JSON output has one item per group with its transaction IDs; table and CSV
+ * output have one row per transaction, tagged with its group number.
+ */
+export async function findDuplicateTransactionsFormatted(
+    bookId: string,
+    options: FindDuplicatesOptions,
+    format: OutputFormat
+): Promise<ListResult> {
+    const groups = await findDuplicateTransactions(bookId, options);
+
+    if (isJsonFormat(format)) {
+        return {
+            kind: 'json',
+            items: groups.map((group, index) => ({
+                group: index + 1,
+                similarity: group.similarity,
+                ids: group.transactions.map(tx => tx.id),
+                transactions: group.transactions,
+            })),
+        };
+    }
+
+    return {
+        kind: 'matrix',
+        matrix: buildDuplicatesMatrix(groups),
+        footer: buildDuplicatesFooter(bookId, groups),
+    };
+}
+
+/**
+ * Builds a matrix with one row per transaction, grouped and numbered.
+ */
+export function buildDuplicatesMatrix(groups: DuplicateGroup[]): unknown[][] {
+    if (groups.length === 0) {
+        return [];
+    }
+
+    const matrix: unknown[][] = [
+        ['Group', 'Similarity', 'ID', 'Date', 'Amount', 'From', 'To', 'Description'],
+    ];
+    groups.forEach((group, index) => {
+        for (const tx of group.transactions) {
+            matrix.push([
+                index + 1,
+                group.similarity,
+                tx.id ?? '',
+                tx.date ?? '',
+                tx.amount ?? '',
+                tx.creditAccount?.name ?? '',
+                tx.debitAccount?.name ?? '',
+                tx.description ?? '',
+            ]);
+        }
+    });
+    return matrix;
+}
+
+function buildDuplicatesFooter(bookId: string, groups: DuplicateGroup[]): string | undefined {
+    const pair = groups.find(group => group.transactions.length === 2);
+    if (!pair) {
+        return groups.length > 0 ? `${groups.length} duplicate group(s) found.` : undefined;
+    }
+    const [first, second] = pair.transactions;
+    return [
+        `${groups.length} duplicate group(s) found.`,
+        `Merge a pair: bkper transaction merge ${first.id} ${second.id} -b ${quoteShellArg(
+            bookId
+        )}`,
+    ].join('\n');
+}
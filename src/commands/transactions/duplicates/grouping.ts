@@ -0,0 +1,170 @@
+/**
+ * Default number of days two transactions may be apart to be considered duplicates.
+ */
+export const DEFAULT_DUPLICATE_WINDOW_DAYS = 3;
+
+/**
+ * Default minimum description similarity (0-1) for two transactions to be grouped.
+ */
+export const DEFAULT_MIN_SIMILARITY = 0.5;
+
+/**
+ * Options for grouping duplicate candidates.
+ */
+export interface DuplicateGroupingOptions {
+    /** Maximum distance in days between transactions of a group. */
+    days?: number;
+    /** Minimum pairwise description similarity, from 0 to 1. */
+    minSimilarity?: number;
+}
+
+/**
+ * A group of transactions that look like duplicates of each other.
+ */
+export interface DuplicateGroup {
+    /** Lowest pairwise description similarity within the group, from 0 to 1. */
+    similarity: number;
+    /** Group members, ordered by date and ID. */
+    transactions: bkper.Transaction[];
+}
+
+/**
+ * Groups transactions that share amount and accounts, fall within the date
+ * window of each other and have similar descriptions.
+ *
+ * Grouping is complete-linkage: every member is within the window and above
+ * the similarity threshold of every other member, so groups never chain.
+ * Results are deterministic for the same input, regardless of input order.
+ *
+ * @param transactions - Transactions to inspect
+ * @param options - Date window and similarity threshold
+ * @returns Groups with two or more members, ordered by first date
+ */
+export function groupDuplicateTransactions(
+    transactions: bkper.Transaction[],
+    options: DuplicateGroupingOptions = {}
+): DuplicateGroup[] {
+    const days = options.days ?? DEFAULT_DUPLICATE_WINDOW_DAYS;
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+    const buckets = new Map<string, bkper.Transaction[]>();
+    for (const tx of transactions) {
+        if (!tx.date || tx.amount === undefined) {
+            continue;
+        }
+        const key = bucketKey(tx);
+        const bucket = buckets.get(key);
+        if (bucket) {
+            bucket.push(tx);
+        } else {
+            buckets.set(key, [tx]);
+        }
+    }
+
+    const groups: DuplicateGroup[] = [];
+    for (const bucket of buckets.values()) {
+        if (bucket.length < 2) {
+            continue;
+        }
+        bucket.sort(compareTransactions);
+
+        const clusters: bkper.Transaction[][] = [];
+        for (const tx of bucket) {
+            const cluster = clusters.find(members =>
+                members.every(
+                    member =>
+                        daysBetween(member.date!, tx.date!) <= days &&
+                        descriptionSimilarity(member.description, tx.description) >= minSimilarity
+                )
+            );
+            if (cluster) {
+                cluster.push(tx);
+            } else {
+                clusters.push([tx]);
+            }
+        }
+
+        for (const cluster of clusters) {
+            if (cluster.length > 1) {
+                groups.push({ similarity: lowestSimilarity(cluster), transactions: cluster });
+            }
+        }
+    }
+
+    return groups.sort((a, b) => compareTransactions(a.transactions[0], b.transactions[0]));
+}
+
+/**
+ * Scores how similar two descriptions are, from 0 (nothing in common) to 1
+ * (identical after normalization), using the Sørensen-Dice coefficient of
+ * character bigrams. Case, punctuation and repeated spaces are ignored.
+ */
+export function descriptionSimilarity(a: string | undefined, b: string | undefined): number {
+    const left = normalizeDescription(a);
+    const right = normalizeDescription(b);
+    if (left === right) {
+        return 1;
+    }
+    if (left.length < 2 || right.length < 2) {
+        return 0;
+    }
+
+    const leftBigrams = bigrams(left);
+    const rightBigrams = bigrams(right);
+    let shared = 0;
+    for (const [bigram, count] of leftBigrams) {
+        shared += Math.min(count, rightBigrams.get(bigram) || 0);
+    }
+
+    return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+function bucketKey(tx: bkper.Transaction): string {
+    return [
+        normalizeAmount(tx.amount!),
+        tx.creditAccount?.id ?? tx.creditAccount?.name ?? '',
+        tx.debitAccount?.id ?? tx.debitAccount?.name ?? '',
+    ].join('|');
+}
+
+function normalizeAmount(amount: string): string {
+    const value = Number(amount);
+    return Number.isNaN(value) ? amount : String(value);
+}
+
+function normalizeDescription(description: string | undefined): string {
+    return (description || '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const bigram = text.slice(i, i + 2);
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+}
+
+function lowestSimilarity(cluster: bkper.Transaction[]): number {
+    let lowest = 1;
+    for (let i = 0; i < cluster.length; i++) {
+        for (let j = i + 1; j < cluster.length; j++) {
+            lowest = Math.min(
+                lowest,
+                descriptionSimilarity(cluster[i].description, cluster[j].description)
+            );
+        }
+    }
+    return Math.round(lowest * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+    return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+function compareTransactions(a: bkper.Transaction, b: bkper.Transaction): number {
+    return (a.date || '').localeCompare(b.date || '') || (a.id || '').localeCompare(b.id || '');
+}
@@ -0,0 +1,13 @@
+export {
+    findDuplicateTransactions,
+    findDuplicateTransactionsFormatted,
+    buildDuplicatesMatrix,
+    FindDuplicatesOptions,
+} from './duplicates.js';
+export {
+    groupDuplicateTransactions,
+    descriptionSimilarity,
+    DEFAULT_DUPLICATE_WINDOW_DAYS,
+    DEFAULT_MIN_SIMILARITY,
+} from './grouping.js';
+export type { DuplicateGroup, DuplicateGroupingOptions } from './grouping.js';
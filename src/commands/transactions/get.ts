@@ -1,5 +1,6 @@
 import { Transaction } from 'bkper-js';
 import { getBkperInstance } from '../../bkper-factory.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Retrieves a single transaction by ID from the specified book.
@@ -17,7 +18,7 @@ export async function getTransaction(
     const book = await bkper.getBook(bookId);
     const transaction = await book.getTransaction(transactionId);
     if (!transaction) {
-        throw new Error(`Transaction not found: ${transactionId}`);
+        throw new NotFoundError('Transaction', transactionId);
     }
     return transaction;
 }
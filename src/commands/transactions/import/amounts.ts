@@ -0,0 +1,76 @@
+import { ValidationError } from '../../../utils/validation.js';
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Normalizes a bank statement amount into a signed decimal string with a dot
+ * separator, e.g. "+1.234,56" with separator "," becomes "1234.56".
+ *
+ * @param raw - The amount as written in the statement
+ * @param decimalSeparator - Decimal separator used by the file; when omitted,
+ *   a lone comma is treated as the decimal separator
+ * @returns Normalized signed decimal string
+ * @throws ValidationError if the value is not a valid number
+ */
+export function normalizeAmount(raw: string, decimalSeparator?: '.' | ','): string {
+    let value = raw.trim().replace(/[\s']/g, '');
+    let negative = false;
+
+    if (value.startsWith('-') || value.startsWith('+')) {
+        negative = value.startsWith('-');
+        value = value.slice(1);
+    } else if (value.endsWith('-')) {
+        negative = true;
+        value = value.slice(0, -1);
+    } else if (value.startsWith('(') && value.endsWith(')')) {
+        negative = true;
+        value = value.slice(1, -1);
+    }
+
+    const separator = decimalSeparator ?? (value.includes('.') ? '.' : ',');
+    const thousands = separator === '.' ? ',' : '.';
+    value = value.split(thousands).join('').replace(separator, '.');
+    if (value.startsWith('.')) {
+        value = `0${value}`;
+    }
+    if (value.endsWith('.')) {
+        value = value.slice(0, -1);
+    }
+
+    if (!DECIMAL_PATTERN.test(value)) {
+        throw new ValidationError([`Invalid amount: ${raw}`]);
+    }
+
+    return negative && !/^[0.]+$/.test(value) ? `-${value}` : value;
+}
+
+/**
+ * Tells whether a normalized amount is negative.
+ */
+export function isNegativeAmount(amount: string): boolean {
+    return amount.startsWith('-');
+}
+
+/**
+ * Returns the absolute value of a normalized amount.
+ */
+export function absoluteAmount(amount: string): string {
+    return isNegativeAmount(amount) ? amount.slice(1) : amount;
+}
+
+/**
+ * Tells whether a normalized amount is zero.
+ */
+export function isZeroAmount(amount: string): boolean {
+    return /^-?[0.]+$/.test(amount);
+}
+
+/**
+ * Flips the sign of a normalized amount, never producing "-0".
+ */
+export function negateAmount(amount: string): string {
+    if (isZeroAmount(amount)) {
+        return absoluteAmount(amount);
+    }
+    return isNegativeAmount(amount) ? amount.slice(1) : `-${amount}`;
+}
@@ -0,0 +1,185 @@
+import { negateAmount, normalizeAmount } from './amounts.js';
+import { assignFallbackRemoteIds } from './references.js';
+import type { Statement, StatementBalance, StatementEntry } from './types.js';
+import { decodeEntities, readBlock, readBlocks, readText, stripNamespacePrefixes } from './xml.js';
+import { ValidationError } from '../../../utils/validation.js';
+
+/**
+ * Entry statuses that represent booked money movements. Pending (`PDNG`) and
+ * informational (`INFO`) entries are not imported.
+ */
+const BOOKED_STATUSES = new Set(['BOOK']);
+
+/**
+ * Balance type of the booked closing balance.
+ */
+const CLOSING_BALANCE = 'CLBD';
+
+/**
+ * Parses an ISO 20022 camt.053 (Bank to Customer Statement) XML file.
+ *
+ * Supports namespace-prefixed documents, both the flat (`<Sts>BOOK</Sts>`)
+ * and coded (`<Sts><Cd>BOOK</Cd></Sts>`) status forms, and dates given as
+ * `Dt` or `DtTm`. Only booked entries are read. Reversals flip the sign.
+ *
+ * The bank reference (`AcctSvcrRef`) becomes the remoteId; entries without
+ * one get a deterministic fallback reference. The booked closing balance
+ * (`CLBD`) is read as the statement closing balance.
+ *
+ * @param content - Raw XML content
+ * @returns One statement per `Stmt` element
+ * @throws ValidationError if the file has no statements or an entry is invalid
+ */
+export function parseCamt053(content: string): Statement[] {
+    const xml = stripNamespacePrefixes(content);
+    const statementBlocks = readBlocks(xml, 'Stmt');
+    if (statementBlocks.length === 0) {
+        throw new ValidationError(['Invalid camt.053 file: no statements found']);
+    }
+    return statementBlocks.map(parseStatement);
+}
+
+function parseStatement(block: string): Statement {
+    const statement: Statement = { entries: [] };
+
+    const id = readText(block, 'Id');
+    if (id) {
+        statement.id = id;
+    }
+
+    const account = readBlock(block, 'Acct');
+    const accountId = readText(account, 'IBAN') || readText(readBlock(account || '', 'Othr'), 'Id');
+    if (accountId) {
+        statement.accountId = accountId;
+    }
+    const currency = readText(account, 'Ccy');
+    if (currency) {
+        statement.currency = currency;
+    }
+
+    const closingBalance = readClosingBalance(block);
+    if (closingBalance) {
+        statement.closingBalance = closingBalance;
+    }
+
+    for (const entryBlock of readBlocks(block, 'Ntry')) {
+        const entry = parseEntry(entryBlock);
+        if (entry) {
+            statement.entries.push(entry);
+        }
+    }
+
+    assignFallbackRemoteIds(statement);
+    return statement;
+}
+
+function readClosingBalance(statement: string): StatementBalance | undefined {
+    const balance = readBlocks(statement, 'Bal').find(
+        block => readText(readBlock(block, 'Tp'), 'Cd') === CLOSING_BALANCE
+    );
+    const rawAmount = readText(balance, 'Amt');
+    const date = readDate(balance);
+    if (!balance || !rawAmount || !date) {
+        return undefined;
+    }
+    const amount = normalizeAmount(rawAmount, '.');
+    return {
+        date,
+        amount: readText(balance, 'CdtDbtInd') === 'DBIT' ? negateAmount(amount) : amount,
+    };
+}
+
+function parseEntry(block: string): StatementEntry | undefined {
+    const details = readBlock(block, 'NtryDtls') || '';
+    const head = details ? block.replace(details, '') : block;
+
+    const statusBlock = readBlock(head, 'Sts');
+    const status = readText(statusBlock, 'Cd') || statusBlock?.trim();
+    if (status && !BOOKED_STATUSES.has(status)) {
+        return undefined;
+    }
+
+    const bankReference = readText(head, 'AcctSvcrRef');
+    const reference = bankReference || readText(head, 'NtryRef');
+    const label = reference ? ` ${reference}` : '';
+
+    const date = readDate(readBlock(head, 'BookgDt'));
+    if (!date) {
+        throw new ValidationError([`Invalid camt.053 entry${label}: missing booking date`]);
+    }
+
+    const rawAmount = readText(head, 'Amt');
+    const indicator = readText(head, 'CdtDbtInd');
+    if (!rawAmount || (indicator !== 'CRDT' && indicator !== 'DBIT')) {
+        throw new ValidationError([
+            `Invalid camt.053 entry${label}: missing amount or credit/debit indicator`,
+        ]);
+    }
+
+    const reversal = readText(head, 'RvslInd') === 'true';
+    let amount = normalizeAmount(rawAmount, '.');
+    if ((indicator === 'DBIT') !== reversal) {
+        amount = negateAmount(amount);
+    }
+
+    const transactions = readBlocks(details, 'TxDtls');
+    const entry: StatementEntry = {
+        date,
+        amount,
+        description: buildDescription(head, transactions, indicator === 'CRDT'),
+    };
+
+    const valueDate = readDate(readBlock(head, 'ValDt'));
+    if (valueDate && valueDate !== date) {
+        entry.valueDate = valueDate;
+    }
+
+    const remoteId =
+        bankReference ||
+        (transactions.length === 1
+            ? readText(readBlock(transactions[0], 'Refs'), 'AcctSvcrRef')
+            : undefined);
+    if (remoteId) {
+        entry.remoteId = remoteId;
+    }
+
+    return entry;
+}
+
+/**
+ * Builds the description from the counterparty name and the unstructured
+ * remittance information, falling back to the additional entry information.
+ */
+function buildDescription(head: string, transactions: string[], incoming: boolean): string {
+    const parts: string[] = [];
+
+    if (transactions.length === 1) {
+        const parties = readBlock(transactions[0], 'RltdPties');
+        const party = parties ? readBlock(parties, incoming ? 'Dbtr' : 'Cdtr') : undefined;
+        const name = readText(party, 'Nm');
+        if (name) {
+            parts.push(name);
+        }
+    }
+
+    for (const transaction of transactions) {
+        const remittance = readBlock(transaction, 'RmtInf');
+        for (const line of readBlocks(remittance || '', 'Ustrd')) {
+            const text = decodeEntities(line.trim());
+            if (text) {
+                parts.push(text);
+            }
+        }
+    }
+
+    if (parts.length === 0) {
+        return readText(head, 'AddtlNtryInf') || '';
+    }
+    return parts.join(' ').replace(/\s+/g, ' ');
+}
+
+function readDate(block: string | undefined): string | undefined {
+    const value = readText(block, 'Dt') || readText(block, 'DtTm');
+    const match = value ? /^(\d{4}-\d{2}-\d{2})/.exec(value) : null;
+    return match ? match[1] : undefined;
+}
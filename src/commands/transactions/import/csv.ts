@@ -0,0 +1,379 @@
+import { readFile } from 'node:fs/promises';
+import YAML from 'yaml';
+import { parseCsv } from '../../../input/csv-parser.js';
+import { throwIfErrors, ValidationError } from '../../../utils/validation.js';
+import { absoluteAmount, isZeroAmount, negateAmount, normalizeAmount } from './amounts.js';
+import { isValidDatePattern, parseDateWithPattern } from './dates.js';
+import type { Statement, StatementBalance, StatementEntry } from './types.js';
+import { NotFoundError } from '../../../utils/errors.js';
+
+/**
+ * A CSV column, referenced by header name or by 1-based position.
+ */
+export type ColumnRef = string | number;
+
+/**
+ * Column assignments of a CSV mapping profile.
+ */
+export interface CsvColumnMapping {
+    date: ColumnRef;
+    /** Single signed amount column. */
+    amount?: ColumnRef;
+    /** Money coming in, when the file splits amounts into two columns. */
+    inflow?: ColumnRef;
+    /** Money going out, when the file splits amounts into two columns. */
+    outflow?: ColumnRef;
+    /** One or more columns joined with a space. */
+    description?: ColumnRef[];
+    from?: ColumnRef;
+    to?: ColumnRef;
+    counterpart?: ColumnRef;
+    remoteId?: ColumnRef;
+    /** Running account balance after each row, read for the statement closing balance. */
+    balance?: ColumnRef;
+    properties?: Record<string, ColumnRef>;
+}
+
+/**
+ * A reusable profile describing how to read one bank's CSV export.
+ */
+export interface CsvMapping {
+    delimiter: string;
+    header: boolean;
+    /** Rows to skip before the header (or the first data row). */
+    skipRows: number;
+    dateFormat: string;
+    decimalSeparator: '.' | ',';
+    /** `inverted` flips amount signs, for files where positive means money going out. */
+    sign: 'normal' | 'inverted';
+    columns: CsvColumnMapping;
+}
+
+const SINGLE_COLUMN_KEYS = [
+    'date',
+    'amount',
+    'inflow',
+    'outflow',
+    'from',
+    'to',
+    'counterpart',
+    'remoteId',
+    'balance',
+] as const;
+
+/**
+ * Loads and validates a CSV mapping profile from a YAML file.
+ *
+ * @param file - Mapping file path
+ * @returns The validated mapping with defaults applied
+ * @throws NotFoundError if the file does not exist, ValidationError if it cannot be
+ *   parsed, or Error if it cannot be read
+ * @throws ValidationError if the mapping is invalid
+ */
+export async function loadCsvMapping(file: string): Promise<CsvMapping> {
+    let content: string;
+    try {
+        content = await readFile(file, 'utf8');
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new NotFoundError('Mapping file', file);
+        }
+        throw new Error(`Mapping file is not readable: ${file}`);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = YAML.parse(content);
+    } catch (err: unknown) {
+        throw new ValidationError([`Invalid mapping file ${file}: ${(err as Error).message}`]);
+    }
+
+    return parseCsvMapping(parsed);
+}
+
+/**
+ * Validates a parsed mapping profile and applies defaults.
+ *
+ * All problems are reported at once so the profile can be fixed in one pass.
+ *
+ * @param raw - Parsed YAML content
+ * @returns The validated mapping
+ * @throws ValidationError if the mapping is invalid
+ */
+export function parseCsvMapping(raw: unknown): CsvMapping {
+    if (!isRecord(raw)) {
+        throw new ValidationError(['Invalid mapping: expected a YAML object']);
+    }
+
+    const errors: string[] = [];
+    const header = raw.header === undefined ? true : raw.header;
+    if (typeof header !== 'boolean') {
+        errors.push('header must be true or false');
+    }
+
+    const delimiter = raw.delimiter === undefined ? ',' : raw.delimiter;
+    if (typeof delimiter !== 'string' || delimiter === '' || delimiter === '"') {
+        errors.push('delimiter must be a non-empty string other than a double quote');
+    }
+
+    const skipRows = raw.skipRows === undefined ? 0 : raw.skipRows;
+    if (typeof skipRows !== 'number' || !Number.isInteger(skipRows) || skipRows < 0) {
+        errors.push('skipRows must be a non-negative integer');
+    }
+
+    const dateFormat = raw.dateFormat === undefined ? 'yyyy-MM-dd' : raw.dateFormat;
+    if (typeof dateFormat !== 'string' || !isValidDatePattern(dateFormat)) {
+        errors.push('dateFormat must contain year (yyyy|yy), month (MM|M) and day (dd|d) tokens');
+    }
+
+    const decimalSeparator = raw.decimalSeparator === undefined ? '.' : raw.decimalSeparator;
+    if (decimalSeparator !== '.' && decimalSeparator !== ',') {
+        errors.push('decimalSeparator must be "." or ","');
+    }
+
+    const sign = raw.sign === undefined ? 'normal' : raw.sign;
+    if (sign !== 'normal' && sign !== 'inverted') {
+        errors.push('sign must be "normal" or "inverted"');
+    }
+
+    const columns = parseColumns(raw.columns, header === true, errors);
+    throwIfErrors(errors);
+
+    return {
+        delimiter: delimiter as string,
+        header: header as boolean,
+        skipRows: skipRows as number,
+        dateFormat: dateFormat as string,
+        decimalSeparator: decimalSeparator as '.' | ',',
+        sign: sign as 'normal' | 'inverted',
+        columns: columns as CsvColumnMapping,
+    };
+}
+
+function parseColumns(
+    raw: unknown,
+    hasHeader: boolean,
+    errors: string[]
+): CsvColumnMapping | undefined {
+    if (!isRecord(raw)) {
+        errors.push('columns must be an object mapping fields to CSV columns');
+        return undefined;
+    }
+
+    const columns: Record<string, unknown> = {};
+    const checkRef = (value: unknown, field: string): value is ColumnRef => {
+        if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+            return true;
+        }
+        if (typeof value === 'string' && value.trim() !== '') {
+            if (!hasHeader) {
+                errors.push(`columns.${field} must be a column number when header is false`);
+                return false;
+            }
+            return true;
+        }
+        errors.push(`columns.${field} must be a header name or a 1-based column number`);
+        return false;
+    };
+
+    for (const key of SINGLE_COLUMN_KEYS) {
+        if (raw[key] !== undefined && checkRef(raw[key], key)) {
+            columns[key] = raw[key];
+        }
+    }
+
+    if (raw.description !== undefined) {
+        const refs = Array.isArray(raw.description) ? raw.description : [raw.description];
+        columns.description = refs.filter((ref, index) => checkRef(ref, `description[${index}]`));
+    }
+
+    if (raw.properties !== undefined) {
+        if (!isRecord(raw.properties)) {
+            errors.push('columns.properties must map property keys to CSV columns');
+        } else {
+            const properties: Record<string, ColumnRef> = {};
+            for (const [key, ref] of Object.entries(raw.properties)) {
+                if (checkRef(ref, `properties.${key}`)) {
+                    properties[key] = ref;
+                }
+            }
+            columns.properties = properties;
+        }
+    }
+
+    if (raw.date === undefined) {
+        errors.push('columns.date is required');
+    }
+    const hasSplitAmount = raw.inflow !== undefined || raw.outflow !== undefined;
+    if (raw.amount === undefined && !hasSplitAmount) {
+        errors.push('columns.amount (or columns.inflow/columns.outflow) is required');
+    }
+    if (raw.amount !== undefined && hasSplitAmount) {
+        errors.push('columns.amount cannot be combined with columns.inflow/columns.outflow');
+    }
+
+    return columns as unknown as CsvColumnMapping;
+}
+
+/**
+ * Parses CSV content into a statement using a mapping profile.
+ *
+ * @param content - Raw CSV content
+ * @param mapping - Validated mapping profile
+ * @returns A single statement with one entry per data row, and the closing
+ *   balance when a balance column is mapped
+ * @throws ValidationError if a mapped column is missing or a row cannot be parsed
+ */
+export function parseCsvStatement(content: string, mapping: CsvMapping): Statement[] {
+    const rows = parseCsv(content, mapping.delimiter).slice(mapping.skipRows);
+    const headerRow = mapping.header ? rows.shift() : undefined;
+    if (mapping.header && !headerRow) {
+        throw new ValidationError(['Invalid CSV file: missing header row']);
+    }
+
+    const resolve = (ref: ColumnRef): number => resolveColumn(ref, headerRow);
+    const { columns } = mapping;
+    const indexes = {
+        date: resolve(columns.date),
+        amount: optional(columns.amount, resolve),
+        inflow: optional(columns.inflow, resolve),
+        outflow: optional(columns.outflow, resolve),
+        description: (columns.description || []).map(resolve),
+        from: optional(columns.from, resolve),
+        to: optional(columns.to, resolve),
+        counterpart: optional(columns.counterpart, resolve),
+        remoteId: optional(columns.remoteId, resolve),
+        balance: optional(columns.balance, resolve),
+        properties: Object.entries(columns.properties || {}).map(
+            ([key, ref]) => [key, resolve(ref)] as const
+        ),
+    };
+
+    const firstRowNumber = mapping.skipRows + (mapping.header ? 2 : 1);
+    const balances: StatementBalance[] = [];
+    const entries = rows.map((row, index) => {
+        const cell = (column: number | undefined): string | undefined => {
+            const value = column === undefined ? undefined : row[column]?.trim();
+            return value === '' ? undefined : value;
+        };
+
+        try {
+            const entry: StatementEntry = {
+                date: parseDateWithPattern(cell(indexes.date) || '', mapping.dateFormat),
+                amount: readAmount(cell, indexes, mapping),
+                description: indexes.description
+                    .map(column => cell(column))
+                    .filter(Boolean)
+                    .join(' '),
+            };
+
+            const remoteId = cell(indexes.remoteId);
+            if (remoteId) entry.remoteId = remoteId;
+            const from = cell(indexes.from);
+            if (from) entry.from = from;
+            const to = cell(indexes.to);
+            if (to) entry.to = to;
+            const counterpart = cell(indexes.counterpart);
+            if (counterpart) entry.counterpart = counterpart;
+
+            const properties: Record<string, string> = {};
+            for (const [key, column] of indexes.properties) {
+                const value = cell(column);
+                if (value) properties[key] = value;
+            }
+            if (Object.keys(properties).length > 0) {
+                entry.properties = properties;
+            }
+
+            const balance = cell(indexes.balance);
+            if (balance) {
+                const amount = normalizeAmount(balance, mapping.decimalSeparator);
+                balances.push({
+                    date: entry.date,
+                    amount: mapping.sign === 'inverted' ? negateAmount(amount) : amount,
+                });
+            }
+
+            return entry;
+        } catch (err: unknown) {
+            throw new ValidationError([
+                `Invalid CSV row ${firstRowNumber + index}: ${(err as Error).message}`,
+            ]);
+        }
+    });
+
+    const statement: Statement = { entries };
+    const closingBalance = findClosingBalance(balances);
+    if (closingBalance) {
+        statement.closingBalance = closingBalance;
+    }
+    return [statement];
+}
+
+/**
+ * Picks the running balance after the last movement of the latest day. Banks
+ * export either oldest or newest first, so on the latest day the last row
+ * wins in an ascending file and the first row in a descending one.
+ */
+function findClosingBalance(balances: StatementBalance[]): StatementBalance | undefined {
+    if (balances.length === 0) {
+        return undefined;
+    }
+    const descending = balances[0].date > balances[balances.length - 1].date;
+    const ordered = descending ? [...balances].reverse() : balances;
+    return ordered.reduce((latest, balance) => (balance.date >= latest.date ? balance : latest));
+}
+
+function readAmount(
+    cell: (column: number | undefined) => string | undefined,
+    indexes: { amount?: number; inflow?: number; outflow?: number },
+    mapping: CsvMapping
+): string {
+    let amount: string;
+
+    if (indexes.amount !== undefined) {
+        const raw = cell(indexes.amount);
+        if (!raw) {
+            throw new Error('missing amount');
+        }
+        amount = normalizeAmount(raw, mapping.decimalSeparator);
+    } else {
+        const inflowRaw = cell(indexes.inflow);
+        const outflowRaw = cell(indexes.outflow);
+        const inflow = inflowRaw ? normalizeAmount(inflowRaw, mapping.decimalSeparator) : '0';
+        const outflow = outflowRaw ? normalizeAmount(outflowRaw, mapping.decimalSeparator) : '0';
+        if (!inflowRaw && !outflowRaw) {
+            throw new Error('missing amount');
+        }
+        if (!isZeroAmount(inflow) && !isZeroAmount(outflow)) {
+            throw new Error('both inflow and outflow are set');
+        }
+        amount = isZeroAmount(inflow)
+            ? negateAmount(absoluteAmount(outflow))
+            : absoluteAmount(inflow);
+    }
+
+    return mapping.sign === 'inverted' ? negateAmount(amount) : amount;
+}
+
+function resolveColumn(ref: ColumnRef, headerRow: string[] | undefined): number {
+    if (typeof ref === 'number') {
+        return ref - 1;
+    }
+    const index = (headerRow || []).findIndex(name => name.trim() === ref);
+    if (index === -1) {
+        throw new ValidationError([`Column not found in CSV header: ${ref}`]);
+    }
+    return index;
+}
+
+function optional(
+    ref: ColumnRef | undefined,
+    resolve: (ref: ColumnRef) => number
+): number | undefined {
+    return ref === undefined ? undefined : resolve(ref);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
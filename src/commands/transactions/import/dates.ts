@@ -0,0 +1,75 @@
+import { ValidationError } from '../../../utils/validation.js';
+
+const DATE_TOKENS: Record<string, string> = {
+    yyyy: '(?<year>\\d{4})',
+    yy: '(?<shortYear>\\d{2})',
+    MM: '(?<month>\\d{2})',
+    M: '(?<month>\\d{1,2})',
+    dd: '(?<day>\\d{2})',
+    d: '(?<day>\\d{1,2})',
+};
+
+const TOKEN_PATTERN = /yyyy|yy|MM|M|dd|d/g;
+
+/**
+ * Parses a date string using a pattern such as `dd/MM/yyyy` or `yyMMdd`.
+ *
+ * Supported tokens are `yyyy`, `yy`, `MM`, `M`, `dd` and `d`; any other
+ * character must match literally. Two-digit years map to 20yy.
+ *
+ * @param value - Raw date value
+ * @param pattern - Date pattern
+ * @returns The date in ISO format (yyyy-MM-dd)
+ * @throws ValidationError if the value does not match the pattern or is not a valid date
+ */
+export function parseDateWithPattern(value: string, pattern: string): string {
+    const match = compileDatePattern(pattern).exec(value.trim());
+    if (!match || !match.groups) {
+        throw new ValidationError([`Invalid date: ${value} (expected ${pattern})`]);
+    }
+
+    const { year, shortYear, month, day } = match.groups;
+    const fullYear = year ? Number(year) : 2000 + Number(shortYear);
+    const monthNumber = Number(month);
+    const dayNumber = Number(day);
+
+    const date = new Date(Date.UTC(fullYear, monthNumber - 1, dayNumber));
+    if (
+        date.getUTCFullYear() !== fullYear ||
+        date.getUTCMonth() !== monthNumber - 1 ||
+        date.getUTCDate() !== dayNumber
+    ) {
+        throw new ValidationError([`Invalid date: ${value}`]);
+    }
+
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Checks that a date pattern has a year, a month and a day token.
+ */
+export function isValidDatePattern(pattern: string): boolean {
+    const tokens = pattern.match(TOKEN_PATTERN) || [];
+    const has = (...names: string[]) => tokens.filter(token => names.includes(token)).length === 1;
+    return has('yyyy', 'yy') && has('MM', 'M') && has('dd', 'd');
+}
+
+function compileDatePattern(pattern: string): RegExp {
+    let source = '';
+    let lastIndex = 0;
+
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_PATTERN.exec(pattern)) !== null) {
+        source += escapeRegExp(pattern.slice(lastIndex, match.index));
+        source += DATE_TOKENS[match[0]];
+        lastIndex = match.index + match[0].length;
+    }
+    source += escapeRegExp(pattern.slice(lastIndex));
+
+    return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
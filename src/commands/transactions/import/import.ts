@@ -0,0 +1,380 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Account, Book, Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../../bkper-factory.js';
+import { throwIfErrors, ValidationError } from '../../../utils/validation.js';
+import { buildTransactionsFromItems } from '../batch-create.js';
+import { BULK_CHUNK_SIZE } from '../bulk.js';
+import { absoluteAmount, isNegativeAmount } from './amounts.js';
+import { parseCamt053 } from './camt053.js';
+import { loadCsvMapping, parseCsvStatement, type CsvMapping } from './csv.js';
+import { parseMt940 } from './mt940.js';
+import { parseOfx } from './ofx.js';
+import type { Statement, StatementEntry } from './types.js';
+import { NotFoundError } from '../../../utils/errors.js';
+import { quoteQueryValue } from '../../../utils/query-quote.js';
+
+/**
+ * Bank statement file formats supported by `transaction import`.
+ */
+export type StatementFormat = 'ofx' | 'csv' | 'camt053' | 'mt940';
+
+const STATEMENT_FORMATS: readonly StatementFormat[] = ['ofx', 'csv', 'camt053', 'mt940'];
+
+const STATEMENT_EXTENSIONS: Record<string, StatementFormat> = {
+    '.ofx': 'ofx',
+    '.qfx': 'ofx',
+    '.csv': 'csv',
+    '.xml': 'camt053',
+    '.sta': 'mt940',
+    '.940': 'mt940',
+    '.mt940': 'mt940',
+};
+
+/**
+ * Options locating and reading a bank statement file.
+ */
+export interface LoadStatementsOptions {
+    file: string;
+    /** Raw --statement-format value, if any. */
+    format?: string;
+    /** CSV mapping profile (YAML) file path; required for CSV statements. */
+    mapping?: string;
+}
+
+/**
+ * Options for importing a bank statement into a book.
+ */
+export interface ImportTransactionsOptions extends LoadStatementsOptions {
+    /** Statement account; required for OFX, optional for CSV files carrying both sides. */
+    account?: string;
+    property?: string[];
+    /** Date transactions by value date instead of booking date, when the statement has both. */
+    valueDate?: boolean;
+    /** Build the transactions without creating them. */
+    dryRun?: boolean;
+}
+
+/**
+ * Result of a statement import.
+ */
+export interface ImportTransactionsResult {
+    created: Transaction[];
+    skipped: StatementEntry[];
+    /** Payloads of the transactions to create, including --property overrides. */
+    planned: bkper.Transaction[];
+}
+
+/**
+ * Resolves the statement format from the --statement-format flag or the file
+ * extension.
+ *
+ * @param file - Statement file path
+ * @param format - Raw --statement-format value, if any
+ * @returns The statement format
+ * @throws ValidationError if the format is unsupported or cannot be detected
+ */
+export function resolveStatementFormat(file: string, format?: string): StatementFormat {
+    if (format !== undefined) {
+        const normalized = format.toLowerCase();
+        if (!STATEMENT_FORMATS.includes(normalized as StatementFormat)) {
+            throw new ValidationError([
+                `Unsupported statement format: ${format}. Supported formats: ${STATEMENT_FORMATS.join(
+                    ', '
+                )}`,
+            ]);
+        }
+        return normalized as StatementFormat;
+    }
+
+    const detected = STATEMENT_EXTENSIONS[path.extname(file).toLowerCase()];
+    if (!detected) {
+        throw new ValidationError([
+            `Unable to detect statement format for ${file}. Use --statement-format <${STATEMENT_FORMATS.join(
+                '|'
+            )}>`,
+        ]);
+    }
+    return detected;
+}
+
+/**
+ * Parses statement file content according to its format.
+ *
+ * @param content - Raw file content
+ * @param format - Statement format
+ * @param mapping - Column mapping profile, required for CSV
+ */
+export function parseStatements(
+    content: string,
+    format: StatementFormat,
+    mapping?: CsvMapping
+): Statement[] {
+    switch (format) {
+        case 'ofx':
+            return parseOfx(content);
+        case 'camt053':
+            return parseCamt053(content);
+        case 'mt940':
+            return parseMt940(content);
+        case 'csv':
+            if (!mapping) {
+                throw new ValidationError([
+                    'A mapping profile is required to parse CSV statements',
+                ]);
+            }
+            return parseCsvStatement(content, mapping);
+    }
+}
+
+/**
+ * Reads a bank statement file and parses it according to its format,
+ * loading the CSV mapping profile when given.
+ *
+ * @param options - Statement file, format and mapping profile
+ * @returns The statements in the file
+ * @throws NotFoundError if the file does not exist, ValidationError if it cannot be
+ *   parsed, or Error if it cannot be read
+ */
+export async function loadStatements(options: LoadStatementsOptions): Promise<Statement[]> {
+    const format = resolveStatementFormat(options.file, options.format);
+    throwIfErrors(validateStatementOptions(format, options));
+    return readStatements(format, options);
+}
+
+/**
+ * Checks the options a statement format needs: CSV statements are read
+ * with a mapping profile.
+ */
+function validateStatementOptions(
+    format: StatementFormat,
+    options: LoadStatementsOptions
+): string[] {
+    return format === 'csv' && !options.mapping ? ['Missing required option: --mapping'] : [];
+}
+
+async function readStatements(
+    format: StatementFormat,
+    options: LoadStatementsOptions
+): Promise<Statement[]> {
+    const mapping = options.mapping ? await loadCsvMapping(options.mapping) : undefined;
+    const content = await readStatementFile(options.file);
+    return parseStatements(content, format, mapping);
+}
+
+/**
+ * Maps a statement entry to a bkper.Transaction payload.
+ *
+ * With a statement account, money coming into the account debits it (the
+ * account is the destination) and money leaving it credits it (the account
+ * is the origin). The entry counterpart, if any, fills the other side;
+ * otherwise it is left empty so the transaction is recorded as a draft for
+ * categorization.
+ *
+ * Without a statement account, the entry from/to accounts are used as is,
+ * swapped when the amount is negative.
+ *
+ * @param entry - Normalized statement entry
+ * @param account - The statement account, if any
+ * @returns Transaction payload ready for batch creation
+ */
+export function buildStatementTransactionPayload(
+    entry: StatementEntry,
+    account?: bkper.Account
+): bkper.Transaction {
+    const payload: bkper.Transaction = {
+        date: entry.date,
+        amount: absoluteAmount(entry.amount),
+        description: entry.description,
+    };
+
+    const negative = isNegativeAmount(entry.amount);
+    let from: bkper.Account | undefined;
+    let to: bkper.Account | undefined;
+    if (account) {
+        const counterpart = entry.counterpart ? { name: entry.counterpart } : undefined;
+        from = negative ? account : counterpart;
+        to = negative ? counterpart : account;
+    } else {
+        const origin = entry.from ? { name: entry.from } : undefined;
+        const destination = entry.to ? { name: entry.to } : undefined;
+        from = negative ? destination : origin;
+        to = negative ? origin : destination;
+    }
+
+    if (from) {
+        payload.creditAccount = from;
+    }
+    if (to) {
+        payload.debitAccount = to;
+    }
+
+    if (entry.remoteId) {
+        payload.remoteIds = [entry.remoteId];
+    }
+
+    if (entry.properties) {
+        payload.properties = { ...entry.properties };
+    }
+
+    return payload;
+}
+
+/**
+ * Imports a bank statement file into a book as transactions.
+ *
+ * Entries whose remoteId already exists on the account within the statement
+ * date range, or repeats within the file, are skipped so re-imports are idempotent.
+ * Transactions are created in batches of {@link BULK_CHUNK_SIZE}. With `dryRun`, the transactions are built and returned as `planned` but not created.
+ *
+ * @param bookId - Target book ID
+ * @param options - Statement file, format, account, mapping and property overrides
+ * @returns Created transactions, planned payloads and skipped statement entries
+ */
+export async function importTransactions(
+    bookId: string,
+    options: ImportTransactionsOptions
+): Promise<ImportTransactionsResult> {
+    const format = resolveStatementFormat(options.file, options.format);
+    const errors = validateStatementOptions(format, options);
+    if (format !== 'csv' && !options.account) {
+        errors.push('Missing required option: --account');
+    }
+    throwIfErrors(errors);
+
+    const entries = (await readStatements(format, options))
+        .flatMap(statement => statement.entries)
+        .map(entry =>
+            options.valueDate && entry.valueDate ? { ...entry, date: entry.valueDate } : entry
+        );
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId, true);
+    let account: Account | undefined;
+    if (options.account) {
+        account = await book.getAccount(options.account);
+        if (!account) {
+            throw new NotFoundError('Account', options.account);
+        }
+    }
+
+    if (entries.length === 0) {
+        return { created: [], skipped: [], planned: [] };
+    }
+
+    const knownRemoteIds = await collectExistingRemoteIds(book, account, entries);
+    const pending: StatementEntry[] = [];
+    const skipped: StatementEntry[] = [];
+
+    for (const entry of entries) {
+        if (entry.remoteId && knownRemoteIds.has(entry.remoteId)) {
+            skipped.push(entry);
+            continue;
+        }
+        if (entry.remoteId) {
+            knownRemoteIds.add(entry.remoteId);
+        }
+        pending.push(entry);
+    }
+
+    if (pending.length === 0) {
+        return { created: [], skipped, planned: [] };
+    }
+
+    const accountRef: bkper.Account | undefined = account
+        ? { id: account.getId(), name: account.getName() }
+        : undefined;
+    const items = pending.map(entry => buildStatementTransactionPayload(entry, accountRef));
+    const transactions = buildTransactionsFromItems(book, items, options.property);
+    const planned = transactions.map(tx => tx.json());
+
+    if (options.dryRun) {
+        return { created: [], skipped, planned };
+    }
+
+    const created: Transaction[] = [];
+    for (let i = 0; i < transactions.length; i += BULK_CHUNK_SIZE) {
+        created.push(
+            ...(await book.batchCreateTransactions(transactions.slice(i, i + BULK_CHUNK_SIZE)))
+        );
+    }
+    return { created, skipped, planned };
+}
+
+/**
+ * Builds a preview matrix of planned transactions for `--dry-run`.
+ *
+ * @param planned - Transaction payloads to be created
+ * @returns Matrix with a header row, one row per transaction
+ */
+export function buildImportPreviewMatrix(planned: bkper.Transaction[]): unknown[][] {
+    const propertyKeys = [
+        ...new Set(planned.flatMap(tx => Object.keys(tx.properties || {}))),
+    ].sort();
+
+    const matrix: unknown[][] = [
+        ['Date', 'Amount', 'From', 'To', 'Description', 'Remote ID', ...propertyKeys],
+    ];
+    for (const tx of planned) {
+        matrix.push([
+            tx.date,
+            tx.amount,
+            tx.creditAccount?.name ?? '',
+            tx.debitAccount?.name ?? '',
+            tx.description ?? '',
+            (tx.remoteIds || []).join(' '),
+            ...propertyKeys.map(key => tx.properties?.[key] ?? ''),
+        ]);
+    }
+    return matrix;
+}
+
+async function readStatementFile(file: string): Promise<string> {
+    try {
+        return await readFile(file, 'utf8');
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new NotFoundError('Statement file', file);
+        }
+        throw new Error(`Statement file is not readable: ${file}`);
+    }
+}
+
+/**
+ * Collects remoteIds of transactions already recorded within the statement
+ * date range, on the statement account when there is one.
+ */
+async function collectExistingRemoteIds(
+    book: Book,
+    account: Account | undefined,
+    entries: StatementEntry[]
+): Promise<Set<string>> {
+    const dates = entries.map(entry => entry.date).sort();
+    const range = `after:${dates[0]} before:${nextDay(dates[dates.length - 1])}`;
+    const query = account ? `account:${quoteQueryValue(account.getName())} ${range}` : range;
+
+    const remoteIds = new Set<string>();
+    let cursor: string | undefined;
+
+    do {
+        const result = await book.listTransactions(query, undefined, cursor);
+        const items = result.getItems();
+        for (const tx of items || []) {
+            for (const remoteId of tx.getRemoteIds() || []) {
+                remoteIds.add(remoteId);
+            }
+        }
+        const nextCursor = result.getCursor();
+        if (!nextCursor || !items || items.length === 0 || nextCursor === cursor) {
+            break;
+        }
+        cursor = nextCursor;
+    } while (true);
+
+    return remoteIds;
+}
+
+function nextDay(isoDate: string): string {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
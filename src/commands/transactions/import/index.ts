@@ -0,0 +1,20 @@
+export {
+    importTransactions,
+    loadStatements,
+    resolveStatementFormat,
+    parseStatements,
+    buildStatementTransactionPayload,
+    buildImportPreviewMatrix,
+    ImportTransactionsOptions,
+    ImportTransactionsResult,
+    LoadStatementsOptions,
+    StatementFormat,
+} from './import.js';
+export { parseOfx } from './ofx.js';
+export { parseCamt053 } from './camt053.js';
+export { parseMt940 } from './mt940.js';
+export { loadCsvMapping, parseCsvMapping, parseCsvStatement } from './csv.js';
+export type { CsvMapping, CsvColumnMapping, ColumnRef } from './csv.js';
+export { parseDateWithPattern } from './dates.js';
+export { normalizeAmount } from './amounts.js';
+export type { Statement, StatementBalance, StatementEntry } from './types.js';
@@ -0,0 +1,261 @@
+import { negateAmount, normalizeAmount } from './amounts.js';
+import { assignFallbackRemoteIds } from './references.js';
+import type { Statement, StatementBalance, StatementEntry } from './types.js';
+import { ValidationError } from '../../../utils/validation.js';
+
+/**
+ * Statement line (:61:) layout: value date, optional entry date (MMDD),
+ * debit/credit mark, optional funds code, amount, transaction type,
+ * account owner reference, optional `//` bank reference and supplementary details.
+ */
+const STATEMENT_LINE_PATTERN =
+    /^(\d{2})(\d{2})(\d{2})(?:(\d{2})(\d{2}))?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+const NO_REFERENCE = 'NONREF';
+
+const SEPA_REMITTANCE_PATTERN =
+    /SVWZ\+(.*?)(?=(?:ABWA|ABWE|EREF|KREF|MREF|CRED|DEBT|COAS|OAMT|IBAN|BIC)\+|$)/;
+
+interface Field {
+    tag: string;
+    value: string;
+}
+
+/**
+ * Parses a SWIFT MT940 customer statement file.
+ *
+ * Handles files with or without SWIFT block wrappers (`{1:...}{4:...-}`),
+ * several statements per file, entry (booking) dates apart from value dates,
+ * and the common `:86:` dialects: German `?20`-style subfields, `/NAME/` and
+ * `/REMI/` keyword structures, and free text.
+ *
+ * The bank reference (after `//` in `:61:`) becomes the remoteId; entries
+ * without one get a deterministic fallback reference. The closing balance
+ * (`:62F:`) is read as the statement closing balance.
+ *
+ * @param content - Raw MT940 content
+ * @returns One statement per `:20:` message
+ * @throws ValidationError if the file has no statements or a statement line is invalid
+ */
+export function parseMt940(content: string): Statement[] {
+    const fields = readFields(unwrapBlocks(content.replace(/\r\n?/g, '\n')));
+    const statements: Statement[] = [];
+
+    let statement: Statement | undefined;
+    let entry: StatementEntry | undefined;
+
+    for (const field of fields) {
+        switch (field.tag) {
+            case '20':
+                statement = { id: field.value.trim(), entries: [] };
+                statements.push(statement);
+                entry = undefined;
+                break;
+            case '25':
+                requireStatement(statement).accountId = field.value.trim();
+                break;
+            case '60F':
+            case '60M': {
+                const currency = /^[CD]\d{6}([A-Z]{3})/.exec(field.value.trim());
+                if (currency) {
+                    requireStatement(statement).currency = currency[1];
+                }
+                break;
+            }
+            case '61':
+                entry = parseStatementLine(field.value);
+                requireStatement(statement).entries.push(entry);
+                break;
+            case '86':
+                // Information to account owner after :62F: describes the statement itself
+                if (entry) {
+                    entry.description = parseInformation(field.value);
+                }
+                break;
+            case '62F':
+            case '62M': {
+                const balance = parseBalance(field.value);
+                if (balance) {
+                    requireStatement(statement).closingBalance = balance;
+                }
+                entry = undefined;
+                break;
+            }
+        }
+    }
+
+    if (statements.length === 0) {
+        throw new ValidationError(['Invalid MT940 file: no statements found']);
+    }
+
+    for (const parsed of statements) {
+        assignFallbackRemoteIds(parsed);
+    }
+    return statements;
+}
+
+/**
+ * Extracts the text blocks (`{4:...-}`) of SWIFT-wrapped messages, or returns
+ * the content unchanged when it has no wrappers.
+ */
+function unwrapBlocks(content: string): string {
+    const blocks = [...content.matchAll(/\{4:\s*\n([\s\S]*?)\n-\}/g)].map(match => match[1]);
+    return blocks.length > 0 ? blocks.join('\n') : content;
+}
+
+/**
+ * Splits the message text into tagged fields, appending continuation lines.
+ */
+function readFields(text: string): Field[] {
+    const fields: Field[] = [];
+    for (const line of text.split('\n')) {
+        const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+        if (match) {
+            fields.push({ tag: match[1], value: match[2] });
+        } else if (fields.length > 0 && line.trim() !== '' && line.trim() !== '-') {
+            fields[fields.length - 1].value += `\n${line}`;
+        }
+    }
+    return fields;
+}
+
+function requireStatement(statement: Statement | undefined): Statement {
+    if (!statement) {
+        throw new ValidationError(['Invalid MT940 file: statement fields found before :20:']);
+    }
+    return statement;
+}
+
+function parseStatementLine(value: string): StatementEntry {
+    const match = STATEMENT_LINE_PATTERN.exec(value);
+    if (!match) {
+        throw new ValidationError([`Invalid MT940 statement line: ${value.split('\n')[0]}`]);
+    }
+
+    const [, year, month, day, entryMonth, entryDay, mark, , rawAmount] = match;
+    const bankReference = match[11]?.trim();
+    const details = match[12]?.trim();
+
+    const valueYear = 2000 + Number(year);
+    const valueDate = toIsoDate(valueYear, month, day);
+    const date = entryMonth
+        ? toIsoDate(entryYear(valueYear, Number(month), Number(entryMonth)), entryMonth, entryDay)
+        : valueDate;
+
+    // Debits and reversals of credits take money out of the account
+    let amount = normalizeAmount(rawAmount, ',');
+    if (mark === 'D' || mark === 'RC') {
+        amount = negateAmount(amount);
+    }
+
+    const entry: StatementEntry = { date, amount, description: details || '' };
+    if (valueDate !== date) {
+        entry.valueDate = valueDate;
+    }
+    if (bankReference && bankReference !== NO_REFERENCE) {
+        entry.remoteId = bankReference;
+    }
+    return entry;
+}
+
+/**
+ * Reads a balance field (`:62F:C231031EUR1234,56`): debit/credit mark, date,
+ * currency and amount. A debit balance is an overdraft.
+ */
+function parseBalance(value: string): StatementBalance | undefined {
+    const match = /^([CD])(\d{2})(\d{2})(\d{2})[A-Z]{3}(\d+,\d*)/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    const [, mark, year, month, day, rawAmount] = match;
+    const amount = normalizeAmount(rawAmount, ',');
+    return {
+        date: toIsoDate(2000 + Number(year), month, day),
+        amount: mark === 'D' ? negateAmount(amount) : amount,
+    };
+}
+
+/**
+ * Derives the entry date year, which MT940 omits, from the value date.
+ * Entries booked in December for a January value date belong to the previous
+ * year, and the other way around.
+ */
+function entryYear(valueYear: number, valueMonth: number, entryMonth: number): number {
+    if (entryMonth - valueMonth > 6) {
+        return valueYear - 1;
+    }
+    if (valueMonth - entryMonth > 6) {
+        return valueYear + 1;
+    }
+    return valueYear;
+}
+
+function toIsoDate(year: number, month: string, day: string): string {
+    const date = new Date(Date.UTC(year, Number(month) - 1, Number(day)));
+    if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+        throw new ValidationError([`Invalid MT940 date: ${year}-${month}-${day}`]);
+    }
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads the description from an `:86:` information field.
+ */
+function parseInformation(value: string): string {
+    const joined = value.replace(/\n/g, '');
+    if (/^\d{3}\?/.test(joined)) {
+        return parseSubfields(joined);
+    }
+    if (/^\/(NAME|REMI|EREF|TRCD|ORDP|BENM)\//.test(joined)) {
+        return parseKeywords(joined);
+    }
+    return collapse(value.replace(/\n/g, ' '));
+}
+
+/**
+ * Reads German-style `?xx` subfields: counterparty name (`?32`, `?33`)
+ * followed by the purpose lines (`?20`-`?29`, `?60`-`?63`). For SEPA
+ * payments only the `SVWZ+` remittance text of the purpose is kept.
+ */
+function parseSubfields(value: string): string {
+    const subfields = new Map<number, string>();
+    for (const match of value.matchAll(/\?(\d{2})([^?]*)/g)) {
+        subfields.set(Number(match[1]), match[2]);
+    }
+
+    const pick = (from: number, to: number) => {
+        let text = '';
+        for (let code = from; code <= to; code++) {
+            text += subfields.get(code) || '';
+        }
+        return text.trim();
+    };
+
+    const name = pick(32, 33);
+    let purpose = `${pick(20, 29)}${pick(60, 63)}`.trim();
+    const sepaRemittance = SEPA_REMITTANCE_PATTERN.exec(purpose);
+    if (sepaRemittance) {
+        purpose = sepaRemittance[1].trim();
+    }
+    const description = [name, purpose].filter(Boolean).join(' ');
+    return collapse(description || subfields.get(0) || '');
+}
+
+/**
+ * Reads `/KEYWORD/value` structures used by Dutch and Belgian banks:
+ * counterparty name (`/NAME/`) followed by remittance information (`/REMI/`).
+ */
+function parseKeywords(value: string): string {
+    const read = (keyword: string): string | undefined => {
+        const match = new RegExp(`/${keyword}/(.*?)(?=/[A-Z]{2,9}/|/?$)`).exec(value);
+        return match ? match[1].trim() : undefined;
+    };
+
+    const name = read('NAME');
+    const remittance = read('REMI')?.replace(/^USTD\/\//, '');
+    return collapse([name, remittance].filter(Boolean).join(' '));
+}
+
+function collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,142 @@
+import { normalizeAmount } from './amounts.js';
+import type { Statement, StatementBalance, StatementEntry } from './types.js';
+import { decodeEntities } from './xml.js';
+import { ValidationError } from '../../../utils/validation.js';
+
+const STATEMENT_PATTERN = /<(CC)?STMTRS>([\s\S]*?)<\/(CC)?STMTRS>/gi;
+const TRANSACTION_PATTERN =
+    /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+
+/**
+ * Parses an OFX or QFX bank statement into normalized statements.
+ *
+ * Supports both OFX 1.x (SGML, leaf elements without closing tags) and
+ * OFX 2.x (XML). Bank and credit card statements are read, each STMTTRN
+ * becoming one entry with its FITID as remoteId. The ledger balance is read
+ * as the statement closing balance.
+ *
+ * @param content - Raw file content
+ * @returns One statement per STMTRS/CCSTMTRS aggregate
+ * @throws ValidationError if the content has no statement transactions or a transaction is invalid
+ */
+export function parseOfx(content: string): Statement[] {
+    const body = stripHeader(content);
+    const statements: Statement[] = [];
+
+    STATEMENT_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = STATEMENT_PATTERN.exec(body)) !== null) {
+        statements.push(parseStatement(match[2]));
+    }
+
+    // Some banks emit truncated files without the statement wrapper
+    if (statements.length === 0 && /<STMTTRN>/i.test(body)) {
+        statements.push(parseStatement(body));
+    }
+
+    if (statements.length === 0) {
+        throw new ValidationError(['Invalid OFX file: no statement transactions found']);
+    }
+
+    return statements;
+}
+
+function stripHeader(content: string): string {
+    const start = content.search(/<OFX>/i);
+    return start === -1 ? content : content.slice(start);
+}
+
+function parseStatement(block: string): Statement {
+    const statement: Statement = { entries: [] };
+
+    const accountId = readElement(block, 'ACCTID');
+    if (accountId) {
+        statement.accountId = accountId;
+    }
+    const currency = readElement(block, 'CURDEF');
+    if (currency) {
+        statement.currency = currency;
+    }
+
+    const closingBalance = readLedgerBalance(block);
+    if (closingBalance) {
+        statement.closingBalance = closingBalance;
+    }
+
+    TRANSACTION_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TRANSACTION_PATTERN.exec(block)) !== null) {
+        statement.entries.push(parseTransaction(match[1]));
+    }
+
+    return statement;
+}
+
+/**
+ * Reads the ledger balance (LEDGERBAL), the booked balance at the end of the statement.
+ */
+function readLedgerBalance(block: string): StatementBalance | undefined {
+    const start = block.search(/<LEDGERBAL>/i);
+    if (start === -1) {
+        return undefined;
+    }
+    // Leaf elements may lack closing tags, so read the first ones after the aggregate opens
+    const ledger = block.slice(start);
+    const rawAmount = readElement(ledger, 'BALAMT');
+    const asOf = readElement(ledger, 'DTASOF');
+    const dateMatch = asOf ? /^(\d{4})(\d{2})(\d{2})/.exec(asOf) : null;
+    if (!rawAmount || !dateMatch) {
+        return undefined;
+    }
+    return {
+        date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`,
+        amount: normalizeAmount(rawAmount),
+    };
+}
+
+function parseTransaction(block: string): StatementEntry {
+    const fitId = readElement(block, 'FITID');
+    const reference = fitId ? ` ${fitId}` : '';
+
+    const posted = readElement(block, 'DTPOSTED');
+    const dateMatch = posted ? /^(\d{4})(\d{2})(\d{2})/.exec(posted) : null;
+    if (!dateMatch) {
+        throw new ValidationError([
+            `Invalid OFX transaction${reference}: missing or invalid DTPOSTED`,
+        ]);
+    }
+
+    const rawAmount = readElement(block, 'TRNAMT');
+    if (!rawAmount) {
+        throw new ValidationError([`Invalid OFX transaction${reference}: missing TRNAMT`]);
+    }
+
+    const entry: StatementEntry = {
+        date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`,
+        amount: normalizeAmount(rawAmount),
+        description: buildDescription(readElement(block, 'NAME'), readElement(block, 'MEMO')),
+    };
+    if (fitId) {
+        entry.remoteId = fitId;
+    }
+    return entry;
+}
+
+function buildDescription(name: string | undefined, memo: string | undefined): string {
+    if (name && memo && name !== memo) {
+        return `${name} ${memo}`;
+    }
+    return name || memo || '';
+}
+
+/**
+ * Reads a leaf element value, with or without a closing tag.
+ */
+function readElement(block: string, tag: string): string | undefined {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+    if (!match) {
+        return undefined;
+    }
+    const value = decodeEntities(match[1].trim());
+    return value === '' ? undefined : value;
+}
@@ -0,0 +1,25 @@
+import type { Statement } from './types.js';
+
+/**
+ * Gives entries without a bank reference a deterministic remoteId, so
+ * re-importing the same statement skips them instead of duplicating.
+ *
+ * The fallback combines the account, date and amount with the occurrence
+ * number of that date and amount in the statement, e.g. `DE89.../2025-01-03/-12.50/1`.
+ *
+ * @param statement - Parsed statement, updated in place
+ */
+export function assignFallbackRemoteIds(statement: Statement): void {
+    const occurrences = new Map<string, number>();
+    const prefix = statement.accountId ? `${statement.accountId}/` : '';
+
+    for (const entry of statement.entries) {
+        if (entry.remoteId) {
+            continue;
+        }
+        const key = `${entry.date}/${entry.amount}`;
+        const occurrence = (occurrences.get(key) || 0) + 1;
+        occurrences.set(key, occurrence);
+        entry.remoteId = `${prefix}${key}/${occurrence}`;
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * Bank statement types shared by the transaction import parsers.
+ */
+
+/**
+ * A single statement line, normalized from any supported file format.
+ *
+ * Amounts are signed decimal strings with a dot separator: positive values
+ * are money coming into the statement account, negative values money leaving it.
+ */
+export interface StatementEntry {
+    /** Booking date in ISO format (yyyy-MM-dd). */
+    date: string;
+    /** Value date in ISO format, when the statement reports it apart from the booking date. */
+    valueDate?: string;
+    /** Signed decimal amount, e.g. "-12.50". */
+    amount: string;
+    description: string;
+    /** Stable bank reference used as the transaction remoteId. */
+    remoteId?: string;
+    /** Other side of the entry when importing against a statement account. */
+    counterpart?: string;
+    /** Credit (origin) account name, for files that carry both sides. */
+    from?: string;
+    /** Debit (destination) account name, for files that carry both sides. */
+    to?: string;
+    properties?: Record<string, string>;
+}
+
+/**
+ * An account balance reported by a statement.
+ */
+export interface StatementBalance {
+    /** Date of the balance in ISO format (yyyy-MM-dd), at the end of that day. */
+    date: string;
+    /** Signed decimal amount; negative when the account is overdrawn or owes money. */
+    amount: string;
+}
+
+/**
+ * A parsed bank statement with its entries.
+ */
+export interface Statement {
+    /** Statement identifier as reported in the file. */
+    id?: string;
+    /** Bank account identifier as reported in the file. */
+    accountId?: string;
+    currency?: string;
+    /** Booked balance at the end of the statement, when the file reports it. */
+    closingBalance?: StatementBalance;
+    entries: StatementEntry[];
+}
@@ -0,0 +1,61 @@
+/**
+ * Minimal helpers for reading flat, well-known statement XML (OFX 2.x, camt)
+ * without a full XML parser.
+ */
+
+/**
+ * Removes namespace prefixes from element names, so `<ns2:Ntry>` reads as `<Ntry>`.
+ */
+export function stripNamespacePrefixes(xml: string): string {
+    return xml.replace(/<(\/?)[A-Za-z_][\w.-]*:/g, '<$1');
+}
+
+/**
+ * Returns the inner content of every `<tag>` element, in document order.
+ * Elements must not nest inside themselves.
+ */
+export function readBlocks(xml: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+    const blocks: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(xml)) !== null) {
+        blocks.push(match[1]);
+    }
+    return blocks;
+}
+
+/**
+ * Returns the inner content of the first `<tag>` element, if any.
+ */
+export function readBlock(xml: string, tag: string): string | undefined {
+    return readBlocks(xml, tag)[0];
+}
+
+/**
+ * Returns the decoded, trimmed text of the first `<tag>` leaf element, if any.
+ */
+export function readText(xml: string | undefined, tag: string): string | undefined {
+    if (!xml) {
+        return undefined;
+    }
+    const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`).exec(xml);
+    if (!match) {
+        return undefined;
+    }
+    const value = decodeEntities(match[1].trim());
+    return value === '' ? undefined : value;
+}
+
+/**
+ * Decodes the predefined XML entities and numeric character references.
+ */
+export function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
@@ -1,8 +1,10 @@
 export {
     listTransactions,
     listTransactionsFormatted,
+    streamTransactions,
     ListTransactionsOptions,
     ListTransactionsResult,
+    StreamTransactionsOptions,
 } from './list.js';
 export { getTransaction } from './get.js';
 export {
@@ -17,5 +19,39 @@ export { uncheckTransaction } from './uncheck.js';
 export { trashTransaction } from './trash.js';
 export { untrashTransaction } from './untrash.js';
 export { mergeTransactions } from './merge.js';
-export { batchCreateTransactions } from './batch-create.js';
+export {
+    splitTransaction,
+    parseSplitLegFlag,
+    parseSplitLegItems,
+    allocateSplitAmounts,
+    buildSplitPayloads,
+    SPLIT_GROUP_PROPERTY,
+    SplitLeg,
+    SplitTransactionOptions,
+    SplitTransactionResult,
+} from './split.js';
+export {
+    bulkTransactionAction,
+    resolveBulkSelection,
+    formatBulkResult,
+    BULK_CHUNK_SIZE,
+    BulkTransactionAction,
+    BulkTransactionOptions,
+    BulkTransactionResult,
+    BulkSkippedTransaction,
+} from './bulk.js';
+export { batchCreateTransactions, buildTransactionsFromItems } from './batch-create.js';
 export { batchUpdateTransactions } from './batch-update.js';
+export {
+    importTransactions,
+    buildImportPreviewMatrix,
+    ImportTransactionsOptions,
+    ImportTransactionsResult,
+} from './import/index.js';
+export {
+    findDuplicateTransactions,
+    findDuplicateTransactionsFormatted,
+    FindDuplicatesOptions,
+    DEFAULT_DUPLICATE_WINDOW_DAYS,
+    DEFAULT_MIN_SIMILARITY,
+} from './duplicates/index.js';
@@ -1,8 +1,17 @@
+import { once } from 'node:events';
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Book, Transaction, Account } from 'bkper-js';
-import type { OutputFormat, ListResult } from '../../render/output.js';
+import { formatCsv } from '../../render/csv-formatter.js';
+import {
+    isJsonFormat,
+    isSpreadsheetFormat,
+    type OutputFormat,
+    type ListResult,
+} from '../../render/output.js';
+import { getBookRenderOptions } from '../cli-helpers.js';
 import { quoteShellArg } from '../../utils/shell-quote.js';
 import { warnIfSuspiciousDateVariableQuery } from '../../utils/query-warning.js';
+import { ValidationError } from '../../utils/validation.js';
 
 export const DEFAULT_TRANSACTION_LIST_LIMIT = 100;
 
@@ -85,19 +94,47 @@ export async function listTransactions(
     }
 
     const allItems: Transaction[] = [];
+    let account: Account | undefined;
+    for await (const page of iterateTransactionPages(book, options.query)) {
+        allItems.push(...page.items);
+        account = page.account;
+    }
+
+    return {
+        book,
+        items: allItems,
+        account,
+    };
+}
+
+/**
+ * One page of a transaction query.
+ */
+export interface TransactionPage {
+    items: Transaction[];
+    /** The account the query filters on, if any; the same on every page. */
+    account?: Account;
+}
+
+/**
+ * Fetches the pages of a transaction query one at a time, until no more
+ * pages remain.
+ */
+export async function* iterateTransactionPages(
+    book: Book,
+    query: string
+): AsyncGenerator<TransactionPage> {
     let account: Account | undefined;
     let cursor: string | undefined;
 
     do {
-        const result = await book.listTransactions(options.query, undefined, cursor);
+        const result = await book.listTransactions(query, undefined, cursor);
         const items = result.getItems();
-        if (items && items.length > 0) {
-            allItems.push(...items);
-        }
         // Capture the account from the first page (it's the same across pages)
         if (account === undefined) {
             account = await result.getAccount();
         }
+        yield { items: items || [], account };
         const nextCursor = result.getCursor();
         // Stop when no cursor, no items returned, or cursor hasn't changed
         if (!nextCursor || !items || items.length === 0 || nextCursor === cursor) {
@@ -105,12 +142,114 @@ export async function listTransactions(
         }
         cursor = nextCursor;
     } while (true);
+}
 
-    return {
-        book,
-        items: allItems,
-        account,
-    };
+/**
+ * Options for streaming transactions as they are fetched.
+ */
+export interface StreamTransactionsOptions {
+    query: string;
+    /** Called after each page is written, with the number of transactions written so far. */
+    onProgress?: (count: number) => void;
+}
+
+/**
+ * Writes every transaction matching a query as soon as its page arrives,
+ * holding one page in memory at a time, so exports of any size run in
+ * constant memory.
+ *
+ * NDJSON is written one transaction per line. CSV has the columns of
+ * `transaction list --format csv`, with the header written once from the
+ * first page: the standard columns and the property keys found there. A
+ * property first seen on a later page has no column; those keys are reported
+ * on stderr at the end. Writing waits for the output to drain, so a slow
+ * consumer slows fetching down instead of filling memory.
+ *
+ * @param bookId - The book ID to query
+ * @param options - Query and progress callback
+ * @param format - Output format: 'ndjson' or 'csv'
+ * @param out - Stream to write to
+ * @returns The number of transactions written
+ * @throws ValidationError if the format is not 'ndjson' or 'csv'
+ */
+export async function streamTransactions(
+    bookId: string,
+    options: StreamTransactionsOptions,
+    format: OutputFormat,
+    out: NodeJS.WritableStream = process.stdout
+): Promise<number> {
+    if (format !== 'ndjson' && format !== 'csv') {
+        throw new ValidationError([
+            'Streaming writes one JSON document per line or CSV: use --format ndjson or csv',
+        ]);
+    }
+    warnIfSuspiciousDateVariableQuery(options.query);
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId, true);
+
+    let count = 0;
+    let header: unknown[] | undefined;
+    const leftOut = new Set<unknown>();
+    for await (const page of iterateTransactionPages(book, options.query)) {
+        if (page.items.length === 0) {
+            continue;
+        }
+        let chunk: string;
+        if (format === 'csv') {
+            const matrix = await buildPageMatrix(book, page);
+            if (header) {
+                for (const name of matrix[0]) {
+                    if (!header.includes(name)) {
+                        leftOut.add(name);
+                    }
+                }
+                chunk = `${formatCsv(alignRows(header, matrix))}\r\n`;
+            } else {
+                header = matrix[0];
+                chunk = `${formatCsv(matrix)}\r\n`;
+            }
+        } else {
+            chunk = page.items.map(tx => `${JSON.stringify(tx.json())}\n`).join('');
+        }
+        if (!out.write(chunk)) {
+            await once(out, 'drain');
+        }
+        count += page.items.length;
+        options.onProgress?.(count);
+    }
+    if (leftOut.size > 0) {
+        console.error(
+            `Properties first seen after the first page have no CSV column: ${[...leftOut].join(
+                ', '
+            )}. Use --format ndjson to keep every property.`
+        );
+    }
+    return count;
+}
+
+async function buildPageMatrix(book: Book, page: TransactionPage): Promise<unknown[][]> {
+    return book
+        .createTransactionsDataTable(page.items, page.account)
+        .ids(true)
+        .properties(true)
+        .hiddenProperties(true)
+        .urls(true)
+        .recordedAt(true)
+        .build();
+}
+
+/**
+ * Reorders the data rows of a page matrix into the given columns, leaving
+ * columns the page does not have empty.
+ */
+function alignRows(header: unknown[], matrix: unknown[][]): unknown[][] {
+    const [pageHeader, ...rows] = matrix;
+    if (pageHeader.length === header.length && pageHeader.every((name, i) => name === header[i])) {
+        return rows;
+    }
+    const positions = header.map(name => pageHeader.indexOf(name));
+    return rows.map(row => positions.map(position => (position === -1 ? '' : row[position])));
 }
 
 /**
@@ -124,10 +263,11 @@ export async function listTransactionsFormatted(
 ): Promise<ListResult> {
     const result = await listTransactions(bookId, options);
 
-    if (format === 'json') {
+    if (isJsonFormat(format)) {
         const jsonResult: ListResult = {
             kind: 'json',
             items: result.items.map(tx => tx.json()),
+            ...getBookRenderOptions(result.book),
         };
         if (result.cursor) {
             jsonResult.cursor = result.cursor;
@@ -137,7 +277,7 @@ export async function listTransactionsFormatted(
 
     const builder = result.book.createTransactionsDataTable(result.items, result.account).ids(true);
 
-    if (format === 'csv') {
+    if (isSpreadsheetFormat(format)) {
         builder.properties(true).hiddenProperties(true).urls(true).recordedAt(true);
     } else {
         builder.formatDates(true).formatValues(true).recordedAt(false);
@@ -151,5 +291,6 @@ export async function listTransactionsFormatted(
         kind: 'matrix',
         matrix,
         footer: buildTransactionListFooter(bookId, options, result.cursor),
+        ...getBookRenderOptions(result.book),
     };
 }
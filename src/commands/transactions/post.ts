@@ -1,5 +1,6 @@
 import { getBkperInstance } from '../../bkper-factory.js';
 import { Transaction } from 'bkper-js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Posts a draft transaction, making it permanent in the book.
@@ -13,7 +14,7 @@ export async function postTransaction(bookId: string, transactionId: string): Pr
     const book = await bkper.getBook(bookId);
     const transaction = await book.getTransaction(transactionId);
     if (!transaction) {
-        throw new Error(`Transaction not found: ${transactionId}`);
+        throw new NotFoundError('Transaction', transactionId);
     }
     return transaction.post();
 }
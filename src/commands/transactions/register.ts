@@ -1,11 +1,28 @@
 import type { Command } from 'commander';
 import { withAction } from '../action.js';
-import { collectProperty, collectRepeatable, parsePositiveInteger } from '../cli-helpers.js';
-import { renderListResult, renderItem } from '../../render/index.js';
-import { validateRequiredOptions, throwIfErrors } from '../../utils/validation.js';
-import { parseStdinItems } from '../../input/index.js';
+import {
+    collectProperty,
+    collectRepeatable,
+    getBookRenderOptions,
+    getMatrixQuery,
+    parseNonNegativeInteger,
+    parsePositiveInteger,
+    parseRatio,
+} from '../cli-helpers.js';
+import {
+    isEmptyMatrixQuery,
+    isJsonFormat,
+    renderListResult,
+    renderItem,
+    renderTable,
+    type OutputFormat,
+    type OutputOptions,
+} from '../../render/index.js';
+import { validateRequiredOptions, throwIfErrors, ValidationError } from '../../utils/validation.js';
+import { openStdinItems, parseStdinItems } from '../../input/index.js';
 import {
     listTransactionsFormatted,
+    streamTransactions,
     getTransaction,
     createTransaction,
     updateTransaction,
@@ -15,9 +32,21 @@ import {
     trashTransaction,
     untrashTransaction,
     mergeTransactions,
+    splitTransaction,
+    parseSplitLegFlag,
+    parseSplitLegItems,
     batchCreateTransactions,
     batchUpdateTransactions,
     resolveCreateTransactionFilePath,
+    importTransactions,
+    buildImportPreviewMatrix,
+    findDuplicateTransactionsFormatted,
+    DEFAULT_DUPLICATE_WINDOW_DAYS,
+    DEFAULT_MIN_SIMILARITY,
+    bulkTransactionAction,
+    resolveBulkSelection,
+    formatBulkResult,
+    type BulkTransactionAction,
 } from './index.js';
 
 export function registerTransactionCommands(program: Command): void {
@@ -35,14 +64,49 @@ export function registerTransactionCommands(program: Command): void {
         )
         .option('--cursor <cursor>', 'Cursor for fetching the next page')
         .option('-p, --properties', 'Include custom properties')
+        .option('--stream', 'Write each page as it arrives, with --format ndjson or csv')
         .action(options =>
-            withAction('listing transactions', async format => {
-                throwIfErrors(
-                    validateRequiredOptions(options, [
-                        { name: 'book', flag: '--book' },
-                        { name: 'query', flag: '--query' },
-                    ])
-                );
+            withAction('listing transactions', async (format, output) => {
+                const errors = validateRequiredOptions(options, [
+                    { name: 'book', flag: '--book' },
+                    { name: 'query', flag: '--query' },
+                ]);
+                if (options.stream) {
+                    if (options.limit !== undefined || options.cursor !== undefined) {
+                        errors.push(
+                            '--stream fetches every page; do not combine it with --limit or --cursor'
+                        );
+                    }
+                    if (format !== 'ndjson' && format !== 'csv') {
+                        errors.push('--stream requires --format ndjson or csv');
+                    }
+                    if (!isEmptyMatrixQuery(getMatrixQuery())) {
+                        errors.push(
+                            '--stream writes rows as they arrive; do not combine it with --columns, --sort or --where'
+                        );
+                    }
+                }
+                throwIfErrors(errors);
+
+                if (options.stream) {
+                    const showProgress = process.stderr.isTTY === true;
+                    const count = await streamTransactions(
+                        options.book,
+                        {
+                            query: options.query,
+                            onProgress: showProgress
+                                ? fetched =>
+                                      process.stderr.write(`\rFetched ${fetched} transaction(s)...`)
+                                : undefined,
+                        },
+                        format
+                    );
+                    if (showProgress && count > 0) {
+                        process.stderr.write('\n');
+                    }
+                    return;
+                }
+
                 const result = await listTransactionsFormatted(
                     options.book,
                     {
@@ -53,7 +117,7 @@ export function registerTransactionCommands(program: Command): void {
                     },
                     format
                 );
-                renderListResult(result, format);
+                renderListResult(result, format, output);
             })()
         );
 
@@ -62,10 +126,13 @@ export function registerTransactionCommands(program: Command): void {
         .description('Get a transaction by ID')
         .option('-b, --book <bookId>', 'Book ID')
         .action((transactionId: string, options) =>
-            withAction('getting transaction', async format => {
+            withAction('getting transaction', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const transaction = await getTransaction(options.book, transactionId);
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
             })()
         );
 
@@ -87,20 +154,23 @@ export function registerTransactionCommands(program: Command): void {
             collectProperty
         )
         .action(options =>
-            withAction('creating transaction', async format => {
-                const stdinData = !process.stdin.isTTY ? await parseStdinItems() : null;
+            withAction('creating transaction', async (format, output) => {
+                const stdinItems = !process.stdin.isTTY ? await openStdinItems() : null;
                 const filePath = resolveCreateTransactionFilePath(
                     options.file,
-                    stdinData !== null
+                    stdinItems !== null
                 );
 
-                if (stdinData && stdinData.items.length > 0) {
+                if (stdinItems) {
                     throwIfErrors(
                         validateRequiredOptions(options, [{ name: 'book', flag: '--book' }])
                     );
-                    await batchCreateTransactions(options.book, stdinData.items, options.property);
-                } else if (stdinData && stdinData.items.length === 0) {
-                    console.log(JSON.stringify([], null, 2));
+                    await batchCreateTransactions(
+                        options.book,
+                        stdinItems,
+                        options.property,
+                        format
+                    );
                 } else {
                     throwIfErrors(
                         validateRequiredOptions(options, [{ name: 'book', flag: '--book' }])
@@ -116,20 +186,86 @@ export function registerTransactionCommands(program: Command): void {
                         property: options.property,
                         file: filePath,
                     });
-                    renderItem(transaction.json(), format);
+                    renderItem(transaction.json(), format, output);
                 }
             })()
         );
 
     transactionCommand
-        .command('post <transactionId>')
-        .description('Post a transaction')
+        .command('import <file>')
+        .description(
+            'Import transactions from a bank statement file (OFX/QFX, CSV, camt.053, MT940)'
+        )
         .option('-b, --book <bookId>', 'Book ID')
-        .action((transactionId: string, options) =>
-            withAction('posting transaction', async format => {
+        .option('--account <account>', 'Account name or ID the statement belongs to')
+        .option(
+            '--statement-format <format>',
+            'Statement format: ofx, csv, camt053 or mt940 (default: from the file extension)'
+        )
+        .option('--mapping <file>', 'CSV column mapping profile (YAML)')
+        .option('--value-date', 'Date transactions by value date instead of booking date')
+        .option('--dry-run', 'Preview the transactions without creating them')
+        .option(
+            '-p, --property <key=value>',
+            'Set a property on every imported transaction (repeatable)',
+            collectProperty
+        )
+        .action((file: string, options) =>
+            withAction('importing transactions', async (format, output) => {
+                throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
+                const result = await importTransactions(options.book, {
+                    file,
+                    account: options.account,
+                    format: options.statementFormat,
+                    mapping: options.mapping,
+                    property: options.property,
+                    valueDate: options.valueDate,
+                    dryRun: options.dryRun,
+                });
+                if (isJsonFormat(format)) {
+                    renderItem(
+                        {
+                            created: result.created.length,
+                            skipped: result.skipped.length,
+                            items: options.dryRun
+                                ? result.planned
+                                : result.created.map(tx => tx.json()),
+                        },
+                        format,
+                        output
+                    );
+                } else if (options.dryRun) {
+                    renderTable(buildImportPreviewMatrix(result.planned), format, output);
+                    console.log(
+                        `Dry run: ${result.planned.length} transaction(s) to create, skipped ${result.skipped.length} already imported.`
+                    );
+                } else {
+                    console.log(
+                        `Created ${result.created.length} transaction(s), skipped ${result.skipped.length} already imported.`
+                    );
+                }
+            })()
+        );
+
+    transactionCommand
+        .command('post [transactionId]')
+        .description('Post a transaction (or in bulk via --query or stdin IDs)')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('-q, --query <query>', 'Post draft transactions matching a query')
+        .option('--dry-run', 'Show what would change without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action((transactionId: string | undefined, options) =>
+            withAction('posting transaction', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
+                if (!transactionId) {
+                    await runBulkTransactionAction('post', options, format, output);
+                    return;
+                }
                 const transaction = await postTransaction(options.book, transactionId);
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
             })()
         );
 
@@ -150,24 +286,25 @@ export function registerTransactionCommands(program: Command): void {
             collectProperty
         )
         .action((transactionId: string | undefined, options) =>
-            withAction('updating transaction', async format => {
-                const stdinData = !process.stdin.isTTY ? await parseStdinItems() : null;
+            withAction('updating transaction', async (format, output) => {
+                const stdinItems = !process.stdin.isTTY ? await openStdinItems() : null;
 
-                if (stdinData && stdinData.items.length > 0) {
+                if (stdinItems) {
                     throwIfErrors(
                         validateRequiredOptions(options, [{ name: 'book', flag: '--book' }])
                     );
                     await batchUpdateTransactions(
                         options.book,
-                        stdinData.items,
+                        stdinItems,
                         options.property,
-                        options.updateChecked
+                        options.updateChecked,
+                        format
                     );
-                } else if (stdinData && stdinData.items.length === 0) {
-                    console.log(JSON.stringify([], null, 2));
                 } else {
                     if (!transactionId) {
-                        throw new Error('Transaction ID is required when not using stdin');
+                        throw new ValidationError([
+                            'Transaction ID is required when not using stdin',
+                        ]);
                     }
                     throwIfErrors(
                         validateRequiredOptions(options, [{ name: 'book', flag: '--book' }])
@@ -181,56 +318,96 @@ export function registerTransactionCommands(program: Command): void {
                         url: options.url,
                         property: options.property,
                     });
-                    renderItem(transaction.json(), format);
+                    renderItem(transaction.json(), format, output);
                 }
             })()
         );
 
     transactionCommand
-        .command('check <transactionId>')
-        .description('Check a transaction')
+        .command('check [transactionId]')
+        .description('Check a transaction (or in bulk via --query or stdin IDs)')
         .option('-b, --book <bookId>', 'Book ID')
-        .action((transactionId: string, options) =>
-            withAction('checking transaction', async format => {
+        .option('-q, --query <query>', 'Check transactions matching a query')
+        .option('--dry-run', 'Show what would change without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action((transactionId: string | undefined, options) =>
+            withAction('checking transaction', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
+                if (!transactionId) {
+                    await runBulkTransactionAction('check', options, format, output);
+                    return;
+                }
                 const transaction = await checkTransaction(options.book, transactionId);
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
             })()
         );
 
     transactionCommand
-        .command('uncheck <transactionId>')
-        .description('Uncheck a transaction')
+        .command('uncheck [transactionId]')
+        .description('Uncheck a transaction (or in bulk via --query or stdin IDs)')
         .option('-b, --book <bookId>', 'Book ID')
-        .action((transactionId: string, options) =>
-            withAction('unchecking transaction', async format => {
+        .option('-q, --query <query>', 'Uncheck transactions matching a query')
+        .option('--dry-run', 'Show what would change without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action((transactionId: string | undefined, options) =>
+            withAction('unchecking transaction', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
+                if (!transactionId) {
+                    await runBulkTransactionAction('uncheck', options, format, output);
+                    return;
+                }
                 const transaction = await uncheckTransaction(options.book, transactionId);
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
             })()
         );
 
     transactionCommand
-        .command('trash <transactionId>')
-        .description('Trash a transaction')
+        .command('trash [transactionId]')
+        .description('Trash a transaction (or in bulk via --query or stdin IDs)')
         .option('-b, --book <bookId>', 'Book ID')
-        .action((transactionId: string, options) =>
-            withAction('trashing transaction', async format => {
+        .option('-q, --query <query>', 'Trash transactions matching a query')
+        .option('--dry-run', 'Show what would change without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action((transactionId: string | undefined, options) =>
+            withAction('trashing transaction', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
+                if (!transactionId) {
+                    await runBulkTransactionAction('trash', options, format, output);
+                    return;
+                }
                 const transaction = await trashTransaction(options.book, transactionId);
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
             })()
         );
 
     transactionCommand
-        .command('untrash <transactionId>')
-        .description('Restore a transaction from the trash')
+        .command('untrash [transactionId]')
+        .description('Restore a transaction from the trash (or in bulk via --query or stdin IDs)')
         .option('-b, --book <bookId>', 'Book ID')
-        .action((transactionId: string, options) =>
-            withAction('restoring transaction', async format => {
+        .option('-q, --query <query>', 'Restore transactions from the trash matching a query')
+        .option('--dry-run', 'Show what would change without changing anything')
+        .option('-y, --yes', 'Skip the confirmation prompt')
+        .action((transactionId: string | undefined, options) =>
+            withAction('restoring transaction', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
+                if (!transactionId) {
+                    await runBulkTransactionAction('untrash', options, format, output);
+                    return;
+                }
                 const transaction = await untrashTransaction(options.book, transactionId);
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
             })()
         );
 
@@ -239,14 +416,141 @@ export function registerTransactionCommands(program: Command): void {
         .description('Merge two transactions')
         .option('-b, --book <bookId>', 'Book ID')
         .action((transactionId1: string, transactionId2: string, options) =>
-            withAction('merging transactions', async format => {
+            withAction('merging transactions', async (format, output) => {
                 throwIfErrors(validateRequiredOptions(options, [{ name: 'book', flag: '--book' }]));
                 const transaction = await mergeTransactions(
                     options.book,
                     transactionId1,
                     transactionId2
                 );
-                renderItem(transaction.json(), format);
+                renderItem(transaction.json(), format, {
+                    ...getBookRenderOptions(transaction.getBook()),
+                    ...output,
+                });
+            })()
+        );
+
+    transactionCommand
+        .command('split')
+        .description('Split an amount into linked transactions, one per leg, in one batch')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('--date <date>', 'Transaction date')
+        .option('--amount <amount>', 'Total amount, which the legs must add up to')
+        .option('--from <from>', 'Source account, credited by every leg')
+        .option('--to <to>', 'Source account, debited by every leg')
+        .option('--description <description>', 'Description of every leg')
+        .option(
+            '--leg <account=amount|percent%>',
+            'Leg account and amount or percentage of the total (repeatable)',
+            collectRepeatable
+        )
+        .option('--split-group <id>', 'Split group property value (default: a random UUID)')
+        .option('--dry-run', 'Preview the transactions without creating them')
+        .option(
+            '-p, --property <key=value>',
+            'Set a property on every leg (repeatable)',
+            collectProperty
+        )
+        .action(options =>
+            withAction('splitting transaction', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'date', flag: '--date' },
+                        { name: 'amount', flag: '--amount' },
+                    ])
+                );
+                const stdinData = !process.stdin.isTTY ? await parseStdinItems() : null;
+                if (stdinData && stdinData.items.length > 0 && options.leg) {
+                    throw new ValidationError(['Give legs with --leg or on stdin, not both']);
+                }
+                const legs =
+                    stdinData && stdinData.items.length > 0
+                        ? parseSplitLegItems(stdinData.items)
+                        : (options.leg || []).map(parseSplitLegFlag);
+
+                const result = await splitTransaction(options.book, {
+                    date: options.date,
+                    amount: options.amount,
+                    from: options.from,
+                    to: options.to,
+                    description: options.description,
+                    legs,
+                    splitGroup: options.splitGroup,
+                    property: options.property,
+                    dryRun: options.dryRun,
+                });
+                const items = options.dryRun ? result.planned : result.created;
+                if (isJsonFormat(format)) {
+                    renderItem({ splitGroup: result.splitGroup, items }, format, output);
+                    return;
+                }
+                renderTable(buildImportPreviewMatrix(items), format, output);
+                if (format === 'table') {
+                    console.log(
+                        options.dryRun
+                            ? `Dry run: ${items.length} transaction(s) to create in split group ${result.splitGroup}.`
+                            : `Created ${items.length} transaction(s) in split group ${result.splitGroup}.`
+                    );
+                }
+            })()
+        );
+
+    transactionCommand
+        .command('duplicates')
+        .description('Find groups of likely duplicate transactions')
+        .option('-b, --book <bookId>', 'Book ID')
+        .option('-q, --query <query>', 'Search query')
+        .option(
+            '--days <days>',
+            `Maximum days between duplicates (default: ${DEFAULT_DUPLICATE_WINDOW_DAYS})`,
+            parseNonNegativeInteger
+        )
+        .option(
+            '--similarity <ratio>',
+            `Minimum description similarity from 0 to 1 (default: ${DEFAULT_MIN_SIMILARITY})`,
+            parseRatio
+        )
+        .action(options =>
+            withAction('finding duplicate transactions', async (format, output) => {
+                throwIfErrors(
+                    validateRequiredOptions(options, [
+                        { name: 'book', flag: '--book' },
+                        { name: 'query', flag: '--query' },
+                    ])
+                );
+                const result = await findDuplicateTransactionsFormatted(
+                    options.book,
+                    {
+                        query: options.query,
+                        days: options.days,
+                        minSimilarity: options.similarity,
+                    },
+                    format
+                );
+                renderListResult(result, format, output);
             })()
         );
 }
+
+/**
+ * Applies a bulk action to the transactions selected by --query or stdin IDs
+ * and prints its result.
+ */
+async function runBulkTransactionAction(
+    action: BulkTransactionAction,
+    options: { book: string; query?: string; dryRun?: boolean; yes?: boolean },
+    format: OutputFormat,
+    output: OutputOptions
+): Promise<void> {
+    const result = await bulkTransactionAction(
+        options.book,
+        action,
+        await resolveBulkSelection(options)
+    );
+    if (isJsonFormat(format)) {
+        renderItem(result, format, output);
+    } else {
+        console.log(formatBulkResult(result));
+    }
+}
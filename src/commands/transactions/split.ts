@@ -0,0 +1,287 @@
+import { randomUUID } from 'node:crypto';
+import { Account, Transaction } from 'bkper-js';
+import { getBkperInstance } from '../../bkper-factory.js';
+import { parsePropertyFlag } from '../../utils/properties.js';
+import { throwIfErrors, ValidationError } from '../../utils/validation.js';
+import { formatMinorUnits, toMinorUnits, ZERO } from '../reports/amounts.js';
+import { buildTransactionsFromItems } from './batch-create.js';
+
+/**
+ * Property tying the transactions of a split together; they all share its value.
+ */
+export const SPLIT_GROUP_PROPERTY = 'split_group';
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * One leg of a split: the account on the other side of the source account,
+ * with either a fixed amount or a percentage of the total.
+ */
+export interface SplitLeg {
+    account: string;
+    /** Decimal amount, e.g. `120.50`. */
+    amount?: string;
+    /** Percentage of the total, e.g. `20` for 20%. */
+    percent?: string;
+    /** Description of the leg transaction; defaults to the split description. */
+    description?: string;
+}
+
+/**
+ * Options for splitting an amount into several transactions.
+ */
+export interface SplitTransactionOptions {
+    date: string;
+    /** Total amount, which the legs must add up to exactly. */
+    amount: string;
+    /** Source account credited by every leg; exclusive with `to`. */
+    from?: string;
+    /** Source account debited by every leg; exclusive with `from`. */
+    to?: string;
+    description?: string;
+    legs: SplitLeg[];
+    /** Value of the split group property; a random UUID by default. */
+    splitGroup?: string;
+    /** Properties set on every leg transaction (key=value). */
+    property?: string[];
+    /** Build the transactions without creating them. */
+    dryRun?: boolean;
+}
+
+/**
+ * Result of splitting an amount into several transactions.
+ */
+export interface SplitTransactionResult {
+    splitGroup: string;
+    created: bkper.Transaction[];
+    planned: bkper.Transaction[];
+}
+
+/**
+ * Parses a `--leg` flag: `<account>=<amount>` or `<account>=<percent>%`.
+ *
+ * Splits on the last "=", so account names may contain "=".
+ *
+ * @throws ValidationError if the flag has no "=" or the account is empty
+ */
+export function parseSplitLegFlag(raw: string): SplitLeg {
+    const eqIndex = raw.lastIndexOf('=');
+    const account = eqIndex === -1 ? '' : raw.substring(0, eqIndex).trim();
+    const value = raw.substring(eqIndex + 1).trim();
+    if (account === '') {
+        throw new ValidationError([
+            `Invalid leg format: "${raw}". Expected account=amount or account=percent%`,
+        ]);
+    }
+    return value.endsWith('%')
+        ? { account, percent: value.slice(0, -1).trim() }
+        : { account, amount: value };
+}
+
+/**
+ * Reads split legs from stdin items with `account` and either `amount` or `percent`.
+ *
+ * @throws ValidationError listing every invalid item
+ */
+export function parseSplitLegItems(items: Record<string, unknown>[]): SplitLeg[] {
+    const errors: string[] = [];
+    const legs = items.map((item, index) => {
+        const leg: SplitLeg = { account: '' };
+        if (typeof item.account === 'string' && item.account.trim() !== '') {
+            leg.account = item.account.trim();
+        } else {
+            errors.push(`legs[${index}].account must be a non-empty string`);
+        }
+        for (const field of ['amount', 'percent', 'description'] as const) {
+            const value = item[field];
+            if (typeof value === 'string' || typeof value === 'number') {
+                leg[field] = String(value);
+            } else if (value !== undefined && value !== null) {
+                errors.push(`legs[${index}].${field} must be a string or a number`);
+            }
+        }
+        return leg;
+    });
+    throwIfErrors(errors);
+    return legs;
+}
+
+/**
+ * Computes the amount of each leg in minor units and checks that the legs
+ * add up exactly to the total.
+ *
+ * Percentages are applied to the total and rounded half up to the book's
+ * fraction digits; fixed amounts may not have more fraction digits than the
+ * book. When rounding keeps percentage legs from adding up, give one of them
+ * a fixed amount instead.
+ *
+ * @param total - Total amount as a decimal string
+ * @param legs - Legs with an amount or a percentage each
+ * @param fractionDigits - Fraction digits of the book
+ * @returns Leg amounts as decimal strings, in leg order
+ * @throws ValidationError listing every problem with the total or the legs
+ */
+export function allocateSplitAmounts(
+    total: string,
+    legs: SplitLeg[],
+    fractionDigits: number
+): string[] {
+    const errors: string[] = [];
+    const totalUnits = parseAmount(total, 'Total amount', fractionDigits, errors);
+    if (legs.length < 2) {
+        errors.push('A split needs at least two legs');
+    }
+
+    const units = legs.map((leg, index) => {
+        const label = `Leg ${index + 1} (${leg.account})`;
+        if ((leg.amount === undefined) === (leg.percent === undefined)) {
+            errors.push(`${label}: give either an amount or a percentage`);
+            return ZERO;
+        }
+        if (leg.amount !== undefined) {
+            return parseAmount(leg.amount, `${label}: amount`, fractionDigits, errors);
+        }
+        return applyPercent(totalUnits, leg.percent!, `${label}: percentage`, errors);
+    });
+    throwIfErrors(errors);
+
+    const sum = units.reduce((acc, value) => acc + value, ZERO);
+    if (sum !== totalUnits) {
+        throwIfErrors([
+            `Legs add up to ${formatMinorUnits(
+                sum,
+                fractionDigits
+            )}, not the total ${formatMinorUnits(
+                totalUnits,
+                fractionDigits
+            )} (difference ${formatMinorUnits(totalUnits - sum, fractionDigits)})`,
+        ]);
+    }
+    return units.map(value => formatMinorUnits(value, fractionDigits));
+}
+
+/**
+ * Builds one transaction payload per leg, each moving the leg amount between
+ * the source account and the leg account, tagged with the split group.
+ *
+ * @param options - Split date, source account, description and properties
+ * @param amounts - Leg amounts from {@link allocateSplitAmounts}
+ * @param splitGroup - Value of the split group property
+ */
+export function buildSplitPayloads(
+    options: SplitTransactionOptions,
+    amounts: string[],
+    splitGroup: string
+): bkper.Transaction[] {
+    const properties: Record<string, string> = {};
+    for (const raw of options.property || []) {
+        const [key, value] = parsePropertyFlag(raw);
+        if (value !== '') {
+            properties[key] = value;
+        }
+    }
+    properties[SPLIT_GROUP_PROPERTY] = splitGroup;
+
+    return options.legs.map((leg, index) => {
+        const source = { name: (options.from ?? options.to)! };
+        const other = { name: leg.account };
+        return {
+            date: options.date,
+            amount: amounts[index],
+            description: leg.description ?? options.description ?? '',
+            creditAccount: options.from !== undefined ? source : other,
+            debitAccount: options.from !== undefined ? other : source,
+            properties: { ...properties },
+        };
+    });
+}
+
+/**
+ * Splits an amount into several linked transactions, one per leg, created
+ * in one batch.
+ *
+ * Every leg moves its share between the source account and its own account,
+ * so a supplier invoice credited to the supplier can be debited to VAT and
+ * several expense accounts. The legs must add up exactly to the total in the
+ * book's fraction digits, all accounts must exist, and every transaction is
+ * tagged with the same {@link SPLIT_GROUP_PROPERTY} value so the split can be
+ * queried as a whole. With `dryRun`, the transactions are built and returned
+ * as `planned` but not created.
+ *
+ * @param bookId - Target book ID
+ * @param options - Total, source account, legs and shared fields
+ * @returns The split group and the created or planned transactions
+ */
+export async function splitTransaction(
+    bookId: string,
+    options: SplitTransactionOptions
+): Promise<SplitTransactionResult> {
+    if ((options.from === undefined) === (options.to === undefined)) {
+        throwIfErrors(['Give the source account with either --from or --to']);
+    }
+
+    const bkper = getBkperInstance();
+    const book = await bkper.getBook(bookId);
+    const amounts = allocateSplitAmounts(
+        options.amount,
+        options.legs,
+        book.getFractionDigits() ?? 2
+    );
+
+    const names = [(options.from ?? options.to)!, ...options.legs.map(leg => leg.account)];
+    const errors: string[] = [];
+    for (const name of new Set(names)) {
+        const account: Account | undefined = await book.getAccount(name);
+        if (!account) {
+            errors.push(`Account not found: ${name}`);
+        }
+    }
+    throwIfErrors(errors);
+
+    const splitGroup = options.splitGroup ?? randomUUID();
+    const transactions = buildTransactionsFromItems(
+        book,
+        buildSplitPayloads(options, amounts, splitGroup)
+    );
+    const planned = transactions.map(tx => tx.json());
+    if (options.dryRun) {
+        return { splitGroup, created: [], planned };
+    }
+
+    const created: Transaction[] = await book.batchCreateTransactions(transactions);
+    return { splitGroup, created: created.map(tx => tx.json()), planned };
+}
+
+function parseAmount(
+    value: string,
+    label: string,
+    fractionDigits: number,
+    errors: string[]
+): bigint {
+    const trimmed = value.trim();
+    if (!DECIMAL_PATTERN.test(trimmed) || Number(trimmed) <= 0) {
+        errors.push(`${label} must be a positive number: ${value}`);
+        return ZERO;
+    }
+    const fraction = trimmed.split('.')[1] || '';
+    if (fraction.replace(/0+$/, '').length > fractionDigits) {
+        errors.push(`${label} has more than ${fractionDigits} decimal place(s): ${value}`);
+        return ZERO;
+    }
+    return toMinorUnits(trimmed, fractionDigits);
+}
+
+/**
+ * Applies a percentage to an amount in minor units, rounding half up.
+ */
+function applyPercent(total: bigint, percent: string, label: string, errors: string[]): bigint {
+    const trimmed = percent.trim();
+    if (!DECIMAL_PATTERN.test(trimmed) || Number(trimmed) <= 0) {
+        errors.push(`${label} must be a positive number: ${percent}`);
+        return ZERO;
+    }
+    const decimals = (trimmed.split('.')[1] || '').length;
+    const scaled = toMinorUnits(trimmed, decimals);
+    const divisor = BigInt(`100${'0'.repeat(decimals)}`);
+    return (total * scaled * BigInt(2) + divisor) / (divisor * BigInt(2));
+}
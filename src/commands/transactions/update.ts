@@ -2,6 +2,7 @@ import { getBkperInstance } from '../../bkper-factory.js';
 import { Transaction } from 'bkper-js';
 import { parsePropertyFlag } from '../../utils/properties.js';
 import { throwIfErrors } from '../../utils/validation.js';
+import { NotFoundError } from '../../utils/errors.js';
 
 /**
  * Options for updating an existing transaction. All fields are optional.
@@ -34,7 +35,7 @@ export async function updateTransaction(
     const transaction = await book.getTransaction(transactionId);
 
     if (!transaction) {
-        throw new Error(`Transaction not found: ${transactionId}`);
+        throw new NotFoundError('Transaction', transactionId);
     }
 
     const errors: string[] = [];
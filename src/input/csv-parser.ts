@@ -0,0 +1,81 @@
+import { ValidationError } from '../utils/validation.js';
+
+/**
+ * Parses CSV content into a 2D array of strings, following RFC 4180 rules.
+ *
+ * - Fields may be wrapped in double quotes to contain delimiters, quotes or newlines
+ * - Double quotes inside quoted fields are escaped by doubling them ("")
+ * - Both CRLF and LF line endings are accepted
+ * - A leading UTF-8 byte order mark is ignored
+ * - Blank lines are skipped
+ *
+ * @param content - Raw CSV content
+ * @param delimiter - Field delimiter (defaults to comma)
+ * @returns Rows of raw field values
+ * @throws ValidationError if a quoted field is not terminated
+ */
+export function parseCsv(content: string, delimiter = ','): string[][] {
+    const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+    const rows: string[][] = [];
+
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = 0;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                    continue;
+                }
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (text.startsWith(delimiter, i)) {
+            row.push(field);
+            field = '';
+            i += delimiter.length;
+            continue;
+        } else if (char === '\r' && text[i + 1] === '\n') {
+            endRow();
+            i += 2;
+            continue;
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+        } else {
+            field += char;
+        }
+        i++;
+    }
+
+    if (inQuotes) {
+        throw new ValidationError(['Invalid CSV: unterminated quoted field']);
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
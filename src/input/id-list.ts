@@ -0,0 +1,73 @@
+import { parseNdjsonContent } from './item-stream.js';
+import { readStdin } from './stdin-reader.js';
+import { ValidationError } from '../utils/validation.js';
+
+/**
+ * Parses a list of resource IDs.
+ *
+ * Accepts:
+ * - A JSON array of ID strings: `["id1", "id2"]`
+ * - A JSON array of objects with an `id` field, e.g. `transaction list --json` output
+ * - A wrapper object with an `items` array of either form
+ * - NDJSON objects with an `id` field, e.g. `transaction list --format ndjson` output
+ * - Plain text with IDs separated by newlines, spaces or commas
+ *
+ * Duplicates are removed, keeping the first occurrence order.
+ *
+ * @param content - Raw input content
+ * @returns The unique IDs
+ * @throws ValidationError if JSON input is malformed or has entries without an ID
+ */
+export function parseIdList(content: string): string[] {
+    const trimmed = content.trim();
+    const lines = parseNdjsonContent(content);
+    let ids: string[];
+
+    if (lines) {
+        ids = lines.map(({ item, location }) => {
+            if (typeof item.id === 'string' && item.id !== '') {
+                return item.id;
+            }
+            throw new ValidationError([`Invalid ID list: ${location} has no id`]);
+        });
+    } else if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        const parsed = parseJsonList(trimmed);
+        const items = Array.isArray(parsed)
+            ? parsed
+            : Array.isArray((parsed as Record<string, unknown>).items)
+            ? ((parsed as Record<string, unknown>).items as unknown[])
+            : [parsed];
+        ids = items.map((item, index) => {
+            if (typeof item === 'string' && item.trim() !== '') {
+                return item.trim();
+            }
+            const id = (item as Record<string, unknown> | null)?.id;
+            if (typeof id === 'string' && id !== '') {
+                return id;
+            }
+            throw new ValidationError([`Invalid ID list: entry ${index + 1} has no id`]);
+        });
+    } else {
+        ids = trimmed.split(/[\s,]+/).filter(id => id !== '');
+    }
+
+    return [...new Set(ids)];
+}
+
+function parseJsonList(content: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch (err: unknown) {
+        throw new ValidationError([`Invalid ID list: ${(err as Error).message}`]);
+    }
+}
+
+/**
+ * Reads a list of IDs from piped stdin.
+ *
+ * @returns The unique IDs, or null if stdin is not piped or empty
+ */
+export async function readStdinIds(): Promise<string[] | null> {
+    const content = await readStdin();
+    return content === null ? null : parseIdList(content);
+}
@@ -1,6 +1,16 @@
 export { readStdin } from './stdin-reader.js';
+export { parseCsv } from './csv-parser.js';
+export { parseIdList, readStdinIds } from './id-list.js';
 
-import { readStdin } from './stdin-reader.js';
+export {
+    openStdinItems,
+    parseStdinContent,
+    chunkInputItems,
+    atItemLocations,
+} from './item-stream.js';
+export type { InputItem, InputItems } from './item-stream.js';
+
+import { openStdinItems } from './item-stream.js';
 
 /**
  * Parsed stdin result containing an array of JSON objects.
@@ -10,41 +20,29 @@ export interface StdinItems {
 }
 
 /**
- * Reads and parses JSON input from stdin.
+ * Reads and parses JSON or NDJSON input from stdin into memory.
  *
- * Accepts:
+ * Accepts NDJSON (one JSON object per line) or a JSON document:
  * - A JSON array of objects: `[{...}, {...}]`
  * - A single JSON object: `{...}` (treated as a one-element array)
  * - A wrapper object with an `items` array: `{ "items": [{...}, {...}] }`
  *   (the `items` array is extracted automatically, enabling round-trip piping)
  *
- * Returns null if no piped input is available.
+ * Returns null if no piped input is available. Batch commands that can
+ * process items as they arrive use {@link openStdinItems} instead.
  *
  * @returns Parsed items, or null if stdin is not piped
  * @throws Error if input is not valid JSON or not an object/array
  */
 export async function parseStdinItems(): Promise<StdinItems | null> {
-    const content = await readStdin();
-    if (content === null) {
-        return null;
+    const input = await openStdinItems();
+    if (input === null || Array.isArray(input)) {
+        return input && { items: input };
     }
 
-    const parsed: unknown = JSON.parse(content);
-    let items: Record<string, unknown>[];
-
-    if (Array.isArray(parsed)) {
-        items = parsed as Record<string, unknown>[];
-    } else if (typeof parsed === 'object' && parsed !== null) {
-        const obj = parsed as Record<string, unknown>;
-        // Unwrap { items: [...] } wrapper objects (e.g. from list command output)
-        if (Array.isArray(obj.items)) {
-            items = obj.items as Record<string, unknown>[];
-        } else {
-            items = [obj];
-        }
-    } else {
-        throw new Error('JSON input must be an object or an array of objects');
+    const items: Record<string, unknown>[] = [];
+    for await (const { item } of input) {
+        items.push(item);
     }
-
     return { items };
 }
@@ -0,0 +1,252 @@
+import { createInterface } from 'node:readline';
+import { getErrorMessage } from '../auth/auth-errors.js';
+import { ValidationError } from '../utils/validation.js';
+
+/**
+ * A stdin item with its location in the input, for error messages.
+ */
+export interface InputItem {
+    item: Record<string, unknown>;
+    /** `line <n>` for NDJSON input, `item[<i>]` for a JSON document. */
+    location: string;
+}
+
+/**
+ * Items read from stdin: the items of a JSON document, already in memory, or
+ * a stream of NDJSON items read as they are consumed.
+ */
+export type InputItems = Record<string, unknown>[] | AsyncIterable<InputItem>;
+
+/**
+ * Opens stdin as items, accepting either NDJSON or a single JSON document.
+ *
+ * Input whose first two non-blank lines are each a complete JSON object is
+ * read as NDJSON: lines are parsed one at a time as they are consumed, so
+ * large inputs are processed incrementally and a bad line is reported by its
+ * line number. Anything else is read whole and parsed as a JSON document,
+ * with the same shapes as {@link parseStdinContent}, and returned as an
+ * array so it is sent in one batch.
+ *
+ * Returns null if stdin is a TTY or the input is empty.
+ *
+ * @param input - Stream to read; defaults to stdin
+ * @returns The document items, a stream of NDJSON items, or null if no input is available
+ * @throws ValidationError if a JSON document is not valid JSON or not an object/array
+ */
+export async function openStdinItems(
+    input: NodeJS.ReadableStream & { isTTY?: boolean } = process.stdin
+): Promise<Record<string, unknown>[] | AsyncGenerator<InputItem> | null> {
+    if (input.isTTY) {
+        return null;
+    }
+
+    const lines = numberLines(createInterface({ input, crlfDelay: Infinity }));
+    const first = await nextNonBlank(lines);
+    if (first === undefined) {
+        return null;
+    }
+
+    const firstItem = parseObjectLine(first.text);
+    if (firstItem !== undefined) {
+        const second = await nextNonBlank(lines);
+        if (second === undefined) {
+            return parseStdinContent(first.text);
+        }
+        return ndjsonItems(
+            [{ item: firstItem, location: `line ${first.number}` }, parseNdjsonLine(second)],
+            lines
+        );
+    }
+
+    const rest: string[] = [first.text];
+    for await (const line of lines) {
+        rest.push(line.text);
+    }
+    return parseStdinContent(rest.join('\n'));
+}
+
+/**
+ * Parses a JSON document into items.
+ *
+ * Accepts:
+ * - A JSON array of objects: `[{...}, {...}]`
+ * - A single JSON object: `{...}` (treated as a one-element array)
+ * - A wrapper object with an `items` array: `{ "items": [{...}, {...}] }`
+ *   (the `items` array is extracted automatically, enabling round-trip piping)
+ *
+ * @throws ValidationError if the content is not valid JSON or not an object/array
+ */
+export function parseStdinContent(content: string): Record<string, unknown>[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (err: unknown) {
+        throw new ValidationError([`Invalid JSON input: ${(err as Error).message}`]);
+    }
+
+    if (Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>[];
+    }
+    if (typeof parsed === 'object' && parsed !== null) {
+        const obj = parsed as Record<string, unknown>;
+        // Unwrap { items: [...] } wrapper objects (e.g. from list command output)
+        if (Array.isArray(obj.items)) {
+            return obj.items as Record<string, unknown>[];
+        }
+        return [obj];
+    }
+    throw new ValidationError(['JSON input must be an object or an array of objects']);
+}
+
+/**
+ * Parses content already read as NDJSON, if it is NDJSON: as in
+ * {@link openStdinItems}, its first two non-blank lines must each be a
+ * complete JSON object.
+ *
+ * @param content - Raw input content
+ * @returns The items with their line numbers, or undefined if the content is not NDJSON
+ * @throws ValidationError if a later line is not a JSON object
+ */
+export function parseNdjsonContent(content: string): InputItem[] | undefined {
+    const lines = content
+        .split(/\r?\n/)
+        .map((text, index) => ({ number: index + 1, text }))
+        .filter(line => line.text.trim() !== '');
+    if (
+        lines.length < 2 ||
+        parseObjectLine(lines[0].text) === undefined ||
+        parseObjectLine(lines[1].text) === undefined
+    ) {
+        return undefined;
+    }
+    return lines.map(parseNdjsonLine);
+}
+
+/**
+ * Groups items into chunks for batch API calls. An array is one chunk, as it
+ * is already in memory; a stream is split into chunks of `size` items, each
+ * read only when the previous one has been handled. Empty chunks are skipped.
+ *
+ * @param items - Items from a JSON document or an item stream
+ * @param size - Maximum number of items per chunk for streams
+ */
+export async function* chunkInputItems(
+    items: InputItems,
+    size: number
+): AsyncGenerator<InputItem[]> {
+    if (Array.isArray(items)) {
+        if (items.length > 0) {
+            yield items.map((item, index) => ({ item, location: `item[${index}]` }));
+        }
+        return;
+    }
+
+    let chunk: InputItem[] = [];
+    for await (const item of items) {
+        chunk.push(item);
+        if (chunk.length >= size) {
+            yield chunk;
+            chunk = [];
+        }
+    }
+    if (chunk.length > 0) {
+        yield chunk;
+    }
+}
+
+/**
+ * Runs an operation on a chunk of items, prefixing any error message with the
+ * locations of the chunk, e.g. `lines 4901-5000: Account not found`. Errors
+ * are rethrown as they are, so their type is kept.
+ */
+export async function atItemLocations<T>(chunk: InputItem[], run: () => Promise<T>): Promise<T> {
+    try {
+        return await run();
+    } catch (err: unknown) {
+        const prefix = describeLocations(chunk);
+        if (err instanceof Error) {
+            err.message = `${prefix}: ${err.message}`;
+            throw err;
+        }
+        throw new Error(`${prefix}: ${getErrorMessage(err)}`);
+    }
+}
+
+function describeLocations(chunk: InputItem[]): string {
+    const first = chunk[0].location;
+    const last = chunk[chunk.length - 1].location;
+    if (chunk.length === 1) {
+        return first;
+    }
+    if (first.startsWith('line ') && last.startsWith('line ')) {
+        return `lines ${first.slice('line '.length)}-${last.slice('line '.length)}`;
+    }
+    return `${first} to ${last}`;
+}
+
+interface NumberedLine {
+    number: number;
+    text: string;
+}
+
+async function* numberLines(lines: AsyncIterable<string>): AsyncGenerator<NumberedLine> {
+    let number = 0;
+    for await (const text of lines) {
+        number++;
+        yield { number, text };
+    }
+}
+
+async function nextNonBlank(lines: AsyncIterator<NumberedLine>): Promise<NumberedLine | undefined> {
+    for (;;) {
+        const next = await lines.next();
+        if (next.done) {
+            return undefined;
+        }
+        if (next.value.text.trim() !== '') {
+            return next.value;
+        }
+    }
+}
+
+async function* ndjsonItems(
+    head: InputItem[],
+    lines: AsyncIterable<NumberedLine>
+): AsyncGenerator<InputItem> {
+    yield* head;
+    for await (const line of lines) {
+        if (line.text.trim() !== '') {
+            yield parseNdjsonLine(line);
+        }
+    }
+}
+
+function parseNdjsonLine(line: NumberedLine): InputItem {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(line.text);
+    } catch (err: unknown) {
+        throw new ValidationError([
+            `Invalid JSON on line ${line.number}: ${(err as Error).message}`,
+        ]);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new ValidationError([`Line ${line.number} must be a JSON object`]);
+    }
+    return { item: parsed as Record<string, unknown>, location: `line ${line.number}` };
+}
+
+/**
+ * Parses a line as a JSON object, or returns undefined if it is not one.
+ */
+function parseObjectLine(text: string): Record<string, unknown> | undefined {
+    try {
+        const parsed: unknown = JSON.parse(text);
+        if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+            return parsed as Record<string, unknown>;
+        }
+    } catch {
+        // Not a complete JSON value on its own line: a multi-line document
+    }
+    return undefined;
+}
@@ -0,0 +1,147 @@
+import { findNumericColumns } from './numeric-columns.js';
+
+const INDENT = '  ';
+const RIGHT_ALIGNED = ' style="text-align: right"';
+
+/**
+ * Escapes a value for HTML text and attribute content.
+ *
+ * - null/undefined become empty string
+ * - `&`, `<`, `>`, `"` and `'` become character references
+ */
+function escapeHtml(value: unknown): string {
+    if (value == null) {
+        return '';
+    }
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escapes a cell value, keeping its line breaks as `<br>`.
+ */
+function formatCellContent(value: unknown): string {
+    return escapeHtml(value).replace(/\r?\n|\r/g, '<br>');
+}
+
+/**
+ * Formats a 2D matrix as an HTML table.
+ *
+ * Output format:
+ *   <table>
+ *     <thead>
+ *       <tr><th>Name</th><th style="text-align: right">Balance</th></tr>
+ *     </thead>
+ *     <tbody>
+ *       <tr><td>Revenue</td><td style="text-align: right">500.00</td></tr>
+ *     </tbody>
+ *   </table>
+ *
+ * - Row 0 is the header row
+ * - Numeric columns are right-aligned (see {@link findNumericColumns})
+ * - Values are HTML-escaped; line breaks become `<br>`
+ *
+ * @param matrix - 2D array where row 0 is headers and rows 1+ are data
+ * @returns HTML table string
+ */
+export function formatHtml(matrix: unknown[][]): string {
+    if (!matrix || matrix.length === 0) {
+        return '';
+    }
+
+    const numeric = findNumericColumns(matrix);
+    const colCount = matrix[0].length;
+    const formatRow = (row: unknown[], tag: 'th' | 'td'): string => {
+        const cells = Array.from({ length: colCount }, (_, i) => {
+            const align = numeric[i] ? RIGHT_ALIGNED : '';
+            return `<${tag}${align}>${formatCellContent(row[i])}</${tag}>`;
+        });
+        return `${INDENT.repeat(2)}<tr>${cells.join('')}</tr>`;
+    };
+
+    const [headers, ...dataRows] = matrix;
+    const lines = ['<table>', `${INDENT}<thead>`, formatRow(headers, 'th'), `${INDENT}</thead>`];
+    if (dataRows.length > 0) {
+        lines.push(`${INDENT}<tbody>`, ...dataRows.map(row => formatRow(row, 'td')));
+        lines.push(`${INDENT}</tbody>`);
+    }
+    lines.push('</table>');
+    return lines.join('\n');
+}
+
+/**
+ * Formats a record as an HTML definition list, one term per field.
+ *
+ * Output format:
+ *   <dl>
+ *     <dt>name</dt>
+ *     <dd>Checking</dd>
+ *     <dt>properties</dt>
+ *     <dd>
+ *       <dl>
+ *         <dt>code</dt>
+ *         <dd>1001</dd>
+ *       </dl>
+ *     </dd>
+ *   </dl>
+ *
+ * Empty values are left out. Nested objects become nested definition lists
+ * and arrays become unordered lists.
+ *
+ * @param item - Record to format
+ * @returns Definition list string, or empty string if every value is empty
+ */
+export function formatHtmlItem(item: Record<string, unknown>): string {
+    return formatDefinitionList(item, '').join('\n');
+}
+
+function formatDefinitionList(item: Record<string, unknown>, indent: string): string[] {
+    const entries = Object.entries(item).filter(([, value]) => !isEmpty(value));
+    if (entries.length === 0) {
+        return [];
+    }
+    const lines = [`${indent}<dl>`];
+    for (const [key, value] of entries) {
+        lines.push(`${indent}${INDENT}<dt>${escapeHtml(key)}</dt>`);
+        lines.push(...formatNested('dd', value, indent + INDENT));
+    }
+    lines.push(`${indent}</dl>`);
+    return lines;
+}
+
+/**
+ * Wraps a value in a `<dd>` or `<li>` element: primitives inline, objects and
+ * arrays as nested lists on their own lines.
+ */
+function formatNested(tag: 'dd' | 'li', value: unknown, indent: string): string[] {
+    if (value === null || typeof value !== 'object') {
+        return [`${indent}<${tag}>${formatCellContent(value)}</${tag}>`];
+    }
+    const inner = Array.isArray(value)
+        ? formatList(value, indent + INDENT)
+        : formatDefinitionList(value as Record<string, unknown>, indent + INDENT);
+    return [`${indent}<${tag}>`, ...inner, `${indent}</${tag}>`];
+}
+
+function formatList(values: unknown[], indent: string): string[] {
+    const items = values.filter(value => !isEmpty(value));
+    if (items.length === 0) {
+        return [];
+    }
+    return [
+        `${indent}<ul>`,
+        ...items.flatMap(value => formatNested('li', value, indent + INDENT)),
+        `${indent}</ul>`,
+    ];
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value == null) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value as object).length === 0;
+    return false;
+}
@@ -1,4 +1,24 @@
 export { formatTable, formatItem } from './table-formatter.js';
 export { formatCsv } from './csv-formatter.js';
-export { renderTable, renderItem, renderListResult } from './output.js';
-export type { OutputFormat, ListResult } from './output.js';
+export { formatXlsx } from './xlsx-formatter.js';
+export { formatMarkdown, formatMarkdownItem } from './markdown-formatter.js';
+export { formatHtml, formatHtmlItem } from './html-formatter.js';
+export { renderTemplate, formatMoney, formatDate } from './template.js';
+export {
+    applyMatrixQuery,
+    isEmptyMatrixQuery,
+    parseColumnList,
+    parseSortSpec,
+    parseWhereCondition,
+} from './matrix-query.js';
+export {
+    renderTable,
+    renderItem,
+    renderListResult,
+    renderNdjson,
+    isJsonFormat,
+    isSpreadsheetFormat,
+} from './output.js';
+export type { OutputFormat, ListResult, RenderOptions, OutputOptions } from './output.js';
+export type { XlsxSheet, XlsxOptions } from './xlsx-formatter.js';
+export type { MatrixQuery, SortSpec, WhereCondition, WhereOperator } from './matrix-query.js';
@@ -0,0 +1,116 @@
+import { findNumericColumns } from './numeric-columns.js';
+
+/**
+ * Escapes a value for a Markdown table cell.
+ *
+ * - null/undefined become empty string
+ * - Backslashes and pipes are escaped, so a pipe never splits a cell
+ * - `&` and `<` are written as `&amp;` and `&lt;`, so values are read as
+ *   text, not as HTML or entities
+ * - Line breaks become `<br>`, as table rows must stay on one line
+ */
+function escapeCell(value: unknown): string {
+    if (value == null) {
+        return '';
+    }
+    return String(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/\|/g, '\\|')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/\r?\n|\r/g, '<br>');
+}
+
+/**
+ * Formats a 2D matrix as a GitHub-flavored Markdown table.
+ *
+ * Output format:
+ *   | Name    | Balance |
+ *   | ------- | ------: |
+ *   | Revenue |  500.00 |
+ *
+ * - Row 0 is the header row
+ * - Numeric columns are right-aligned (see {@link findNumericColumns})
+ * - Columns are padded so the source reads as a table too
+ * - Pipes, backslashes and HTML in values are escaped
+ *
+ * @param matrix - 2D array where row 0 is headers and rows 1+ are data
+ * @returns Markdown table string
+ */
+export function formatMarkdown(matrix: unknown[][]): string {
+    if (!matrix || matrix.length === 0) {
+        return '';
+    }
+
+    const numeric = findNumericColumns(matrix);
+    const colCount = matrix[0].length;
+    const rows = matrix.map(row => Array.from({ length: colCount }, (_, i) => escapeCell(row[i])));
+    return formatTable(rows, numeric);
+}
+
+/**
+ * Lays out escaped cells as a table, padding columns to the same width.
+ */
+function formatTable(rows: string[][], numeric: boolean[]): string {
+    // Alignment rows need at least three characters per column
+    const colWidths = new Array(rows[0].length).fill(3);
+    for (const row of rows) {
+        row.forEach((cell, i) => {
+            colWidths[i] = Math.max(colWidths[i], cell.length);
+        });
+    }
+
+    const formatRow = (row: string[]): string =>
+        `| ${row
+            .map((cell, i) =>
+                numeric[i] ? cell.padStart(colWidths[i]) : cell.padEnd(colWidths[i])
+            )
+            .join(' | ')} |`;
+    const alignment = `| ${colWidths
+        .map((width, i) => (numeric[i] ? `${'-'.repeat(width - 1)}:` : '-'.repeat(width)))
+        .join(' | ')} |`;
+
+    const [headers, ...dataRows] = rows;
+    return [formatRow(headers), alignment, ...dataRows.map(formatRow)].join('\n');
+}
+
+/**
+ * Formats a record as a two-column Markdown table, one row per field.
+ *
+ * Output format:
+ *   | Field      | Value              |
+ *   | ---------- | ------------------ |
+ *   | name       | Checking           |
+ *   | properties | `{"code":"1001"}`  |
+ *
+ * Empty values are left out. Nested objects and arrays are written as inline
+ * JSON code.
+ *
+ * @param item - Record to format
+ * @returns Markdown table string
+ */
+export function formatMarkdownItem(item: Record<string, unknown>): string {
+    const rows = Object.entries(item)
+        .filter(([, value]) => !isEmpty(value))
+        .map(([key, value]) => [escapeCell(key), formatValue(value)]);
+    return formatTable([['Field', 'Value'], ...rows], [false, false]);
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return escapeCell(value);
+    }
+    // Pipes are escaped even in code spans, as the table is split on them first
+    const json = JSON.stringify(value).replace(/\|/g, '\\|');
+    // A code span is delimited by a run of backticks longer than any inside it
+    const longestRun = Math.max(0, ...(json.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return longestRun > 0 ? `${fence} ${json} ${fence}` : `${fence}${json}${fence}`;
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value == null) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value as object).length === 0;
+    return false;
+}
@@ -0,0 +1,209 @@
+import { ValidationError } from '../utils/validation.js';
+
+/**
+ * Comparison operators of a `--where` condition.
+ */
+export type WhereOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+/**
+ * A `--where <column><op><value>` condition on the rows of a matrix.
+ */
+export interface WhereCondition {
+    column: string;
+    operator: WhereOperator;
+    value: string;
+}
+
+/**
+ * A `--sort <column>[:desc]` order for the rows of a matrix.
+ */
+export interface SortSpec {
+    column: string;
+    descending: boolean;
+}
+
+/**
+ * Column selection, filtering and sorting applied to a matrix before it is
+ * formatted. Columns are matched by header, ignoring case.
+ */
+export interface MatrixQuery {
+    /** Columns to keep, in output order. */
+    columns?: string[];
+    sort?: SortSpec;
+    /** Conditions every row must meet. */
+    where?: WhereCondition[];
+}
+
+// Two-character operators first, so `>=` is not read as `>` and `=value`
+const WHERE_PATTERN = /^(.+?)(!=|>=|<=|=|>|<|~)(.*)$/;
+const NUMBER_PATTERN = /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+/**
+ * Parses a `--columns` list: comma-separated column headers.
+ *
+ * @throws ValidationError if the list names no column
+ */
+export function parseColumnList(value: string): string[] {
+    const columns = value
+        .split(',')
+        .map(column => column.trim())
+        .filter(Boolean);
+    if (columns.length === 0) {
+        throw new ValidationError([
+            `Invalid --columns: "${value}". Expected a comma-separated list`,
+        ]);
+    }
+    return columns;
+}
+
+/**
+ * Parses a `--sort` value: `<column>` for ascending or `<column>:desc` for
+ * descending order (`:asc` is accepted too).
+ *
+ * @throws ValidationError if the column is empty
+ */
+export function parseSortSpec(value: string): SortSpec {
+    const match = /^(.*?):(asc|desc)$/i.exec(value.trim());
+    const column = (match ? match[1] : value).trim();
+    if (column === '') {
+        throw new ValidationError([
+            `Invalid --sort: "${value}". Expected <column> or <column>:desc`,
+        ]);
+    }
+    return { column, descending: match?.[2].toLowerCase() === 'desc' };
+}
+
+/**
+ * Parses a `--where` condition: `<column><op><value>`, with `=`, `!=`, `>`,
+ * `>=`, `<`, `<=` or `~` (contains). The column is everything before the
+ * first operator, so values may contain operator characters.
+ *
+ * @throws ValidationError if there is no operator or the column is empty
+ */
+export function parseWhereCondition(value: string): WhereCondition {
+    const match = WHERE_PATTERN.exec(value);
+    const column = match ? match[1].trim() : '';
+    if (!match || column === '') {
+        throw new ValidationError([
+            `Invalid --where: "${value}". Expected <column><op><value> with =, !=, >, >=, <, <= or ~`,
+        ]);
+    }
+    return { column, operator: match[2] as WhereOperator, value: match[3].trim() };
+}
+
+/**
+ * Returns whether a query changes nothing.
+ */
+export function isEmptyMatrixQuery(query: MatrixQuery): boolean {
+    return !query.columns?.length && !query.sort && !query.where?.length;
+}
+
+/**
+ * Applies a query to a matrix: keeps the rows meeting every condition, sorts
+ * them, then keeps the selected columns. The header row stays first.
+ *
+ * Values compare as numbers when both sides are numbers (thousands commas
+ * allowed), and as text ignoring case otherwise, so ISO dates compare in
+ * date order. Sorting is stable and puts empty values last in either
+ * direction.
+ *
+ * @param matrix - 2D array where row 0 is headers and rows 1+ are data
+ * @param query - Columns, conditions and order
+ * @returns A new matrix
+ * @throws ValidationError if the query names a column the matrix does not have
+ */
+export function applyMatrixQuery(matrix: unknown[][], query: MatrixQuery): unknown[][] {
+    if (isEmptyMatrixQuery(query) || matrix.length === 0) {
+        return matrix;
+    }
+    const [header, ...rows] = matrix;
+
+    const conditions = (query.where || []).map(condition => ({
+        ...condition,
+        index: findColumn(header, condition.column),
+    }));
+    let result = rows.filter(row =>
+        conditions.every(condition => matches(row[condition.index], condition))
+    );
+
+    if (query.sort) {
+        const index = findColumn(header, query.sort.column);
+        const direction = query.sort.descending ? -1 : 1;
+        result = result
+            .map((row, position) => ({ row, position }))
+            .sort((a, b) => {
+                const left = toText(a.row[index]);
+                const right = toText(b.row[index]);
+                if (left === '' || right === '') {
+                    return left === right ? a.position - b.position : left === '' ? 1 : -1;
+                }
+                return compareValues(left, right) * direction || a.position - b.position;
+            })
+            .map(entry => entry.row);
+    }
+
+    if (query.columns?.length) {
+        const indexes = query.columns.map(column => findColumn(header, column));
+        return [header, ...result].map(row => indexes.map(index => row[index]));
+    }
+    return [header, ...result];
+}
+
+function findColumn(header: unknown[], column: string): number {
+    const wanted = column.toLowerCase();
+    const index = header.findIndex(cell => toText(cell).trim().toLowerCase() === wanted);
+    if (index === -1) {
+        const available = header.map(cell => toText(cell)).filter(Boolean);
+        throw new ValidationError([
+            `Unknown column "${column}". Available columns: ${available.join(', ')}`,
+        ]);
+    }
+    return index;
+}
+
+function matches(cell: unknown, condition: WhereCondition): boolean {
+    const text = toText(cell);
+    switch (condition.operator) {
+        case '~':
+            return text.toLowerCase().includes(condition.value.toLowerCase());
+        case '=':
+            return compareValues(text, condition.value) === 0;
+        case '!=':
+            return compareValues(text, condition.value) !== 0;
+    }
+    // Ordering conditions never match empty cells
+    if (text === '') {
+        return false;
+    }
+    const order = compareValues(text, condition.value);
+    switch (condition.operator) {
+        case '>':
+            return order > 0;
+        case '>=':
+            return order >= 0;
+        case '<':
+            return order < 0;
+        case '<=':
+            return order <= 0;
+    }
+}
+
+function compareValues(left: string, right: string): number {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (a !== undefined && b !== undefined) {
+        return a === b ? 0 : a < b ? -1 : 1;
+    }
+    const x = left.toLowerCase();
+    const y = right.toLowerCase();
+    return x === y ? 0 : x < y ? -1 : 1;
+}
+
+function toNumber(text: string): number | undefined {
+    const trimmed = text.trim();
+    return NUMBER_PATTERN.test(trimmed) ? Number(trimmed.replace(/,/g, '')) : undefined;
+}
+
+function toText(cell: unknown): string {
+    return cell === null || cell === undefined ? '' : String(cell);
+}
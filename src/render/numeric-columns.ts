@@ -0,0 +1,32 @@
+/**
+ * Matches numbers as the CLI prints them: plain or with thousands separators
+ * in either locale style, negative with a sign or parentheses, optionally a
+ * percentage, e.g. `1200`, `-1,234.56`, `1.234,56`, `(80.00)` or `12.5%`.
+ */
+const NUMBER_PATTERN = /^[-+]?\(?\d[\d.,' \u00a0]*\)?%?$/;
+
+/**
+ * Finds the columns of a matrix that hold numbers, so renderers can align
+ * them to the right. A column is numeric when it has at least one value and
+ * every non-empty data cell is a number; the header row is ignored.
+ *
+ * @param matrix - 2D array where row 0 is headers and rows 1+ are data
+ * @returns One flag per column of the header row
+ */
+export function findNumericColumns(matrix: unknown[][]): boolean[] {
+    const [header = [], ...rows] = matrix;
+    return header.map((_, column) => {
+        let found = false;
+        for (const row of rows) {
+            const cell = row[column];
+            if (cell === null || cell === undefined || cell === '') {
+                continue;
+            }
+            if (typeof cell !== 'number' && !NUMBER_PATTERN.test(String(cell).trim())) {
+                return false;
+            }
+            found = true;
+        }
+        return found;
+    });
+}
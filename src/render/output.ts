@@ -1,50 +1,186 @@
+import { readFileSync, writeFileSync } from 'node:fs';
 import { formatTable, formatItem } from './table-formatter.js';
 import { formatCsv } from './csv-formatter.js';
+import { formatHtml, formatHtmlItem } from './html-formatter.js';
+import { formatMarkdown, formatMarkdownItem } from './markdown-formatter.js';
+import { applyMatrixQuery, isEmptyMatrixQuery, type MatrixQuery } from './matrix-query.js';
+import { renderTemplate } from './template.js';
+import { formatXlsx, type XlsxSheet } from './xlsx-formatter.js';
+import { ValidationError } from '../utils/validation.js';
 
 /**
  * Output format type for CLI rendering.
  */
-export type OutputFormat = 'table' | 'json' | 'csv';
+export type OutputFormat = 'table' | 'json' | 'csv' | 'ndjson' | 'xlsx' | 'markdown' | 'html';
+
+/**
+ * Returns whether a format carries API payloads as JSON (`json` and
+ * `ndjson`) rather than display rows.
+ */
+export function isJsonFormat(format: OutputFormat): boolean {
+    return format === 'json' || format === 'ndjson';
+}
+
+/**
+ * Returns whether a format is read by spreadsheets and scripts (`csv` and
+ * `xlsx`), which take raw values with all metadata rather than values
+ * formatted for reading.
+ */
+export function isSpreadsheetFormat(format: OutputFormat): boolean {
+    return format === 'csv' || format === 'xlsx';
+}
+
+/**
+ * Book settings used when rendering amounts and dates.
+ */
+export interface RenderOptions {
+    /** Fraction digits of the book, for xlsx number formats and template amounts. */
+    fractionDigits?: number;
+    /** Decimal separator of the book, for template amounts. */
+    decimalSeparator?: 'DOT' | 'COMMA';
+    /** Date pattern of the book, e.g. `dd/MM/yyyy`, for template dates. */
+    datePattern?: string;
+}
+
+/**
+ * Output options given on the command line, which the command action passes
+ * on to the render functions.
+ */
+export interface OutputOptions {
+    /** File given with --out, where xlsx output is written. */
+    outFile?: string;
+    /** File given with --template, rendered instead of the output format. */
+    template?: string;
+    /** The --columns, --sort and --where options for table-shaped output. */
+    matrixQuery?: MatrixQuery;
+}
 
 /**
  * Structured result from list commands, allowing cli.ts to render
  * without knowing how the data was built.
+ *
+ * Matrix results may name `sheets`, the sections of the matrix, which xlsx
+ * output writes as one sheet each instead of the whole matrix.
  */
 export type ListResult =
-    | { kind: 'json'; items: unknown[]; cursor?: string }
-    | { kind: 'matrix'; matrix: unknown[][]; footer?: string };
+    | ({ kind: 'json'; items: unknown[]; cursor?: string } & RenderOptions)
+    | ({
+          kind: 'matrix';
+          matrix: unknown[][];
+          footer?: string;
+          sheets?: XlsxSheet[];
+      } & RenderOptions);
 
 /**
  * Renders a ListResult to stdout based on the active output format.
+ *
+ * The global --columns, --sort and --where options apply to matrix results
+ * and xlsx output; JSON items are left for tools like jq. With --template,
+ * the template is rendered over `{ items, cursor }` instead.
+ *
+ * @param result - The result to render
+ * @param format - Output format
+ * @param output - The --out, --template, --columns, --sort and --where options
+ * @throws ValidationError if --columns, --sort or --where is given for JSON items
  */
-export function renderListResult(result: ListResult, format: OutputFormat): void {
+export function renderListResult(
+    result: ListResult,
+    format: OutputFormat,
+    output: OutputOptions = {}
+): void {
+    if (output.template && result.kind === 'json') {
+        const data = result.cursor
+            ? { items: result.items, cursor: result.cursor }
+            : { items: result.items };
+        writeTemplate(output.template, data, result);
+        return;
+    }
+    if (format === 'xlsx') {
+        const sheets =
+            result.kind === 'json'
+                ? [{ name: 'Sheet1', matrix: buildItemsMatrix(result.items) }]
+                : result.sheets ?? [{ name: 'Sheet1', matrix: result.matrix }];
+        writeXlsx(
+            sheets.map(sheet => ({
+                ...sheet,
+                matrix: applyMatrixQuery(sheet.matrix, output.matrixQuery ?? {}),
+            })),
+            { ...(result.kind === 'matrix' ? result : {}), ...output }
+        );
+        return;
+    }
+    if (result.kind === 'json' && !isEmptyMatrixQuery(output.matrixQuery ?? {})) {
+        throw new ValidationError([
+            `--columns, --sort and --where apply to table, csv and xlsx output, not ${format}`,
+        ]);
+    }
+    if (result.kind === 'json' && format === 'ndjson') {
+        renderNdjson(result.items);
+        // A cursor line would break line-per-item consumers, so it goes to stderr
+        if (result.cursor) {
+            console.error(`Next cursor: ${result.cursor}`);
+        }
+        return;
+    }
     if (result.kind === 'json') {
         const payload = result.cursor ? { items: result.items, cursor: result.cursor } : result.items;
         console.log(JSON.stringify(payload, null, 2));
         return;
     }
-    renderTable(result.matrix, format);
+    renderTable(result.matrix, format, output);
     if (result.footer && format === 'table') {
         console.log(result.footer);
     }
 }
 
 /**
- * Renders a 2D matrix as a formatted table, JSON, or CSV.
+ * Renders a 2D matrix as a formatted table, JSON, CSV, NDJSON, an XLSX
+ * workbook, or a Markdown or HTML table, after applying the global
+ * --columns, --sort and --where options.
+ *
+ * NDJSON writes one object per data row, keyed by the header row. XLSX
+ * writes a single sheet to the file given with --out. With --template, the
+ * template is rendered over `{ items }` with the same row objects.
  *
  * @param matrix - 2D array where row 0 is headers and rows 1+ are data
- * @param format - Output format: 'table' (default), 'json', or 'csv'
+ * @param format - Output format: 'table' (default), 'json', 'csv', 'ndjson', 'xlsx', 'markdown', or 'html'
+ * @param options - Book settings for xlsx and template amounts, and the output options
  */
-export function renderTable(matrix: unknown[][], format: OutputFormat): void {
+export function renderTable(
+    matrix: unknown[][],
+    format: OutputFormat,
+    options: RenderOptions & OutputOptions = {}
+): void {
+    matrix = applyMatrixQuery(matrix, options.matrixQuery ?? {});
+    if (options.template) {
+        writeTemplate(options.template, { items: toRowObjects(matrix) }, options);
+        return;
+    }
     switch (format) {
+        case 'xlsx':
+            writeXlsx([{ name: 'Sheet1', matrix }], options);
+            return;
         case 'json':
             console.log(JSON.stringify(matrix, null, 2));
             return;
+        case 'ndjson':
+            renderNdjson(toRowObjects(matrix));
+            return;
         case 'csv': {
             const csv = formatCsv(matrix);
             console.log(csv || 'No results found.');
             return;
         }
+        case 'markdown': {
+            const markdown = formatMarkdown(matrix);
+            console.log(markdown || 'No results found.');
+            return;
+        }
+        case 'html': {
+            const html = formatHtml(matrix);
+            console.log(html || 'No results found.');
+            return;
+        }
         default: {
             const formatted = formatTable(matrix);
             console.log(formatted || 'No results found.');
@@ -54,17 +190,113 @@ export function renderTable(matrix: unknown[][], format: OutputFormat): void {
 
 /**
  * Renders a single item as key-value pairs, JSON, or JSON (for CSV, since
- * single items are not tabular, CSV falls back to JSON).
+ * single items are not tabular, CSV falls back to JSON). NDJSON writes the
+ * item on one line; XLSX writes a Field/Value sheet, with nested values as
+ * JSON. Markdown writes a Field/Value table and HTML a definition list. With
+ * --template, the template is rendered over the item.
  *
  * @param item - Record to render
- * @param format - Output format: 'table' (default), 'json', or 'csv'
+ * @param format - Output format: 'table' (default), 'json', 'csv', 'ndjson', 'xlsx', 'markdown', or 'html'
+ * @param options - Book settings for template amounts and dates, and the output options
  */
-export function renderItem(item: object, format: OutputFormat): void {
+export function renderItem(
+    item: object,
+    format: OutputFormat,
+    options: RenderOptions & OutputOptions = {}
+): void {
+    if (options.template) {
+        writeTemplate(options.template, item, options);
+        return;
+    }
+    if (format === 'xlsx') {
+        const matrix: unknown[][] = [['Field', 'Value']];
+        for (const [key, value] of Object.entries(item)) {
+            matrix.push([key, toSheetValue(value)]);
+        }
+        writeXlsx([{ name: 'Sheet1', matrix }], { outFile: options.outFile });
+        return;
+    }
+    if (format === 'ndjson') {
+        renderNdjson([item]);
+        return;
+    }
     if (format === 'json' || format === 'csv') {
         console.log(JSON.stringify(item, null, 2));
         return;
     }
 
-    const formatted = formatItem(item as Record<string, unknown>);
+    const record = item as Record<string, unknown>;
+    const formatted =
+        format === 'markdown'
+            ? formatMarkdownItem(record)
+            : format === 'html'
+            ? formatHtmlItem(record)
+            : formatItem(record);
     console.log(formatted || 'No results found.');
 }
+
+/**
+ * Renders items as NDJSON: one compact JSON document per line.
+ *
+ * @param items - Items to render, in order
+ */
+export function renderNdjson(items: unknown[]): void {
+    for (const item of items) {
+        console.log(JSON.stringify(item));
+    }
+}
+
+/**
+ * Renders the --template file over data and writes the result to stdout as
+ * is, so the template decides the line breaks.
+ */
+function writeTemplate(file: string, data: unknown, options: RenderOptions): void {
+    process.stdout.write(renderTemplate(readFileSync(file, 'utf8'), data, options));
+}
+
+/**
+ * Converts matrix data rows into objects keyed by the header row.
+ */
+function toRowObjects(matrix: unknown[][]): Record<string, unknown>[] {
+    const [header = [], ...rows] = matrix;
+    return rows.map(row =>
+        Object.fromEntries(header.map((name, i) => [String(name), row[i] ?? null]))
+    );
+}
+
+/**
+ * Writes sheets as an XLSX workbook to the file given with --out.
+ */
+function writeXlsx(sheets: XlsxSheet[], options: RenderOptions & OutputOptions): void {
+    const file = options.outFile;
+    if (!file) {
+        throw new ValidationError(['--format xlsx requires --out <file>']);
+    }
+    writeFileSync(file, formatXlsx(sheets, { fractionDigits: options.fractionDigits }));
+    console.log(`Wrote ${sheets.length} sheet(s) to ${file}.`);
+}
+
+/**
+ * Builds a matrix from JSON items, with one column per top-level key in
+ * order of first appearance.
+ */
+function buildItemsMatrix(items: unknown[]): unknown[][] {
+    const keys: string[] = [];
+    for (const item of items) {
+        for (const key of Object.keys((item as Record<string, unknown>) || {})) {
+            if (!keys.includes(key)) {
+                keys.push(key);
+            }
+        }
+    }
+    return [
+        keys,
+        ...items.map(item =>
+            keys.map(key => toSheetValue((item as Record<string, unknown>)?.[key]))
+        ),
+    ];
+}
+
+function toSheetValue(value: unknown): unknown {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+}
@@ -0,0 +1,264 @@
+import { formatMinorUnits, toMinorUnits } from '../commands/reports/amounts.js';
+import type { RenderOptions } from './output.js';
+import { ValidationError } from '../utils/validation.js';
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; expression: string }
+    | { kind: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+interface Frame {
+    value: unknown;
+    index?: number;
+}
+
+type Helper = (args: unknown[], options: RenderOptions) => string;
+
+const TAG_PATTERN = /\{\{(\{?)\s*([#^/!]?)([\s\S]*?)\}?\}\}/g;
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+const DEFAULT_DATE_PATTERN = 'yyyy-MM-dd';
+
+const HELPERS: Record<string, Helper> = {
+    money: ([value], options) => formatMoney(value, options),
+    date: ([value, pattern], options) =>
+        formatDate(value, typeof pattern === 'string' ? pattern : options.datePattern),
+    json: ([value]) => JSON.stringify(value ?? null),
+};
+
+/**
+ * Renders a Mustache-style template over JSON data.
+ *
+ * Supported tags:
+ * - `{{path.to.value}}` (or `{{{...}}}`) writes a value as is, objects as JSON
+ * - `{{#name}}...{{/name}}` repeats for each element of an array, enters an
+ *   object, or renders once for any other truthy value
+ * - `{{^name}}...{{/name}}` renders when the value is falsy or an empty array
+ * - `{{.}}` is the current value and `{{@index}}` the position in a loop
+ * - `{{money amount}}` formats an amount with the book's decimal separator,
+ *   thousands separator and fraction digits
+ * - `{{date date}}` formats a `yyyy-mm-dd` date with the book's date pattern,
+ *   or with a pattern given in quotes: `{{date date "dd/MM/yyyy"}}`
+ * - `{{json value}}` writes a value as compact JSON
+ * - `{{! comment }}` writes nothing
+ *
+ * Names are looked up from the innermost section outwards. Lines holding only
+ * a section or comment tag are removed, so templates can be laid out freely.
+ *
+ * @param template - Template source
+ * @param data - JSON data, usually an item or `{ items: [...] }`
+ * @param options - Book settings for the money and date helpers
+ * @returns The rendered text
+ * @throws ValidationError if sections are not balanced or a helper is unknown
+ */
+export function renderTemplate(
+    template: string,
+    data: unknown,
+    options: RenderOptions = {}
+): string {
+    return renderNodes(parseTemplate(template), [{ value: data }], options);
+}
+
+/**
+ * Formats an amount with the book's separators: `1,234.56` for DOT books and
+ * `1.234,56` for COMMA books. Amounts are rounded half up to the book's
+ * fraction digits, or keep their own decimals when those are not known.
+ * Values that are not decimal numbers are returned as they are.
+ */
+export function formatMoney(value: unknown, options: RenderOptions = {}): string {
+    const text = value === null || value === undefined ? '' : String(value).trim();
+    if (!DECIMAL_PATTERN.test(text)) {
+        return text;
+    }
+    const digits = options.fractionDigits ?? (text.split('.')[1] || '').length;
+    const [integer, fraction] = formatMinorUnits(toMinorUnits(text, digits), digits).split('.');
+    const comma = options.decimalSeparator === 'COMMA';
+    const negative = integer.startsWith('-');
+    const grouped = (negative ? integer.slice(1) : integer).replace(
+        /\B(?=(\d{3})+(?!\d))/g,
+        comma ? '.' : ','
+    );
+    return `${negative ? '-' : ''}${grouped}${fraction ? `${comma ? ',' : '.'}${fraction}` : ''}`;
+}
+
+/**
+ * Formats a `yyyy-mm-dd` date (or the date part of an ISO timestamp) with a
+ * date pattern using `yyyy`, `yy`, `MM`, `M`, `dd` and `d`, e.g. `dd/MM/yyyy`.
+ * Values that are not dates are returned as they are.
+ */
+export function formatDate(value: unknown, pattern = DEFAULT_DATE_PATTERN): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    const match = DATE_PATTERN.exec(text);
+    if (!match) {
+        return text;
+    }
+    const [, year, month, day] = match;
+    const parts: Record<string, string> = {
+        yyyy: year,
+        yy: year.slice(2),
+        MM: month,
+        M: String(Number(month)),
+        dd: day,
+        d: String(Number(day)),
+    };
+    return pattern.replace(/yyyy|yy|MM|M|dd|d/g, token => parts[token]);
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { name: string; children: TemplateNode[] }[] = [{ name: '', children: root }];
+    const current = () => stack[stack.length - 1].children;
+
+    let position = 0;
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        const [tag, , type, content] = match;
+        let start = match.index!;
+        let end = start + tag.length;
+        if (type !== '') {
+            [start, end] = expandStandalone(template, start, end);
+        }
+        if (start > position) {
+            current().push({ kind: 'text', text: template.slice(position, start) });
+        }
+        position = end;
+
+        const name = content.trim();
+        if (type === '!') {
+            continue;
+        }
+        if (type === '#' || type === '^') {
+            const children: TemplateNode[] = [];
+            current().push({ kind: 'section', name, inverted: type === '^', children });
+            stack.push({ name, children });
+        } else if (type === '/') {
+            if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+                throw new ValidationError([`Template error: unexpected {{/${name}}}`]);
+            }
+            stack.pop();
+        } else {
+            current().push({ kind: 'value', expression: name });
+        }
+    }
+    if (stack.length > 1) {
+        throw new ValidationError([
+            `Template error: unclosed section {{#${stack[stack.length - 1].name}}}`,
+        ]);
+    }
+    if (position < template.length) {
+        root.push({ kind: 'text', text: template.slice(position) });
+    }
+    return root;
+}
+
+/**
+ * Widens a tag to its whole line, line break included, when nothing but
+ * whitespace surrounds it.
+ */
+function expandStandalone(template: string, start: number, end: number): [number, number] {
+    const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+    const newline = template.indexOf('\n', end);
+    const lineEnd = newline === -1 ? template.length : newline + 1;
+    const before = template.slice(lineStart, start);
+    const after = template.slice(end, newline === -1 ? template.length : newline);
+    if (before.trim() === '' && after.trim() === '') {
+        return [lineStart, lineEnd];
+    }
+    return [start, end];
+}
+
+function renderNodes(nodes: TemplateNode[], frames: Frame[], options: RenderOptions): string {
+    let output = '';
+    for (const node of nodes) {
+        if (node.kind === 'text') {
+            output += node.text;
+        } else if (node.kind === 'value') {
+            output += evaluate(node.expression, frames, options);
+        } else {
+            output += renderSection(node, frames, options);
+        }
+    }
+    return output;
+}
+
+function renderSection(
+    node: Extract<TemplateNode, { kind: 'section' }>,
+    frames: Frame[],
+    options: RenderOptions
+): string {
+    const value = lookup(node.name, frames);
+    const empty = !value || (Array.isArray(value) && value.length === 0);
+    if (node.inverted) {
+        return empty ? renderNodes(node.children, frames, options) : '';
+    }
+    if (empty) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value
+            .map((element, index) =>
+                renderNodes(node.children, [...frames, { value: element, index }], options)
+            )
+            .join('');
+    }
+    if (typeof value === 'object') {
+        return renderNodes(node.children, [...frames, { value }], options);
+    }
+    return renderNodes(node.children, frames, options);
+}
+
+function evaluate(expression: string, frames: Frame[], options: RenderOptions): string {
+    const [name, ...args] = splitArguments(expression);
+    if (args.length > 0 || name in HELPERS) {
+        const helper = HELPERS[name];
+        if (!helper) {
+            throw new ValidationError([`Template error: unknown helper "${name}"`]);
+        }
+        return helper(
+            args.map(arg => (/^["']/.test(arg) ? arg.slice(1, -1) : lookup(arg, frames))),
+            options
+        );
+    }
+    return toText(lookup(name, frames));
+}
+
+/**
+ * Splits a tag into its name and arguments, keeping quoted strings whole.
+ */
+function splitArguments(expression: string): string[] {
+    return expression.match(/"[^"]*"|'[^']*'|\S+/g) || [''];
+}
+
+function lookup(path: string, frames: Frame[]): unknown {
+    if (path === '.') {
+        return frames[frames.length - 1].value;
+    }
+    if (path === '@index') {
+        for (let i = frames.length - 1; i >= 0; i--) {
+            if (frames[i].index !== undefined) {
+                return frames[i].index;
+            }
+        }
+        return undefined;
+    }
+    const [first, ...rest] = path.split('.');
+    for (let i = frames.length - 1; i >= 0; i--) {
+        const value = frames[i].value;
+        if (typeof value === 'object' && value !== null && first in value) {
+            return rest.reduce<unknown>(
+                (current, key) =>
+                    typeof current === 'object' && current !== null
+                        ? (current as Record<string, unknown>)[key]
+                        : undefined,
+                (value as Record<string, unknown>)[first]
+            );
+        }
+    }
+    return undefined;
+}
+
+function toText(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
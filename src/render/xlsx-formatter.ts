@@ -0,0 +1,411 @@
+import { createZip } from '../utils/zip.js';
+
+/**
+ * A named sheet of a workbook: a 2D matrix whose row 0 is the header.
+ */
+export interface XlsxSheet {
+    name: string;
+    matrix: unknown[][];
+}
+
+/**
+ * Options for building a workbook.
+ */
+export interface XlsxOptions {
+    /** Fraction digits of the book, used for the number format of decimal columns. */
+    fractionDigits?: number;
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const MAX_ROWS = 1048576;
+const MAX_SHEET_NAME = 31;
+const MAX_COLUMN_WIDTH = 60;
+// Numbers with more digits lose precision in a spreadsheet, so they stay text
+const MAX_NUMBER_DIGITS = 15;
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.(\d+))?$/;
+const PERCENT_PATTERN = /^(-?(0|[1-9]\d*)(\.(\d+))?)%$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EPOCH_OFFSET_DAYS = 25569;
+const DAY_MS = 86400000;
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+type Cell =
+    | { kind: 'empty' }
+    | { kind: 'text'; value: string }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'number'; value: number; decimals: number }
+    | { kind: 'percent'; value: number; decimals: number }
+    | { kind: 'date'; value: number; format: string };
+
+/**
+ * Builds an XLSX workbook with one worksheet per sheet.
+ *
+ * Cells are typed from their values: decimal strings and numbers become
+ * numeric cells, `yyyy-mm-dd` dates and ISO timestamps become date cells,
+ * `12.5%` becomes a percentage and booleans stay booleans; everything else is
+ * text. Numbers with leading zeros or more than 15 digits stay text, so IDs
+ * and account codes are kept as written. Columns with decimal values use the
+ * book's fraction digits (or the most decimals found in the column), with a
+ * thousands separator. Header rows are bold and frozen, and columns are sized
+ * to their content.
+ *
+ * @param sheets - Sheets in workbook order; names are made valid and unique
+ * @param options - Fraction digits of the book
+ * @returns The workbook bytes
+ * @throws Error if a sheet has more rows than a worksheet allows
+ */
+export function formatXlsx(sheets: XlsxSheet[], options: XlsxOptions = {}): Buffer {
+    const styles = createStyleRegistry();
+    const names = uniqueSheetNames(sheets.map(sheet => sheet.name));
+    const worksheets = sheets.map(sheet => buildWorksheet(sheet.matrix, styles, options));
+
+    const files: { name: string; content: string }[] = [
+        { name: '[Content_Types].xml', content: buildContentTypes(sheets.length) },
+        {
+            name: '_rels/.rels',
+            content:
+                `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+                `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+                '</Relationships>',
+        },
+        { name: 'xl/workbook.xml', content: buildWorkbook(names) },
+        { name: 'xl/_rels/workbook.xml.rels', content: buildWorkbookRels(sheets.length) },
+        { name: 'xl/styles.xml', content: buildStyles(styles) },
+        ...worksheets.map((content, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content })),
+    ];
+    return createZip(files.map(file => ({ name: file.name, data: Buffer.from(file.content) })));
+}
+
+function buildWorksheet(matrix: unknown[][], styles: StyleRegistry, options: XlsxOptions): string {
+    if (matrix.length > MAX_ROWS) {
+        throw new Error(`A sheet is limited to ${MAX_ROWS} rows, got ${matrix.length}`);
+    }
+
+    const cells = matrix.map((row, r) =>
+        row.map(value => (r === 0 ? toHeaderCell(value) : toCell(value)))
+    );
+    const columnCount = cells.reduce((max, row) => Math.max(max, row.length), 0);
+    const columnDecimals = new Array(columnCount).fill(-1);
+    const widths = new Array(columnCount).fill(0);
+    for (const row of cells) {
+        row.forEach((cell, c) => {
+            if (cell.kind === 'number' && cell.decimals > 0) {
+                columnDecimals[c] = Math.max(columnDecimals[c], cell.decimals);
+            }
+            widths[c] = Math.max(widths[c], displayLength(cell));
+        });
+    }
+
+    const rows = cells.map((row, r) => {
+        const xml = row
+            .map((cell, c) => {
+                const decimals =
+                    columnDecimals[c] >= 0 ? options.fractionDigits ?? columnDecimals[c] : 0;
+                return formatCell(cell, `${columnName(c)}${r + 1}`, styles, r === 0, decimals);
+            })
+            .join('');
+        return `<row r="${r + 1}">${xml}</row>`;
+    });
+
+    const views =
+        matrix.length > 1
+            ? '<sheetViews><sheetView workbookViewId="0">' +
+              '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+              '<selection pane="bottomLeft"/></sheetView></sheetViews>'
+            : '<sheetViews><sheetView workbookViewId="0"/></sheetViews>';
+    const cols =
+        columnCount > 0
+            ? `<cols>${widths
+                  .map(
+                      (width, c) =>
+                          `<col min="${c + 1}" max="${c + 1}" width="${Math.min(
+                              Math.max(width + 2, 8),
+                              MAX_COLUMN_WIDTH
+                          )}" customWidth="1"/>`
+                  )
+                  .join('')}</cols>`
+            : '';
+
+    return (
+        `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+        `${views}<sheetFormatPr defaultRowHeight="15"/>${cols}` +
+        `<sheetData>${rows.join('')}</sheetData></worksheet>`
+    );
+}
+
+/**
+ * Header cells stay text, so a year or a date heading is not converted.
+ */
+function toHeaderCell(value: unknown): Cell {
+    if (value === null || value === undefined || value === '') {
+        return { kind: 'empty' };
+    }
+    return { kind: 'text', value: String(value) };
+}
+
+function toCell(value: unknown): Cell {
+    if (value === null || value === undefined || value === '') {
+        return { kind: 'empty' };
+    }
+    if (typeof value === 'boolean') {
+        return { kind: 'boolean', value };
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        const fraction = String(value).split('.')[1] || '';
+        return { kind: 'number', value, decimals: /e/i.test(fraction) ? 0 : fraction.length };
+    }
+    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        return { kind: 'date', value: toSerial(value.getTime()), format: DATE_TIME_FORMAT };
+    }
+
+    const text = String(value);
+    const number = NUMBER_PATTERN.exec(text);
+    if (number && countDigits(text) <= MAX_NUMBER_DIGITS) {
+        return { kind: 'number', value: Number(text), decimals: (number[3] || '').length };
+    }
+    const percent = PERCENT_PATTERN.exec(text);
+    if (percent && countDigits(percent[1]) <= MAX_NUMBER_DIGITS) {
+        return {
+            kind: 'percent',
+            value: Number(percent[1]) / 100,
+            decimals: (percent[4] || '').length,
+        };
+    }
+    const date = DATE_PATTERN.exec(text);
+    if (date) {
+        const time = Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]));
+        if (new Date(time).toISOString().startsWith(text)) {
+            return { kind: 'date', value: toSerial(time), format: DATE_FORMAT };
+        }
+    }
+    if (DATE_TIME_PATTERN.test(text)) {
+        const time = Date.parse(text);
+        if (!Number.isNaN(time)) {
+            return { kind: 'date', value: toSerial(time), format: DATE_TIME_FORMAT };
+        }
+    }
+    return { kind: 'text', value: text };
+}
+
+function formatCell(
+    cell: Cell,
+    ref: string,
+    styles: StyleRegistry,
+    bold: boolean,
+    decimals: number
+): string {
+    switch (cell.kind) {
+        case 'empty':
+            return '';
+        case 'text': {
+            const style = getStyle(styles, undefined, bold);
+            return `<c r="${ref}"${styleAttribute(
+                style
+            )} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+        }
+        case 'boolean':
+            return `<c r="${ref}"${styleAttribute(getStyle(styles, undefined, bold))} t="b"><v>${
+                cell.value ? 1 : 0
+            }</v></c>`;
+        case 'number': {
+            const format = decimals > 0 ? `#,##0.${'0'.repeat(decimals)}` : '0';
+            return `<c r="${ref}"${styleAttribute(getStyle(styles, format, bold))}><v>${
+                cell.value
+            }</v></c>`;
+        }
+        case 'percent': {
+            const format = cell.decimals > 0 ? `0.${'0'.repeat(cell.decimals)}%` : '0%';
+            return `<c r="${ref}"${styleAttribute(getStyle(styles, format, bold))}><v>${
+                cell.value
+            }</v></c>`;
+        }
+        case 'date':
+            return `<c r="${ref}"${styleAttribute(getStyle(styles, cell.format, bold))}><v>${
+                cell.value
+            }</v></c>`;
+    }
+}
+
+/**
+ * Cell formats of a workbook: each combination of number format and weight
+ * gets one cell format, and each number format one custom format ID.
+ */
+interface StyleRegistry {
+    /** Custom number format IDs by format code. */
+    formats: Map<string, number>;
+    /** Cell format indexes by `<format code>|<weight>`. */
+    cellFormats: Map<string, number>;
+}
+
+function createStyleRegistry(): StyleRegistry {
+    return { formats: new Map(), cellFormats: new Map([['|normal', 0]]) };
+}
+
+/**
+ * Returns the index of the cell format for a number format and weight,
+ * registering it on first use.
+ */
+function getStyle(styles: StyleRegistry, numberFormat: string | undefined, bold: boolean): number {
+    const key = `${numberFormat ?? ''}|${bold ? 'bold' : 'normal'}`;
+    let index = styles.cellFormats.get(key);
+    if (index === undefined) {
+        if (numberFormat !== undefined && !styles.formats.has(numberFormat)) {
+            // Custom number format IDs start at 164
+            styles.formats.set(numberFormat, 164 + styles.formats.size);
+        }
+        index = styles.cellFormats.size;
+        styles.cellFormats.set(key, index);
+    }
+    return index;
+}
+
+function buildStyles(styles: StyleRegistry): string {
+    const numFmts = [...styles.formats]
+        .map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`)
+        .join('');
+    const xfs = [...styles.cellFormats.keys()]
+        .map(key => {
+            const [code, weight] = key.split('|');
+            const numFmtId = code ? styles.formats.get(code) : 0;
+            const fontId = weight === 'bold' ? 1 : 0;
+            return (
+                `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="0" borderId="0" xfId="0"` +
+                `${numFmtId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}/>`
+            );
+        })
+        .join('');
+    return (
+        `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}">` +
+        (styles.formats.size > 0
+            ? `<numFmts count="${styles.formats.size}">${numFmts}</numFmts>`
+            : '') +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+        '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+        '<fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        `<cellXfs count="${styles.cellFormats.size}">${xfs}</cellXfs>` +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '</styleSheet>'
+    );
+}
+
+function buildContentTypes(sheetCount: number): string {
+    const sheets = Array.from(
+        { length: sheetCount },
+        (_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ` +
+            'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    ).join('');
+    return (
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ' +
+        'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ' +
+        'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        `${sheets}</Types>`
+    );
+}
+
+function buildWorkbook(names: string[]): string {
+    const sheets = names
+        .map(
+            (name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+        )
+        .join('');
+    return `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>${sheets}</sheets></workbook>`;
+}
+
+function buildWorkbookRels(sheetCount: number): string {
+    const sheets = Array.from(
+        { length: sheetCount },
+        (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${
+                i + 1
+            }.xml"/>`
+    ).join('');
+    return (
+        `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">${sheets}` +
+        `<Relationship Id="rId${sheetCount + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    );
+}
+
+/**
+ * Makes sheet names valid: no `[]:*?/\`, no surrounding apostrophes, at most
+ * 31 characters, and unique ignoring case (repeats get a ` (2)` suffix).
+ */
+function uniqueSheetNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map((raw, i) => {
+        const base =
+            raw
+                .replace(/[[\]:*?/\\]/g, ' ')
+                .replace(/^'+|'+$/g, '')
+                .trim()
+                .slice(0, MAX_SHEET_NAME) || `Sheet${i + 1}`;
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+            const suffix = ` (${n})`;
+            name = `${base.slice(0, MAX_SHEET_NAME - suffix.length)}${suffix}`;
+        }
+        used.add(name.toLowerCase());
+        return name;
+    });
+}
+
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+function displayLength(cell: Cell): number {
+    switch (cell.kind) {
+        case 'empty':
+            return 0;
+        case 'text':
+            return Math.max(...cell.value.split('\n').map(line => line.length));
+        case 'date':
+            return cell.format.length;
+        default:
+            return String(cell.value).length + 4;
+    }
+}
+
+function countDigits(text: string): number {
+    return text.replace(/\D/g, '').length;
+}
+
+function toSerial(time: number): number {
+    return time / DAY_MS + EPOCH_OFFSET_DAYS;
+}
+
+function styleAttribute(style: number): string {
+    return style === 0 ? '' : ` s="${style}"`;
+}
+
+function escapeXml(value: string): string {
+    return (
+        value
+            // Control characters are not allowed in XML 1.0
+            .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+    );
+}
@@ -0,0 +1,9 @@
+/**
+ * Compares two strings by UTF-16 code unit, like the default `Array.sort`.
+ *
+ * Unlike `localeCompare`, the order does not depend on the locale of the
+ * machine, so sorted output is the same on every run.
+ */
+export function compareCodePoints(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,30 @@
+import * as readline from 'readline';
+import { ValidationError } from './validation.js';
+
+/**
+ * Asks a yes/no question on the terminal. The prompt goes to stderr so that
+ * stdout stays clean for piped output.
+ *
+ * @param question - Question to display, without the `[y/N]` suffix
+ * @returns true if the user answered yes
+ * @throws ValidationError if stdin is not an interactive terminal
+ */
+export async function confirm(question: string): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+        throw new ValidationError([
+            'Confirmation required: re-run with --yes to proceed without a prompt',
+        ]);
+    }
+
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stderr,
+    });
+
+    return new Promise(resolve => {
+        rl.question(`${question} [y/N] `, answer => {
+            rl.close();
+            resolve(/^y(es)?$/i.test(answer.trim()));
+        });
+    });
+}
@@ -0,0 +1,176 @@
+import { CommanderError } from 'commander';
+import { AUTHENTICATION_REQUIRED_MESSAGE, getErrorMessage } from '../auth/auth-errors.js';
+
+/**
+ * Kinds of command failure, each with its own exit code so scripts can tell
+ * them apart. `error` covers everything else.
+ */
+export type ErrorCode =
+    | 'auth'
+    | 'not-found'
+    | 'validation'
+    | 'conflict'
+    | 'rate-limit'
+    | 'network'
+    | 'error';
+
+/**
+ * Exit code of a failed command, by error code, and of a command that
+ * completed but found differences, such as unequal books or an unbalanced
+ * trial balance.
+ *
+ * | Code          | Exit | Cause                                                 |
+ * | ------------- | ---- | ----------------------------------------------------- |
+ * | `error`       | 1    | Any other failure                                     |
+ * | `validation`  | 2    | Invalid or missing options or input                   |
+ * | `auth`        | 3    | Not logged in, expired token or no permission         |
+ * | `not-found`   | 4    | The book, transaction, account or other resource      |
+ * | `conflict`    | 5    | The resource exists already or is in another state    |
+ * | `rate-limit`  | 6    | Too many requests; retry later                        |
+ * | `network`     | 7    | The API could not be reached                          |
+ * | `differences` | 8    | Completed, but the report found differences           |
+ */
+export const EXIT_CODES: Readonly<Record<ErrorCode | 'differences', number>> = {
+    error: 1,
+    validation: 2,
+    auth: 3,
+    'not-found': 4,
+    conflict: 5,
+    'rate-limit': 6,
+    network: 7,
+    differences: 8,
+};
+
+/**
+ * An error with a known {@link ErrorCode} and optional machine-readable
+ * details, reported as they are by the CLI.
+ */
+export class CliError extends Error {
+    readonly code: ErrorCode;
+    readonly details?: Record<string, unknown>;
+
+    constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+        super(message);
+        this.name = 'CliError';
+        this.code = code;
+        this.details = details;
+    }
+}
+
+/**
+ * A resource that does not exist, e.g. `Transaction not found: tx-123`.
+ */
+export class NotFoundError extends CliError {
+    constructor(resource: string, id: string) {
+        super('not-found', `${resource} not found: ${id}`, { resource, id });
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * A change that clashes with the current state of a resource, e.g. a name
+ * that is already taken.
+ */
+export class ConflictError extends CliError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super('conflict', message, details);
+        this.name = 'ConflictError';
+    }
+}
+
+/**
+ * An error reduced to its code, message and details.
+ */
+export interface ClassifiedError {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+}
+
+const NETWORK_ERROR_CODES = [
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ETIMEDOUT',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'UND_ERR_SOCKET',
+];
+
+interface ErrorLike {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    reason?: unknown;
+    cause?: { code?: unknown };
+    /** API error bodies nest the status: `{error: {code, message}}`. */
+    error?: { code?: unknown };
+}
+
+/**
+ * Classifies a thrown value: {@link CliError}s keep their code, command line
+ * parse errors are validation errors, API errors are classified by HTTP
+ * status (400 validation, 401/403 auth, 404 not found, 409/412 conflict, 429
+ * rate limit), and connection failures are network errors. Anything else is
+ * `error`.
+ */
+export function classifyError(err: unknown): ClassifiedError {
+    const message = getErrorMessage(err);
+    if (err instanceof CliError) {
+        return { code: err.code, message, details: err.details };
+    }
+    if (err instanceof CommanderError) {
+        // Commander prefixes its messages for its own output
+        return { code: 'validation', message: message.replace(/^error: /, '') };
+    }
+    if (message === AUTHENTICATION_REQUIRED_MESSAGE) {
+        return { code: 'auth', message };
+    }
+    if (typeof err !== 'object' || err === null) {
+        return { code: 'error', message };
+    }
+
+    const typed = err as ErrorLike;
+    const status = [typed.status, typed.statusCode, typed.code, typed.error?.code].find(
+        value => typeof value === 'number'
+    ) as number | undefined;
+    if (status !== undefined) {
+        const details: Record<string, unknown> = { status };
+        if (typeof typed.reason === 'string' && typed.reason !== '') {
+            details.reason = typed.reason;
+        }
+        return { code: codeForStatus(status), message, details };
+    }
+
+    const networkCode = [typed.code, typed.cause?.code].find(
+        value => typeof value === 'string' && NETWORK_ERROR_CODES.includes(value)
+    );
+    if (networkCode !== undefined) {
+        return { code: 'network', message, details: { code: networkCode } };
+    }
+    if (err instanceof TypeError && message === 'fetch failed') {
+        return { code: 'network', message };
+    }
+    return { code: 'error', message };
+}
+
+function codeForStatus(status: number): ErrorCode {
+    switch (status) {
+        case 400:
+            return 'validation';
+        case 401:
+        case 403:
+            return 'auth';
+        case 404:
+            return 'not-found';
+        case 409:
+        case 412:
+            return 'conflict';
+        case 429:
+            return 'rate-limit';
+        default:
+            return 'error';
+    }
+}
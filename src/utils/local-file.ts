@@ -1,6 +1,7 @@
 import { readFile, stat } from 'node:fs/promises';
 import mime from 'mime';
 import path from 'node:path';
+import { NotFoundError } from './errors.js';
 
 /**
  * Reads a local file from disk and returns a Bkper File payload.
@@ -18,7 +19,7 @@ export async function readLocalFilePayload(localPath: string): Promise<bkper.Fil
     } catch (err: unknown) {
         const error = err as NodeJS.ErrnoException;
         if (error.code === 'ENOENT') {
-            throw new Error(`Local file not found: ${localPath}`);
+            throw new NotFoundError('Local file', localPath);
         }
         throw new Error(`Local file is not readable: ${localPath}`);
     }
@@ -1,3 +1,4 @@
+import { ValidationError } from './validation.js';
 /**
  * Parses a property flag string in the format "key=value".
  *
@@ -11,11 +12,11 @@
 export function parsePropertyFlag(raw: string): [string, string] {
     const eqIndex = raw.indexOf('=');
     if (eqIndex === -1) {
-        throw new Error(`Invalid property format: "${raw}". Expected key=value`);
+        throw new ValidationError([`Invalid property format: "${raw}". Expected key=value`]);
     }
     const key = raw.substring(0, eqIndex);
     if (key.trim() === '') {
-        throw new Error(`Invalid property format: "${raw}". Key cannot be empty`);
+        throw new ValidationError([`Invalid property format: "${raw}". Key cannot be empty`]);
     }
     const value = raw.substring(eqIndex + 1);
     return [key, value];
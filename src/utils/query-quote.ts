@@ -0,0 +1,12 @@
+/**
+ * Quotes a value, such as an account or group name, for a Bkper query.
+ *
+ * Names are single-quoted, or double-quoted when they contain an apostrophe,
+ * e.g. `'Bank Account'` and `"Joe's Card"`.
+ *
+ * @param value - Raw name
+ * @returns The quoted query value
+ */
+export function quoteQueryValue(value: string): string {
+    return value.includes("'") ? `"${value}"` : `'${value}'`;
+}
@@ -6,13 +6,16 @@
  * that users (and agents) can fix everything in one pass.
  */
 
+import { CliError } from './errors.js';
+
 /**
  * An error that carries multiple validation messages.
  *
  * The {@link message} property joins all individual errors with newlines
- * so it renders cleanly when printed by the CLI catch block.
+ * so it renders cleanly when printed by the CLI catch block. Its code is
+ * `validation`, and the individual messages are its `errors` details.
  */
-export class ValidationError extends Error {
+export class ValidationError extends CliError {
     readonly errors: string[];
 
     constructor(errors: string[]) {
@@ -20,7 +23,7 @@ export class ValidationError extends Error {
             errors.length === 1
                 ? errors[0]
                 : 'Validation failed:\n' + errors.map(e => `  - ${e}`).join('\n');
-        super(message);
+        super('validation', message, { errors });
         this.name = 'ValidationError';
         this.errors = errors;
     }
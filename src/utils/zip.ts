@@ -0,0 +1,525 @@
+import { once } from 'node:events';
+import { open, rm } from 'node:fs/promises';
+import {
+    crc32,
+    createDeflateRaw,
+    createInflateRaw,
+    deflateRawSync,
+    inflateRawSync,
+} from 'node:zlib';
+
+/**
+ * A file to store in a zip archive.
+ */
+export interface ZipEntry {
+    /** Path inside the archive, with forward slashes. */
+    name: string;
+    data: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+// 1980-01-01 00:00, the earliest DOS date, so the same entries give the same bytes
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Builds a zip archive in memory.
+ *
+ * Entries are deflated unless that makes them larger, and carry a fixed
+ * timestamp so the archive bytes depend only on the entries. Zip64 is not
+ * supported: archives are limited to 65535 entries and 4 GiB.
+ *
+ * @param entries - Files to store, in archive order
+ * @returns The archive bytes
+ * @throws Error if the archive exceeds the zip limits or names repeat
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+    checkEntryCount(entries.length);
+
+    const names = new Set<string>();
+    const chunks: Buffer[] = [];
+    const centralHeaders: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        checkNewName(names, entry.name);
+
+        const name = Buffer.from(entry.name, 'utf8');
+        const stored = storeEntry(entry.data);
+        const record: EntryRecord = {
+            name,
+            method: stored.method,
+            checksum: crc32(entry.data),
+            storedSize: stored.data.length,
+            size: entry.data.length,
+            offset,
+        };
+        checkSizes(record);
+
+        chunks.push(localHeader(record), name, stored.data);
+        centralHeaders.push(centralHeader(record), name);
+        offset += 30 + name.length + stored.data.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralHeaders);
+    checkArchiveSize(offset + centralDirectory.length);
+    return Buffer.concat([
+        ...chunks,
+        centralDirectory,
+        endOfCentralDirectory(entries.length, centralDirectory.length, offset),
+    ]);
+}
+
+/**
+ * Writes a zip archive to a file one entry at a time, so archives larger
+ * than memory can be built. Created by {@link openZipWriter}.
+ */
+export interface ZipWriter {
+    /** Adds an entry held in memory, deflated unless that makes it larger. */
+    add(entry: ZipEntry): Promise<void>;
+    /**
+     * Adds an entry from chunks produced as the entry is written, deflated
+     * as they arrive. Only one chunk is held in memory at a time.
+     *
+     * @returns The uncompressed size of the entry
+     */
+    addStream(name: string, chunks: AsyncIterable<Buffer> | Iterable<Buffer>): Promise<number>;
+    /**
+     * Writes the central directory and closes the file.
+     *
+     * @returns The archive size in bytes
+     */
+    close(): Promise<number>;
+    /** Closes and removes the partially written file. */
+    abort(): Promise<void>;
+}
+
+/**
+ * Creates a zip archive at a path, replacing any existing file, and returns
+ * a writer to add its entries in archive order.
+ *
+ * Entries carry the same fixed timestamp as {@link createZip}. Zip64 is not
+ * supported: adding an entry fails as soon as the archive would exceed 65535
+ * entries or 4 GiB, or an entry 4 GiB.
+ *
+ * @param file - Path of the archive to write
+ */
+export async function openZipWriter(file: string): Promise<ZipWriter> {
+    const handle = await open(file, 'w');
+    const names = new Set<string>();
+    const centralHeaders: Buffer[] = [];
+    let offset = 0;
+
+    const write = async (data: Buffer, position = offset) => {
+        await handle.write(data, 0, data.length, position);
+        if (position === offset) {
+            offset += data.length;
+        }
+    };
+    const begin = (entryName: string): EntryRecord => {
+        checkEntryCount(names.size + 1);
+        checkNewName(names, entryName);
+        checkArchiveSize(offset);
+        return {
+            name: Buffer.from(entryName, 'utf8'),
+            method: METHOD_DEFLATE,
+            checksum: 0,
+            storedSize: 0,
+            size: 0,
+            offset,
+        };
+    };
+    const finish = (record: EntryRecord) => {
+        centralHeaders.push(centralHeader(record), record.name);
+    };
+
+    return {
+        async add(entry) {
+            const record = begin(entry.name);
+            const stored = storeEntry(entry.data);
+            record.method = stored.method;
+            record.checksum = crc32(entry.data);
+            record.storedSize = stored.data.length;
+            record.size = entry.data.length;
+            checkSizes(record);
+
+            await write(Buffer.concat([localHeader(record), record.name, stored.data]));
+            finish(record);
+        },
+
+        async addStream(name, chunks) {
+            const record = begin(name);
+            await write(Buffer.concat([localHeader(record), record.name]));
+
+            const deflate = createDeflateRaw();
+            const feed = (async () => {
+                for await (const chunk of chunks) {
+                    record.checksum = crc32(chunk, record.checksum);
+                    record.size += chunk.length;
+                    checkSizes(record);
+                    if (!deflate.write(chunk)) {
+                        await once(deflate, 'drain');
+                    }
+                }
+                deflate.end();
+            })();
+            feed.catch(err => deflate.destroy(err));
+
+            for await (const data of deflate as AsyncIterable<Buffer>) {
+                record.storedSize += data.length;
+                checkSizes(record);
+                await write(data);
+            }
+            await feed;
+
+            // Sizes and checksum are only known now: fill them into the local header
+            await write(localHeader(record).subarray(14, 26), record.offset + 14);
+            finish(record);
+            return record.size;
+        },
+
+        async close() {
+            const centralDirectory = Buffer.concat(centralHeaders);
+            const directoryOffset = offset;
+            checkArchiveSize(directoryOffset + centralDirectory.length);
+            await write(
+                Buffer.concat([
+                    centralDirectory,
+                    endOfCentralDirectory(names.size, centralDirectory.length, directoryOffset),
+                ])
+            );
+            await handle.close();
+            return offset;
+        },
+
+        async abort() {
+            await handle.close();
+            await rm(file, { force: true });
+        },
+    };
+}
+
+/**
+ * Header fields of one archive entry.
+ */
+interface EntryRecord {
+    name: Buffer;
+    method: number;
+    checksum: number;
+    storedSize: number;
+    size: number;
+    /** Position of the local header in the archive. */
+    offset: number;
+}
+
+function storeEntry(data: Buffer): { method: number; data: Buffer } {
+    const deflated = deflateRawSync(data);
+    return deflated.length < data.length
+        ? { method: METHOD_DEFLATE, data: deflated }
+        : { method: METHOD_STORE, data };
+}
+
+function localHeader(record: EntryRecord): Buffer {
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(record.method, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(record.checksum, 14);
+    local.writeUInt32LE(record.storedSize, 18);
+    local.writeUInt32LE(record.size, 22);
+    local.writeUInt16LE(record.name.length, 26);
+    local.writeUInt16LE(0, 28);
+    return local;
+}
+
+function centralHeader(record: EntryRecord): Buffer {
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(VERSION, 4);
+    central.writeUInt16LE(VERSION, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(record.method, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(record.checksum, 16);
+    central.writeUInt32LE(record.storedSize, 20);
+    central.writeUInt32LE(record.size, 24);
+    central.writeUInt16LE(record.name.length, 28);
+    central.writeUInt32LE(record.offset, 42);
+    return central;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(count, 8);
+    end.writeUInt16LE(count, 10);
+    end.writeUInt32LE(size, 12);
+    end.writeUInt32LE(offset, 16);
+    return end;
+}
+
+function checkEntryCount(count: number): void {
+    if (count > MAX_ENTRIES) {
+        throw new Error(`Zip archive is limited to ${MAX_ENTRIES} entries`);
+    }
+}
+
+function checkNewName(names: Set<string>, name: string): void {
+    if (names.has(name)) {
+        throw new Error(`Duplicate zip entry: ${name}`);
+    }
+    names.add(name);
+}
+
+function checkSizes(record: EntryRecord): void {
+    if (record.size > MAX_SIZE || record.storedSize > MAX_SIZE) {
+        throw new Error(`Zip entry is limited to 4 GiB: ${record.name.toString('utf8')}`);
+    }
+    checkArchiveSize(record.offset);
+}
+
+function checkArchiveSize(size: number): void {
+    if (size > MAX_SIZE) {
+        throw new Error('Zip archive is limited to 4 GiB');
+    }
+}
+
+/**
+ * Reads every file of a zip archive into memory, verifying each CRC-32.
+ *
+ * Reads stored and deflated entries without encryption or zip64, which
+ * covers archives written by {@link createZip}. Directory entries are skipped.
+ *
+ * @param archive - The archive bytes
+ * @returns Files in central directory order
+ * @throws Error if the archive is malformed or an entry is corrupt or unsupported
+ */
+export function readZip(archive: Buffer): ZipEntry[] {
+    const end = findEndOfCentralDirectory(archive);
+    const directory = archive.subarray(archive.readUInt32LE(end + 16));
+
+    return readCentralDirectory(directory, archive.readUInt16LE(end + 10)).map(record => {
+        const localOffset = record.offset;
+        if (archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`Invalid zip archive: missing local header for ${record.name}`);
+        }
+
+        const start =
+            localOffset +
+            30 +
+            archive.readUInt16LE(localOffset + 26) +
+            archive.readUInt16LE(localOffset + 28);
+        const stored = archive.subarray(start, start + record.storedSize);
+        const data =
+            record.method === METHOD_DEFLATE ? inflateRawSync(stored) : Buffer.from(stored);
+        if (crc32(data) !== record.checksum) {
+            throw new Error(`Corrupt zip entry: ${record.name}`);
+        }
+        return { name: record.name, data };
+    });
+}
+
+/**
+ * Reads the files of a zip archive on disk one at a time. Created by
+ * {@link openZipReader}.
+ */
+export interface ZipReader {
+    /** Paths of the files in the archive, in central directory order. */
+    names: string[];
+    /** Reads a whole file into memory, verifying its CRC-32. */
+    read(name: string): Promise<Buffer>;
+    /**
+     * Reads a file in chunks, inflated as they are read, so only one chunk is
+     * held in memory at a time. The CRC-32 is verified after the last chunk.
+     */
+    stream(name: string): AsyncGenerator<Buffer>;
+    /** Closes the file. */
+    close(): Promise<void>;
+}
+
+/**
+ * Opens a zip archive on disk, reading only its central directory until
+ * files are read.
+ *
+ * Reads the same entries as {@link readZip}, so archives larger than memory,
+ * such as those written by {@link openZipWriter}, can be read back.
+ *
+ * @param file - Path of the archive to read
+ * @throws Error if the file cannot be opened or the archive is malformed or unsupported
+ */
+export async function openZipReader(file: string): Promise<ZipReader> {
+    const handle = await open(file, 'r');
+    const readAt = async (position: number, length: number): Promise<Buffer> => {
+        const { bytesRead, buffer } = await handle.read(Buffer.alloc(length), 0, length, position);
+        return buffer.subarray(0, bytesRead);
+    };
+
+    let records: Map<string, CentralRecord>;
+    try {
+        const { size } = await handle.stat();
+        // The end record is 22 bytes, followed by a comment of up to 65535 bytes
+        const tailStart = Math.max(0, size - 22 - 0xffff);
+        const tail = await readAt(tailStart, size - tailStart);
+        const end = findEndOfCentralDirectory(tail);
+        const directory = await readAt(tail.readUInt32LE(end + 16), tail.readUInt32LE(end + 12));
+        records = new Map(
+            readCentralDirectory(directory, tail.readUInt16LE(end + 10)).map(record => [
+                record.name,
+                record,
+            ])
+        );
+    } catch (err) {
+        await handle.close();
+        throw err;
+    }
+
+    async function* stream(name: string): AsyncGenerator<Buffer> {
+        const record = records.get(name);
+        if (!record) {
+            throw new Error(`Zip entry not found: ${name}`);
+        }
+        const local = await readAt(record.offset, 30);
+        if (local.length < 30 || local.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`Invalid zip archive: missing local header for ${name}`);
+        }
+        const start = record.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+
+        const stored = (async function* () {
+            for (let read = 0; read < record.storedSize; ) {
+                const chunk = await readAt(
+                    start + read,
+                    Math.min(READ_CHUNK_SIZE, record.storedSize - read)
+                );
+                if (chunk.length === 0) {
+                    throw new Error(`Invalid zip archive: ${name} is truncated`);
+                }
+                read += chunk.length;
+                yield chunk;
+            }
+        })();
+
+        let chunks: AsyncIterable<Buffer> = stored;
+        let feed: Promise<void> | undefined;
+        if (record.method === METHOD_DEFLATE) {
+            const inflate = createInflateRaw();
+            feed = (async () => {
+                for await (const chunk of stored) {
+                    if (!inflate.write(chunk)) {
+                        await once(inflate, 'drain');
+                    }
+                }
+                inflate.end();
+            })();
+            feed.catch(err => inflate.destroy(err));
+            chunks = inflate;
+        }
+
+        let checksum = 0;
+        for await (const chunk of chunks) {
+            checksum = crc32(chunk, checksum);
+            yield chunk;
+        }
+        await feed;
+        if (checksum !== record.checksum) {
+            throw new Error(`Corrupt zip entry: ${name}`);
+        }
+    }
+
+    return {
+        names: [...records.keys()],
+
+        async read(name) {
+            const chunks: Buffer[] = [];
+            for await (const chunk of stream(name)) {
+                chunks.push(chunk);
+            }
+            return Buffer.concat(chunks);
+        },
+
+        stream,
+
+        async close() {
+            await handle.close();
+        },
+    };
+}
+
+/**
+ * Central directory fields of one file entry.
+ */
+interface CentralRecord {
+    name: string;
+    method: number;
+    checksum: number;
+    storedSize: number;
+    /** Position of the local header in the archive. */
+    offset: number;
+}
+
+/**
+ * Parses the file entries of a central directory, skipping directories and
+ * rejecting encrypted entries and compression methods other than store and
+ * deflate.
+ */
+function readCentralDirectory(directory: Buffer, count: number): CentralRecord[] {
+    const records: CentralRecord[] = [];
+    let offset = 0;
+    for (let i = 0; i < count; i++) {
+        if (
+            offset + 46 > directory.length ||
+            directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE
+        ) {
+            throw new Error('Invalid zip archive: malformed central directory');
+        }
+        const flags = directory.readUInt16LE(offset + 8);
+        const method = directory.readUInt16LE(offset + 10);
+        const nameLength = directory.readUInt16LE(offset + 28);
+        const extraLength = directory.readUInt16LE(offset + 30);
+        const commentLength = directory.readUInt16LE(offset + 32);
+        const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+        const record: CentralRecord = {
+            name,
+            method,
+            checksum: directory.readUInt32LE(offset + 16),
+            storedSize: directory.readUInt32LE(offset + 20),
+            offset: directory.readUInt32LE(offset + 42),
+        };
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) {
+            continue;
+        }
+        if (flags & 0x1) {
+            throw new Error(`Unsupported zip entry: ${name} is encrypted`);
+        }
+        if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+            throw new Error(`Unsupported zip entry: ${name} uses compression method ${method}`);
+        }
+        records.push(record);
+    }
+    return records;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+    // The record is 22 bytes, followed by a comment of up to 65535 bytes
+    const last = archive.length - 22;
+    for (let offset = last; offset >= 0 && offset >= last - 0xffff; offset--) {
+        if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            return offset;
+        }
+    }
+    throw new Error('Invalid zip archive: end of central directory not found');
+}
@@ -1,7 +1,15 @@
 import { expect, setupTestEnvironment } from '../helpers/test-setup.js';
 import sinon from 'sinon';
 import { BkperError } from 'bkper-js';
-import { withAction } from '../../../src/commands/action.js';
+import { InvalidArgumentError, program } from 'commander';
+import { exitWithError, withAction } from '../../../src/commands/action.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+import { confirm } from '../../../src/utils/confirm.js';
+import { parseIdList } from '../../../src/input/id-list.js';
+import { parseStdinContent } from '../../../src/input/item-stream.js';
+import { removeSchedule } from '../../../src/commands/schedules/remove.js';
+import { loadStatements } from '../../../src/commands/transactions/import/import.js';
+import { ValidationError } from '../../../src/utils/validation.js';
 
 describe('commands/action', function () {
     beforeEach(function () {
@@ -10,11 +18,14 @@ describe('commands/action', function () {
 
     afterEach(function () {
         sinon.restore();
+        program.setOptionValue('json', undefined);
+        program.setOptionValue('format', undefined);
+        program.setOptionValue('out', undefined);
     });
 
     it('should print API message for unauthorized errors without stack trace', async function () {
         const consoleErrorStub = sinon.stub(console, 'error');
-        const exitError = new Error('process.exit(1)');
+        const exitError = new Error('process.exit(3)');
         const processExitStub = sinon.stub(process, 'exit').throws(exitError);
 
         const action = withAction(
@@ -33,16 +44,14 @@ describe('commands/action', function () {
         }
 
         expect(
-            consoleErrorStub.calledOnceWithExactly(
-                'Error listing books: Invalid or expired token'
-            )
+            consoleErrorStub.calledOnceWithExactly('Error listing books: Invalid or expired token')
         ).to.be.true;
-        expect(processExitStub.calledWith(1)).to.be.true;
+        expect(processExitStub.calledWith(3)).to.be.true;
     });
 
     it('should print API message for forbidden bkper-js errors without stack trace', async function () {
         const consoleErrorStub = sinon.stub(console, 'error');
-        const exitError = new Error('process.exit(1)');
+        const exitError = new Error('process.exit(3)');
         const processExitStub = sinon.stub(process, 'exit').throws(exitError);
 
         const action = withAction(
@@ -65,12 +74,12 @@ describe('commands/action', function () {
                 "Error syncing app: You don't have access to this app"
             )
         ).to.be.true;
-        expect(processExitStub.calledWith(1)).to.be.true;
+        expect(processExitStub.calledWith(3)).to.be.true;
     });
 
     it('should print API message for app access 401 errors without login guidance', async function () {
         const consoleErrorStub = sinon.stub(console, 'error');
-        const exitError = new Error('process.exit(1)');
+        const exitError = new Error('process.exit(3)');
         const processExitStub = sinon.stub(process, 'exit').throws(exitError);
 
         const action = withAction(
@@ -97,12 +106,12 @@ describe('commands/action', function () {
                 'Error syncing app: User test-user not a developer or owner of App inventory-bot'
             )
         ).to.be.true;
-        expect(processExitStub.calledWith(1)).to.be.true;
+        expect(processExitStub.calledWith(3)).to.be.true;
     });
 
     it('should print API message for bkper-js login required errors', async function () {
         const consoleErrorStub = sinon.stub(console, 'error');
-        const exitError = new Error('process.exit(1)');
+        const exitError = new Error('process.exit(3)');
         const processExitStub = sinon.stub(process, 'exit').throws(exitError);
 
         const action = withAction(
@@ -120,10 +129,9 @@ describe('commands/action', function () {
             expect(err).to.equal(exitError);
         }
 
-        expect(
-            consoleErrorStub.calledOnceWithExactly('Error listing books: Login Required.')
-        ).to.be.true;
-        expect(processExitStub.calledWith(1)).to.be.true;
+        expect(consoleErrorStub.calledOnceWithExactly('Error listing books: Login Required.')).to.be
+            .true;
+        expect(processExitStub.calledWith(3)).to.be.true;
     });
 
     it('should print plain error messages without stack trace', async function () {
@@ -153,4 +161,136 @@ describe('commands/action', function () {
         ).to.be.true;
         expect(processExitStub.calledWith(1)).to.be.true;
     });
+
+    it('should exit with the code of the error kind', async function () {
+        sinon.stub(console, 'error');
+        const processExitStub = sinon.stub(process, 'exit').throws(new Error('process.exit'));
+
+        const errors: unknown[] = [
+            new ValidationError(['--book is required']),
+            new NotFoundError('Transaction', 'tx-1'),
+            new BkperError(429, 'Rate limit exceeded'),
+        ];
+        for (const error of errors) {
+            const action = withAction(
+                'getting transaction',
+                async () => {
+                    throw error;
+                },
+                { skipSetup: true }
+            );
+            await action().catch(() => undefined);
+        }
+
+        expect(processExitStub.args.map(args => args[0])).to.deep.equal([2, 4, 6]);
+    });
+
+    it('should write errors to stderr as JSON with --json', async function () {
+        program.setOptionValue('json', true);
+        const consoleErrorStub = sinon.stub(console, 'error');
+        const processExitStub = sinon.stub(process, 'exit').throws(new Error('process.exit(4)'));
+
+        const action = withAction(
+            'getting transaction',
+            async () => {
+                throw new NotFoundError('Transaction', 'tx-1');
+            },
+            { skipSetup: true }
+        );
+        await action().catch(() => undefined);
+
+        expect(JSON.parse(consoleErrorStub.firstCall.args[0])).to.deep.equal({
+            error: {
+                code: 'not-found',
+                message: 'Transaction not found: tx-1',
+                details: { resource: 'Transaction', id: 'tx-1' },
+            },
+        });
+        expect(processExitStub.calledWith(4)).to.be.true;
+    });
+
+    it('should write errors as JSON with --format ndjson', async function () {
+        program.setOptionValue('format', 'ndjson');
+        const consoleErrorStub = sinon.stub(console, 'error');
+        sinon.stub(process, 'exit').throws(new Error('process.exit(1)'));
+
+        const action = withAction(
+            'listing books',
+            async () => {
+                throw new Error('Something went wrong');
+            },
+            { skipSetup: true }
+        );
+        await action().catch(() => undefined);
+
+        expect(
+            consoleErrorStub.calledOnceWithExactly(
+                '{"error":{"code":"error","message":"Something went wrong","details":null}}'
+            )
+        ).to.be.true;
+    });
+
+    it('should reject --out unless the command writes a file', async function () {
+        program.setOptionValue('out', 'books.txt');
+        const consoleErrorStub = sinon.stub(console, 'error');
+        const processExitStub = sinon.stub(process, 'exit').throws(new Error('process.exit(2)'));
+        let ran = false;
+        const run = async () => {
+            ran = true;
+        };
+
+        await withAction('listing books', run, { skipSetup: true })().catch(() => undefined);
+
+        expect(ran).to.be.false;
+        expect(consoleErrorStub.firstCall.args[0]).to.contain('--out only applies to');
+        expect(processExitStub.calledWith(2)).to.be.true;
+
+        await withAction('exporting book', run, { skipSetup: true, writesOutFile: true })();
+        expect(ran).to.be.true;
+    });
+
+    it('should report command line parse errors as validation errors', function () {
+        const consoleErrorStub = sinon.stub(console, 'error');
+        const processExitStub = sinon.stub(process, 'exit').throws(new Error('process.exit(2)'));
+
+        expect(() =>
+            exitWithError(new InvalidArgumentError('Value must be a positive integer'))
+        ).to.throw('process.exit(2)');
+
+        expect(consoleErrorStub.calledOnceWithExactly('Error: Value must be a positive integer')).to
+            .be.true;
+        expect(processExitStub.calledWith(2)).to.be.true;
+    });
+
+    it('should exit with the code of the failure of each command path', async function () {
+        sinon.stub(console, 'error');
+        const processExitStub = sinon.stub(process, 'exit').throws(new Error('process.exit'));
+        const isTTY = process.stdin.isTTY;
+        process.stdin.isTTY = false as any;
+
+        const failures: Array<() => unknown> = [
+            () => parseStdinContent('{"id": '),
+            () => parseIdList('{"id": "tx-1", }'),
+            () => confirm('Trash 3 transactions?'),
+            () => removeSchedule('missing-schedules.yaml', 'rent'),
+            () => loadStatements({ file: 'missing-statement.ofx' }),
+            () => Promise.reject({ error: { code: 404, message: 'Book not found: abc' } }),
+        ];
+        try {
+            for (const failure of failures) {
+                const action = withAction(
+                    'running command',
+                    async () => {
+                        await failure();
+                    },
+                    { skipSetup: true }
+                );
+                await action().catch(() => undefined);
+            }
+        } finally {
+            process.stdin.isTTY = isTTY;
+        }
+
+        expect(processExitStub.args.map(args => args[0])).to.deep.equal([2, 2, 2, 4, 4, 4]);
+    });
 });
@@ -0,0 +1,203 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+
+// Import after mock setup
+const { compareBalances, toComparisonRows } = await import(
+    '../../../../src/commands/balances/compare.js'
+);
+
+function container(name: string, children: unknown[] = []) {
+    return {
+        getName: () => name,
+        isFromAccount: () => children.length === 0,
+        getBalancesContainers: () => children,
+    };
+}
+
+describe('balances compare', function () {
+    let queries: string[];
+    let builderCalls: string[];
+    let totalsByQuery: Record<string, unknown[][]>;
+    let bookIds: string[];
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        queries = [];
+        builderCalls = [];
+        bookIds = [];
+        totalsByQuery = {
+            "group:'P&L' after:2025-03-01 before:2025-04-01": [
+                ['Sales', 150],
+                ['Rent', 80],
+            ],
+            "group:'P&L' after:2025-02-01 before:2025-03-01": [
+                ['Sales', 100],
+                ['Rent', 80],
+            ],
+        };
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async (id: string) => {
+                bookIds.push(id);
+                return {
+                    getFractionDigits: () => 2,
+                    getBalancesReport: async (query: string) => {
+                        queries.push(query);
+                        const builder = {
+                            type(type: string) {
+                                builderCalls.push(`type:${type}`);
+                                return this;
+                            },
+                            period(period: boolean) {
+                                builderCalls.push(`period:${period}`);
+                                return this;
+                            },
+                            expanded() {
+                                return this;
+                            },
+                            build: () => totalsByQuery[query],
+                        };
+                        return {
+                            createDataTable: () => builder,
+                            getBalancesContainers: () => [
+                                container('P&L', [container('Sales'), container('Rent')]),
+                            ],
+                        };
+                    },
+                };
+            },
+        });
+    });
+
+    it('should query each period and compare totals per account', async function () {
+        const comparison = await compareBalances('book-123', {
+            query: "group:'P&L' after:2025-03-01 before:2025-04-01",
+            compare: ['previous-period'],
+        });
+
+        expect(queries).to.deep.equal(Object.keys(totalsByQuery));
+        expect(builderCalls).to.deep.equal([
+            'type:TOTAL',
+            'period:true',
+            'type:TOTAL',
+            'period:true',
+        ]);
+        expect(comparison.periods.map(period => period.label)).to.deep.equal([
+            '2025-03-01 to 2025-03-31',
+            '2025-02-01 to 2025-02-28',
+        ]);
+        expect(comparison.rows).to.deep.equal([
+            {
+                name: 'Sales',
+                depth: 1,
+                amounts: ['150.00', '100.00'],
+                changes: [{ amount: '50.00', percent: '50.0' }],
+            },
+            {
+                name: 'Rent',
+                depth: 1,
+                amounts: ['80.00', '80.00'],
+                changes: [{ amount: '0.00', percent: '0.0' }],
+            },
+        ]);
+    });
+
+    it('should run the current period on a budget book', async function () {
+        const comparison = await compareBalances('book-123', {
+            query: "group:'P&L' after:2025-03-01 before:2025-04-01",
+            compare: ['budget:budget-456'],
+        });
+
+        expect(bookIds).to.deep.equal(['book-123', 'budget-456']);
+        expect(queries).to.deep.equal([
+            "group:'P&L' after:2025-03-01 before:2025-04-01",
+            "group:'P&L' after:2025-03-01 before:2025-04-01",
+        ]);
+        expect(comparison.periods[1]).to.deep.equal({
+            label: 'Budget 2025-03-01 to 2025-03-31',
+            query: "group:'P&L' after:2025-03-01 before:2025-04-01",
+            bookId: 'budget-456',
+        });
+    });
+
+    it('should round totals in minor units and indent by depth', function () {
+        expect(
+            toComparisonRows(
+                [
+                    ['P&L', 0.30000000000000004],
+                    ['Sales', 1e-7],
+                    ['Rent', '-12.345'],
+                ],
+                2,
+                new Map([
+                    ['P&L', [{ kind: 'group' as const, depth: 0 }]],
+                    ['Sales', [{ kind: 'account' as const, depth: 1 }]],
+                ])
+            )
+        ).to.deep.equal([
+            { key: 'group:P&L', name: 'P&L', depth: 0, amount: '0.30' },
+            { key: 'account:Sales', name: 'Sales', depth: 1, amount: '0.00' },
+            { key: 'account:Rent', name: 'Rent', depth: 0, amount: '-12.35' },
+        ]);
+    });
+
+    it('should skip header rows of the balances matrix', function () {
+        expect(
+            toComparisonRows(
+                [
+                    ['Name', 'Balance'],
+                    ['Bank', 10.5],
+                ],
+                2
+            )
+        ).to.deep.equal([{ key: 'account:Bank', name: 'Bank', depth: 0, amount: '10.50' }]);
+    });
+
+    it('should keep a group and an account with the same name apart', async function () {
+        const totals: Record<string, unknown[][]> = {
+            'after:2025-03-01 before:2025-04-01': [
+                ['Cash', 30],
+                ['Cash', 10],
+                ['Petty', 20],
+            ],
+            'after:2025-02-01 before:2025-03-01': [
+                ['Cash', 25],
+                ['Cash', 5],
+                ['Petty', 20],
+            ],
+        };
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async () => ({
+                getFractionDigits: () => 2,
+                getBalancesReport: async (query: string) => {
+                    const builder = {
+                        type: () => builder,
+                        period: () => builder,
+                        expanded: () => builder,
+                        build: () => totals[query],
+                    };
+                    return {
+                        createDataTable: () => builder,
+                        getBalancesContainers: () => [
+                            container('Cash', [container('Cash'), container('Petty')]),
+                        ],
+                    };
+                },
+            }),
+        });
+
+        const comparison = await compareBalances('book-123', {
+            query: 'after:2025-03-01 before:2025-04-01',
+            compare: ['previous-period'],
+            expanded: 1,
+        });
+
+        expect(comparison.rows.map(row => [row.name, row.depth, ...row.amounts])).to.deep.equal([
+            ['Cash', 0, '30.00', '25.00'],
+            ['Cash', 1, '10.00', '5.00'],
+            ['Petty', 1, '20.00', '20.00'],
+        ]);
+    });
+});
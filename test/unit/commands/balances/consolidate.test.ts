@@ -0,0 +1,140 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+
+// Import after mock setup
+const { consolidateBalances, buildConsolidationMatrix } = await import(
+    '../../../../src/commands/balances/consolidate.js'
+);
+
+function amount(value: string) {
+    return { toFixed: (digits: number) => Number(value).toFixed(digits) };
+}
+
+function account(name: string, balance: string, properties: Record<string, string> = {}) {
+    return {
+        getName: () => name,
+        isFromAccount: () => true,
+        getBalancesContainers: () => null,
+        getCumulativeBalance: () => amount(balance),
+        getPeriodBalance: () => amount(balance),
+        getProperty: (key: string) => properties[key],
+    };
+}
+
+interface BookSpec {
+    name: string;
+    fractionDigits: number;
+    currency?: string;
+    accounts: unknown[];
+}
+
+describe('balances consolidate', function () {
+    let books: Record<string, BookSpec>;
+    let queries: string[];
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        queries = [];
+        books = {
+            'book-br': {
+                name: 'Brazil',
+                fractionDigits: 2,
+                currency: 'BRL',
+                accounts: [
+                    account('Banco', '100.50', { consolidation: 'Cash' }),
+                    account('Caixa', '20', { consolidation: 'Cash' }),
+                    account('Receitas', '300'),
+                ],
+            },
+            'book-us': {
+                name: 'United States',
+                fractionDigits: 2,
+                currency: 'BRL',
+                accounts: [
+                    account('Checking', '50', { consolidation: 'Cash' }),
+                    account('Sales', '10'),
+                ],
+            },
+        };
+
+        setMockBkper({
+            setConfig: () => {},
+            getCollections: async () => [
+                {
+                    getId: () => 'col-1',
+                    getName: () => 'Group Companies',
+                    getBooks: () => Object.keys(books).map(id => ({ getId: () => id })),
+                },
+            ],
+            getBook: async (id: string) =>
+                ({
+                    getId: () => id,
+                    getName: () => books[id].name,
+                    getFractionDigits: () => books[id].fractionDigits,
+                    getProperty: (key: string) =>
+                        key === 'exc_code' ? books[id].currency : undefined,
+                    getBalancesReport: async (query: string) => {
+                        queries.push(`${id}: ${query}`);
+                        return { getBalancesContainers: () => books[id].accounts };
+                    },
+                } as any),
+        });
+    });
+
+    it('should run the query on every book of the collection', async function () {
+        await consolidateBalances('col-1', { query: 'before:2026-01-01' });
+        expect(queries).to.deep.equal(['book-br: before:2026-01-01', 'book-us: before:2026-01-01']);
+    });
+
+    it('should align accounts by name with one column per book and a total', async function () {
+        const consolidation = await consolidateBalances('col-1', { query: 'before:2026-01-01' });
+
+        expect(consolidation.warnings).to.be.empty;
+        expect(buildConsolidationMatrix(consolidation)).to.deep.equal([
+            ['Account', 'Brazil', 'United States', 'Total'],
+            ['Banco', '100.50', '0.00', '100.50'],
+            ['Caixa', '20.00', '0.00', '20.00'],
+            ['Checking', '0.00', '50.00', '50.00'],
+            ['Receitas', '300.00', '0.00', '300.00'],
+            ['Sales', '0.00', '10.00', '10.00'],
+        ]);
+    });
+
+    it('should align accounts by a mapping property, falling back to the name', async function () {
+        const consolidation = await consolidateBalances('col-1', {
+            query: 'before:2026-01-01',
+            mappingProperty: 'consolidation',
+        });
+
+        expect(consolidation.rows).to.deep.equal([
+            { account: 'Cash', balances: ['120.50', '50.00'], total: '170.50' },
+            { account: 'Receitas', balances: ['300.00', '0.00'], total: '300.00' },
+            { account: 'Sales', balances: ['0.00', '10.00'], total: '10.00' },
+        ]);
+    });
+
+    it('should warn when books differ in fraction digits or currency', async function () {
+        books['book-us'].fractionDigits = 0;
+        books['book-us'].currency = 'USD';
+
+        const consolidation = await consolidateBalances('col-1', { query: 'before:2026-01-01' });
+
+        expect(consolidation.warnings).to.deep.equal([
+            'Books have different fraction digits (Brazil: 2, United States: 0); totals use 2.',
+            'Books have different currencies (Brazil: BRL, United States: USD); totals add amounts without conversion.',
+        ]);
+        expect(consolidation.rows.find(row => row.account === 'Checking')?.balances).to.deep.equal([
+            '0.00',
+            '50.00',
+        ]);
+    });
+
+    it('should throw when the collection is not found', async function () {
+        try {
+            await consolidateBalances('nope', { query: 'before:2026-01-01' });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Collection not found: nope');
+        }
+    });
+});
@@ -0,0 +1,47 @@
+import { expect } from '../../helpers/test-setup.js';
+import {
+    parseQueryPeriod,
+    replaceQueryPeriod,
+} from '../../../../src/commands/balances/query-period.js';
+
+describe('balances query period', function () {
+    describe('parseQueryPeriod', function () {
+        it('should read inclusive boundaries from after: and before:', function () {
+            expect(
+                parseQueryPeriod("group:'P&L' after:2025-01-01 before:2026-01-01")
+            ).to.deep.equal({
+                from: '2025-01-01',
+                to: '2025-12-31',
+            });
+        });
+
+        it('should read on: years, months and days as points in time', function () {
+            expect(parseQueryPeriod('on:2025')).to.deep.equal({ to: '2025-12-31' });
+            expect(parseQueryPeriod('on:2024-02')).to.deep.equal({ to: '2024-02-29' });
+            expect(parseQueryPeriod('on:2025-06-15')).to.deep.equal({ to: '2025-06-15' });
+        });
+
+        it('should reject date variables and queries without an end date', function () {
+            expect(() => parseQueryPeriod('after:$m-1 before:$m')).to.throw(
+                '--compare requires ISO dates in the query, found after:$m-1'
+            );
+            expect(() => parseQueryPeriod("group:'Assets' after:2025-01-01")).to.throw(
+                '--compare requires a before: or on: date in the query'
+            );
+        });
+    });
+
+    describe('replaceQueryPeriod', function () {
+        it('should replace the date operators and keep the rest of the query', function () {
+            expect(
+                replaceQueryPeriod("group:'P&L' after:2025-01-01 before:2026-01-01", {
+                    from: '2024-01-01',
+                    to: '2024-12-31',
+                })
+            ).to.equal("group:'P&L' after:2024-01-01 before:2025-01-01");
+            expect(replaceQueryPeriod("on:2025 group:'Assets'", { to: '2024-12-31' })).to.equal(
+                "group:'Assets' before:2025-01-01"
+            );
+        });
+    });
+});
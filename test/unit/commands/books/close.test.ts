@@ -0,0 +1,260 @@
+import sinon from 'sinon';
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import {
+    buildClosingChecks,
+    buildClosingEntries,
+    buildClosingMatrix,
+    closeBook,
+    formatClosingReport,
+    parseClosingPeriod,
+    type ClosingReport,
+} from '../../../../src/commands/books/close.js';
+
+describe('book close', function () {
+    it('should parse years, quarters and months', function () {
+        expect(parseClosingPeriod('2025')).to.deep.equal({
+            label: '2025',
+            start: '2025-01-01',
+            end: '2025-12-31',
+        });
+        expect(parseClosingPeriod('2024-q1')).to.deep.equal({
+            label: '2024-Q1',
+            start: '2024-01-01',
+            end: '2024-03-31',
+        });
+        expect(parseClosingPeriod('2024-02')).to.deep.equal({
+            label: '2024-02',
+            start: '2024-02-01',
+            end: '2024-02-29',
+        });
+        for (const invalid of ['25', '2025-13', '2025-Q5', '2025-H1']) {
+            expect(() => parseClosingPeriod(invalid)).to.throw(`Invalid period: ${invalid}`);
+        }
+    });
+
+    it('should close each income and expense balance into retained earnings', function () {
+        const { entries, netIncome } = buildClosingEntries(
+            [
+                { account: 'Sales', type: 'INCOMING', debit: '100.00', credit: '5100.00' },
+                { account: 'Rent', type: 'OUTGOING', debit: '1200.00', credit: '0.00' },
+                { account: 'Fees', type: 'OUTGOING', debit: '10.00', credit: '10.00' },
+                { account: 'Interest', type: 'INCOMING', debit: '0.00', credit: '12.34' },
+            ],
+            'Retained Earnings',
+            2
+        );
+
+        expect(entries).to.deep.equal([
+            {
+                account: 'Interest',
+                type: 'INCOMING',
+                balance: '-12.34',
+                from: 'Retained Earnings',
+                to: 'Interest',
+                amount: '12.34',
+            },
+            {
+                account: 'Rent',
+                type: 'OUTGOING',
+                balance: '1200.00',
+                from: 'Rent',
+                to: 'Retained Earnings',
+                amount: '1200.00',
+            },
+            {
+                account: 'Sales',
+                type: 'INCOMING',
+                balance: '-5000.00',
+                from: 'Retained Earnings',
+                to: 'Sales',
+                amount: '5000.00',
+            },
+        ]);
+        expect(netIncome).to.equal('3812.34');
+    });
+
+    it('should block closing on drafts and unchecked transactions, except closing entries', function () {
+        expect(
+            buildClosingChecks([
+                { id: 'a', posted: true, checked: true },
+                { id: 'b', posted: false },
+                { id: 'c', posted: true, checked: false },
+                { id: 'd', posted: true, properties: { closing_period: '2025' } },
+            ])
+        ).to.deep.equal({ drafts: 1, unchecked: 1, passed: false });
+        expect(buildClosingChecks([{ id: 'a', posted: true, checked: true }]).passed).to.be.true;
+    });
+
+    it('should report the entries, the net income and the outcome', function () {
+        const report: ClosingReport = {
+            book: 'Acme',
+            period: { label: '2025', start: '2025-01-01', end: '2025-12-31' },
+            retainedEarnings: 'Retained Earnings',
+            dryRun: true,
+            cancelled: false,
+            closed: false,
+            checks: { drafts: 0, unchecked: 0, passed: true },
+            entries: [
+                {
+                    account: 'Sales',
+                    type: 'INCOMING',
+                    balance: '-5000.00',
+                    from: 'Retained Earnings',
+                    to: 'Sales',
+                    amount: '5000.00',
+                },
+            ],
+            netIncome: '5000.00',
+            closingDate: '2024-12-31',
+            lockDate: '2024-12-31',
+        };
+
+        expect(buildClosingMatrix(report)).to.deep.equal([
+            ['Account', 'Type', 'Balance', 'From', 'To', 'Amount'],
+            ['Sales', 'INCOMING', '-5000.00', 'Retained Earnings', 'Sales', '5000.00'],
+            ['Net income', '', '', '', '', '5000.00'],
+        ]);
+        expect(formatClosingReport(report)).to.equal(
+            'Dry run: would create 1 closing entry moving net income 5000.00 into Retained Earnings, and close Acme through 2025-12-31.'
+        );
+        expect(
+            formatClosingReport({
+                ...report,
+                dryRun: false,
+                closed: true,
+                closingDate: '2025-12-31',
+                lockDate: '2026-01-31',
+            }).split('\n')
+        ).to.deep.equal([
+            'Created 1 closing entry moving net income 5000.00 into Retained Earnings.',
+            'Closed Acme through 2025-12-31 (lock date 2026-01-31).',
+        ]);
+        expect(
+            formatClosingReport({ ...report, checks: { drafts: 2, unchecked: 3, passed: false } })
+        ).to.include('Cannot close 2025: 2 draft(s) and 3 unchecked transaction(s)');
+    });
+
+    describe('closeBook', function () {
+        let balancesQueries: string[];
+        let created: bkper.Transaction[][];
+        let settings: string[];
+        let transactions: bkper.Transaction[];
+
+        const container = (name: string, debit: number, credit: number) => ({
+            isFromAccount: () => true,
+            getName: () => name,
+            getPeriodDebit: () => debit,
+            getPeriodCredit: () => credit,
+        });
+
+        beforeEach(function () {
+            setupTestEnvironment();
+            sinon.stub(console, 'error');
+            balancesQueries = [];
+            created = [];
+            settings = [];
+            transactions = [{ id: 'sale', posted: true, checked: true }];
+            const book = {
+                json: () => ({ closingDate: '2024-12-31', lockDate: '2024-12-31' }),
+                getName: () => 'Acme',
+                getFractionDigits: () => 2,
+                getAccount: async () => ({
+                    getName: () => 'Retained Earnings',
+                    getType: () => 'LIABILITY',
+                }),
+                getAccounts: async () =>
+                    [
+                        ['Sales', 'INCOMING'],
+                        ['Rent', 'OUTGOING'],
+                        ['Bank', 'ASSET'],
+                    ].map(([name, type]) => ({ getName: () => name, getType: () => type })),
+                listTransactions: async () => ({
+                    getItems: () => transactions.map(json => ({ json: () => json })),
+                    getCursor: () => undefined,
+                    getAccount: async () => undefined,
+                }),
+                getBalancesReport: async (query: string) => {
+                    balancesQueries.push(query);
+                    return {
+                        getBalancesContainers: () => [
+                            container('Sales', 0, 5000),
+                            container('Rent', 1200, 0),
+                            container('Bank', 3800, 0),
+                        ],
+                    };
+                },
+                batchCreateTransactions: async (batch: { json: () => bkper.Transaction }[]) => {
+                    created.push(batch.map(tx => tx.json()));
+                    return batch;
+                },
+                setClosingDate: (date: string) => settings.push(`closingDate ${date}`),
+                setLockDate: (date: string) => settings.push(`lockDate ${date}`),
+                update: async () => settings.push('update'),
+            };
+            setMockBkper({ setConfig: () => {}, getBook: async () => book });
+        });
+
+        afterEach(function () {
+            sinon.restore();
+        });
+
+        it('should close the period balances and move the closing and lock dates', async function () {
+            const report = await closeBook('book-1', {
+                period: '2025',
+                retainedEarnings: 'Retained Earnings',
+                yes: true,
+            });
+
+            expect(balancesQueries).to.deep.equal(['after:2025-01-01 before:2026-01-01']);
+            expect(created).to.have.length(1);
+            expect(
+                created[0].map(tx => [
+                    tx.amount,
+                    tx.creditAccount?.name,
+                    tx.debitAccount?.name,
+                    tx.remoteIds,
+                    tx.properties,
+                ])
+            ).to.deep.equal([
+                [
+                    '1200.00',
+                    'Rent',
+                    'Retained Earnings',
+                    ['closing/2025/Rent'],
+                    { closing_period: '2025' },
+                ],
+                [
+                    '5000.00',
+                    'Retained Earnings',
+                    'Sales',
+                    ['closing/2025/Sales'],
+                    { closing_period: '2025' },
+                ],
+            ]);
+            expect(created[0].every(tx => tx.date === '2025-12-31')).to.be.true;
+            expect(settings).to.deep.equal([
+                'closingDate 2025-12-31',
+                'lockDate 2025-12-31',
+                'update',
+            ]);
+            expect(report.closed).to.be.true;
+            expect(report.netIncome).to.equal('3800.00');
+        });
+
+        it('should change nothing when the checks fail', async function () {
+            transactions = [{ id: 'draft', posted: false }];
+
+            const report = await closeBook('book-1', {
+                period: '2025',
+                retainedEarnings: 'Retained Earnings',
+                yes: true,
+            });
+
+            expect(report.checks.passed).to.be.false;
+            expect(report.closed).to.be.false;
+            expect(created).to.deep.equal([]);
+            expect(settings).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,188 @@
+import sinon from 'sinon';
+import { Command } from 'commander';
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import { registerBookCommands } from '../../../../src/commands/books/register.js';
+import {
+    buildBookDiff,
+    formatBookDiff,
+    type BookStructure,
+} from '../../../../src/commands/books/diff.js';
+
+describe('book diff', function () {
+    const template: BookStructure = {
+        id: 'book-a',
+        name: 'Template',
+        settings: { fractionDigits: '2', datePattern: 'dd/MM/yyyy', lockDate: undefined },
+        properties: { country: 'BR', code_prefix: 'T' },
+        coa: {
+            groups: [
+                { name: 'Assets', properties: { report: 'balance' } },
+                { name: 'Bank Accounts', parent: 'Assets' },
+                { name: 'Expenses' },
+            ],
+            accounts: [
+                { name: 'Checking', type: 'ASSET', groups: ['Assets', 'Bank Accounts'] },
+                { name: 'Rent', type: 'OUTGOING', groups: ['Expenses'] },
+            ],
+        },
+    };
+
+    it('should report no differences for books with the same structure', function () {
+        const diff = buildBookDiff(template, { ...template, id: 'book-b', name: 'Copy' });
+
+        expect(diff.identical).to.be.true;
+        expect(diff.differences).to.deep.equal([]);
+        expect(formatBookDiff(diff)).to.equal(
+            [
+                '--- Template (book-a)',
+                '+++ Copy (book-b)',
+                'No differences: the books have the same structure.',
+            ].join('\n')
+        );
+    });
+
+    it('should list settings, properties, groups and accounts that differ', function () {
+        const diff = buildBookDiff(template, {
+            id: 'book-b',
+            name: 'Client',
+            settings: { fractionDigits: '0', datePattern: 'dd/MM/yyyy', lockDate: '2026-01-31' },
+            properties: { country: 'BR', tax_id: '123' },
+            coa: {
+                groups: [
+                    { name: 'Assets', properties: { report: 'cash' } },
+                    { name: 'Bank Accounts', hidden: true },
+                    { name: 'Income' },
+                ],
+                accounts: [
+                    { name: 'Checking', type: 'ASSET', groups: ['Assets'], archived: true },
+                    { name: 'Sales', type: 'INCOMING' },
+                ],
+            },
+        });
+
+        expect(diff.identical).to.be.false;
+        expect(diff.differences).to.deep.equal([
+            { section: 'settings', name: 'fractionDigits', status: 'changed', from: '2', to: '0' },
+            { section: 'settings', name: 'lockDate', status: 'added', to: '2026-01-31' },
+            { section: 'properties', name: 'code_prefix', status: 'removed', from: 'T' },
+            { section: 'properties', name: 'tax_id', status: 'added', to: '123' },
+            {
+                section: 'groups',
+                name: 'Assets',
+                status: 'changed',
+                changes: [{ field: 'properties.report', from: 'balance', to: 'cash' }],
+            },
+            {
+                section: 'groups',
+                name: 'Bank Accounts',
+                status: 'changed',
+                changes: [
+                    { field: 'hidden', to: 'true' },
+                    { field: 'parent', from: 'Assets' },
+                ],
+            },
+            { section: 'groups', name: 'Expenses', status: 'removed' },
+            { section: 'groups', name: 'Income', status: 'added' },
+            {
+                section: 'accounts',
+                name: 'Checking',
+                status: 'changed',
+                changes: [
+                    { field: 'archived', to: 'true' },
+                    { field: 'groups', from: 'Assets, Bank Accounts', to: 'Assets' },
+                ],
+            },
+            { section: 'accounts', name: 'Rent', status: 'removed' },
+            { section: 'accounts', name: 'Sales', status: 'added' },
+        ]);
+
+        expect(formatBookDiff(diff).split('\n')).to.deep.equal([
+            '--- Template (book-a)',
+            '+++ Client (book-b)',
+            '@@ settings @@',
+            '- fractionDigits: 2',
+            '+ fractionDigits: 0',
+            '+ lockDate: 2026-01-31',
+            '@@ properties @@',
+            '- code_prefix: T',
+            '+ tax_id: 123',
+            '@@ groups @@',
+            '~ Assets',
+            '-   properties.report: balance',
+            '+   properties.report: cash',
+            '~ Bank Accounts',
+            '+   hidden: true',
+            '-   parent: Assets',
+            '- Expenses',
+            '+ Income',
+            '@@ accounts @@',
+            '~ Checking',
+            '+   archived: true',
+            '-   groups: Assets, Bank Accounts',
+            '+   groups: Assets',
+            '- Rent',
+            '+ Sales',
+            '11 difference(s).',
+        ]);
+    });
+
+    it('should color the report only when asked to', function () {
+        const diff = buildBookDiff(template, {
+            ...template,
+            properties: { country: 'PT', code_prefix: 'T' },
+        });
+
+        expect(formatBookDiff(diff)).not.to.contain('\u001b[');
+        const colored = formatBookDiff(diff, true);
+        expect(colored).to.contain('\u001b[31m- country: BR');
+        expect(colored).to.contain('\u001b[32m+ country: PT');
+    });
+
+    describe('book diff command', function () {
+        const mockBook = (id: string, properties: Record<string, string>) => ({
+            json: () => ({ id, name: id, fractionDigits: 2, properties }),
+            getId: () => id,
+            getName: () => id,
+            getGroups: async () => [{ json: () => ({ id: 'g1', name: 'Assets' }) }],
+            getAccounts: async () => [
+                { json: () => ({ id: 'a1', name: 'Bank', type: 'ASSET', groups: [{ id: 'g1' }] }) },
+            ],
+        });
+
+        async function runDiff(books: Record<string, ReturnType<typeof mockBook>>) {
+            setMockBkper({ setConfig: () => {}, getBook: async (id: string) => books[id] });
+            const program = new Command();
+            registerBookCommands(program);
+            await program.parseAsync(['book', 'diff', 'book-a', 'book-b'], { from: 'user' });
+        }
+
+        beforeEach(function () {
+            setupTestEnvironment();
+            sinon.stub(console, 'log');
+        });
+
+        afterEach(function () {
+            sinon.restore();
+            process.exitCode = undefined;
+        });
+
+        it('should exit with the differences code when the books differ', async function () {
+            await runDiff({
+                'book-a': mockBook('book-a', { country: 'BR' }),
+                'book-b': mockBook('book-b', { country: 'PT' }),
+            });
+
+            expect(process.exitCode).to.equal(8);
+        });
+
+        it('should exit cleanly when the books match', async function () {
+            await runDiff({
+                'book-a': mockBook('book-a', { country: 'BR' }),
+                'book-b': mockBook('book-b', { country: 'BR' }),
+            });
+
+            expect(process.exitCode).to.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { inflateRawSync } from 'node:zlib';
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+
+const { exportBook, sortGroupsParentFirst } = await import(
+    '../../../../src/commands/books/export.js'
+);
+
+function readEntries(archive: Buffer): Map<string, Buffer> {
+    const entries = new Map<string, Buffer>();
+    let offset = 0;
+    while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const method = archive.readUInt16LE(offset + 8);
+        const storedSize = archive.readUInt32LE(offset + 18);
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+        const start = offset + 30 + nameLength;
+        const stored = archive.subarray(start, start + storedSize);
+        entries.set(name, method === 8 ? inflateRawSync(stored) : Buffer.from(stored));
+        offset = start + storedSize;
+    }
+    return entries;
+}
+
+function mockPage<T>(items: T[], cursor?: string) {
+    return { getItems: () => items, getCursor: () => cursor, getAccount: async () => undefined };
+}
+
+describe('CLI - book export Command', function () {
+    let dir: string;
+    let queries: string[];
+
+    const transaction = (id: string) => ({ getId: () => id, json: () => ({ id }) });
+    const file = (id: string, content: string) => ({
+        getId: () => id,
+        json: () => ({ id, name: `${id}.txt`, content: 'c2hvdWxkIG5vdCBsZWFr' }),
+        getContent: async () => Buffer.from(content).toString('base64'),
+    });
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        dir = mkdtempSync(path.join(os.tmpdir(), 'bkper-export-'));
+        queries = [];
+
+        const book = {
+            getId: () => 'book-1',
+            getName: () => 'Acme',
+            json: () => ({
+                id: 'book-1',
+                name: 'Acme',
+                properties: { exc_code: 'USD' },
+                accounts: [{ id: 'should-not-be-exported' }],
+                groups: [{ id: 'should-not-be-exported' }],
+            }),
+            getGroups: async () => [
+                { json: () => ({ id: 'g2', name: 'Cash', parent: { id: 'g1', name: 'Assets' } }) },
+                { json: () => ({ id: 'g1', name: 'Assets' }) },
+            ],
+            getAccounts: async () => [
+                { json: () => ({ id: 'a2', name: 'Sales' }) },
+                { json: () => ({ id: 'a1', name: 'Bank' }) },
+            ],
+            listTransactions: async (query: string, _limit?: number, cursor?: string) => {
+                queries.push(`${query}|${cursor || ''}`);
+                if (query === 'is:trashed') {
+                    return mockPage([transaction('t3')]);
+                }
+                return cursor
+                    ? mockPage([transaction('t2')])
+                    : mockPage([transaction('t1')], 'next');
+            },
+            listFiles: async (_limit: number, cursor?: string) =>
+                cursor ? mockPage([file('f2', 'second')]) : mockPage([file('f1', 'first')], 'p2'),
+        };
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async () => book,
+        });
+    });
+
+    afterEach(function () {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write every part of the book with a manifest', async function () {
+        const out = path.join(dir, 'book.zip');
+        const result = await exportBook('book-1', { out });
+
+        const entries = readEntries(readFileSync(out));
+        expect([...entries.keys()]).to.deep.equal([
+            'book.json',
+            'groups.json',
+            'accounts.json',
+            'transactions.ndjson',
+            'files.ndjson',
+            'manifest.json',
+        ]);
+
+        const bookJson = JSON.parse(entries.get('book.json')!.toString());
+        expect(bookJson).to.deep.equal({
+            id: 'book-1',
+            name: 'Acme',
+            properties: { exc_code: 'USD' },
+        });
+        const groups = JSON.parse(entries.get('groups.json')!.toString());
+        expect(groups.map((group: { id: string }) => group.id)).to.deep.equal(['g1', 'g2']);
+        const accounts = JSON.parse(entries.get('accounts.json')!.toString());
+        expect(accounts.map((account: { id: string }) => account.id)).to.deep.equal(['a1', 'a2']);
+        expect(entries.get('transactions.ndjson')!.toString()).to.equal(
+            '{"id":"t1"}\n{"id":"t2"}\n{"id":"t3"}\n'
+        );
+        expect(entries.get('files.ndjson')!.toString()).to.equal(
+            '{"id":"f1","name":"f1.txt"}\n{"id":"f2","name":"f2.txt"}\n'
+        );
+        expect(queries).to.deep.equal(['|', '|next', 'is:trashed|']);
+
+        const manifest = JSON.parse(entries.get('manifest.json')!.toString());
+        expect(manifest).to.deep.equal(result.manifest);
+        expect(manifest.format).to.equal('bkper-book-export');
+        expect(manifest.formatVersion).to.equal(1);
+        expect(manifest.book).to.deep.equal({ id: 'book-1', name: 'Acme' });
+        expect(manifest.counts).to.deep.equal({
+            groups: 2,
+            accounts: 2,
+            transactions: 3,
+            files: 2,
+            fileContents: 0,
+        });
+        for (const entry of manifest.entries) {
+            const data = entries.get(entry.path)!;
+            expect(entry.size).to.equal(data.length);
+            expect(entry.sha256).to.equal(createHash('sha256').update(data).digest('hex'));
+        }
+    });
+
+    it('should include file contents when requested', async function () {
+        const out = path.join(dir, 'book.zip');
+        const result = await exportBook('book-1', { out, includeFiles: true });
+
+        const entries = readEntries(readFileSync(out));
+        expect(entries.get('files/f1')!.toString()).to.equal('first');
+        expect(entries.get('files/f2')!.toString()).to.equal('second');
+        expect(result.manifest.counts.fileContents).to.equal(2);
+    });
+
+    describe('sortGroupsParentFirst', function () {
+        it('should place parents before children, siblings by name', function () {
+            const sorted = sortGroupsParentFirst([
+                { id: 'c', name: 'Receivables', parent: { id: 'a' } },
+                { id: 'b', name: 'Liabilities' },
+                { id: 'd', name: 'Bank', parent: { id: 'a' } },
+                { id: 'a', name: 'Assets' },
+                { id: 'e', name: 'Orphan', parent: { id: 'missing' } },
+            ]);
+            expect(sorted.map(group => group.id)).to.deep.equal(['a', 'd', 'c', 'b', 'e']);
+        });
+    });
+});
@@ -0,0 +1,301 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import { createZip } from '../../../../src/utils/zip.js';
+
+const { importBook, readBookArchive, readArchivedTransactions, buildRestoredTransactionPayload } =
+    await import('../../../../src/commands/books/import.js');
+
+interface ArchiveContent {
+    formatVersion?: number;
+    transactions?: bkper.Transaction[];
+    tamper?: boolean;
+}
+
+function writeArchive(file: string, content: ArchiveContent = {}): void {
+    const json = (value: unknown) => Buffer.from(`${JSON.stringify(value, null, 2)}\n`);
+    const entries = [
+        { name: 'book.json', data: json({ id: 'old-book', name: 'Acme', fractionDigits: 2 }) },
+        {
+            name: 'groups.json',
+            data: json([
+                { id: 'g1', name: 'Assets' },
+                { id: 'g2', name: 'Cash', parent: { id: 'g1' } },
+            ]),
+        },
+        {
+            name: 'accounts.json',
+            data: json([{ id: 'a1', name: 'Bank', type: 'ASSET', groups: [{ id: 'g2' }] }]),
+        },
+        {
+            name: 'transactions.ndjson',
+            data: Buffer.from(
+                (content.transactions || []).map(tx => `${JSON.stringify(tx)}\n`).join('')
+            ),
+        },
+        { name: 'files.ndjson', data: Buffer.from('') },
+    ];
+    const manifest = {
+        format: 'bkper-book-export',
+        formatVersion: content.formatVersion ?? 1,
+        exportedAt: '2026-10-01T00:00:00.000Z',
+        book: { id: 'old-book', name: 'Acme' },
+        counts: { groups: 2, accounts: 1, transactions: 0, files: 0, fileContents: 0 },
+        entries: entries.map(entry => ({
+            path: entry.name,
+            size: entry.data.length,
+            sha256: createHash('sha256').update(entry.data).digest('hex'),
+        })),
+    };
+    if (content.tamper) {
+        entries[2].data = json([{ id: 'a1', name: 'Tampered' }]);
+    }
+    writeFileSync(file, createZip([{ name: 'manifest.json', data: json(manifest) }, ...entries]));
+}
+
+describe('CLI - book import Command', function () {
+    let dir: string;
+    let archive: string;
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        dir = mkdtempSync(path.join(os.tmpdir(), 'bkper-import-'));
+        archive = path.join(dir, 'book.zip');
+    });
+
+    afterEach(function () {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('readBookArchive', function () {
+        it('should read the archived book, groups, accounts and transactions', async function () {
+            writeArchive(archive, { transactions: [{ id: 't1', amount: '10' }] });
+
+            const result = await readBookArchive(archive);
+            expect(result.book.name).to.equal('Acme');
+            expect(result.groups.map(group => group.id)).to.deep.equal(['g1', 'g2']);
+            expect(result.accounts.map(account => account.name)).to.deep.equal(['Bank']);
+            const chunks: bkper.Transaction[][] = [];
+            for await (const chunk of readArchivedTransactions(archive)) {
+                chunks.push(chunk);
+            }
+            expect(chunks).to.deep.equal([[{ id: 't1', amount: '10' }]]);
+        });
+
+        it('should read the transactions in batches of 100, skipping those replayed', async function () {
+            const transactions = Array.from({ length: 250 }, (_, i) => ({ id: `t${i + 1}` }));
+            writeArchive(archive, { transactions });
+
+            const chunks: string[][] = [];
+            for await (const chunk of readArchivedTransactions(archive, 120)) {
+                chunks.push(chunk.map(tx => tx.id || ''));
+            }
+            expect(chunks.map(chunk => chunk.length)).to.deep.equal([100, 30]);
+            expect(chunks[0][0]).to.equal('t121');
+            expect(chunks[1][29]).to.equal('t250');
+        });
+
+        it('should reject archives from a newer format version', async function () {
+            writeArchive(archive, { formatVersion: 2 });
+            try {
+                await readBookArchive(archive);
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal(
+                    'Unsupported book archive version 2 (this CLI reads up to 1)'
+                );
+            }
+        });
+
+        it('should reject entries that do not match the manifest', async function () {
+            writeArchive(archive, { tamper: true });
+            try {
+                await readBookArchive(archive);
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal(
+                    'Book archive checksum mismatch: accounts.json'
+                );
+            }
+        });
+    });
+
+    describe('buildRestoredTransactionPayload', function () {
+        it('should remap accounts and keep the archived ID as a remote ID', function () {
+            const payload = buildRestoredTransactionPayload(
+                {
+                    id: 't1',
+                    date: '2026-01-15',
+                    amount: '125.50',
+                    description: 'Rent #office',
+                    creditAccount: { id: 'a1', name: 'Bank' },
+                    debitAccount: { id: 'gone', name: 'Rent' },
+                    properties: { ref: 'R-1' },
+                    remoteIds: ['bank-1'],
+                    posted: true,
+                    checked: true,
+                },
+                { a1: 'new-a1' }
+            );
+
+            expect(payload).to.deep.equal({
+                date: '2026-01-15',
+                amount: '125.50',
+                description: 'Rent #office',
+                creditAccount: { id: 'new-a1' },
+                debitAccount: { name: 'Rent' },
+                properties: { ref: 'R-1' },
+                remoteIds: ['bank-1', 't1'],
+            });
+        });
+    });
+
+    describe('importBook', function () {
+        it('should resume transaction batches from the progress file', async function () {
+            const transactions = [
+                { id: 't1', amount: '1', creditAccount: { id: 'a1' }, posted: true },
+                { id: 't2', amount: '2', creditAccount: { id: 'a1' }, posted: true, checked: true },
+                { id: 't3', amount: '3', creditAccount: { id: 'a1' }, trashed: true },
+            ];
+            writeArchive(archive, { transactions });
+
+            const manifest = (await readBookArchive(archive)).manifest;
+            const progressPath = `${archive}.progress.json`;
+            writeFileSync(
+                progressPath,
+                JSON.stringify({
+                    archive: createHash('sha256').update(JSON.stringify(manifest)).digest('hex'),
+                    name: 'Acme',
+                    bookId: 'new-book',
+                    groups: { g1: 'new-g1', g2: 'new-g2' },
+                    accounts: { a1: 'new-a1' },
+                    transactions: 1,
+                })
+            );
+
+            const created: number[] = [];
+            const calls: string[] = [];
+            const mockTransaction = (id: string) => ({
+                getId: () => id,
+                isPosted: () => false,
+                isChecked: () => false,
+                isTrashed: () => false,
+            });
+            const book = {
+                getId: () => 'new-book',
+                batchCreateTransactions: async (items: unknown[]) => {
+                    created.push(items.length);
+                    return [mockTransaction('n2'), mockTransaction('n3')];
+                },
+                batchPostTransactions: async (items: { getId(): string }[]) => {
+                    calls.push(`post:${items.map(tx => tx.getId()).join(',')}`);
+                },
+                batchCheckTransactions: async (items: { getId(): string }[]) => {
+                    calls.push(`check:${items.map(tx => tx.getId()).join(',')}`);
+                },
+                batchTrashTransactions: async (items: { getId(): string }[]) => {
+                    calls.push(`trash:${items.map(tx => tx.getId()).join(',')}`);
+                },
+            };
+            setMockBkper({
+                setConfig: () => {},
+                getBook: async (bookId: string) => {
+                    expect(bookId).to.equal('new-book');
+                    return book;
+                },
+            });
+
+            const originalError = console.error;
+            console.error = () => {};
+            let result;
+            try {
+                result = await importBook(archive);
+            } finally {
+                console.error = originalError;
+            }
+
+            expect(created).to.deep.equal([2]);
+            expect(calls).to.deep.equal(['post:n2', 'check:n2', 'trash:n3']);
+            expect(result).to.deep.equal({
+                bookId: 'new-book',
+                name: 'Acme',
+                resumed: true,
+                counts: { groups: 2, accounts: 1, transactions: 3 },
+            });
+            expect(existsSync(progressPath)).to.equal(false);
+        });
+
+        it('should resume past several batches without replaying them', async function () {
+            const transactions = Array.from({ length: 230 }, (_, i) => ({
+                id: `t${i + 1}`,
+                amount: '1',
+                creditAccount: { id: 'a1' },
+            }));
+            writeArchive(archive, { transactions });
+
+            const manifest = (await readBookArchive(archive)).manifest;
+            const progressPath = `${archive}.progress.json`;
+            writeFileSync(
+                progressPath,
+                JSON.stringify({
+                    archive: createHash('sha256').update(JSON.stringify(manifest)).digest('hex'),
+                    name: 'Acme',
+                    bookId: 'new-book',
+                    groups: { g1: 'new-g1', g2: 'new-g2' },
+                    accounts: { a1: 'new-a1' },
+                    transactions: 100,
+                })
+            );
+
+            const batches: string[][] = [];
+            const saved: number[] = [];
+            const book = {
+                getId: () => 'new-book',
+                batchCreateTransactions: async (items: { json(): bkper.Transaction }[]) => {
+                    batches.push(items.map(tx => tx.json().remoteIds?.[0] || ''));
+                    saved.push(JSON.parse(readFileSync(progressPath, 'utf8')).transactions);
+                    return items.map(() => ({
+                        isPosted: () => false,
+                        isChecked: () => false,
+                        isTrashed: () => false,
+                    }));
+                },
+            };
+            setMockBkper({ setConfig: () => {}, getBook: async () => book });
+
+            const originalError = console.error;
+            console.error = () => {};
+            let result;
+            try {
+                result = await importBook(archive);
+            } finally {
+                console.error = originalError;
+            }
+
+            expect(batches.map(batch => batch.length)).to.deep.equal([100, 30]);
+            expect(batches[0][0]).to.equal('t101');
+            expect(batches[1][29]).to.equal('t230');
+            expect(saved).to.deep.equal([100, 200]);
+            expect(result?.counts.transactions).to.equal(230);
+        });
+
+        it('should refuse a progress file from another archive', async function () {
+            writeArchive(archive);
+            const progressPath = path.join(dir, 'progress.json');
+            writeFileSync(progressPath, JSON.stringify({ archive: 'other', name: 'Acme' }));
+
+            try {
+                await importBook(archive, { progress: progressPath });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal(
+                    `Progress file ${progressPath} belongs to another archive: delete it to start over`
+                );
+            }
+            expect(JSON.parse(readFileSync(progressPath, 'utf8')).archive).to.equal('other');
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import sinon from 'sinon';
+import { Group } from 'bkper-js';
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import { applyCoa } from '../../../../src/commands/coa/apply.js';
+
+describe('chart of accounts apply', function () {
+    let originalCreate: typeof Group.prototype.create;
+    let createdGroups: [string | undefined, string | undefined][];
+    let calls: string[];
+
+    before(function () {
+        originalCreate = Group.prototype.create;
+    });
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        sinon.stub(console, 'error');
+        createdGroups = [];
+        calls = [];
+    });
+
+    afterEach(function () {
+        Group.prototype.create = originalCreate;
+        sinon.restore();
+    });
+
+    function mockAccount(json: bkper.Account, groups: Group[] = []) {
+        return {
+            json: () => json,
+            getName: () => json.name,
+            getGroups: async () => groups,
+            setType: (type: string) => calls.push(`${json.name} type ${type}`),
+            setArchived: (archived: boolean) => calls.push(`${json.name} archived ${archived}`),
+            setProperty: (key: string, value: string) =>
+                calls.push(`${json.name} property ${key}=${value}`),
+            deleteProperty: (key: string) => calls.push(`${json.name} delete ${key}`),
+            removeGroup: (group: Group) => calls.push(`${json.name} remove ${group.getName()}`),
+            addGroup: (group: Group) => calls.push(`${json.name} add ${group.getName()}`),
+        };
+    }
+
+    it('should create groups parent first, then create, update and archive accounts in batches', async function () {
+        const book: Record<string, unknown> = {};
+        const assets = new Group(book as never, { id: 'g1', name: 'Assets' });
+        const groups = new Map<string, Group>([['Assets', assets]]);
+        const accounts = new Map([
+            [
+                'Bank',
+                mockAccount({ id: 'a1', name: 'Bank', type: 'ASSET', groups: [{ id: 'g1' }] }, [
+                    assets,
+                ]),
+            ],
+            ['Old', mockAccount({ id: 'a2', name: 'Old', type: 'ASSET' })],
+        ]);
+        const batches: string[] = [];
+        Object.assign(book, {
+            getGroups: async () => [...groups.values()],
+            getGroup: async (name: string) => groups.get(name),
+            getAccounts: async () => [...accounts.values()],
+            getAccount: async (name: string) => accounts.get(name),
+            batchCreateAccounts: async (items: { json(): bkper.Account }[]) => {
+                batches.push(
+                    `create ${items
+                        .map(
+                            item =>
+                                `${item.json().name}[${item
+                                    .json()
+                                    .groups?.map(group => group.name)}]`
+                        )
+                        .join(',')}`
+                );
+                return items;
+            },
+            batchUpdateAccounts: async (items: { getName(): string }[]) => {
+                batches.push(`update ${items.map(item => item.getName()).join(',')}`);
+                return items;
+            },
+        });
+        Group.prototype.create = async function (this: Group) {
+            createdGroups.push([this.getName(), this.json().parent?.name]);
+            groups.set(this.getName() || '', this);
+            return this;
+        };
+        setMockBkper({ setConfig: () => {}, getBook: async () => book });
+
+        const result = await applyCoa(
+            'book-1',
+            {
+                groups: [
+                    { name: 'Petty Cash', parent: 'Cash' },
+                    { name: 'Cash', parent: 'Assets' },
+                    { name: 'Assets' },
+                ],
+                accounts: [
+                    { name: 'Bank', type: 'ASSET', groups: ['Cash'], properties: { code: '1' } },
+                    { name: 'Till', type: 'ASSET', groups: ['Petty Cash'] },
+                ],
+            },
+            { yes: true }
+        );
+
+        expect(result.applied).to.be.true;
+        expect(result.plan.summary).to.deep.equal({ create: 3, update: 1, archive: 1 });
+        expect(createdGroups).to.deep.equal([
+            ['Cash', 'Assets'],
+            ['Petty Cash', 'Cash'],
+        ]);
+        expect(batches).to.deep.equal(['create Till[Petty Cash]', 'update Bank,Old']);
+        expect(calls).to.deep.equal([
+            'Bank type ASSET',
+            'Bank archived false',
+            'Bank property code=1',
+            'Bank remove Assets',
+            'Bank add Cash',
+            'Old archived true',
+        ]);
+    });
+});
@@ -0,0 +1,63 @@
+import { expect } from '../../helpers/test-setup.js';
+import YAML from 'yaml';
+import { buildCoaSpec, formatCoaYaml } from '../../../../src/commands/coa/export.js';
+import { buildCoaPlan } from '../../../../src/commands/coa/plan.js';
+import { parseCoaSpec } from '../../../../src/commands/coa/spec.js';
+
+describe('chart of accounts export', function () {
+    const groups: bkper.Group[] = [
+        { id: 'g3', name: 'Receivables', parent: { id: 'g1' } },
+        { id: 'g2', name: 'Liabilities', hidden: true },
+        { id: 'g1', name: 'Assets', properties: { report: 'balance', code: '1000' } },
+        { id: 'g4', name: 'Bank Accounts', parent: { id: 'g1', name: 'Assets' } },
+    ];
+    const accounts: bkper.Account[] = [
+        {
+            id: 'a2',
+            name: 'Loan',
+            type: 'LIABILITY',
+            archived: true,
+            groups: [{ id: 'g2' }],
+        },
+        {
+            id: 'a1',
+            name: 'Checking',
+            type: 'ASSET',
+            groups: [{ id: 'g4', name: 'Bank Accounts' }, { id: 'g1' }],
+            properties: { code: '1010', bank: 'ACME' },
+        },
+    ];
+
+    it('should list groups parent first and accounts by name with sorted fields', function () {
+        expect(buildCoaSpec(groups, accounts)).to.deep.equal({
+            groups: [
+                { name: 'Assets', properties: { code: '1000', report: 'balance' } },
+                { name: 'Bank Accounts', parent: 'Assets' },
+                { name: 'Receivables', parent: 'Assets' },
+                { name: 'Liabilities', hidden: true },
+            ],
+            accounts: [
+                {
+                    name: 'Checking',
+                    type: 'ASSET',
+                    groups: ['Assets', 'Bank Accounts'],
+                    properties: { bank: 'ACME', code: '1010' },
+                },
+                { name: 'Loan', type: 'LIABILITY', groups: ['Liabilities'], archived: true },
+            ],
+        });
+    });
+
+    it('should produce the same YAML regardless of input order', function () {
+        const first = formatCoaYaml(buildCoaSpec(groups, accounts));
+        const second = formatCoaYaml(buildCoaSpec([...groups].reverse(), [...accounts].reverse()));
+        expect(second).to.equal(first);
+        expect(first).to.include('    properties:\n      bank: ACME\n      code: "1010"\n');
+    });
+
+    it('should read back as a chart of accounts with no changes to plan', function () {
+        const spec = parseCoaSpec(YAML.parse(formatCoaYaml(buildCoaSpec(groups, accounts))));
+        const plan = buildCoaPlan(spec, groups, accounts);
+        expect(plan.changes).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,144 @@
+import { expect } from '../../helpers/test-setup.js';
+import {
+    buildCoaPlan,
+    buildCoaPlanMatrix,
+    formatCoaPlanSummary,
+} from '../../../../src/commands/coa/plan.js';
+
+describe('chart of accounts plan', function () {
+    const groups: bkper.Group[] = [
+        { id: 'g1', name: 'Assets', properties: { code: '1000' } },
+        { id: 'g2', name: 'Cash', parent: { id: 'g1' } },
+        { id: 'g3', name: 'Legacy' },
+    ];
+    const accounts: bkper.Account[] = [
+        {
+            id: 'a1',
+            name: 'Bank',
+            type: 'ASSET',
+            groups: [{ id: 'g3' }],
+            properties: { code: '1' },
+        },
+        { id: 'a2', name: 'Old Account', type: 'ASSET' },
+        { id: 'a3', name: 'Archived', type: 'ASSET', archived: true },
+    ];
+
+    it('should plan creates, updates and archives', function () {
+        const plan = buildCoaPlan(
+            {
+                groups: [
+                    { name: 'Petty Cash', parent: 'Cash' },
+                    { name: 'Cash', parent: 'Assets', hidden: true },
+                    { name: 'Assets', properties: { code: '1000' } },
+                ],
+                accounts: [
+                    {
+                        name: 'Bank',
+                        type: 'ASSET',
+                        groups: ['Cash'],
+                        properties: { code: '1010', legacy: '' },
+                    },
+                    { name: 'Sales', type: 'INCOMING', properties: { code: '4000' } },
+                ],
+            },
+            groups,
+            accounts
+        );
+
+        expect(plan.changes).to.deep.equal([
+            { action: 'update', kind: 'group', name: 'Cash', details: ['hidden: false -> true'] },
+            { action: 'create', kind: 'group', name: 'Petty Cash', details: ['parent: Cash'] },
+            {
+                action: 'update',
+                kind: 'account',
+                name: 'Bank',
+                details: ['groups: +Cash -Legacy', 'properties.code: 1 -> 1010'],
+            },
+            {
+                action: 'create',
+                kind: 'account',
+                name: 'Sales',
+                details: ['type: INCOMING', 'properties.code: 4000'],
+            },
+            { action: 'archive', kind: 'account', name: 'Old Account', details: ['not in file'] },
+        ]);
+        expect(plan.summary).to.deep.equal({ create: 2, update: 2, archive: 1 });
+    });
+
+    it('should report parent, type, archive and deleted property changes', function () {
+        const plan = buildCoaPlan(
+            {
+                groups: [{ name: 'Cash' }],
+                accounts: [
+                    {
+                        name: 'Bank',
+                        type: 'LIABILITY',
+                        archived: true,
+                        properties: { code: '' },
+                    },
+                    { name: 'Old Account', type: 'ASSET' },
+                    { name: 'Archived', type: 'ASSET', archived: true },
+                ],
+            },
+            groups,
+            accounts
+        );
+
+        expect(plan.changes).to.deep.equal([
+            {
+                action: 'update',
+                kind: 'group',
+                name: 'Cash',
+                details: ['parent: Assets -> (none)'],
+            },
+            {
+                action: 'update',
+                kind: 'account',
+                name: 'Bank',
+                details: [
+                    'type: ASSET -> LIABILITY',
+                    'archived: false -> true',
+                    'properties.code: 1 -> (deleted)',
+                ],
+            },
+        ]);
+    });
+
+    it('should plan no changes when the book matches', function () {
+        const plan = {
+            bookId: 'book-1',
+            ...buildCoaPlan(
+                {
+                    groups: [{ name: 'Assets' }],
+                    accounts: [
+                        { name: 'Bank', type: 'ASSET', groups: ['Legacy'] },
+                        { name: 'Old Account', type: 'ASSET' },
+                    ],
+                },
+                groups,
+                accounts
+            ),
+        };
+
+        expect(plan.changes).to.deep.equal([]);
+        expect(buildCoaPlanMatrix(plan)).to.deep.equal([]);
+        expect(formatCoaPlanSummary(plan)).to.equal(
+            'No changes: the book matches the chart of accounts.'
+        );
+    });
+
+    it('should build a matrix and summary of the plan', function () {
+        const plan = {
+            bookId: 'book-1',
+            ...buildCoaPlan({ groups: [], accounts: [] }, [], [{ name: 'Bank', type: 'ASSET' }]),
+        };
+
+        expect(buildCoaPlanMatrix(plan)).to.deep.equal([
+            ['Action', 'Kind', 'Name', 'Changes'],
+            ['archive', 'account', 'Bank', 'not in file'],
+        ]);
+        expect(formatCoaPlanSummary(plan)).to.equal(
+            'Plan: 0 to create, 0 to update, 1 to archive.'
+        );
+    });
+});
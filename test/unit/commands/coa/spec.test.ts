@@ -0,0 +1,102 @@
+import { expect } from '../../helpers/test-setup.js';
+import YAML from 'yaml';
+import { parseCoaSpec, sortCoaGroupsParentFirst } from '../../../../src/commands/coa/spec.js';
+import { ValidationError } from '../../../../src/utils/validation.js';
+
+function expectErrors(raw: unknown): string[] {
+    try {
+        parseCoaSpec(raw);
+    } catch (err: unknown) {
+        expect(err).to.be.instanceOf(ValidationError);
+        return (err as ValidationError).errors;
+    }
+    return expect.fail('Should have thrown');
+}
+
+describe('chart of accounts spec', function () {
+    it('should parse groups and accounts from YAML', function () {
+        const spec = parseCoaSpec(
+            YAML.parse(`
+groups:
+  - name: Assets
+    properties:
+      code: 1000
+  - name: Cash
+    parent: Assets
+    hidden: true
+accounts:
+  - name: Bank
+    type: asset
+    groups: [Cash]
+    properties:
+      code: 1010
+      legacy: ''
+`)
+        );
+
+        expect(spec).to.deep.equal({
+            groups: [
+                { name: 'Assets', properties: { code: '1000' } },
+                { name: 'Cash', parent: 'Assets', hidden: true },
+            ],
+            accounts: [
+                {
+                    name: 'Bank',
+                    type: 'ASSET',
+                    groups: ['Cash'],
+                    properties: { code: '1010', legacy: '' },
+                },
+            ],
+        });
+    });
+
+    it('should report every problem at once', function () {
+        const errors = expectErrors({
+            groups: [{ name: 'Assets', parent: 'Missing' }, { name: 'Assets' }, { hidden: 'yes' }],
+            accounts: [{ name: 'Bank', type: 'CASH', groups: ['Other'] }],
+        });
+
+        expect(errors).to.deep.equal([
+            'groups[2].name must be a non-empty string',
+            'groups[2].hidden must be true or false',
+            'accounts[0].type must be one of ASSET, LIABILITY, INCOMING, OUTGOING',
+            'Duplicate group: Assets',
+            'group Assets: parent Missing is not a declared group',
+            'account Bank: group Other is not a declared group',
+        ]);
+    });
+
+    it('should reject parent cycles', function () {
+        const errors = expectErrors({
+            groups: [
+                { name: 'A', parent: 'B' },
+                { name: 'B', parent: 'A' },
+            ],
+        });
+        expect(errors).to.deep.equal([
+            'group A: parent chain forms a cycle',
+            'group B: parent chain forms a cycle',
+        ]);
+    });
+
+    it('should reject content that is not an object', function () {
+        expect(() => parseCoaSpec(['Assets'])).to.throw(
+            'Invalid chart of accounts: expected a YAML object'
+        );
+    });
+
+    it('should order groups parent first, keeping file order otherwise', function () {
+        const sorted = sortCoaGroupsParentFirst([
+            { name: 'Cash', parent: 'Current Assets' },
+            { name: 'Liabilities' },
+            { name: 'Current Assets', parent: 'Assets' },
+            { name: 'Assets' },
+        ]);
+        expect(sorted.map(group => group.name)).to.deep.equal([
+            'Assets',
+            'Current Assets',
+            'Cash',
+            'Liabilities',
+        ]);
+    });
+});
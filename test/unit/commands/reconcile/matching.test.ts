@@ -0,0 +1,160 @@
+import { expect } from '../../helpers/test-setup.js';
+import {
+    accountAmount,
+    matchStatementEntries,
+} from '../../../../src/commands/reconcile/matching.js';
+import type { StatementEntry } from '../../../../src/commands/transactions/import/types.js';
+
+describe('reconcile - statement matching', function () {
+    const bank = { id: 'bank', name: 'Bank' };
+    const rent = { id: 'rent', name: 'Rent' };
+    const sales = { id: 'sales', name: 'Sales' };
+
+    const transaction = (
+        id: string,
+        date: string,
+        amount: string,
+        description: string,
+        fields: Partial<bkper.Transaction> = {}
+    ): bkper.Transaction => ({
+        id,
+        date,
+        amount,
+        description,
+        creditAccount: amount.startsWith('-') ? bank : sales,
+        debitAccount: amount.startsWith('-') ? rent : bank,
+        posted: true,
+        checked: false,
+        ...fields,
+        ...(amount.startsWith('-') ? { amount: amount.slice(1) } : {}),
+    });
+
+    it('should sign amounts from the account point of view', function () {
+        expect(accountAmount(transaction('t1', '2025-01-02', '10.50', 'x'), 'bank', 2)).to.equal(
+            BigInt(1050)
+        );
+        expect(accountAmount(transaction('t2', '2025-01-02', '-10.50', 'x'), 'bank', 2)).to.equal(
+            BigInt(-1050)
+        );
+        expect(accountAmount(transaction('t3', '2025-01-02', '10', 'x'), 'other', 2)).to.be
+            .undefined;
+    });
+
+    it('should match by amount, direction and date window', function () {
+        const entries: StatementEntry[] = [
+            { date: '2025-01-05', amount: '-1200.00', description: 'LANDLORD RENT JAN' },
+            { date: '2025-01-06', amount: '1200.00', description: 'Customer payment' },
+            { date: '2025-01-20', amount: '-42.17', description: 'Coffee' },
+        ];
+        const transactions = [
+            transaction('rent', '2025-01-03', '-1200', 'Rent January'),
+            transaction('coffee', '2025-01-10', '-42.17', 'Coffee'),
+        ];
+
+        const matching = matchStatementEntries(entries, transactions, 'bank', 2);
+
+        expect(
+            matching.matches.map(match => [match.entry.date, match.transaction.id])
+        ).to.deep.equal([['2025-01-05', 'rent']]);
+        expect(matching.matches[0].days).to.equal(2);
+        expect(matching.unmatchedEntries.map(entry => entry.date)).to.deep.equal([
+            '2025-01-06',
+            '2025-01-20',
+        ]);
+        expect(matching.unmatchedTransactions.map(tx => tx.id)).to.deep.equal(['coffee']);
+    });
+
+    it('should only report unmatched transactions dated within the statement', function () {
+        const entries: StatementEntry[] = [
+            { date: '2025-01-05', amount: '-1200.00', description: 'Rent' },
+            { date: '2025-01-09', amount: '-42.17', description: 'Coffee' },
+        ];
+        const transactions = [
+            transaction('before', '2025-01-03', '-10', 'Previous statement'),
+            transaction('within', '2025-01-07', '-20', 'Fee'),
+            transaction('after', '2025-01-11', '-30', 'Next statement'),
+        ];
+
+        const matching = matchStatementEntries(entries, transactions, 'bank', 2);
+
+        expect(matching.unmatchedTransactions.map(tx => tx.id)).to.deep.equal(['within']);
+    });
+
+    it('should prefer bank references, then the closest date, then the closest description', function () {
+        const entries: StatementEntry[] = [
+            { date: '2025-01-10', amount: '-50.00', description: 'Taxi ride' },
+            { date: '2025-01-10', amount: '-50.00', description: 'Book store' },
+            { date: '2025-01-10', amount: '-50.00', description: 'Gym', remoteId: 'REF-9' },
+        ];
+        const transactions = [
+            transaction('gym', '2025-01-02', '-50', 'Monthly fee', { remoteIds: ['REF-9'] }),
+            transaction('books', '2025-01-11', '-50', 'Book store downtown'),
+            transaction('taxi', '2025-01-11', '-50', 'Taxi'),
+        ];
+
+        const matching = matchStatementEntries(entries, transactions, 'bank', 2);
+
+        expect(matching.matches.map(match => match.transaction.id)).to.deep.equal([
+            'taxi',
+            'books',
+            'gym',
+        ]);
+        expect(matching.unmatchedEntries).to.deep.equal([]);
+    });
+
+    it('should pair each transaction with one statement line only', function () {
+        const entries: StatementEntry[] = [
+            { date: '2025-01-10', amount: '-9.99', description: 'Streaming' },
+            { date: '2025-01-10', amount: '-9.99', description: 'Streaming' },
+        ];
+        const transactions = [transaction('s1', '2025-01-10', '-9.99', 'Streaming')];
+
+        const matching = matchStatementEntries(entries, transactions, 'bank', 2);
+
+        expect(matching.matches).to.have.length(1);
+        expect(matching.matches[0].entry).to.equal(entries[0]);
+        expect(matching.unmatchedEntries).to.deep.equal([entries[1]]);
+    });
+
+    it('should honor the similarity threshold and date window options', function () {
+        const entries: StatementEntry[] = [
+            { date: '2025-01-10', amount: '-20.00', description: 'Pharmacy' },
+        ];
+        const transactions = [transaction('t1', '2025-01-15', '-20', 'Groceries')];
+
+        expect(matchStatementEntries(entries, transactions, 'bank', 2).matches).to.have.length(0);
+        expect(
+            matchStatementEntries(entries, transactions, 'bank', 2, { days: 5 }).matches
+        ).to.have.length(1);
+        expect(
+            matchStatementEntries(entries, transactions, 'bank', 2, {
+                days: 5,
+                minSimilarity: 0.5,
+            }).matches
+        ).to.have.length(0);
+    });
+
+    it('should match checked transactions and drafts without listing them as unmatched', function () {
+        const entries: StatementEntry[] = [
+            { date: '2025-01-10', amount: '-30.00', description: 'Fuel' },
+            { date: '2025-01-11', amount: '-15.00', description: 'Parking', remoteId: 'P-1' },
+        ];
+        const transactions = [
+            transaction('fuel', '2025-01-10', '-30', 'Fuel', { checked: true }),
+            transaction('parking', '2025-01-11', '-15', 'Parking', {
+                posted: false,
+                debitAccount: undefined,
+                remoteIds: ['P-1'],
+            }),
+            transaction('old', '2024-12-30', '-99', 'Old', { checked: true }),
+        ];
+
+        const matching = matchStatementEntries(entries, transactions, 'bank', 2);
+
+        expect(matching.matches.map(match => match.transaction.id)).to.deep.equal([
+            'fuel',
+            'parking',
+        ]);
+        expect(matching.unmatchedTransactions).to.deep.equal([]);
+    });
+});
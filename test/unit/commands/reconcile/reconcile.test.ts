@@ -0,0 +1,285 @@
+import path from 'path';
+import sinon from 'sinon';
+import { expect, getTestPaths, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import {
+    buildReconcileLines,
+    buildReconcileMatrix,
+    formatReconcileSummary,
+    reconcile,
+    type ReconcileResult,
+} from '../../../../src/commands/reconcile/reconcile.js';
+import { matchStatementEntries } from '../../../../src/commands/reconcile/matching.js';
+import type { StatementEntry } from '../../../../src/commands/transactions/import/types.js';
+
+const { __dirname } = getTestPaths(import.meta.url);
+const fixturesDir = path.join(__dirname, '../../../fixtures/statements');
+
+describe('reconcile', function () {
+    const bank = { id: 'bank', name: 'Bank' };
+    const entries: StatementEntry[] = [
+        { date: '2025-01-03', amount: '1500.00', description: 'Salary', remoteId: 'R1' },
+        { date: '2025-01-05', amount: '-42.17', description: 'Coffee', remoteId: 'R2' },
+        { date: '2025-01-07', amount: '-9.99', description: 'Streaming', remoteId: 'R3' },
+        { date: '2025-01-09', amount: '-80.00', description: 'Fuel', remoteId: 'R4' },
+    ];
+    const transactions: bkper.Transaction[] = [
+        {
+            id: 'salary',
+            date: '2025-01-03',
+            amount: '1500',
+            description: 'Salary',
+            creditAccount: { id: 'income' },
+            debitAccount: bank,
+            posted: true,
+            checked: true,
+        },
+        {
+            id: 'coffee',
+            date: '2025-01-04',
+            amount: '42.17',
+            description: 'Coffee',
+            creditAccount: bank,
+            debitAccount: { id: 'meals' },
+            posted: true,
+        },
+        {
+            id: 'draft',
+            date: '2025-01-07',
+            amount: '9.99',
+            description: 'Streaming',
+            creditAccount: bank,
+            remoteIds: ['R3'],
+        },
+        {
+            id: 'fee',
+            date: '2025-01-06',
+            amount: '2.5',
+            description: 'Bank fee',
+            creditAccount: bank,
+            debitAccount: { id: 'fees' },
+            posted: true,
+        },
+    ];
+
+    const reconcileResult = (fields: Partial<ReconcileResult> = {}): ReconcileResult => ({
+        account: 'Bank',
+        dryRun: false,
+        cancelled: false,
+        lines: buildReconcileLines(
+            entries,
+            matchStatementEntries(entries, transactions, 'bank', 2),
+            'bank',
+            2
+        ),
+        ...fields,
+    });
+
+    it('should list statement lines in statement order, then unmatched transactions', function () {
+        expect(reconcileResult().lines).to.deep.equal([
+            {
+                status: 'already checked',
+                date: '2025-01-03',
+                amount: '1500.00',
+                description: 'Salary',
+                transactionId: 'salary',
+                remoteId: 'R1',
+            },
+            {
+                status: 'matched',
+                date: '2025-01-05',
+                amount: '-42.17',
+                description: 'Coffee',
+                transactionId: 'coffee',
+                remoteId: 'R2',
+            },
+            {
+                status: 'existing draft',
+                date: '2025-01-07',
+                amount: '-9.99',
+                description: 'Streaming',
+                transactionId: 'draft',
+                remoteId: 'R3',
+            },
+            {
+                status: 'new draft',
+                date: '2025-01-09',
+                amount: '-80.00',
+                description: 'Fuel',
+                remoteId: 'R4',
+            },
+            {
+                status: 'not in statement',
+                date: '2025-01-06',
+                amount: '-2.50',
+                description: 'Bank fee',
+                transactionId: 'fee',
+            },
+        ]);
+    });
+
+    it('should render one row per line', function () {
+        const matrix = buildReconcileMatrix(reconcileResult());
+
+        expect(matrix[0]).to.deep.equal([
+            'Status',
+            'Date',
+            'Amount',
+            'Description',
+            'Transaction ID',
+        ]);
+        expect(matrix).to.have.length(6);
+        expect(matrix[4]).to.deep.equal(['new draft', '2025-01-09', '-80.00', 'Fuel', '']);
+    });
+
+    it('should summarize changes, lines to review and the balance check', function () {
+        const balanced = reconcileResult({
+            balance: {
+                date: '2025-01-09',
+                statement: '1365.34',
+                book: '1365.34',
+                difference: '0.00',
+                balanced: true,
+            },
+        });
+        expect(formatReconcileSummary(balanced).split('\n')).to.deep.equal([
+            'Checked 1 transaction(s) and created 1 draft(s) on Bank.',
+            '2 statement line(s) were already checked or drafted.',
+            '1 unchecked transaction(s) are not in the statement.',
+            'Closing balance on 2025-01-09 agrees: statement 1365.34, book 1365.34.',
+        ]);
+
+        const dryRun = reconcileResult({
+            dryRun: true,
+            balance: {
+                date: '2025-01-09',
+                statement: '1365.34',
+                book: '1367.84',
+                difference: '-2.50',
+                balanced: false,
+            },
+        });
+        expect(formatReconcileSummary(dryRun).split('\n')).to.include.members([
+            'Dry run: would check 1 transaction(s) and create 1 draft(s) on Bank.',
+            'Closing balance on 2025-01-09 differs by -2.50: statement 1365.34, book 1367.84.',
+        ]);
+
+        expect(formatReconcileSummary(reconcileResult({ cancelled: true }))).to.include(
+            'Cancelled: no transactions were changed.'
+        );
+        expect(formatReconcileSummary(reconcileResult())).to.include('Closing balance not checked');
+    });
+
+    describe('reconcile', function () {
+        let checked: string[][];
+        let created: (bkper.Transaction & { draft?: boolean })[][];
+
+        const bookTransaction = (json: bkper.Transaction) => ({
+            json: () => json,
+            getId: () => json.id,
+        });
+
+        beforeEach(function () {
+            setupTestEnvironment();
+            sinon.stub(console, 'error');
+            checked = [];
+            created = [];
+            const book = {
+                getAccount: async () => ({ getId: () => 'bank', getName: () => 'Bank' }),
+                getFractionDigits: () => 2,
+                listTransactions: async () => ({
+                    getItems: () =>
+                        [
+                            {
+                                id: 'coffee',
+                                date: '2025-01-04',
+                                amount: '42.17',
+                                description: 'Coffee Shop',
+                                creditAccount: bank,
+                                debitAccount: { id: 'meals' },
+                                posted: true,
+                            },
+                            {
+                                id: 'fee',
+                                date: '2025-01-10',
+                                amount: '2.50',
+                                description: 'Bank fee',
+                                creditAccount: bank,
+                                debitAccount: { id: 'fees' },
+                                posted: true,
+                            },
+                            {
+                                id: 'previous',
+                                date: '2024-12-31',
+                                amount: '15.00',
+                                description: 'Previous statement',
+                                creditAccount: bank,
+                                debitAccount: { id: 'fees' },
+                                posted: true,
+                            },
+                        ].map(bookTransaction),
+                    getCursor: () => undefined,
+                    getAccount: async () => undefined,
+                }),
+                batchCheckTransactions: async (transactions: { getId: () => string }[]) => {
+                    checked.push(transactions.map(tx => tx.getId()));
+                },
+                batchCreateTransactions: async (
+                    transactions: { json: () => bkper.Transaction }[]
+                ) => {
+                    created.push(transactions.map(tx => tx.json()));
+                    return transactions.map((tx, index) =>
+                        bookTransaction({ ...tx.json(), id: `new-${index}` })
+                    );
+                },
+            };
+            setMockBkper({ setConfig: () => {}, getBook: async () => book });
+        });
+
+        afterEach(function () {
+            sinon.restore();
+        });
+
+        it('should check matched transactions and create drafts for the other lines', async function () {
+            const result = await reconcile('book-1', {
+                account: 'Bank',
+                statement: path.join(fixturesDir, 'bank-export.csv'),
+                mapping: path.join(fixturesDir, 'bank-export.mapping.yaml'),
+                yes: true,
+            });
+
+            expect(checked).to.deep.equal([['coffee']]);
+            expect(created).to.have.length(1);
+            expect(
+                created[0].map(tx => [
+                    tx.date,
+                    tx.draft,
+                    tx.creditAccount?.name,
+                    tx.debitAccount?.name,
+                ])
+            ).to.deep.equal([
+                ['2025-01-03', true, 'Salary', 'Bank'],
+                ['2025-01-20', true, 'Bank', 'Rent'],
+            ]);
+            expect(result.lines.map(line => [line.status, line.transactionId])).to.deep.equal([
+                ['new draft', 'new-0'],
+                ['matched', 'coffee'],
+                ['new draft', 'new-1'],
+                ['not in statement', 'fee'],
+            ]);
+        });
+
+        it('should change nothing on a dry run', async function () {
+            const result = await reconcile('book-1', {
+                account: 'Bank',
+                statement: path.join(fixturesDir, 'bank-export.csv'),
+                mapping: path.join(fixturesDir, 'bank-export.mapping.yaml'),
+                dryRun: true,
+            });
+
+            expect(checked).to.deep.equal([]);
+            expect(created).to.deep.equal([]);
+            expect(result.dryRun).to.be.true;
+        });
+    });
+});
@@ -0,0 +1,35 @@
+import { expect } from '../../helpers/test-setup.js';
+import { formatMinorUnits, toMinorUnits } from '../../../../src/commands/reports/amounts.js';
+
+describe('report amounts', function () {
+    describe('toMinorUnits', function () {
+        it('should convert decimals to minor units', function () {
+            expect(toMinorUnits('1234.56', 2)).to.equal(BigInt(123456));
+            expect(toMinorUnits('-12.3', 2)).to.equal(BigInt(-1230));
+            expect(toMinorUnits('7', 2)).to.equal(BigInt(700));
+        });
+
+        it('should round extra fraction digits half away from zero', function () {
+            expect(toMinorUnits('0.125', 2)).to.equal(BigInt(13));
+            expect(toMinorUnits('-0.125', 2)).to.equal(BigInt(-13));
+            expect(toMinorUnits('0.124', 2)).to.equal(BigInt(12));
+        });
+
+        it('should support books without fraction digits', function () {
+            expect(toMinorUnits('1500', 0)).to.equal(BigInt(1500));
+        });
+
+        it('should throw on invalid amounts', function () {
+            expect(() => toMinorUnits('1,234.56', 2)).to.throw('Invalid amount: 1,234.56');
+        });
+    });
+
+    describe('formatMinorUnits', function () {
+        it('should format minor units as decimals', function () {
+            expect(formatMinorUnits(BigInt(123456), 2)).to.equal('1234.56');
+            expect(formatMinorUnits(BigInt(-5), 2)).to.equal('-0.05');
+            expect(formatMinorUnits(BigInt(0), 2)).to.equal('0.00');
+            expect(formatMinorUnits(BigInt(1500), 0)).to.equal('1500');
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import { expect } from '../../helpers/test-setup.js';
+import {
+    buildComparisonMatrix,
+    compareRows,
+    parseCompareSpecs,
+    resolveComparePeriods,
+} from '../../../../src/commands/reports/compare.js';
+
+describe('report comparisons', function () {
+    describe('parseCompareSpecs', function () {
+        it('should accept repeated and comma-separated specs', function () {
+            expect(
+                parseCompareSpecs(['previous-period, previous-year', '2024-01-01..2024-12-31'])
+            ).to.deep.equal(['previous-period', 'previous-year', '2024-01-01..2024-12-31']);
+        });
+    });
+
+    describe('resolveComparePeriods', function () {
+        it('should move a month back to the previous month and year', function () {
+            expect(
+                resolveComparePeriods({ from: '2025-03-01', to: '2025-03-31' }, [
+                    'previous-period',
+                    'previous-year',
+                ])
+            ).to.deep.equal([
+                { from: '2025-02-01', to: '2025-02-28' },
+                { from: '2024-03-01', to: '2024-03-31' },
+            ]);
+        });
+
+        it('should move whole-month ranges by their number of months', function () {
+            expect(
+                resolveComparePeriods({ from: '2025-01-01', to: '2025-06-30' }, ['previous-period'])
+            ).to.deep.equal([{ from: '2024-07-01', to: '2024-12-31' }]);
+        });
+
+        it('should move other ranges by their number of days', function () {
+            expect(
+                resolveComparePeriods({ from: '2025-03-10', to: '2025-03-16' }, ['previous-period'])
+            ).to.deep.equal([{ from: '2025-03-03', to: '2025-03-09' }]);
+        });
+
+        it('should keep month-end points in time at month end', function () {
+            expect(
+                resolveComparePeriods({ to: '2025-04-30' }, ['previous-period', 'previous-year'])
+            ).to.deep.equal([{ to: '2025-03-31' }, { to: '2024-04-30' }]);
+            expect(resolveComparePeriods({ to: '2024-02-29' }, ['previous-year'])).to.deep.equal([
+                { to: '2023-02-28' },
+            ]);
+        });
+
+        it('should accept custom ranges and points in time', function () {
+            expect(
+                resolveComparePeriods({ to: '2025-12-31' }, [
+                    '2024-01-01..2024-06-30',
+                    '2023-12-31',
+                ])
+            ).to.deep.equal([{ from: '2024-01-01', to: '2024-06-30' }, { to: '2023-12-31' }]);
+        });
+
+        it('should read budget specs as the current period of a budget book', function () {
+            expect(
+                resolveComparePeriods({ from: '2025-01-01', to: '2025-06-30' }, [
+                    'budget:budget-456',
+                ])
+            ).to.deep.equal([{ from: '2025-01-01', to: '2025-06-30', budgetBookId: 'budget-456' }]);
+            expect(() => resolveComparePeriods({ to: '2025-12-31' }, ['budget:'])).to.throw(
+                'Invalid --compare period: budget:'
+            );
+        });
+
+        it('should reject unknown or reversed specs', function () {
+            expect(() => resolveComparePeriods({ to: '2025-12-31' }, ['last-month'])).to.throw(
+                'Invalid --compare period: last-month'
+            );
+            expect(() =>
+                resolveComparePeriods({ to: '2025-12-31' }, ['2025-12-31..2025-01-01'])
+            ).to.throw('Invalid --compare period: 2025-12-31..2025-01-01');
+        });
+    });
+
+    describe('compareRows', function () {
+        it('should line up rows by key and compute changes against each period', function () {
+            const rows = compareRows(
+                [
+                    [
+                        { key: 'Revenue', name: 'Revenue', depth: 0 },
+                        { key: 'Sales', name: 'Sales', depth: 1, amount: '150' },
+                        { key: 'Net', name: 'Net Income', depth: 0, amount: '-20' },
+                    ],
+                    [
+                        { key: 'Revenue', name: 'Revenue', depth: 0 },
+                        { key: 'Sales', name: 'Sales', depth: 1, amount: '100' },
+                        { key: 'Services', name: 'Services', depth: 1, amount: '40' },
+                        { key: 'Net', name: 'Net Income', depth: 0, amount: '-40' },
+                    ],
+                    [{ key: 'Sales', name: 'Sales', depth: 1, amount: '0' }],
+                ],
+                2
+            );
+
+            expect(rows).to.deep.equal([
+                { name: 'Revenue', depth: 0, amounts: [], changes: [] },
+                {
+                    name: 'Sales',
+                    depth: 1,
+                    amounts: ['150.00', '100.00', '0.00'],
+                    changes: [
+                        { amount: '50.00', percent: '50.0' },
+                        { amount: '150.00', percent: null },
+                    ],
+                },
+                {
+                    name: 'Services',
+                    depth: 1,
+                    amounts: ['0.00', '40.00', '0.00'],
+                    changes: [
+                        { amount: '-40.00', percent: '-100.0' },
+                        { amount: '0.00', percent: null },
+                    ],
+                },
+                {
+                    name: 'Net Income',
+                    depth: 0,
+                    amounts: ['-20.00', '-40.00', '0.00'],
+                    changes: [
+                        { amount: '20.00', percent: '50.0' },
+                        { amount: '-20.00', percent: null },
+                    ],
+                },
+            ]);
+        });
+    });
+
+    describe('buildComparisonMatrix', function () {
+        it('should add amount and change columns per period', function () {
+            const rows = compareRows(
+                [
+                    [
+                        { key: 'Assets', name: 'Assets', depth: 0 },
+                        { key: 'Bank', name: 'Bank', depth: 1, amount: '110' },
+                    ],
+                    [{ key: 'Bank', name: 'Bank', depth: 1, amount: '100' }],
+                ],
+                2
+            );
+
+            expect(
+                buildComparisonMatrix('Balance Sheet', ['2025-12-31', '2024-12-31'], rows)
+            ).to.deep.equal([
+                [
+                    'Balance Sheet',
+                    '2025-12-31',
+                    '2024-12-31',
+                    'Change vs 2024-12-31',
+                    'Change % vs 2024-12-31',
+                ],
+                ['Assets', '', '', '', ''],
+                ['  Bank', '110.00', '100.00', '10.00', '10.0%'],
+            ]);
+        });
+    });
+});
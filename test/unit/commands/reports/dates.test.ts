@@ -0,0 +1,17 @@
+import { expect } from '../../helpers/test-setup.js';
+import { addDays, parseIsoDate } from '../../../../src/commands/reports/dates.js';
+
+describe('report dates', function () {
+    it('should add days across month and year boundaries', function () {
+        expect(addDays('2025-01-31', 1)).to.equal('2025-02-01');
+        expect(addDays('2024-12-31', 1)).to.equal('2025-01-01');
+        expect(addDays('2024-03-01', -1)).to.equal('2024-02-29');
+    });
+
+    it('should reject dates that are not valid yyyy-mm-dd', function () {
+        expect(() => parseIsoDate('2025-02-30')).to.throw(
+            'Invalid date: 2025-02-30 (expected yyyy-mm-dd)'
+        );
+        expect(() => parseIsoDate('31/12/2025')).to.throw('Invalid date: 31/12/2025');
+    });
+});
@@ -0,0 +1,351 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+
+// Import after mock setup
+const {
+    getStatement,
+    getComparativeStatement,
+    buildStatementQuery,
+    buildStatementMatrix,
+    buildComparativeStatementMatrix,
+    buildStatementSheets,
+} = await import('../../../../src/commands/reports/statements.js');
+
+function amount(value: string) {
+    return { toFixed: (digits: number) => Number(value).toFixed(digits) };
+}
+
+function account(name: string, credit: boolean, debit: string, creditAmount: string) {
+    return {
+        getName: () => name,
+        isFromAccount: () => true,
+        isCredit: () => credit,
+        getBalancesContainers: () => null,
+        getCumulativeDebit: () => amount(debit),
+        getCumulativeCredit: () => amount(creditAmount),
+        getPeriodDebit: () => amount(debit),
+        getPeriodCredit: () => amount(creditAmount),
+    };
+}
+
+function group(name: string, credit: boolean | undefined, children: unknown[]) {
+    return {
+        getName: () => name,
+        isFromAccount: () => false,
+        isCredit: () => credit,
+        getBalancesContainers: () => children,
+    };
+}
+
+describe('CLI - report statements', function () {
+    let queries: string[];
+    let bookIds: string[];
+    let root: unknown;
+    let timezone: string;
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        queries = [];
+        bookIds = [];
+        timezone = 'America/Sao_Paulo';
+        root = group('Balance Sheet', false, [
+            group('Liabilities', true, [account('Loan', true, '200', '1000')]),
+            group('Assets', false, [
+                account('Receivables', false, '300', '0'),
+                account('Bank', false, '1500', '500'),
+            ]),
+        ]);
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async (id: string) => {
+                bookIds.push(id);
+                return {
+                    getFractionDigits: () => 2,
+                    getTimeZone: () => timezone,
+                    getGroup: async (idOrName: string) =>
+                        idOrName === 'grp-1' || idOrName === 'Balance Sheet'
+                            ? { getName: () => 'Balance Sheet' }
+                            : undefined,
+                    getBalancesReport: async (query: string) => {
+                        queries.push(query);
+                        return { getBalancesContainers: () => [root] };
+                    },
+                };
+            },
+        });
+    });
+
+    it('should query the root group by name up to and including the as-of date', async function () {
+        const statement = await getStatement('book-123', 'balance-sheet', {
+            group: 'grp-1',
+            to: '2025-12-31',
+        });
+
+        expect(queries).to.deep.equal(["group:'Balance Sheet' before:2026-01-01"]);
+        expect(statement.query).to.equal("group:'Balance Sheet' before:2026-01-01");
+        expect(statement.timezone).to.equal('America/Sao_Paulo');
+        expect(statement).to.not.have.property('from');
+    });
+
+    it('should build sorted sections with subtotals following each nature', async function () {
+        const statement = await getStatement('book-123', 'balance-sheet', {
+            group: 'Balance Sheet',
+            to: '2025-12-31',
+        });
+
+        expect(statement.sections).to.deep.equal([
+            {
+                name: 'Assets',
+                kind: 'group',
+                amount: '1300.00',
+                children: [
+                    { name: 'Bank', kind: 'account', amount: '1000.00' },
+                    { name: 'Receivables', kind: 'account', amount: '300.00' },
+                ],
+            },
+            {
+                name: 'Liabilities',
+                kind: 'group',
+                amount: '800.00',
+                children: [{ name: 'Loan', kind: 'account', amount: '800.00' }],
+            },
+        ]);
+        expect(statement.netIncome).to.equal('500.00');
+    });
+
+    it('should order names by code point, whatever the locale', async function () {
+        root = group('Balance Sheet', false, [
+            group('Assets', false, [
+                account('bank', false, '10', '0'),
+                account('Équipement', false, '10', '0'),
+                account('Zebra', false, '10', '0'),
+            ]),
+        ]);
+
+        const statement = await getStatement('book-123', 'balance-sheet', {
+            group: 'Balance Sheet',
+            to: '2025-12-31',
+        });
+
+        expect(statement.sections[0].children?.map(node => node.name)).to.deep.equal([
+            'Zebra',
+            'bank',
+            'Équipement',
+        ]);
+    });
+
+    it('should report net income as credits minus debits on an income statement', async function () {
+        root = group('Profit & Loss', false, [
+            group('Revenue', true, [account('Sales', true, '0', '900')]),
+            group('Expenses', false, [account('Rent', false, '400', '0')]),
+        ]);
+
+        const statement = await getStatement('book-123', 'income-statement', {
+            group: 'Balance Sheet',
+            from: '2025-01-01',
+            to: '2025-12-31',
+        });
+
+        expect(queries[0]).to.equal("group:'Balance Sheet' after:2025-01-01 before:2026-01-01");
+        expect(statement.from).to.equal('2025-01-01');
+        expect(statement.netIncome).to.equal('500.00');
+    });
+
+    it('should produce identical output on repeated runs', async function () {
+        const options = { group: 'Balance Sheet', to: '2025-12-31' };
+        const first = await getStatement('book-123', 'balance-sheet', options);
+        const second = await getStatement('book-123', 'balance-sheet', options);
+        expect(JSON.stringify(second)).to.equal(JSON.stringify(first));
+    });
+
+    it('should fail when the book time zone differs from --timezone', async function () {
+        try {
+            await getStatement('book-123', 'balance-sheet', {
+                group: 'Balance Sheet',
+                to: '2025-12-31',
+                timezone: 'UTC',
+            });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.include(
+                'Book time zone is America/Sao_Paulo, not UTC'
+            );
+        }
+        expect(queries).to.be.empty;
+    });
+
+    it('should fail when the group is not found', async function () {
+        try {
+            await getStatement('book-123', 'balance-sheet', { group: 'Nope', to: '2025-12-31' });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Group not found: Nope');
+        }
+    });
+
+    describe('buildStatementQuery', function () {
+        it('should require the start of an income statement period', function () {
+            expect(() =>
+                buildStatementQuery('income-statement', { group: 'P&L', to: '2025-12-31' })
+            ).to.throw('Income statement requires --from');
+        });
+
+        it('should reject a reversed period', function () {
+            expect(() =>
+                buildStatementQuery('income-statement', {
+                    group: 'P&L',
+                    from: '2025-12-01',
+                    to: '2025-11-30',
+                })
+            ).to.throw('Invalid period: --from 2025-12-01 is after --to 2025-11-30');
+        });
+    });
+
+    describe('buildStatementMatrix', function () {
+        it('should indent groups and add total and net income rows', async function () {
+            const statement = await getStatement('book-123', 'balance-sheet', {
+                group: 'Balance Sheet',
+                to: '2025-12-31',
+            });
+
+            expect(buildStatementMatrix(statement)).to.deep.equal([
+                ['Balance Sheet', '2025-12-31'],
+                ['Assets', ''],
+                ['  Bank', '1000.00'],
+                ['  Receivables', '300.00'],
+                ['Total Assets', '1300.00'],
+                ['Liabilities', ''],
+                ['  Loan', '800.00'],
+                ['Total Liabilities', '800.00'],
+                ['Net Income', '500.00'],
+            ]);
+        });
+    });
+
+    describe('buildStatementSheets', function () {
+        it('should split a statement into a summary and one sheet per section', function () {
+            const header = ['Balance Sheet', '2025-12-31'];
+            const sheets = buildStatementSheets([
+                header,
+                ['Assets', ''],
+                ['  Bank', '1000.00'],
+                ['  Current', ''],
+                ['    Cash', '10.00'],
+                ['  Total Current', '10.00'],
+                ['Total Assets', '1010.00'],
+                ['Liabilities', ''],
+                ['  Loan', '800.00'],
+                ['Total Liabilities', '800.00'],
+                ['Net Income', '210.00'],
+            ]);
+
+            expect(sheets.map(sheet => sheet.name)).to.deep.equal([
+                'Summary',
+                'Assets',
+                'Liabilities',
+            ]);
+            expect(sheets[0].matrix).to.deep.equal([
+                header,
+                ['Total Assets', '1010.00'],
+                ['Total Liabilities', '800.00'],
+                ['Net Income', '210.00'],
+            ]);
+            expect(sheets[1].matrix).to.deep.equal([
+                header,
+                ['Assets', ''],
+                ['  Bank', '1000.00'],
+                ['  Current', ''],
+                ['    Cash', '10.00'],
+                ['  Total Current', '10.00'],
+                ['Total Assets', '1010.00'],
+            ]);
+            expect(sheets[2].matrix).to.deep.equal([
+                header,
+                ['Liabilities', ''],
+                ['  Loan', '800.00'],
+                ['Total Liabilities', '800.00'],
+            ]);
+        });
+    });
+
+    describe('getComparativeStatement', function () {
+        it('should build one statement per period and compare them', async function () {
+            const statement = await getComparativeStatement(
+                'book-123',
+                'balance-sheet',
+                { group: 'Balance Sheet', to: '2025-12-31' },
+                ['previous-year']
+            );
+
+            expect(queries).to.deep.equal([
+                "group:'Balance Sheet' before:2026-01-01",
+                "group:'Balance Sheet' before:2025-01-01",
+            ]);
+            expect(statement.periods.map(period => period.label)).to.deep.equal([
+                '2025-12-31',
+                '2024-12-31',
+            ]);
+            expect(buildComparativeStatementMatrix(statement)[0]).to.deep.equal([
+                'Balance Sheet',
+                '2025-12-31',
+                '2024-12-31',
+                'Change vs 2024-12-31',
+                'Change % vs 2024-12-31',
+            ]);
+            expect(statement.rows[1]).to.deep.equal({
+                name: 'Bank',
+                depth: 1,
+                amounts: ['1000.00', '1000.00'],
+                changes: [{ amount: '0.00', percent: '0.0' }],
+            });
+        });
+
+        it('should compare with the same period of a budget book', async function () {
+            const statement = await getComparativeStatement(
+                'book-123',
+                'income-statement',
+                { group: 'grp-1', from: '2025-01-01', to: '2025-06-30' },
+                ['budget:budget-456']
+            );
+
+            expect(bookIds).to.deep.equal(['book-123', 'budget-456']);
+            expect(queries).to.deep.equal([
+                "group:'Balance Sheet' after:2025-01-01 before:2025-07-01",
+                "group:'Balance Sheet' after:2025-01-01 before:2025-07-01",
+            ]);
+            expect(statement.periods).to.deep.equal([
+                {
+                    label: '2025-01-01 to 2025-06-30',
+                    from: '2025-01-01',
+                    to: '2025-06-30',
+                    query: "group:'Balance Sheet' after:2025-01-01 before:2025-07-01",
+                },
+                {
+                    label: 'Budget 2025-01-01 to 2025-06-30',
+                    from: '2025-01-01',
+                    to: '2025-06-30',
+                    query: "group:'Balance Sheet' after:2025-01-01 before:2025-07-01",
+                    bookId: 'budget-456',
+                },
+            ]);
+        });
+
+        it('should reject point-in-time comparisons for an income statement', async function () {
+            try {
+                await getComparativeStatement(
+                    'book-123',
+                    'income-statement',
+                    { group: 'Balance Sheet', from: '2025-01-01', to: '2025-12-31' },
+                    ['2024-12-31']
+                );
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.include(
+                    'Invalid --compare period for an income statement: 2024-12-31'
+                );
+            }
+            expect(queries).to.be.empty;
+        });
+    });
+});
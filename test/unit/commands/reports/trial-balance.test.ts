@@ -0,0 +1,120 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+
+// Import after mock setup
+const { getTrialBalance, buildTrialBalance, buildTrialBalanceMatrix, formatTrialBalanceStatus } =
+    await import('../../../../src/commands/reports/trial-balance.js');
+
+function amount(value: string) {
+    return { toFixed: (digits: number) => Number(value).toFixed(digits) };
+}
+
+function accountContainer(name: string, debit: string, credit: string) {
+    return {
+        getName: () => name,
+        isFromAccount: () => true,
+        getBalancesContainers: () => null,
+        getCumulativeDebit: () => amount(debit),
+        getCumulativeCredit: () => amount(credit),
+    };
+}
+
+function groupContainer(name: string, children: unknown[]) {
+    return {
+        getName: () => name,
+        isFromAccount: () => false,
+        getBalancesContainers: () => children,
+    };
+}
+
+describe('CLI - report trial-balance', function () {
+    let queries: string[];
+    let containers: unknown[];
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        queries = [];
+        containers = [
+            groupContainer('Assets', [
+                accountContainer('Bank', '1500', '300'),
+                accountContainer('Receivables', '200', '0'),
+            ]),
+            groupContainer('Current', [accountContainer('Bank', '1500', '300')]),
+            accountContainer('Sales', '0', '1400'),
+        ];
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async () => ({
+                getFractionDigits: () => 2,
+                getBalancesReport: async (query: string) => {
+                    queries.push(query);
+                    return { getBalancesContainers: () => containers };
+                },
+            }),
+        });
+    });
+
+    it('should include the whole as-of date in the balances query', async function () {
+        await getTrialBalance('book-123', { asOf: '2025-12-31' });
+        expect(queries).to.deep.equal(['before:2026-01-01']);
+    });
+
+    it('should list each account once, netted on its side and sorted by name', async function () {
+        const trialBalance = await getTrialBalance('book-123', { asOf: '2025-12-31' });
+
+        expect(trialBalance.lines).to.deep.equal([
+            { account: 'Bank', debit: '1200.00', credit: '0.00' },
+            { account: 'Receivables', debit: '200.00', credit: '0.00' },
+            { account: 'Sales', debit: '0.00', credit: '1400.00' },
+        ]);
+        expect(trialBalance.totalDebit).to.equal('1400.00');
+        expect(trialBalance.totalCredit).to.equal('1400.00');
+        expect(trialBalance.balanced).to.be.true;
+    });
+
+    it('should reject an invalid as-of date', async function () {
+        try {
+            await getTrialBalance('book-123', { asOf: '2025-13-01' });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.include('Invalid date: 2025-13-01');
+        }
+        expect(queries).to.be.empty;
+    });
+
+    it('should report the difference when out of balance', function () {
+        const trialBalance = buildTrialBalance(
+            '2025-12-31',
+            [
+                { account: 'Bank', debit: '100.10', credit: '0' },
+                { account: 'Sales', debit: '0', credit: '100' },
+            ],
+            2
+        );
+
+        expect(trialBalance.balanced).to.be.false;
+        expect(trialBalance.difference).to.equal('0.10');
+        expect(formatTrialBalanceStatus(trialBalance)).to.equal(
+            'Trial balance as of 2025-12-31 is out of balance by 0.10.'
+        );
+    });
+
+    it('should build a matrix with blank zero sides and a totals row', function () {
+        const trialBalance = buildTrialBalance(
+            '2025-12-31',
+            [
+                { account: 'Sales', debit: '0', credit: '50' },
+                { account: 'Bank', debit: '50', credit: '0' },
+            ],
+            2
+        );
+
+        expect(buildTrialBalanceMatrix(trialBalance)).to.deep.equal([
+            ['Account', 'Debit', 'Credit'],
+            ['Bank', '50.00', ''],
+            ['Sales', '', '50.00'],
+            ['Total', '50.00', '50.00'],
+        ]);
+    });
+});
@@ -0,0 +1,108 @@
+import { expect } from '../../helpers/test-setup.js';
+import {
+    describeRule,
+    listOccurrences,
+    nextOccurrence,
+    validateRule,
+} from '../../../../src/commands/schedules/rules.js';
+
+describe('schedule rules', function () {
+    it('should repeat monthly on the start day, clamped to the end of short months', function () {
+        expect(
+            listOccurrences({ every: 'monthly', start: '2026-01-31' }, '2026-01-01', '2026-04-30')
+        ).to.deep.equal(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+        expect(
+            listOccurrences(
+                { every: 'monthly', day: 'last', start: '2024-01-01' },
+                '2024-02-01',
+                '2024-03-31'
+            )
+        ).to.deep.equal(['2024-02-29', '2024-03-31']);
+    });
+
+    it('should repeat quarterly and yearly from the start month', function () {
+        expect(
+            listOccurrences(
+                { every: 'quarterly', day: 15, start: '2026-02-01' },
+                '2026-01-01',
+                '2026-12-31'
+            )
+        ).to.deep.equal(['2026-02-15', '2026-05-15', '2026-08-15', '2026-11-15']);
+        expect(
+            listOccurrences({ every: 'yearly', start: '2025-06-30' }, '2025-01-01', '2027-12-31')
+        ).to.deep.equal(['2025-06-30', '2026-06-30', '2027-06-30']);
+    });
+
+    it('should repeat daily and weekly within the start and end dates', function () {
+        const rule = {
+            every: 'weekly' as const,
+            day: 'fri',
+            start: '2026-03-01',
+            end: '2026-03-20',
+        };
+        expect(listOccurrences(rule, '2026-01-01', '2026-12-31')).to.deep.equal([
+            '2026-03-06',
+            '2026-03-13',
+            '2026-03-20',
+        ]);
+        expect(
+            listOccurrences({ every: 'daily', start: '2026-03-01' }, '2026-03-30', '2026-04-01')
+        ).to.deep.equal(['2026-03-30', '2026-03-31', '2026-04-01']);
+    });
+
+    it('should match cron day of month, month and day of week fields', function () {
+        expect(
+            listOccurrences(
+                { cron: '0 0 1,15 */3 *', start: '2026-01-01' },
+                '2026-01-01',
+                '2026-06-30'
+            )
+        ).to.deep.equal(['2026-01-01', '2026-01-15', '2026-04-01', '2026-04-15']);
+        expect(
+            listOccurrences(
+                { cron: '0 9 * * MON-FRI', start: '2026-10-01' },
+                '2026-10-01',
+                '2026-10-06'
+            )
+        ).to.deep.equal(['2026-10-01', '2026-10-02', '2026-10-05', '2026-10-06']);
+        // Both day fields restricted: either one matches, as in cron
+        expect(
+            listOccurrences(
+                { cron: '0 0 1 feb sun', start: '2026-01-01' },
+                '2026-01-01',
+                '2026-02-10'
+            )
+        ).to.deep.equal(['2026-02-01', '2026-02-08']);
+    });
+
+    it('should find the next occurrence and stop at the end date', function () {
+        const rule = { every: 'monthly' as const, day: 1, start: '2026-01-01', end: '2026-06-30' };
+        expect(nextOccurrence(rule, '2026-03-02')).to.equal('2026-04-01');
+        expect(nextOccurrence(rule, '2026-07-01')).to.be.undefined;
+        expect(nextOccurrence({ cron: '0 0 29 2 *', start: '2025-01-01' }, '2025-01-01')).to.equal(
+            '2028-02-29'
+        );
+    });
+
+    it('should describe and validate rules', function () {
+        expect(describeRule({ every: 'monthly', day: 1, start: '2026-01-01' })).to.equal(
+            'monthly on day 1'
+        );
+        expect(describeRule({ every: 'weekly', day: 'mon', start: '2026-01-01' })).to.equal(
+            'weekly on mon'
+        );
+        expect(describeRule({ cron: '0 0 * * 1', start: '2026-01-01' })).to.equal('cron 0 0 * * 1');
+
+        expect(validateRule({ every: 'monthly', day: 32, start: '2026-01-01' })).to.have.length(1);
+        expect(
+            validateRule({ every: 'weekly', day: 'someday', start: '2026-01-01' })
+        ).to.have.length(1);
+        expect(validateRule({ cron: '0 0 * *', start: '2026-01-01' })[0]).to.include(
+            'expected 5 fields'
+        );
+        expect(validateRule({ cron: '0 0 1-40 * *', start: '2026-01-01' })[0]).to.include(
+            'bad field 1-40'
+        );
+        expect(validateRule({ every: 'daily', start: '2026-01-01' })).to.deep.equal([]);
+    });
+});
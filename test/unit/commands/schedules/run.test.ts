@@ -0,0 +1,134 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import {
+    buildOccurrencePayload,
+    listDueOccurrences,
+    runSchedules,
+    scheduleRemoteId,
+} from '../../../../src/commands/schedules/run.js';
+import type { ScheduleSpec } from '../../../../src/commands/schedules/spec.js';
+
+describe('schedule run', function () {
+    const rent: ScheduleSpec = {
+        name: 'rent',
+        every: 'monthly',
+        day: 1,
+        start: '2026-01-01',
+        amount: '1500.00',
+        from: 'Bank',
+        to: 'Rent',
+        description: 'Office rent',
+        properties: { cost_center: '10' },
+    };
+    const depreciation: ScheduleSpec = {
+        name: 'depreciation',
+        every: 'monthly',
+        day: 'last',
+        start: '2026-01-01',
+        amount: '250.00',
+        from: 'Accumulated Depreciation',
+        to: 'Depreciation',
+        draft: true,
+    };
+
+    it('should list occurrences by date, then in schedule order', function () {
+        expect(listDueOccurrences([depreciation, rent], '2026-02-01')).to.deep.equal([
+            { schedule: 'rent', date: '2026-01-01', remoteId: 'schedule/rent/2026-01-01' },
+            {
+                schedule: 'depreciation',
+                date: '2026-01-31',
+                remoteId: 'schedule/depreciation/2026-01-31',
+            },
+            { schedule: 'rent', date: '2026-02-01', remoteId: 'schedule/rent/2026-02-01' },
+        ]);
+        expect(
+            listDueOccurrences([depreciation, rent], '2026-02-28', '2026-02-02').map(
+                occurrence => occurrence.remoteId
+            )
+        ).to.deep.equal(['schedule/depreciation/2026-02-28']);
+    });
+
+    it('should build one payload per occurrence with a deterministic remote ID', function () {
+        const occurrence = {
+            schedule: 'rent',
+            date: '2026-03-01',
+            remoteId: scheduleRemoteId('rent', '2026-03-01'),
+        };
+
+        expect(buildOccurrencePayload(rent, occurrence)).to.deep.equal({
+            date: '2026-03-01',
+            amount: '1500.00',
+            description: 'Office rent',
+            remoteIds: ['schedule/rent/2026-03-01'],
+            creditAccount: { name: 'Bank' },
+            debitAccount: { name: 'Rent' },
+            properties: { cost_center: '10' },
+        });
+        expect(buildOccurrencePayload(depreciation, occurrence)).to.include({ draft: true });
+    });
+
+    describe('runSchedules', function () {
+        let queries: string[];
+        let created: (bkper.Transaction & { draft?: boolean })[];
+
+        beforeEach(function () {
+            setupTestEnvironment();
+            queries = [];
+            created = [];
+            const recorded = (remoteId: string) => ({ getRemoteIds: () => [remoteId] });
+            const book = {
+                listTransactions: async (query: string) => {
+                    queries.push(query);
+                    const items = query.startsWith('is:trashed')
+                        ? [recorded('schedule/rent/2026-02-01')]
+                        : [recorded('schedule/rent/2026-01-01'), recorded('bank-123')];
+                    return {
+                        getItems: () => items,
+                        getCursor: () => undefined,
+                        getAccount: async () => undefined,
+                    };
+                },
+                batchCreateTransactions: async (batch: { json(): bkper.Transaction }[]) => {
+                    created.push(...batch.map(tx => tx.json()));
+                    return batch;
+                },
+            };
+            setMockBkper({ setConfig: () => {}, getBook: async () => book });
+        });
+
+        it('should skip occurrences already in the book, trashed included', async function () {
+            const result = await runSchedules('book-1', [rent, depreciation], {
+                until: '2026-03-31',
+            });
+
+            expect(queries).to.deep.equal([
+                'after:2026-01-01 before:2026-04-01',
+                'is:trashed after:2026-01-01 before:2026-04-01',
+            ]);
+            expect(result.skipped.map(occurrence => occurrence.remoteId)).to.deep.equal([
+                'schedule/rent/2026-01-01',
+                'schedule/rent/2026-02-01',
+            ]);
+            expect(created.map(tx => [tx.remoteIds?.[0], tx.draft])).to.deep.equal([
+                ['schedule/depreciation/2026-01-31', true],
+                ['schedule/depreciation/2026-02-28', true],
+                ['schedule/rent/2026-03-01', undefined],
+                ['schedule/depreciation/2026-03-31', true],
+            ]);
+            expect(result.created).to.have.length(4);
+        });
+
+        it('should build the transactions without creating them on a dry run', async function () {
+            const result = await runSchedules('book-1', [rent], {
+                until: '2026-03-31',
+                dryRun: true,
+            });
+
+            expect(result.planned.map(tx => tx.remoteIds?.[0])).to.deep.equal([
+                'schedule/rent/2026-03-01',
+            ]);
+            expect(result.created).to.deep.equal([]);
+            expect(created).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,172 @@
+import { expect } from '../../helpers/test-setup.js';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import YAML from 'yaml';
+import { addSchedule } from '../../../../src/commands/schedules/add.js';
+import { removeSchedule } from '../../../../src/commands/schedules/remove.js';
+import { loadSchedules, parseSchedules } from '../../../../src/commands/schedules/spec.js';
+import { ValidationError } from '../../../../src/utils/validation.js';
+
+function expectErrors(raw: unknown): string[] {
+    try {
+        parseSchedules(raw);
+    } catch (err: unknown) {
+        expect(err).to.be.instanceOf(ValidationError);
+        return (err as ValidationError).errors;
+    }
+    return expect.fail('Should have thrown');
+}
+
+describe('schedule spec', function () {
+    let tempDir: string;
+
+    beforeEach(function () {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-'));
+    });
+
+    afterEach(function () {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should parse schedules from YAML', function () {
+        const schedules = parseSchedules(
+            YAML.parse(`
+schedules:
+  - name: rent
+    every: monthly
+    day: 1
+    start: 2026-01-01
+    amount: 1500.00
+    from: Bank
+    to: Rent
+    description: Office rent
+    properties:
+      cost_center: 10
+  - name: depreciation
+    cron: '0 0 28 * *'
+    start: 2026-01-31
+    end: 2026-12-31
+    amount: '250.00'
+    draft: true
+`)
+        );
+
+        expect(schedules).to.deep.equal([
+            {
+                name: 'rent',
+                every: 'monthly',
+                day: 1,
+                start: '2026-01-01',
+                amount: '1500',
+                from: 'Bank',
+                to: 'Rent',
+                description: 'Office rent',
+                properties: { cost_center: '10' },
+            },
+            {
+                name: 'depreciation',
+                cron: '0 0 28 * *',
+                start: '2026-01-31',
+                end: '2026-12-31',
+                amount: '250.00',
+                draft: true,
+            },
+        ]);
+        expect(parseSchedules(null)).to.deep.equal([]);
+    });
+
+    it('should report every problem at once', function () {
+        const errors = expectErrors({
+            schedules: [
+                { name: 'rent', every: 'monthly', day: 40, start: '2026-01-01', amount: '-1' },
+                { name: 'rent', every: 'hourly', start: '2026-13-01', amount: 10 },
+                { name: 'payroll', start: '2026-01-01', end: '2025-12-31', amount: 10 },
+                { every: 'daily', start: '2026-01-01', amount: 10, draft: 'yes' },
+            ],
+        });
+
+        expect(errors).to.deep.equal([
+            'schedule rent: amount must be a positive number',
+            'schedule rent: day must be a day of the month from 1 to 31, or last',
+            'schedule rent: start must be a date as yyyy-mm-dd',
+            'schedule rent: every must be one of daily, weekly, monthly, quarterly, yearly',
+            'schedule payroll: end must not be before start',
+            'schedule payroll: every or cron is required',
+            'schedules[3].name must be a non-empty string',
+            'schedules[3]: draft must be true or false',
+            'Duplicate schedule: rent',
+        ]);
+    });
+
+    it('should add and remove schedules keeping the rest of the file', async function () {
+        const file = path.join(tempDir, 'schedules.yaml');
+        fs.writeFileSync(
+            file,
+            '# Monthly entries\nschedules:\n  - name: rent # office\n    every: monthly\n    start: 2026-01-01\n    amount: 1500\n'
+        );
+
+        await addSchedule(file, {
+            name: 'payroll',
+            every: 'monthly',
+            day: 'last',
+            start: '2026-01-01',
+            amount: '8000.00',
+            from: 'Salaries Payable',
+            to: 'Salaries',
+        });
+        let content = fs.readFileSync(file, 'utf8');
+        expect(content).to.include('# Monthly entries').and.include('# office');
+        expect((await loadSchedules(file)).map(schedule => schedule.name)).to.deep.equal([
+            'rent',
+            'payroll',
+        ]);
+
+        try {
+            await addSchedule(file, {
+                name: 'rent',
+                every: 'daily',
+                start: '2026-01-01',
+                amount: '1',
+            });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Schedule already exists: rent');
+        }
+
+        await removeSchedule(file, 'rent');
+        content = fs.readFileSync(file, 'utf8');
+        expect(content).to.include('# Monthly entries').and.not.include('name: rent');
+        expect((await loadSchedules(file)).map(schedule => schedule.name)).to.deep.equal([
+            'payroll',
+        ]);
+    });
+
+    it('should create the file on first add and fail on missing files otherwise', async function () {
+        const file = path.join(tempDir, 'new.yaml');
+
+        try {
+            await loadSchedules(file);
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal(`Schedule file not found: ${file}`);
+        }
+
+        await addSchedule(file, {
+            name: 'fee',
+            every: 'monthly',
+            start: '2026-01-05',
+            amount: '9.90',
+        });
+        expect(YAML.parse(fs.readFileSync(file, 'utf8'))).to.deep.equal({
+            schedules: [{ name: 'fee', every: 'monthly', start: '2026-01-05', amount: '9.90' }],
+        });
+
+        try {
+            await removeSchedule(file, 'missing');
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Schedule not found: missing');
+        }
+    });
+});
@@ -1,5 +1,7 @@
+import { Readable } from 'node:stream';
 import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
 import { setMockBkper } from '../../helpers/mock-factory.js';
+import { openStdinItems } from '../../../../src/input/item-stream.js';
 
 // Import after mock setup
 const { batchUpdateTransactions } = await import(
@@ -95,6 +97,38 @@ describe('CLI - transaction batch-update Command', function () {
         }
     });
 
+    it('should check every id of a piped JSON array before updating any', async function () {
+        const items: Record<string, unknown>[] = Array.from({ length: 150 }, (_, i) => ({
+            id: `tx-${i}`,
+            amount: String(i + 1),
+        }));
+        delete items[120].id;
+        const input = await openStdinItems(Readable.from([JSON.stringify(items, null, 2)]));
+
+        try {
+            await batchUpdateTransactions('book-123', input!);
+            expect.fail('should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Missing required "id" field on: item[120]');
+        }
+        expect(batchCalls).to.have.length(0);
+    });
+
+    it('should report missing id fields by NDJSON line number', async function () {
+        async function* lines() {
+            yield { item: { id: 'tx-1', amount: '100' }, location: 'line 1' };
+            yield { item: { amount: '200' }, location: 'line 3' };
+        }
+
+        try {
+            await batchUpdateTransactions('book-123', lines());
+            expect.fail('should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Missing required "id" field on: line 3');
+        }
+        expect(batchCalls).to.have.length(0);
+    });
+
     it('should set properties from stdin payload', async function () {
         await batchUpdateTransactions('book-123', [
             { id: 'tx-1', date: '2024-01-15', amount: '100', properties: { category: 'travel' } },
@@ -0,0 +1,161 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+
+// Import after mock setup
+const { bulkTransactionAction, formatBulkResult, BULK_CHUNK_SIZE } = await import(
+    '../../../../src/commands/transactions/bulk.js'
+);
+
+interface MockState {
+    posted?: boolean;
+    checked?: boolean;
+    trashed?: boolean;
+}
+
+function mockTransaction(id: string, state: MockState = {}) {
+    return {
+        getId: () => id,
+        isPosted: () => state.posted ?? true,
+        isChecked: () => state.checked ?? false,
+        isTrashed: () => state.trashed ?? false,
+    };
+}
+
+describe('CLI - bulk transaction actions', function () {
+    let mockBook: any;
+    let transactions: any[];
+    let batchCalls: Record<string, string[][]>;
+    let queries: string[];
+    let requestedIds: string[][];
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        batchCalls = {};
+        queries = [];
+        requestedIds = [];
+        transactions = [
+            mockTransaction('tx-1'),
+            mockTransaction('tx-2', { checked: true }),
+            mockTransaction('tx-3', { posted: false }),
+        ];
+
+        const recordBatch = (name: string) => async (items: any[]) => {
+            (batchCalls[name] ||= []).push(items.map(tx => tx.getId()));
+        };
+
+        mockBook = {
+            listTransactions: async (query: string) => {
+                queries.push(query);
+                return {
+                    getItems: () => transactions,
+                    getAccount: async () => undefined,
+                    getCursor: () => undefined,
+                };
+            },
+            getTransactionsByIds: async (ids: string[]) => {
+                requestedIds.push(ids);
+                return transactions.filter(tx => ids.includes(tx.getId()));
+            },
+            batchCheckTransactions: recordBatch('check'),
+            batchUncheckTransactions: recordBatch('uncheck'),
+            batchTrashTransactions: recordBatch('trash'),
+            batchUntrashTransactions: recordBatch('untrash'),
+            batchPostTransactions: recordBatch('post'),
+        };
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async () => mockBook,
+        });
+    });
+
+    it('should check the eligible transactions matching a query', async function () {
+        const result = await bulkTransactionAction('book-123', 'check', {
+            query: 'after:2025-01-01',
+            yes: true,
+        });
+
+        expect(queries).to.deep.equal(['after:2025-01-01']);
+        expect(batchCalls.check).to.deep.equal([['tx-1']]);
+        expect(result.matched).to.equal(3);
+        expect(result.ids).to.deep.equal(['tx-1']);
+        expect(result.skipped).to.deep.equal([
+            { id: 'tx-2', reason: 'already checked' },
+            { id: 'tx-3', reason: 'draft' },
+        ]);
+    });
+
+    it('should resolve explicit IDs with a single lookup', async function () {
+        const result = await bulkTransactionAction('book-123', 'post', {
+            ids: ['tx-3', 'tx-1'],
+            yes: true,
+        });
+
+        expect(requestedIds).to.deep.equal([['tx-3', 'tx-1']]);
+        expect(batchCalls.post).to.deep.equal([['tx-3']]);
+        expect(result.skipped).to.deep.equal([{ id: 'tx-1', reason: 'already posted' }]);
+    });
+
+    it('should throw when an explicit ID is not found', async function () {
+        try {
+            await bulkTransactionAction('book-123', 'trash', { ids: ['tx-1', 'nope'], yes: true });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Transaction not found: nope');
+        }
+    });
+
+    it('should send transactions in chunks', async function () {
+        transactions = Array.from({ length: BULK_CHUNK_SIZE + 5 }, (_, i) =>
+            mockTransaction(`tx-${i}`, { trashed: true })
+        );
+
+        const result = await bulkTransactionAction('book-123', 'untrash', {
+            query: 'is:trashed',
+            yes: true,
+        });
+
+        expect(batchCalls.untrash.map(chunk => chunk.length)).to.deep.equal([BULK_CHUNK_SIZE, 5]);
+        expect(result.ids).to.have.length(BULK_CHUNK_SIZE + 5);
+    });
+
+    it('should not change anything on a dry run', async function () {
+        const result = await bulkTransactionAction('book-123', 'uncheck', {
+            query: 'is:checked',
+            dryRun: true,
+        });
+
+        expect(batchCalls).to.deep.equal({});
+        expect(result.dryRun).to.be.true;
+        expect(result.ids).to.deep.equal(['tx-2']);
+        expect(formatBulkResult(result)).to.equal(
+            'Dry run: would uncheck 1 of 3 transaction(s), 2 skipped (not checked: 2).'
+        );
+    });
+
+    it('should require confirmation when not interactive and --yes is missing', async function () {
+        const isTTY = process.stdin.isTTY;
+        process.stdin.isTTY = false as any;
+        try {
+            await bulkTransactionAction('book-123', 'trash', { query: 'after:2025-01-01' });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.include('re-run with --yes');
+            expect(batchCalls).to.deep.equal({});
+        } finally {
+            process.stdin.isTTY = isTTY;
+        }
+    });
+
+    it('should skip checked transactions when trashing', async function () {
+        const result = await bulkTransactionAction('book-123', 'trash', {
+            query: 'after:2025-01-01',
+            yes: true,
+        });
+
+        expect(batchCalls.trash).to.deep.equal([['tx-1', 'tx-3']]);
+        expect(formatBulkResult(result)).to.equal(
+            'Trashed 2 transaction(s), 1 skipped (checked: 1).'
+        );
+    });
+});
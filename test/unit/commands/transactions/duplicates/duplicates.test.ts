@@ -0,0 +1,117 @@
+import { expect, setupTestEnvironment } from '../../../helpers/test-setup.js';
+import { setMockBkper } from '../../../helpers/mock-factory.js';
+
+// Import after mock setup
+const { findDuplicateTransactions, findDuplicateTransactionsFormatted } = await import(
+    '../../../../../src/commands/transactions/duplicates/duplicates.js'
+);
+
+function mockTransaction(json: bkper.Transaction) {
+    return { getId: () => json.id, json: () => json };
+}
+
+describe('CLI - transaction duplicates Command', function () {
+    let queries: string[];
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        queries = [];
+
+        const items = [
+            mockTransaction({
+                id: 'tx-1',
+                date: '2025-01-05',
+                amount: '42.17',
+                description: 'Coffee Shop',
+                creditAccount: { id: 'bank', name: 'Bank' },
+                debitAccount: { id: 'food', name: 'Food' },
+            }),
+            mockTransaction({
+                id: 'tx-2',
+                date: '2025-01-06',
+                amount: '42.17',
+                description: 'COFFEE SHOP',
+                creditAccount: { id: 'bank', name: 'Bank' },
+                debitAccount: { id: 'food', name: 'Food' },
+            }),
+            mockTransaction({
+                id: 'tx-3',
+                date: '2025-01-20',
+                amount: '1200.00',
+                description: 'Rent',
+                creditAccount: { id: 'bank', name: 'Bank' },
+                debitAccount: { id: 'rent', name: 'Rent' },
+            }),
+        ];
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async () => ({
+                listTransactions: async (query: string) => {
+                    queries.push(query);
+                    return {
+                        getItems: () => items,
+                        getAccount: async () => undefined,
+                        getCursor: () => undefined,
+                    };
+                },
+            }),
+        });
+    });
+
+    it('should group duplicates among transactions matching the query', async function () {
+        const groups = await findDuplicateTransactions('book-123', {
+            query: 'after:2025-01-01 before:2025-02-01',
+        });
+
+        expect(queries).to.deep.equal(['after:2025-01-01 before:2025-02-01']);
+        expect(groups).to.have.length(1);
+        expect(groups[0].transactions.map(tx => tx.id)).to.deep.equal(['tx-1', 'tx-2']);
+    });
+
+    it('should return one JSON item per group with its transaction IDs', async function () {
+        const result = await findDuplicateTransactionsFormatted(
+            'book-123',
+            { query: 'after:2025-01-01' },
+            'json'
+        );
+
+        expect(result.kind).to.equal('json');
+        if (result.kind === 'json') {
+            expect(result.items).to.have.length(1);
+            expect(result.items[0]).to.deep.include({
+                group: 1,
+                similarity: 1,
+                ids: ['tx-1', 'tx-2'],
+            });
+        }
+    });
+
+    it('should return one matrix row per transaction with a merge hint', async function () {
+        const result = await findDuplicateTransactionsFormatted(
+            'book-123',
+            { query: 'after:2025-01-01' },
+            'table'
+        );
+
+        expect(result.kind).to.equal('matrix');
+        if (result.kind === 'matrix') {
+            expect(result.matrix).to.deep.equal([
+                ['Group', 'Similarity', 'ID', 'Date', 'Amount', 'From', 'To', 'Description'],
+                [1, 1, 'tx-1', '2025-01-05', '42.17', 'Bank', 'Food', 'Coffee Shop'],
+                [1, 1, 'tx-2', '2025-01-06', '42.17', 'Bank', 'Food', 'COFFEE SHOP'],
+            ]);
+            expect(result.footer).to.include("bkper transaction merge tx-1 tx-2 -b 'book-123'");
+        }
+    });
+
+    it('should return an empty matrix when there are no duplicates', async function () {
+        const result = await findDuplicateTransactionsFormatted(
+            'book-123',
+            { query: 'after:2025-01-01', minSimilarity: 1, days: 0 },
+            'csv'
+        );
+
+        expect(result).to.deep.equal({ kind: 'matrix', matrix: [], footer: undefined });
+    });
+});
@@ -0,0 +1,127 @@
+import { expect } from '../../../helpers/test-setup.js';
+import {
+    groupDuplicateTransactions,
+    descriptionSimilarity,
+} from '../../../../../src/commands/transactions/duplicates/grouping.js';
+
+function tx(
+    id: string,
+    date: string,
+    description: string,
+    amount = '42.17',
+    from = 'Bank',
+    to = 'Food'
+): bkper.Transaction {
+    return {
+        id,
+        date,
+        amount,
+        description,
+        creditAccount: { id: from.toLowerCase(), name: from },
+        debitAccount: { id: to.toLowerCase(), name: to },
+    };
+}
+
+describe('transaction duplicates - grouping', function () {
+    describe('descriptionSimilarity', function () {
+        it('should score identical descriptions as 1 ignoring case and punctuation', function () {
+            expect(descriptionSimilarity('Coffee Shop #12', 'coffee shop 12')).to.equal(1);
+        });
+
+        it('should score unrelated descriptions close to 0', function () {
+            expect(descriptionSimilarity('Coffee Shop', 'Rent payment')).to.be.below(0.2);
+        });
+
+        it('should score partially matching descriptions in between', function () {
+            const score = descriptionSimilarity('Coffee Shop Berlin', 'COFFEE SHOP');
+            expect(score).to.be.above(0.7).and.below(1);
+        });
+
+        it('should score an empty description against a non-empty one as 0', function () {
+            expect(descriptionSimilarity('', 'Coffee')).to.equal(0);
+            expect(descriptionSimilarity(undefined, '')).to.equal(1);
+        });
+    });
+
+    describe('groupDuplicateTransactions', function () {
+        it('should group transactions with same amount, accounts and similar descriptions', function () {
+            const groups = groupDuplicateTransactions([
+                tx('t2', '2025-01-06', 'COFFEE SHOP'),
+                tx('t1', '2025-01-05', 'Coffee Shop'),
+                tx('t3', '2025-01-05', 'Coffee Shop', '10.00'),
+            ]);
+
+            expect(groups).to.have.length(1);
+            expect(groups[0].similarity).to.equal(1);
+            expect(groups[0].transactions.map(t => t.id)).to.deep.equal(['t1', 't2']);
+        });
+
+        it('should not group transactions between different accounts', function () {
+            const groups = groupDuplicateTransactions([
+                tx('t1', '2025-01-05', 'Coffee Shop', '42.17', 'Bank', 'Food'),
+                tx('t2', '2025-01-05', 'Coffee Shop', '42.17', 'Card', 'Food'),
+            ]);
+
+            expect(groups).to.deep.equal([]);
+        });
+
+        it('should treat amounts with different precision as equal', function () {
+            const groups = groupDuplicateTransactions([
+                tx('t1', '2025-01-05', 'Coffee Shop', '42.1'),
+                tx('t2', '2025-01-05', 'Coffee Shop', '42.10'),
+            ]);
+
+            expect(groups).to.have.length(1);
+        });
+
+        it('should respect the date window', function () {
+            const transactions = [
+                tx('t1', '2025-01-01', 'Coffee Shop'),
+                tx('t2', '2025-01-05', 'Coffee Shop'),
+            ];
+
+            expect(groupDuplicateTransactions(transactions)).to.deep.equal([]);
+            expect(groupDuplicateTransactions(transactions, { days: 4 })).to.have.length(1);
+        });
+
+        it('should respect the similarity threshold', function () {
+            const transactions = [
+                tx('t1', '2025-01-05', 'Coffee Shop Berlin'),
+                tx('t2', '2025-01-05', 'Coffee'),
+            ];
+
+            expect(groupDuplicateTransactions(transactions, { minSimilarity: 0.9 })).to.deep.equal(
+                []
+            );
+            const [group] = groupDuplicateTransactions(transactions, { minSimilarity: 0.3 });
+            expect(group.similarity).to.be.above(0.3).and.below(0.9);
+        });
+
+        it('should not chain transactions beyond the window', function () {
+            const groups = groupDuplicateTransactions([
+                tx('t1', '2025-01-01', 'Coffee Shop'),
+                tx('t2', '2025-01-03', 'Coffee Shop'),
+                tx('t3', '2025-01-05', 'Coffee Shop'),
+            ]);
+
+            expect(groups.map(group => group.transactions.map(t => t.id))).to.deep.equal([
+                ['t1', 't2'],
+            ]);
+        });
+
+        it('should return the same groups regardless of input order', function () {
+            const transactions = [
+                tx('t1', '2025-01-05', 'Coffee Shop'),
+                tx('t2', '2025-01-05', 'Coffee Shop'),
+                tx('t3', '2025-02-10', 'Rent', '1200.00', 'Bank', 'Rent'),
+                tx('t4', '2025-02-11', 'Rent', '1200.00', 'Bank', 'Rent'),
+            ];
+
+            const forward = groupDuplicateTransactions(transactions);
+            const backward = groupDuplicateTransactions([...transactions].reverse());
+
+            expect(backward).to.deep.equal(forward);
+            expect(forward.map(group => group.transactions[0].id)).to.deep.equal(['t1', 't3']);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { expect } from '../../../helpers/test-setup.js';
+import {
+    normalizeAmount,
+    isNegativeAmount,
+    absoluteAmount,
+} from '../../../../../src/commands/transactions/import/amounts.js';
+
+describe('transaction import - amounts', function () {
+    describe('normalizeAmount', function () {
+        it('should keep dot decimal amounts', function () {
+            expect(normalizeAmount('1500.00')).to.equal('1500.00');
+            expect(normalizeAmount('-42.17')).to.equal('-42.17');
+        });
+
+        it('should strip a leading plus sign', function () {
+            expect(normalizeAmount('+25')).to.equal('25');
+        });
+
+        it('should treat a lone comma as decimal separator', function () {
+            expect(normalizeAmount('-89,90')).to.equal('-89.90');
+        });
+
+        it('should remove thousands separators', function () {
+            expect(normalizeAmount('-1,200.00')).to.equal('-1200.00');
+            expect(normalizeAmount('1.234,56', ',')).to.equal('1234.56');
+            expect(normalizeAmount("1'234.56", '.')).to.equal('1234.56');
+        });
+
+        it('should accept trailing minus and parentheses as negative', function () {
+            expect(normalizeAmount('12.50-')).to.equal('-12.50');
+            expect(normalizeAmount('(12.50)')).to.equal('-12.50');
+        });
+
+        it('should not produce negative zero', function () {
+            expect(normalizeAmount('-0.00')).to.equal('0.00');
+        });
+
+        it('should throw for non-numeric values', function () {
+            expect(() => normalizeAmount('abc')).to.throw('Invalid amount: abc');
+        });
+    });
+
+    it('should detect negative amounts and return absolute values', function () {
+        expect(isNegativeAmount('-1.00')).to.be.true;
+        expect(isNegativeAmount('1.00')).to.be.false;
+        expect(absoluteAmount('-1.00')).to.equal('1.00');
+        expect(absoluteAmount('1.00')).to.equal('1.00');
+    });
+});
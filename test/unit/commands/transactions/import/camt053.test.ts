@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { expect, getTestPaths } from '../../../helpers/test-setup.js';
+import { parseCamt053 } from '../../../../../src/commands/transactions/import/camt053.js';
+
+const { __dirname } = getTestPaths(import.meta.url);
+const fixturesDir = path.join(__dirname, '../../../../fixtures/statements');
+
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+}
+
+describe('transaction import - camt.053 parser', function () {
+    it('should parse every statement of a multi-statement file', function () {
+        const statements = parseCamt053(readFixture('camt053-multi.xml'));
+
+        expect(statements.map(statement => statement.id)).to.deep.equal([
+            'STMT-2025-001',
+            'STMT-2025-002',
+        ]);
+        expect(statements[0].accountId).to.equal('DE89370400440532013000');
+        expect(statements[0].currency).to.equal('EUR');
+    });
+
+    it('should read booked entries with booking and value dates', function () {
+        const [first] = parseCamt053(readFixture('camt053-multi.xml'));
+
+        expect(first.entries).to.deep.equal([
+            {
+                date: '2025-01-03',
+                valueDate: '2025-01-02',
+                amount: '1500.00',
+                description: 'ACME Corp Salary January',
+                remoteId: '2025010300001',
+            },
+            {
+                date: '2025-01-05',
+                amount: '-42.17',
+                description: 'Coffee & Co Card payment Berlin',
+                remoteId: 'DE89370400440532013000/2025-01-05/-42.17/1',
+            },
+        ]);
+    });
+
+    it('should flip the sign of reversals and fall back to the additional entry information', function () {
+        const [, second] = parseCamt053(readFixture('camt053-multi.xml'));
+
+        expect(second.entries).to.deep.equal([
+            {
+                date: '2025-01-07',
+                amount: '42.17',
+                description: 'Reversal card payment',
+                remoteId: '2025010700007',
+            },
+        ]);
+    });
+
+    it('should parse namespace-prefixed documents with coded statuses and date-times', function () {
+        const statements = parseCamt053(readFixture('camt053-prefixed.xml'));
+
+        expect(statements).to.have.length(1);
+        expect(statements[0].accountId).to.equal('0235-123456.01');
+        expect(statements[0].currency).to.equal('CHF');
+        expect(statements[0].entries[0]).to.deep.equal({
+            date: '2025-02-01',
+            valueDate: '2025-02-03',
+            amount: '-250.00',
+            description: 'Swiss Utilities AG Electricity February',
+            remoteId: 'CH-TX-0001',
+        });
+    });
+
+    it('should join the remittance information of batch entries', function () {
+        const [statement] = parseCamt053(readFixture('camt053-prefixed.xml'));
+
+        expect(statement.entries[1]).to.deep.equal({
+            date: '2025-02-02',
+            amount: '-300.00',
+            description: 'Invoice A-17 Invoice B-42',
+            remoteId: 'CH-BATCH-0002',
+        });
+    });
+
+    it('should read the booked closing balance, negative for a debit balance', function () {
+        const [first] = parseCamt053(readFixture('camt053-multi.xml'));
+        const overdrawn = parseCamt053(
+            '<Document><BkToCstmrStmt><Stmt><Id>S1</Id>' +
+                '<Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">5.00</Amt>' +
+                '<CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-03-01</Dt></Dt></Bal>' +
+                '<Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">10.50</Amt>' +
+                '<CdtDbtInd>DBIT</CdtDbtInd><Dt><Dt>2025-03-31</Dt></Dt></Bal>' +
+                '</Stmt></BkToCstmrStmt></Document>'
+        );
+
+        expect(first.closingBalance).to.deep.equal({ date: '2025-01-05', amount: '2457.83' });
+        expect(overdrawn[0].closingBalance).to.deep.equal({
+            date: '2025-03-31',
+            amount: '-10.50',
+        });
+    });
+
+    it('should produce the same remoteIds when parsed twice', function () {
+        const content = readFixture('camt053-multi.xml');
+        const remoteIds = (statements: ReturnType<typeof parseCamt053>) =>
+            statements.flatMap(statement => statement.entries.map(entry => entry.remoteId));
+
+        expect(remoteIds(parseCamt053(content))).to.deep.equal(remoteIds(parseCamt053(content)));
+    });
+
+    it('should throw when the file has no statements', function () {
+        expect(() => parseCamt053('<Document><BkToCstmrStmt/></Document>')).to.throw(
+            'Invalid camt.053 file: no statements found'
+        );
+    });
+
+    it('should throw when a booked entry has no booking date', function () {
+        const content =
+            '<Document><BkToCstmrStmt><Stmt><Id>S1</Id><Ntry><Amt>1.00</Amt>' +
+            '<CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts><AcctSvcrRef>R1</AcctSvcrRef>' +
+            '</Ntry></Stmt></BkToCstmrStmt></Document>';
+
+        expect(() => parseCamt053(content)).to.throw(
+            'Invalid camt.053 entry R1: missing booking date'
+        );
+    });
+});
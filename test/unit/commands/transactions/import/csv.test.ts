@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { expect, getTestPaths } from '../../../helpers/test-setup.js';
+import {
+    loadCsvMapping,
+    parseCsvMapping,
+    parseCsvStatement,
+} from '../../../../../src/commands/transactions/import/csv.js';
+
+const { __dirname } = getTestPaths(import.meta.url);
+const fixturesDir = path.join(__dirname, '../../../../fixtures/statements');
+
+describe('transaction import - CSV', function () {
+    describe('parseCsvMapping', function () {
+        it('should apply defaults', function () {
+            const mapping = parseCsvMapping({ columns: { date: 'Date', amount: 'Amount' } });
+
+            expect(mapping).to.deep.equal({
+                delimiter: ',',
+                header: true,
+                skipRows: 0,
+                dateFormat: 'yyyy-MM-dd',
+                decimalSeparator: '.',
+                sign: 'normal',
+                columns: { date: 'Date', amount: 'Amount' },
+            });
+        });
+
+        it('should accept a single description column', function () {
+            const mapping = parseCsvMapping({
+                columns: { date: 1, amount: 2, description: 3 },
+                header: false,
+            });
+
+            expect(mapping.columns.description).to.deep.equal([3]);
+        });
+
+        it('should report every problem at once', function () {
+            try {
+                parseCsvMapping({
+                    decimalSeparator: ';',
+                    sign: 'reversed',
+                    dateFormat: 'MM/yyyy',
+                    columns: { description: 'Memo' },
+                });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                const message = (err as Error).message;
+                expect(message).to.include('dateFormat must contain');
+                expect(message).to.include('decimalSeparator must be');
+                expect(message).to.include('sign must be');
+                expect(message).to.include('columns.date is required');
+                expect(message).to.include('columns.amount (or columns.inflow/columns.outflow)');
+            }
+        });
+
+        it('should require column numbers when the file has no header', function () {
+            expect(() =>
+                parseCsvMapping({ header: false, columns: { date: 'Date', amount: 2 } })
+            ).to.throw('columns.date must be a column number when header is false');
+        });
+
+        it('should reject combining amount with inflow/outflow columns', function () {
+            expect(() => parseCsvMapping({ columns: { date: 1, amount: 2, inflow: 3 } })).to.throw(
+                'columns.amount cannot be combined'
+            );
+        });
+    });
+
+    describe('loadCsvMapping', function () {
+        it('should load a YAML mapping profile', async function () {
+            const mapping = await loadCsvMapping(
+                path.join(fixturesDir, 'bank-export.mapping.yaml')
+            );
+
+            expect(mapping.delimiter).to.equal(';');
+            expect(mapping.skipRows).to.equal(1);
+            expect(mapping.columns.description).to.deep.equal(['Payee', 'Memo']);
+            expect(mapping.columns.properties).to.deep.equal({ invoice: 'Invoice' });
+        });
+
+        it('should throw when the mapping file does not exist', async function () {
+            try {
+                await loadCsvMapping(path.join(fixturesDir, 'missing.yaml'));
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.include('Mapping file not found');
+            }
+        });
+    });
+
+    describe('parseCsvStatement', function () {
+        it('should parse the bank export fixture', async function () {
+            const mapping = await loadCsvMapping(
+                path.join(fixturesDir, 'bank-export.mapping.yaml')
+            );
+            const content = fs.readFileSync(path.join(fixturesDir, 'bank-export.csv'), 'utf8');
+
+            const [statement] = parseCsvStatement(content, mapping);
+
+            expect(statement.entries).to.deep.equal([
+                {
+                    date: '2025-01-03',
+                    amount: '1500.00',
+                    description: 'ACME Corp Salary; January',
+                    remoteId: 'REF-001',
+                    counterpart: 'Salary',
+                },
+                {
+                    date: '2025-01-05',
+                    amount: '-42.17',
+                    description: 'Coffee Shop Coffee Shop',
+                    remoteId: 'REF-002',
+                },
+                {
+                    date: '2025-01-20',
+                    amount: '-1200.00',
+                    description: 'Landlord Rent',
+                    remoteId: 'REF-003',
+                    counterpart: 'Rent',
+                    properties: { invoice: 'INV-77' },
+                },
+            ]);
+        });
+
+        it('should read from and to accounts by column number', function () {
+            const mapping = parseCsvMapping({
+                header: false,
+                columns: { date: 1, amount: 2, from: 3, to: 4, description: 5 },
+            });
+
+            const [statement] = parseCsvStatement(
+                '2025-02-01,99.90,Bank,Software,Subscription\n',
+                mapping
+            );
+
+            expect(statement.entries).to.deep.equal([
+                {
+                    date: '2025-02-01',
+                    amount: '99.90',
+                    description: 'Subscription',
+                    from: 'Bank',
+                    to: 'Software',
+                },
+            ]);
+        });
+
+        it('should invert signs when configured', function () {
+            const mapping = parseCsvMapping({
+                sign: 'inverted',
+                columns: { date: 'Date', amount: 'Amount' },
+            });
+
+            const [statement] = parseCsvStatement('Date,Amount\n2025-02-01,25.00\n', mapping);
+
+            expect(statement.entries[0].amount).to.equal('-25.00');
+        });
+
+        it('should read the closing balance from the last row of the latest day', function () {
+            const mapping = parseCsvMapping({
+                columns: { date: 'Date', amount: 'Amount', balance: 'Balance' },
+            });
+            const rows = ['2025-02-01,25.00,125.00', '2025-02-03,-5.00,120.00', '2025-02-03,1,121'];
+
+            const [ascending] = parseCsvStatement(
+                ['Date,Amount,Balance', ...rows].join('\n'),
+                mapping
+            );
+            const [descending] = parseCsvStatement(
+                ['Date,Amount,Balance', ...rows.reverse()].join('\n'),
+                mapping
+            );
+
+            expect(ascending.closingBalance).to.deep.equal({ date: '2025-02-03', amount: '121' });
+            expect(descending.closingBalance).to.deep.equal({ date: '2025-02-03', amount: '121' });
+        });
+
+        it('should throw when a mapped column is not in the header', function () {
+            const mapping = parseCsvMapping({ columns: { date: 'Date', amount: 'Value' } });
+
+            expect(() => parseCsvStatement('Date,Amount\n2025-02-01,25.00\n', mapping)).to.throw(
+                'Column not found in CSV header: Value'
+            );
+        });
+
+        it('should report the row number of an invalid row', function () {
+            const mapping = parseCsvMapping({ columns: { date: 'Date', amount: 'Amount' } });
+
+            expect(() =>
+                parseCsvStatement('Date,Amount\n2025-02-01,25.00\n2025-02-02,\n', mapping)
+            ).to.throw('Invalid CSV row 3: missing amount');
+        });
+    });
+});
@@ -0,0 +1,40 @@
+import { expect } from '../../../helpers/test-setup.js';
+import {
+    parseDateWithPattern,
+    isValidDatePattern,
+} from '../../../../../src/commands/transactions/import/dates.js';
+
+describe('transaction import - dates', function () {
+    describe('parseDateWithPattern', function () {
+        it('should parse common bank date patterns', function () {
+            expect(parseDateWithPattern('03/01/2025', 'dd/MM/yyyy')).to.equal('2025-01-03');
+            expect(parseDateWithPattern('01/03/2025', 'MM/dd/yyyy')).to.equal('2025-01-03');
+            expect(parseDateWithPattern('2025-01-03', 'yyyy-MM-dd')).to.equal('2025-01-03');
+            expect(parseDateWithPattern('250103', 'yyMMdd')).to.equal('2025-01-03');
+        });
+
+        it('should accept single digit day and month tokens', function () {
+            expect(parseDateWithPattern('3.1.2025', 'd.M.yyyy')).to.equal('2025-01-03');
+        });
+
+        it('should throw when the value does not match the pattern', function () {
+            expect(() => parseDateWithPattern('2025-01-03', 'dd/MM/yyyy')).to.throw(
+                'Invalid date: 2025-01-03 (expected dd/MM/yyyy)'
+            );
+        });
+
+        it('should throw for impossible dates', function () {
+            expect(() => parseDateWithPattern('31/02/2025', 'dd/MM/yyyy')).to.throw(
+                'Invalid date: 31/02/2025'
+            );
+        });
+    });
+
+    describe('isValidDatePattern', function () {
+        it('should require year, month and day tokens', function () {
+            expect(isValidDatePattern('dd/MM/yyyy')).to.be.true;
+            expect(isValidDatePattern('MM/yyyy')).to.be.false;
+            expect(isValidDatePattern('dd/MM/yyyy yy')).to.be.false;
+        });
+    });
+});
@@ -0,0 +1,423 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, setupTestEnvironment, getTestPaths } from '../../../helpers/test-setup.js';
+import { setMockBkper } from '../../../helpers/mock-factory.js';
+
+const { __dirname } = getTestPaths(import.meta.url);
+const fixturesDir = path.join(__dirname, '../../../../fixtures/statements');
+
+// Import after mock setup
+const {
+    importTransactions,
+    resolveStatementFormat,
+    buildStatementTransactionPayload,
+    buildImportPreviewMatrix,
+} = await import('../../../../../src/commands/transactions/import/import.js');
+
+describe('CLI - transaction import Command', function () {
+    let mockBook: any;
+    let batchCalls: any[][];
+    let listQueries: string[];
+    let existingRemoteIds: string[];
+
+    beforeEach(function () {
+        setupTestEnvironment();
+        batchCalls = [];
+        listQueries = [];
+        existingRemoteIds = [];
+
+        mockBook = {
+            getAccount: async (nameOrId: string) => {
+                if (nameOrId === 'missing') return undefined;
+                return {
+                    getId: () => 'bank-id',
+                    getName: () => 'Bank',
+                };
+            },
+            listTransactions: async (query: string) => {
+                listQueries.push(query);
+                return {
+                    getItems: () =>
+                        existingRemoteIds.map(remoteId => ({
+                            getRemoteIds: () => [remoteId],
+                        })),
+                    getCursor: () => undefined,
+                };
+            },
+            batchCreateTransactions: async (transactions: any[]) => {
+                batchCalls.push(transactions);
+                return transactions.map((tx: any, idx: number) => ({
+                    json: () => ({ id: `tx-${idx}`, ...tx.json() }),
+                }));
+            },
+        };
+
+        setMockBkper({
+            setConfig: () => {},
+            getBook: async () => mockBook,
+        });
+    });
+
+    describe('resolveStatementFormat', function () {
+        it('should detect OFX from .ofx and .qfx extensions', function () {
+            expect(resolveStatementFormat('statement.ofx')).to.equal('ofx');
+            expect(resolveStatementFormat('statement.QFX')).to.equal('ofx');
+        });
+
+        it('should detect CSV from the extension or --statement-format csv', function () {
+            expect(resolveStatementFormat('export.csv')).to.equal('csv');
+            expect(resolveStatementFormat('export.txt', 'csv')).to.equal('csv');
+        });
+
+        it('should detect camt.053 and MT940 from their extensions', function () {
+            expect(resolveStatementFormat('statement.xml')).to.equal('camt053');
+            expect(resolveStatementFormat('statement.sta')).to.equal('mt940');
+            expect(resolveStatementFormat('statement.940')).to.equal('mt940');
+            expect(resolveStatementFormat('export.txt', 'MT940')).to.equal('mt940');
+        });
+
+        it('should use an explicit statement format over the extension', function () {
+            expect(resolveStatementFormat('download.txt', 'OFX')).to.equal('ofx');
+        });
+
+        it('should throw for unsupported formats', function () {
+            expect(() => resolveStatementFormat('statement.ofx', 'pdf')).to.throw(
+                'Unsupported statement format: pdf'
+            );
+            expect(() => resolveStatementFormat('statement.ofx', 'markdown')).to.throw(
+                'Unsupported statement format: markdown'
+            );
+        });
+
+        it('should throw when the format cannot be detected', function () {
+            expect(() => resolveStatementFormat('statement.txt')).to.throw(
+                'Unable to detect statement format'
+            );
+        });
+    });
+
+    describe('buildStatementTransactionPayload', function () {
+        const account = { id: 'bank-id', name: 'Bank' };
+
+        it('should debit the account for money coming in', function () {
+            const payload = buildStatementTransactionPayload(
+                { date: '2025-01-03', amount: '1500.00', description: 'Salary', remoteId: 'F1' },
+                account
+            );
+            expect(payload).to.deep.equal({
+                date: '2025-01-03',
+                amount: '1500.00',
+                description: 'Salary',
+                debitAccount: account,
+                remoteIds: ['F1'],
+            });
+        });
+
+        it('should credit the account for money going out', function () {
+            const payload = buildStatementTransactionPayload(
+                { date: '2025-01-05', amount: '-42.17', description: 'Coffee' },
+                account
+            );
+            expect(payload.creditAccount).to.deep.equal(account);
+            expect(payload.debitAccount).to.be.undefined;
+            expect(payload.amount).to.equal('42.17');
+            expect(payload.remoteIds).to.be.undefined;
+        });
+
+        it('should put the counterpart on the other side', function () {
+            const payload = buildStatementTransactionPayload(
+                {
+                    date: '2025-01-20',
+                    amount: '-1200.00',
+                    description: 'Rent',
+                    counterpart: 'Rent',
+                },
+                account
+            );
+            expect(payload.creditAccount).to.deep.equal(account);
+            expect(payload.debitAccount).to.deep.equal({ name: 'Rent' });
+        });
+
+        it('should use from/to accounts without a statement account', function () {
+            const payload = buildStatementTransactionPayload({
+                date: '2025-02-01',
+                amount: '99.90',
+                description: 'Subscription',
+                from: 'Bank',
+                to: 'Software',
+                properties: { invoice: 'INV-1' },
+            });
+            expect(payload.creditAccount).to.deep.equal({ name: 'Bank' });
+            expect(payload.debitAccount).to.deep.equal({ name: 'Software' });
+            expect(payload.properties).to.deep.equal({ invoice: 'INV-1' });
+        });
+
+        it('should swap from/to accounts for negative amounts', function () {
+            const payload = buildStatementTransactionPayload({
+                date: '2025-02-01',
+                amount: '-99.90',
+                description: 'Refund',
+                from: 'Bank',
+                to: 'Software',
+            });
+            expect(payload.creditAccount).to.deep.equal({ name: 'Software' });
+            expect(payload.debitAccount).to.deep.equal({ name: 'Bank' });
+            expect(payload.amount).to.equal('99.90');
+        });
+    });
+
+    describe('buildImportPreviewMatrix', function () {
+        it('should render one row per planned transaction with property columns', function () {
+            const matrix = buildImportPreviewMatrix([
+                {
+                    date: '2025-01-20',
+                    amount: '1200.00',
+                    description: 'Rent',
+                    creditAccount: { name: 'Bank' },
+                    debitAccount: { name: 'Rent' },
+                    remoteIds: ['REF-003'],
+                    properties: { invoice: 'INV-77' },
+                },
+                { date: '2025-01-05', amount: '42.17', description: 'Coffee' },
+            ]);
+
+            expect(matrix).to.deep.equal([
+                ['Date', 'Amount', 'From', 'To', 'Description', 'Remote ID', 'invoice'],
+                ['2025-01-20', '1200.00', 'Bank', 'Rent', 'Rent', 'REF-003', 'INV-77'],
+                ['2025-01-05', '42.17', '', '', 'Coffee', '', ''],
+            ]);
+        });
+    });
+
+    describe('importTransactions', function () {
+        const file = path.join(fixturesDir, 'checking-sgml.ofx');
+
+        it('should create one transaction per statement entry in a single batch', async function () {
+            const result = await importTransactions('book-123', { file, account: 'Bank' });
+
+            expect(batchCalls).to.have.length(1);
+            expect(batchCalls[0]).to.have.length(3);
+            expect(result.created).to.have.length(3);
+            expect(result.skipped).to.have.length(0);
+        });
+
+        it('should query existing transactions in the statement date range', async function () {
+            await importTransactions('book-123', { file, account: 'Bank' });
+
+            expect(listQueries).to.deep.equal([
+                "account:'Bank' after:2025-01-03 before:2025-01-21",
+            ]);
+        });
+
+        it('should quote account names with an apostrophe in the query', async function () {
+            mockBook.getAccount = async () => ({
+                getId: () => 'card-id',
+                getName: () => "Joe's Card",
+            });
+
+            await importTransactions('book-123', { file, account: "Joe's Card", dryRun: true });
+
+            expect(listQueries).to.deep.equal([
+                `account:"Joe's Card" after:2025-01-03 before:2025-01-21`,
+            ]);
+        });
+
+        it('should skip entries whose remoteId was already imported', async function () {
+            existingRemoteIds = ['202501030001', '202501200003'];
+
+            const result = await importTransactions('book-123', { file, account: 'Bank' });
+
+            expect(result.created).to.have.length(1);
+            expect(result.skipped.map(entry => entry.remoteId)).to.deep.equal([
+                '202501030001',
+                '202501200003',
+            ]);
+        });
+
+        it('should not call the batch API when every entry was already imported', async function () {
+            existingRemoteIds = ['202501030001', '202501050002', '202501200003'];
+
+            const result = await importTransactions('book-123', { file, account: 'Bank' });
+
+            expect(batchCalls).to.have.length(0);
+            expect(result.created).to.have.length(0);
+            expect(result.skipped).to.have.length(3);
+        });
+
+        it('should apply --property overrides to imported transactions', async function () {
+            await importTransactions('book-123', {
+                file,
+                account: 'Bank',
+                property: ['source=ofx'],
+            });
+
+            expect(batchCalls[0][0].getProperty('source')).to.equal('ofx');
+        });
+
+        it('should throw when the account is not found', async function () {
+            try {
+                await importTransactions('book-123', { file, account: 'missing' });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal('Account not found: missing');
+            }
+        });
+
+        it('should require --account for OFX statements', async function () {
+            try {
+                await importTransactions('book-123', { file });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal('Missing required option: --account');
+            }
+        });
+
+        it('should throw when the statement file does not exist', async function () {
+            const missing = path.join(fixturesDir, 'missing.ofx');
+            expect(fs.existsSync(missing)).to.be.false;
+            try {
+                await importTransactions('book-123', { file: missing, account: 'Bank' });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.include('Statement file not found');
+            }
+        });
+    });
+
+    describe('importTransactions with CSV', function () {
+        const file = path.join(fixturesDir, 'bank-export.csv');
+        const mapping = path.join(fixturesDir, 'bank-export.mapping.yaml');
+
+        it('should require --mapping for CSV statements', async function () {
+            try {
+                await importTransactions('book-123', { file, account: 'Bank' });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal('Missing required option: --mapping');
+            }
+        });
+
+        it('should create transactions from the mapped columns', async function () {
+            const result = await importTransactions('book-123', {
+                file,
+                account: 'Bank',
+                mapping,
+            });
+
+            expect(batchCalls).to.have.length(1);
+            expect(result.created).to.have.length(3);
+            expect(result.planned[2]).to.deep.include({
+                date: '2025-01-20',
+                amount: '1200.00',
+                description: 'Landlord Rent',
+                creditAccount: { id: 'bank-id', name: 'Bank' },
+                debitAccount: { name: 'Rent' },
+                remoteIds: ['REF-003'],
+                properties: { invoice: 'INV-77' },
+            });
+        });
+
+        it('should not create transactions on a dry run', async function () {
+            existingRemoteIds = ['REF-001'];
+
+            const result = await importTransactions('book-123', {
+                file,
+                account: 'Bank',
+                mapping,
+                dryRun: true,
+            });
+
+            expect(batchCalls).to.have.length(0);
+            expect(result.created).to.have.length(0);
+            expect(result.planned.map(tx => tx.remoteIds)).to.deep.equal([
+                ['REF-002'],
+                ['REF-003'],
+            ]);
+            expect(result.skipped.map(entry => entry.remoteId)).to.deep.equal(['REF-001']);
+        });
+
+        it('should look up existing remoteIds across the book without --account', async function () {
+            await importTransactions('book-123', { file, mapping, dryRun: true });
+
+            expect(listQueries).to.deep.equal(['after:2025-01-03 before:2025-01-21']);
+        });
+
+        it('should create large statements in chunks of 100 transactions', async function () {
+            const rows = Array.from(
+                { length: 250 },
+                (_, i) => `03.01.2025;Payee ${i};;REF-${i};Sales;"10,00";;`
+            );
+            const large = path.join(os.tmpdir(), `bkper-import-${process.pid}.txt`);
+            fs.writeFileSync(
+                large,
+                [
+                    'Account export;Checking',
+                    'Booking date;Payee;Memo;Reference;Category;Money in;Money out;Invoice',
+                    ...rows,
+                ].join('\n')
+            );
+
+            try {
+                const result = await importTransactions('book-123', {
+                    file: large,
+                    format: 'csv',
+                    account: 'Bank',
+                    mapping,
+                });
+
+                expect(batchCalls.map(call => call.length)).to.deep.equal([100, 100, 50]);
+                expect(result.created).to.have.length(250);
+            } finally {
+                fs.rmSync(large, { force: true });
+            }
+        });
+    });
+
+    describe('importTransactions with bank formats', function () {
+        it('should import every statement of a camt.053 file', async function () {
+            const result = await importTransactions('book-123', {
+                file: path.join(fixturesDir, 'camt053-multi.xml'),
+                account: 'Bank',
+            });
+
+            expect(batchCalls).to.have.length(1);
+            expect(result.created).to.have.length(3);
+            expect(result.planned.map(tx => tx.remoteIds?.[0])).to.deep.equal([
+                '2025010300001',
+                'DE89370400440532013000/2025-01-05/-42.17/1',
+                '2025010700007',
+            ]);
+        });
+
+        it('should skip MT940 entries already imported', async function () {
+            existingRemoteIds = ['2501030001', '37040044/0532013000/2025-01-05/-42.17/1'];
+
+            const result = await importTransactions('book-123', {
+                file: path.join(fixturesDir, 'mt940-swift.sta'),
+                account: 'Bank',
+            });
+
+            expect(result.created).to.have.length(1);
+            expect(result.skipped).to.have.length(2);
+        });
+
+        it('should date transactions by value date when requested', async function () {
+            const result = await importTransactions('book-123', {
+                file: path.join(fixturesDir, 'mt940-ing.940'),
+                account: 'Bank',
+                valueDate: true,
+                dryRun: true,
+            });
+
+            expect(result.planned.map(tx => tx.date)).to.deep.equal([
+                '2025-01-02',
+                '2025-01-03',
+                '2025-01-04',
+            ]);
+            expect(listQueries).to.deep.equal([
+                "account:'Bank' after:2025-01-02 before:2025-01-05",
+            ]);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { expect, getTestPaths } from '../../../helpers/test-setup.js';
+import { parseMt940 } from '../../../../../src/commands/transactions/import/mt940.js';
+
+const { __dirname } = getTestPaths(import.meta.url);
+const fixturesDir = path.join(__dirname, '../../../../fixtures/statements');
+
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+}
+
+describe('transaction import - MT940 parser', function () {
+    describe('SWIFT-wrapped messages with German ?-subfields', function () {
+        it('should parse one statement per message', function () {
+            const statements = parseMt940(readFixture('mt940-swift.sta'));
+
+            expect(statements).to.have.length(2);
+            expect(statements[0].id).to.equal('STARTUMSE');
+            expect(statements[0].accountId).to.equal('37040044/0532013000');
+            expect(statements[0].currency).to.equal('EUR');
+        });
+
+        it('should read entry dates, value dates, SEPA remittance and bank references', function () {
+            const [first] = parseMt940(readFixture('mt940-swift.sta'));
+
+            expect(first.entries).to.deep.equal([
+                {
+                    date: '2025-01-03',
+                    valueDate: '2025-01-02',
+                    amount: '1500.00',
+                    description: 'ACME Corp Salary January',
+                    remoteId: '2501030001',
+                },
+                {
+                    date: '2025-01-05',
+                    amount: '-42.17',
+                    description: 'Coffee Shop Card payment Berlin',
+                    remoteId: '37040044/0532013000/2025-01-05/-42.17/1',
+                },
+            ]);
+        });
+
+        it('should read the closing balance of each statement', function () {
+            const statements = parseMt940(readFixture('mt940-swift.sta'));
+
+            expect(statements.map(statement => statement.closingBalance)).to.deep.equal([
+                { date: '2025-01-05', amount: '2457.83' },
+                { date: '2025-01-07', amount: '2500.00' },
+            ]);
+        });
+
+        it('should treat a reversal of a debit as money coming in', function () {
+            const [, second] = parseMt940(readFixture('mt940-swift.sta'));
+
+            expect(second.entries).to.deep.equal([
+                {
+                    date: '2025-01-07',
+                    amount: '42.17',
+                    description: 'Reversal card payment',
+                    remoteId: '2501070007',
+                },
+            ]);
+        });
+    });
+
+    describe('unwrapped files with /NAME/ and /REMI/ keywords', function () {
+        it('should derive the entry date year across the year boundary', function () {
+            const [first] = parseMt940(readFixture('mt940-ing.940'));
+
+            expect(first.entries[0]).to.deep.equal({
+                date: '2024-12-31',
+                valueDate: '2025-01-02',
+                amount: '-25.00',
+                description: 'Energy Co Invoice 1001',
+                remoteId: 'INGREF0001',
+            });
+        });
+
+        it('should give entries without bank reference a deterministic remoteId', function () {
+            const [first] = parseMt940(readFixture('mt940-ing.940'));
+
+            expect(first.entries[1]).to.deep.equal({
+                date: '2025-01-03',
+                amount: '100.00',
+                description: 'John Doe Gift',
+                remoteId: 'NL69INGB0123456789EUR/2025-01-03/100.00/1',
+            });
+        });
+
+        it('should join free text information lines and ignore statement-level information', function () {
+            const [, second] = parseMt940(readFixture('mt940-ing.940'));
+
+            expect(second.entries).to.deep.equal([
+                {
+                    date: '2025-01-04',
+                    amount: '1500.00',
+                    description: 'Free text salary payment from ACME',
+                    remoteId: 'INGREF0003',
+                },
+            ]);
+        });
+    });
+
+    it('should treat a reversal of a credit as money going out', function () {
+        const [statement] = parseMt940(
+            ':20:REF\n:25:ACC\n:61:250110RC10,00NTRFNONREF//B1\n:86:Reversal\n:62F:C250110EUR0,00\n'
+        );
+
+        expect(statement.entries[0].amount).to.equal('-10.00');
+    });
+
+    it('should throw when the file has no statements', function () {
+        expect(() => parseMt940('not a statement')).to.throw(
+            'Invalid MT940 file: no statements found'
+        );
+    });
+
+    it('should throw on an invalid statement line', function () {
+        expect(() => parseMt940(':20:REF\n:61:garbage\n')).to.throw(
+            'Invalid MT940 statement line: garbage'
+        );
+    });
+});
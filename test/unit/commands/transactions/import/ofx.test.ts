@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { expect, getTestPaths } from '../../../helpers/test-setup.js';
+import { parseOfx } from '../../../../../src/commands/transactions/import/ofx.js';
+
+const { __dirname } = getTestPaths(import.meta.url);
+const fixturesDir = path.join(__dirname, '../../../../fixtures/statements');
+
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+}
+
+describe('transaction import - OFX parser', function () {
+    it('should parse an OFX 1.x SGML bank statement', function () {
+        const statements = parseOfx(readFixture('checking-sgml.ofx'));
+
+        expect(statements).to.have.length(1);
+        expect(statements[0].accountId).to.equal('000123456789');
+        expect(statements[0].currency).to.equal('USD');
+        expect(statements[0].entries).to.deep.equal([
+            {
+                date: '2025-01-03',
+                amount: '1500.00',
+                description: 'ACME CORP PAYROLL Salary January',
+                remoteId: '202501030001',
+            },
+            {
+                date: '2025-01-05',
+                amount: '-42.17',
+                description: 'Joe&s Coffee',
+                remoteId: '202501050002',
+            },
+            {
+                date: '2025-01-20',
+                amount: '-1200.00',
+                description: 'Rent',
+                remoteId: '202501200003',
+            },
+        ]);
+    });
+
+    it('should parse an OFX 2.x XML credit card statement', function () {
+        const statements = parseOfx(readFixture('credit-card-xml.qfx'));
+
+        expect(statements).to.have.length(1);
+        expect(statements[0].accountId).to.equal('4111XXXXXXXX1111');
+        expect(statements[0].currency).to.equal('EUR');
+        expect(statements[0].entries).to.deep.equal([
+            {
+                date: '2025-02-10',
+                amount: '-89.90',
+                description: 'AIRLINE TICKETS',
+                remoteId: 'CC-0001',
+            },
+            {
+                date: '2025-02-15',
+                amount: '25.00',
+                description: 'Refund <online>',
+                remoteId: 'CC-0002',
+            },
+        ]);
+    });
+
+    it('should read the ledger balance as the closing balance', function () {
+        const [checking] = parseOfx(readFixture('checking-sgml.ofx'));
+        const [creditCard] = parseOfx(readFixture('credit-card-xml.qfx'));
+
+        expect(checking.closingBalance).to.deep.equal({ date: '2025-01-31', amount: '3257.83' });
+        expect(creditCard.closingBalance).to.be.undefined;
+    });
+
+    it('should parse multiple statements in one file', function () {
+        const statement = (account: string, fitId: string) =>
+            `<STMTRS><BANKACCTFROM><ACCTID>${account}</BANKACCTFROM><BANKTRANLIST>` +
+            `<STMTTRN><DTPOSTED>20250101<TRNAMT>10<FITID>${fitId}<NAME>X</STMTTRN>` +
+            `</BANKTRANLIST></STMTRS>`;
+        const content = `<OFX>${statement('A', '1')}${statement('B', '2')}</OFX>`;
+
+        const statements = parseOfx(content);
+
+        expect(statements.map(s => s.accountId)).to.deep.equal(['A', 'B']);
+        expect(statements.map(s => s.entries[0].remoteId)).to.deep.equal(['1', '2']);
+    });
+
+    it('should throw when the file has no statement transactions', function () {
+        expect(() => parseOfx('<OFX></OFX>')).to.throw('no statement transactions found');
+    });
+
+    it('should throw when a transaction has no posted date', function () {
+        const content = '<OFX><STMTRS><STMTTRN><TRNAMT>1<FITID>X1</STMTTRN></STMTRS></OFX>';
+        expect(() => parseOfx(content)).to.throw('Invalid OFX transaction X1');
+    });
+
+    it('should throw when a transaction has no amount', function () {
+        const content =
+            '<OFX><STMTRS><STMTTRN><DTPOSTED>20250101<FITID>X2</STMTTRN></STMTRS></OFX>';
+        expect(() => parseOfx(content)).to.throw('missing TRNAMT');
+    });
+});
@@ -3,7 +3,7 @@ import sinon from 'sinon';
 import { setMockBkper } from '../../helpers/mock-factory.js';
 
 // Import after mock setup
-const { listTransactions, listTransactionsFormatted } = await import(
+const { listTransactions, listTransactionsFormatted, streamTransactions } = await import(
     '../../../../src/commands/transactions/list.js'
 );
 
@@ -160,6 +160,11 @@ describe('CLI - transaction list Command', function () {
 
     it('should return JSON formatted transactions in an items envelope', async function () {
         mockBook = {
+            json: () => ({
+                fractionDigits: 2,
+                decimalSeparator: 'COMMA',
+                datePattern: 'dd/MM/yyyy',
+            }),
             listTransactions: async () => ({
                 getItems: () => [
                     { getId: () => 'tx-1', json: () => ({ id: 'tx-1', amount: '100' }) },
@@ -183,6 +188,9 @@ describe('CLI - transaction list Command', function () {
         expect(result).to.deep.equal({
             kind: 'json',
             items: [{ id: 'tx-1', amount: '100' }],
+            fractionDigits: 2,
+            decimalSeparator: 'COMMA',
+            datePattern: 'dd/MM/yyyy',
         });
     });
 
@@ -254,4 +262,104 @@ describe('CLI - transaction list Command', function () {
         expect(consoleWarnStub.calledOnce).to.equal(true);
         expect(consoleWarnStub.firstCall.args[0]).to.contain('suspicious date fragment(s): on:');
     });
+
+    describe('streamTransactions', function () {
+        function pagedBook(pages: any[][]) {
+            return {
+                listTransactions: async (_query: string, _limit?: number, cursor?: string) => {
+                    const index = cursor ? Number(cursor.replace('cursor-', '')) : 0;
+                    return {
+                        getItems: () => pages[index],
+                        getAccount: async () => null,
+                        getCursor: () =>
+                            index < pages.length - 1 ? `cursor-${index + 1}` : undefined,
+                    };
+                },
+                createTransactionsDataTable: (items: any[]) => {
+                    const builder: any = {
+                        build: async () => [items[0].header, ...items.map((tx: any) => tx.row)],
+                    };
+                    for (const option of [
+                        'ids',
+                        'properties',
+                        'hiddenProperties',
+                        'urls',
+                        'recordedAt',
+                    ]) {
+                        builder[option] = () => builder;
+                    }
+                    return builder;
+                },
+            };
+        }
+
+        function collector() {
+            const chunks: string[] = [];
+            return {
+                chunks,
+                out: {
+                    write: (chunk: string) => {
+                        chunks.push(chunk);
+                        return true;
+                    },
+                } as any,
+            };
+        }
+
+        it('should write one JSON line per transaction, page by page', async function () {
+            mockBook = pagedBook([
+                [{ json: () => ({ id: 'tx-1' }) }, { json: () => ({ id: 'tx-2' }) }],
+                [{ json: () => ({ id: 'tx-3' }) }],
+            ]);
+            setMockBkper({ setConfig: () => {}, getBook: async () => mockBook });
+            const { chunks, out } = collector();
+            const progress: number[] = [];
+
+            const count = await streamTransactions(
+                'book-123',
+                { query: 'after:2024-01-01', onProgress: (n: number) => progress.push(n) },
+                'ndjson',
+                out
+            );
+
+            expect(count).to.equal(3);
+            expect(chunks).to.deep.equal(['{"id":"tx-1"}\n{"id":"tx-2"}\n', '{"id":"tx-3"}\n']);
+            expect(progress).to.deep.equal([2, 3]);
+        });
+
+        it('should write the CSV header once, from the first page, in a single pass', async function () {
+            mockBook = pagedBook([
+                [{ header: ['Id', 'Amount', 'ref'], row: ['tx-1', '100', 'A'] }],
+                [{ header: ['Id', 'Amount', 'note'], row: ['tx-2', '200', 'late'] }],
+            ]);
+            const listSpy = sinon.spy(mockBook, 'listTransactions');
+            setMockBkper({ setConfig: () => {}, getBook: async () => mockBook });
+            const consoleErrorStub = sinon.stub(console, 'error');
+            const { chunks, out } = collector();
+
+            let count: number;
+            try {
+                count = await streamTransactions('book-123', { query: '' }, 'csv', out);
+            } finally {
+                consoleErrorStub.restore();
+            }
+
+            expect(count).to.equal(2);
+            expect(listSpy.callCount).to.equal(2);
+            expect(chunks).to.deep.equal(['Id,Amount,ref\r\ntx-1,100,A\r\n', 'tx-2,200,\r\n']);
+            expect(consoleErrorStub.calledOnce).to.equal(true);
+            expect(consoleErrorStub.firstCall.args[0]).to.contain('no CSV column: note');
+        });
+
+        it('should reject formats other than ndjson and csv', async function () {
+            for (const format of ['table', 'json'] as const) {
+                try {
+                    await streamTransactions('book-123', { query: '' }, format);
+                    expect.fail('Should have thrown');
+                } catch (err: any) {
+                    expect(err.message).to.contain('--format ndjson or csv');
+                }
+            }
+        });
+    });
 });
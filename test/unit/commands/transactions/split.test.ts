@@ -0,0 +1,207 @@
+import { expect, setupTestEnvironment } from '../../helpers/test-setup.js';
+import { setMockBkper } from '../../helpers/mock-factory.js';
+import { ValidationError } from '../../../../src/utils/validation.js';
+
+// Import after mock setup
+const {
+    allocateSplitAmounts,
+    buildSplitPayloads,
+    parseSplitLegFlag,
+    parseSplitLegItems,
+    splitTransaction,
+} = await import('../../../../src/commands/transactions/split.js');
+
+function expectErrors(fn: () => unknown): string[] {
+    try {
+        fn();
+    } catch (err: unknown) {
+        expect(err).to.be.instanceOf(ValidationError);
+        return (err as ValidationError).errors;
+    }
+    return expect.fail('Should have thrown');
+}
+
+describe('CLI - transaction split Command', function () {
+    it('should parse legs from flags and stdin items', function () {
+        expect(parseSplitLegFlag('Office Supplies=500.00')).to.deep.equal({
+            account: 'Office Supplies',
+            amount: '500.00',
+        });
+        expect(parseSplitLegFlag('VAT = 20%')).to.deep.equal({ account: 'VAT', percent: '20' });
+        expect(parseSplitLegFlag('A=B=10')).to.deep.equal({ account: 'A=B', amount: '10' });
+        expect(() => parseSplitLegFlag('Rent')).to.throw('Invalid leg format');
+
+        expect(
+            parseSplitLegItems([
+                { account: 'VAT', percent: 20 },
+                { account: 'Software', amount: '300.00', description: 'Licenses' },
+            ])
+        ).to.deep.equal([
+            { account: 'VAT', percent: '20' },
+            { account: 'Software', amount: '300.00', description: 'Licenses' },
+        ]);
+        expect(
+            expectErrors(() => parseSplitLegItems([{ amount: '1' }, { account: 'X', amount: {} }]))
+        ).to.deep.equal([
+            'legs[0].account must be a non-empty string',
+            'legs[1].amount must be a string or a number',
+        ]);
+    });
+
+    it('should allocate amounts and percentages in the book fraction digits', function () {
+        expect(
+            allocateSplitAmounts(
+                '1200',
+                [
+                    { account: 'VAT', percent: '16.5' },
+                    { account: 'Software', amount: '500' },
+                    { account: 'Hardware', amount: '502' },
+                ],
+                2
+            )
+        ).to.deep.equal(['198.00', '500.00', '502.00']);
+        expect(
+            allocateSplitAmounts(
+                '100',
+                [
+                    { account: 'A', percent: '50' },
+                    { account: 'B', percent: '50' },
+                ],
+                0
+            )
+        ).to.deep.equal(['50', '50']);
+    });
+
+    it('should require legs to add up exactly to the total', function () {
+        const thirds = ['A', 'B', 'C'].map(account => ({ account, percent: '33.333' }));
+        expect(expectErrors(() => allocateSplitAmounts('100.00', thirds, 2))).to.deep.equal([
+            'Legs add up to 99.99, not the total 100.00 (difference 0.01)',
+        ]);
+
+        expect(
+            expectErrors(() =>
+                allocateSplitAmounts(
+                    '-5',
+                    [
+                        { account: 'A', amount: '1.005' },
+                        { account: 'B' },
+                        { account: 'C', amount: '1', percent: '10' },
+                    ],
+                    2
+                )
+            )
+        ).to.deep.equal([
+            'Total amount must be a positive number: -5',
+            'Leg 1 (A): amount has more than 2 decimal place(s): 1.005',
+            'Leg 2 (B): give either an amount or a percentage',
+            'Leg 3 (C): give either an amount or a percentage',
+        ]);
+        expect(
+            expectErrors(() => allocateSplitAmounts('10', [{ account: 'A', amount: '10' }], 2))
+        ).to.deep.equal(['A split needs at least two legs']);
+    });
+
+    it('should build one transaction per leg tagged with the split group', function () {
+        const payloads = buildSplitPayloads(
+            {
+                date: '2026-10-01',
+                amount: '1200',
+                from: 'Supplier',
+                description: 'Invoice 42',
+                legs: [
+                    { account: 'VAT', percent: '20' },
+                    { account: 'Software', amount: '960', description: 'Licenses' },
+                ],
+                property: ['invoice=42'],
+            },
+            ['240.00', '960.00'],
+            'split-1'
+        );
+
+        expect(payloads).to.deep.equal([
+            {
+                date: '2026-10-01',
+                amount: '240.00',
+                description: 'Invoice 42',
+                creditAccount: { name: 'Supplier' },
+                debitAccount: { name: 'VAT' },
+                properties: { invoice: '42', split_group: 'split-1' },
+            },
+            {
+                date: '2026-10-01',
+                amount: '960.00',
+                description: 'Licenses',
+                creditAccount: { name: 'Supplier' },
+                debitAccount: { name: 'Software' },
+                properties: { invoice: '42', split_group: 'split-1' },
+            },
+        ]);
+
+        const [incoming] = buildSplitPayloads(
+            { date: '2026-10-01', amount: '10', to: 'Customer', legs: [{ account: 'Sales' }] },
+            ['10.00'],
+            'split-2'
+        );
+        expect(incoming.creditAccount).to.deep.equal({ name: 'Sales' });
+        expect(incoming.debitAccount).to.deep.equal({ name: 'Customer' });
+    });
+
+    describe('with a book', function () {
+        let batchCalls: unknown[][];
+
+        beforeEach(function () {
+            setupTestEnvironment();
+            batchCalls = [];
+            setMockBkper({
+                setConfig: () => {},
+                getBook: async () => ({
+                    getFractionDigits: () => 2,
+                    getAccount: async (name: string) =>
+                        name === 'Missing' ? undefined : { getName: () => name },
+                    batchCreateTransactions: async (transactions: unknown[]) => {
+                        batchCalls.push(transactions);
+                        return [];
+                    },
+                }),
+            });
+        });
+
+        const legs = [
+            { account: 'VAT', amount: '20' },
+            { account: 'Missing', amount: '80' },
+        ];
+
+        it('should require exactly one source account', async function () {
+            for (const source of [{}, { from: 'Supplier', to: 'Bank' }]) {
+                try {
+                    await splitTransaction('book-123', {
+                        date: '2026-10-01',
+                        amount: '100',
+                        legs,
+                        ...source,
+                    });
+                    expect.fail('Should have thrown');
+                } catch (err: unknown) {
+                    expect((err as Error).message).to.equal(
+                        'Give the source account with either --from or --to'
+                    );
+                }
+            }
+        });
+
+        it('should check every account exists before creating anything', async function () {
+            try {
+                await splitTransaction('book-123', {
+                    date: '2026-10-01',
+                    amount: '100',
+                    from: 'Supplier',
+                    legs,
+                });
+                expect.fail('Should have thrown');
+            } catch (err: unknown) {
+                expect((err as Error).message).to.equal('Account not found: Missing');
+            }
+            expect(batchCalls).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,43 @@
+import { expect } from '../helpers/test-setup.js';
+import { parseCsv } from '../../../src/input/csv-parser.js';
+
+describe('parseCsv', function () {
+    it('should split rows and fields', function () {
+        expect(parseCsv('a,b,c\n1,2,3\n')).to.deep.equal([
+            ['a', 'b', 'c'],
+            ['1', '2', '3'],
+        ]);
+    });
+
+    it('should accept CRLF line endings and skip blank lines', function () {
+        expect(parseCsv('a,b\r\n\r\n1,2\r\n')).to.deep.equal([
+            ['a', 'b'],
+            ['1', '2'],
+        ]);
+    });
+
+    it('should keep delimiters, newlines and escaped quotes inside quoted fields', function () {
+        expect(parseCsv('"x, y","line 1\nline 2","say ""hi"""')).to.deep.equal([
+            ['x, y', 'line 1\nline 2', 'say "hi"'],
+        ]);
+    });
+
+    it('should keep empty fields', function () {
+        expect(parseCsv('a,,c\n,,')).to.deep.equal([
+            ['a', '', 'c'],
+            ['', '', ''],
+        ]);
+    });
+
+    it('should support custom delimiters', function () {
+        expect(parseCsv('a;"1,5"\n', ';')).to.deep.equal([['a', '1,5']]);
+    });
+
+    it('should ignore a leading byte order mark', function () {
+        expect(parseCsv('\uFEFFdate,amount')).to.deep.equal([['date', 'amount']]);
+    });
+
+    it('should throw on an unterminated quoted field', function () {
+        expect(() => parseCsv('a,"b\n')).to.throw('unterminated quoted field');
+    });
+});
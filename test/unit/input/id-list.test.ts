@@ -0,0 +1,52 @@
+import { expect } from '../helpers/test-setup.js';
+import { parseIdList } from '../../../src/input/id-list.js';
+
+describe('parseIdList', function () {
+    it('should parse newline, space and comma separated IDs', function () {
+        expect(parseIdList('tx-1\ntx-2 tx-3,tx-4\n')).to.deep.equal([
+            'tx-1',
+            'tx-2',
+            'tx-3',
+            'tx-4',
+        ]);
+    });
+
+    it('should parse a JSON array of ID strings', function () {
+        expect(parseIdList('["tx-1", "tx-2"]')).to.deep.equal(['tx-1', 'tx-2']);
+    });
+
+    it('should parse JSON objects with an id field, as printed by list --json', function () {
+        expect(parseIdList('[{"id":"tx-1","amount":"10"},{"id":"tx-2"}]')).to.deep.equal([
+            'tx-1',
+            'tx-2',
+        ]);
+    });
+
+    it('should unwrap an items envelope', function () {
+        expect(parseIdList('{"items":[{"id":"tx-1"}],"cursor":"abc"}')).to.deep.equal(['tx-1']);
+    });
+
+    it('should read the ids of piped NDJSON', function () {
+        const ndjson = [
+            '{"id":"tx-1","amount":"10","description":"Coffee"}',
+            '{"id":"tx-2","amount":"20"}',
+            '',
+            '{"id":"tx-3"}',
+        ].join('\n');
+
+        expect(parseIdList(ndjson)).to.deep.equal(['tx-1', 'tx-2', 'tx-3']);
+        expect(() => parseIdList('{"id":"tx-1"}\n{"id":"tx-2"}\n{"amount":"10"}')).to.throw(
+            'Invalid ID list: line 3 has no id'
+        );
+    });
+
+    it('should remove duplicates keeping the first occurrence order', function () {
+        expect(parseIdList('tx-2\ntx-1\ntx-2')).to.deep.equal(['tx-2', 'tx-1']);
+    });
+
+    it('should throw when a JSON entry has no id', function () {
+        expect(() => parseIdList('[{"id":"tx-1"},{"amount":"10"}]')).to.throw(
+            'Invalid ID list: entry 2 has no id'
+        );
+    });
+});
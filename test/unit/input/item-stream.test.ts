@@ -0,0 +1,112 @@
+import { expect } from '../helpers/test-setup.js';
+import { Readable } from 'node:stream';
+import {
+    atItemLocations,
+    chunkInputItems,
+    openStdinItems,
+    type InputItem,
+} from '../../../src/input/item-stream.js';
+
+describe('stdin item stream', function () {
+    async function collect(
+        content: string
+    ): Promise<InputItem[] | Record<string, unknown>[] | null> {
+        const input = await openStdinItems(Readable.from([content]));
+        if (input === null || Array.isArray(input)) {
+            return input;
+        }
+        const items: InputItem[] = [];
+        for await (const item of input) {
+            items.push(item);
+        }
+        return items;
+    }
+
+    it('should read NDJSON lines with their line numbers', async function () {
+        const items = await collect('{"name":"A"}\n\n{"name":"B"}\r\n{"name":"C"}\n');
+
+        expect(items).to.deep.equal([
+            { item: { name: 'A' }, location: 'line 1' },
+            { item: { name: 'B' }, location: 'line 3' },
+            { item: { name: 'C' }, location: 'line 4' },
+        ]);
+    });
+
+    it('should report the line number of invalid NDJSON', async function () {
+        try {
+            await collect('{"name":"A"}\n{"name":"B"}\n{"name":\n');
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.match(/^Invalid JSON on line 3: /);
+        }
+    });
+
+    it('should reject NDJSON lines that are not objects', async function () {
+        try {
+            await collect('{"name":"A"}\n[1, 2]\n');
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Line 2 must be a JSON object');
+        }
+    });
+
+    it('should read a pretty-printed JSON array as a document', async function () {
+        const items = await collect(JSON.stringify([{ name: 'A' }, { name: 'B' }], null, 2));
+
+        expect(items).to.deep.equal([{ name: 'A' }, { name: 'B' }]);
+    });
+
+    it('should return a JSON document of any size as one array', async function () {
+        const document = Array.from({ length: 250 }, (_, i) => ({ name: `A${i}` }));
+
+        const items = await collect(JSON.stringify(document));
+
+        expect(items).to.deep.equal(document);
+        const sizes: number[] = [];
+        for await (const chunk of chunkInputItems(items!, 100)) {
+            sizes.push(chunk.length);
+        }
+        expect(sizes).to.deep.equal([250]);
+    });
+
+    it('should unwrap a one-line { items: [...] } document', async function () {
+        const items = await collect('{"items":[{"name":"A"}],"cursor":"next"}');
+
+        expect(items).to.deep.equal([{ name: 'A' }]);
+    });
+
+    it('should return null for empty input', async function () {
+        expect(await collect('\n  \n')).to.equal(null);
+    });
+
+    it('should chunk streams and keep arrays in one chunk', async function () {
+        async function* stream() {
+            for (let line = 1; line <= 5; line++) {
+                yield { item: { line }, location: `line ${line}` };
+            }
+        }
+        const sizes: number[] = [];
+        for await (const chunk of chunkInputItems(stream(), 2)) {
+            sizes.push(chunk.length);
+        }
+        const arraySizes: number[] = [];
+        for await (const chunk of chunkInputItems([{}, {}, {}], 2)) {
+            arraySizes.push(chunk.length);
+        }
+
+        expect(sizes).to.deep.equal([2, 2, 1]);
+        expect(arraySizes).to.deep.equal([3]);
+    });
+
+    it('should prefix errors with the line range of the chunk', async function () {
+        const chunk = [4999, 5000].map(line => ({ item: {}, location: `line ${line}` }));
+        try {
+            await atItemLocations(chunk, async () => {
+                throw new Error('Account not found: Cash');
+            });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('lines 4999-5000: Account not found: Cash');
+        }
+    });
+});
@@ -0,0 +1,83 @@
+import { expect } from '../../unit/helpers/test-setup.js';
+import { formatHtml, formatHtmlItem } from '../../../src/render/html-formatter.js';
+
+describe('html-formatter', function () {
+    describe('formatHtml', function () {
+        it('should format a matrix as a table with a header and right-aligned numbers', function () {
+            const matrix = [
+                ['Account', 'Balance'],
+                ['Bank', '1,234.56'],
+                ['Loan', '-80.00'],
+            ];
+
+            expect(formatHtml(matrix)).to.equal(
+                [
+                    '<table>',
+                    '  <thead>',
+                    '    <tr><th>Account</th><th style="text-align: right">Balance</th></tr>',
+                    '  </thead>',
+                    '  <tbody>',
+                    '    <tr><td>Bank</td><td style="text-align: right">1,234.56</td></tr>',
+                    '    <tr><td>Loan</td><td style="text-align: right">-80.00</td></tr>',
+                    '  </tbody>',
+                    '</table>',
+                ].join('\n')
+            );
+        });
+
+        it('should escape HTML and keep line breaks', function () {
+            const html = formatHtml([['Description'], ['<script>"R&D"</script>\nnext']]);
+
+            expect(html).to.contain(
+                '<td>&lt;script&gt;&quot;R&amp;D&quot;&lt;/script&gt;<br>next</td>'
+            );
+        });
+
+        it('should leave out the body of a matrix without data rows', function () {
+            expect(formatHtml([['Name']])).to.equal(
+                '<table>\n  <thead>\n    <tr><th>Name</th></tr>\n  </thead>\n</table>'
+            );
+        });
+
+        it('should return empty string for an empty matrix', function () {
+            expect(formatHtml([])).to.equal('');
+        });
+    });
+
+    describe('formatHtmlItem', function () {
+        it('should format fields as a definition list with nested lists', function () {
+            const html = formatHtmlItem({
+                name: 'Checking',
+                description: null,
+                properties: { code: '1001' },
+                groups: ['Assets'],
+            });
+
+            expect(html).to.equal(
+                [
+                    '<dl>',
+                    '  <dt>name</dt>',
+                    '  <dd>Checking</dd>',
+                    '  <dt>properties</dt>',
+                    '  <dd>',
+                    '    <dl>',
+                    '      <dt>code</dt>',
+                    '      <dd>1001</dd>',
+                    '    </dl>',
+                    '  </dd>',
+                    '  <dt>groups</dt>',
+                    '  <dd>',
+                    '    <ul>',
+                    '      <li>Assets</li>',
+                    '    </ul>',
+                    '  </dd>',
+                    '</dl>',
+                ].join('\n')
+            );
+        });
+
+        it('should return empty string when every value is empty', function () {
+            expect(formatHtmlItem({ name: null, groups: [] })).to.equal('');
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { expect } from '../../unit/helpers/test-setup.js';
+import { formatMarkdown, formatMarkdownItem } from '../../../src/render/markdown-formatter.js';
+
+describe('markdown-formatter', function () {
+    describe('formatMarkdown', function () {
+        it('should format a matrix as a padded table with a header separator', function () {
+            const matrix = [
+                ['Name', 'Type'],
+                ['Checking', 'ASSET'],
+                ['Revenue', 'INCOMING'],
+            ];
+
+            expect(formatMarkdown(matrix)).to.equal(
+                [
+                    '| Name     | Type     |',
+                    '| -------- | -------- |',
+                    '| Checking | ASSET    |',
+                    '| Revenue  | INCOMING |',
+                ].join('\n')
+            );
+        });
+
+        it('should right-align numeric columns', function () {
+            const matrix = [
+                ['Account', 'Balance', 'Change'],
+                ['Bank', '1,234.56', '12.5%'],
+                ['Loan', '(80.00)', ''],
+            ];
+
+            expect(formatMarkdown(matrix)).to.equal(
+                [
+                    '| Account |  Balance | Change |',
+                    '| ------- | -------: | -----: |',
+                    '| Bank    | 1,234.56 |  12.5% |',
+                    '| Loan    |  (80.00) |        |',
+                ].join('\n')
+            );
+        });
+
+        it('should not right-align dates or empty columns', function () {
+            const markdown = formatMarkdown([
+                ['Date', 'Memo'],
+                ['2025-01-31', ''],
+            ]);
+
+            expect(markdown.split('\n')[1]).to.equal('| ---------- | ---- |');
+        });
+
+        it('should escape pipes, backslashes, HTML and line breaks', function () {
+            const markdown = formatMarkdown([['Description'], ['a|b \\ <b>x</b>\nnext']]);
+
+            expect(markdown.split('\n')[2]).to.equal('| a\\|b \\\\ &lt;b>x&lt;/b><br>next |');
+        });
+
+        it('should escape ampersands so entities are read as text', function () {
+            const markdown = formatMarkdown([['Description'], ['R&D &lt;b&gt;']]);
+
+            expect(markdown.split('\n')[2]).to.equal('| R&amp;D &amp;lt;b&amp;gt; |');
+        });
+
+        it('should return empty string for an empty matrix', function () {
+            expect(formatMarkdown([])).to.equal('');
+        });
+    });
+
+    describe('formatMarkdownItem', function () {
+        it('should format fields as a two-column table, skipping empty values', function () {
+            const markdown = formatMarkdownItem({
+                name: 'Checking',
+                type: 'ASSET',
+                archived: false,
+                groups: [],
+                description: null,
+            });
+
+            expect(markdown.split('\n')).to.deep.equal([
+                '| Field    | Value    |',
+                '| -------- | -------- |',
+                '| name     | Checking |',
+                '| type     | ASSET    |',
+                '| archived | false    |',
+            ]);
+        });
+
+        it('should write nested values as inline JSON code', function () {
+            const rows = (item: Record<string, unknown>) =>
+                formatMarkdownItem(item).split('\n').slice(2);
+
+            expect(rows({ properties: { code: '1001' } })).to.deep.equal([
+                '| properties | `{"code":"1001"}` |',
+            ]);
+            expect(rows({ note: { text: 'a`b' } })).to.deep.equal([
+                '| note  | `` {"text":"a`b"} `` |',
+            ]);
+            expect(rows({ note: { text: 'a|b' } })).to.deep.equal([
+                '| note  | `{"text":"a\\|b"}` |',
+            ]);
+        });
+    });
+});
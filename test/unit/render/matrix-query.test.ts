@@ -0,0 +1,139 @@
+import { expect } from '../../unit/helpers/test-setup.js';
+import {
+    applyMatrixQuery,
+    parseColumnList,
+    parseSortSpec,
+    parseWhereCondition,
+} from '../../../src/render/matrix-query.js';
+
+const matrix = [
+    ['Date', 'Account', 'Amount'],
+    ['2025-01-15', 'Bank', '1,200.00'],
+    ['2025-02-01', 'Cash', '80.50'],
+    ['2025-01-03', 'Bank', '300'],
+    ['2025-03-10', 'Receivables', ''],
+];
+
+describe('matrix-query', function () {
+    describe('parseColumnList', function () {
+        it('should split and trim a comma-separated list', function () {
+            expect(parseColumnList('Date, Amount ,')).to.deep.equal(['Date', 'Amount']);
+        });
+
+        it('should reject an empty list', function () {
+            expect(() => parseColumnList(' , ')).to.throw('Invalid --columns');
+        });
+    });
+
+    describe('parseSortSpec', function () {
+        it('should parse ascending and descending orders', function () {
+            expect(parseSortSpec('Amount')).to.deep.equal({ column: 'Amount', descending: false });
+            expect(parseSortSpec('Amount:desc')).to.deep.equal({
+                column: 'Amount',
+                descending: true,
+            });
+            expect(parseSortSpec('Amount:ASC')).to.deep.equal({
+                column: 'Amount',
+                descending: false,
+            });
+        });
+
+        it('should reject an empty column', function () {
+            expect(() => parseSortSpec(':desc')).to.throw('Invalid --sort');
+        });
+    });
+
+    describe('parseWhereCondition', function () {
+        it('should split on the first operator', function () {
+            expect(parseWhereCondition('Amount>=100')).to.deep.equal({
+                column: 'Amount',
+                operator: '>=',
+                value: '100',
+            });
+            expect(parseWhereCondition('Description~a=b')).to.deep.equal({
+                column: 'Description',
+                operator: '~',
+                value: 'a=b',
+            });
+            expect(parseWhereCondition('Account!=Bank')).to.deep.equal({
+                column: 'Account',
+                operator: '!=',
+                value: 'Bank',
+            });
+        });
+
+        it('should reject a condition without an operator or column', function () {
+            expect(() => parseWhereCondition('Amount')).to.throw('Invalid --where');
+            expect(() => parseWhereCondition('=100')).to.throw('Invalid --where');
+        });
+    });
+
+    describe('applyMatrixQuery', function () {
+        it('should return the matrix unchanged for an empty query', function () {
+            expect(applyMatrixQuery(matrix, {})).to.equal(matrix);
+        });
+
+        it('should keep the selected columns in the given order, ignoring case', function () {
+            expect(applyMatrixQuery(matrix, { columns: ['amount', 'Date'] })).to.deep.equal([
+                ['Amount', 'Date'],
+                ['1,200.00', '2025-01-15'],
+                ['80.50', '2025-02-01'],
+                ['300', '2025-01-03'],
+                ['', '2025-03-10'],
+            ]);
+        });
+
+        it('should sort numbers numerically and put empty values last', function () {
+            const sorted = applyMatrixQuery(matrix, {
+                sort: { column: 'Amount', descending: true },
+                columns: ['Amount'],
+            });
+            expect(sorted).to.deep.equal([['Amount'], ['1,200.00'], ['300'], ['80.50'], ['']]);
+        });
+
+        it('should sort text and ISO dates in order, keeping ties stable', function () {
+            const sorted = applyMatrixQuery(matrix, {
+                sort: { column: 'Account', descending: false },
+                columns: ['Date'],
+            });
+            expect(sorted).to.deep.equal([
+                ['Date'],
+                ['2025-01-15'],
+                ['2025-01-03'],
+                ['2025-02-01'],
+                ['2025-03-10'],
+            ]);
+        });
+
+        it('should keep rows meeting every condition', function () {
+            const filtered = applyMatrixQuery(matrix, {
+                where: [
+                    { column: 'Account', operator: '=', value: 'bank' },
+                    { column: 'Date', operator: '<', value: '2025-01-10' },
+                ],
+            });
+            expect(filtered).to.deep.equal([matrix[0], matrix[3]]);
+        });
+
+        it('should compare numbers numerically and match text by substring', function () {
+            expect(
+                applyMatrixQuery(matrix, {
+                    where: [{ column: 'Amount', operator: '>', value: '100' }],
+                    columns: ['Account'],
+                })
+            ).to.deep.equal([['Account'], ['Bank'], ['Bank']]);
+            expect(
+                applyMatrixQuery(matrix, {
+                    where: [{ column: 'Account', operator: '~', value: 'CEIV' }],
+                    columns: ['Account'],
+                })
+            ).to.deep.equal([['Account'], ['Receivables']]);
+        });
+
+        it('should report unknown columns with the available ones', function () {
+            expect(() => applyMatrixQuery(matrix, { columns: ['Memo'] })).to.throw(
+                'Unknown column "Memo". Available columns: Date, Account, Amount'
+            );
+        });
+    });
+});
@@ -1,6 +1,10 @@
 import { expect } from '../../unit/helpers/test-setup.js';
 import sinon from 'sinon';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { renderTable, renderItem, renderListResult } from '../../../src/render/output.js';
+import { readZip } from '../../../src/utils/zip.js';
 
 describe('output', function () {
     let consoleLogStub: sinon.SinonStub;
@@ -94,6 +98,48 @@ describe('output', function () {
             const output = consoleLogStub.firstCall.args[0] as string;
             expect(output).to.equal('No results found.');
         });
+
+        it('should output one object per data row when format is ndjson', function () {
+            const matrix = [
+                ['Name', 'Type'],
+                ['Revenue', 'INCOMING'],
+                ['Expenses', 'OUTGOING'],
+            ];
+
+            renderTable(matrix, 'ndjson');
+
+            expect(consoleLogStub.callCount).to.equal(2);
+            expect(consoleLogStub.firstCall.args[0]).to.equal(
+                '{"Name":"Revenue","Type":"INCOMING"}'
+            );
+            expect(consoleLogStub.secondCall.args[0]).to.equal(
+                '{"Name":"Expenses","Type":"OUTGOING"}'
+            );
+        });
+    });
+
+    describe('renderTable markdown and html', function () {
+        it('should output a Markdown table when format is markdown', function () {
+            renderTable(
+                [
+                    ['Name', 'Balance'],
+                    ['Checking', '10.00'],
+                ],
+                'markdown'
+            );
+
+            expect(consoleLogStub.firstCall.args[0]).to.equal(
+                '| Name     | Balance |\n| -------- | ------: |\n| Checking |   10.00 |'
+            );
+        });
+
+        it('should output an HTML table when format is html', function () {
+            renderTable([['Name'], ['Checking']], 'html');
+
+            const output = consoleLogStub.firstCall.args[0] as string;
+            expect(output).to.match(/^<table>/);
+            expect(output).to.contain('<tr><td>Checking</td></tr>');
+        });
     });
 
     describe('renderListResult', function () {
@@ -106,13 +152,34 @@ describe('output', function () {
         });
 
         it('should include cursor in JSON list result envelope when present', function () {
-            renderListResult({ kind: 'json', items: [{ id: 'file-1' }], cursor: 'next-page' }, 'json');
+            renderListResult(
+                { kind: 'json', items: [{ id: 'file-1' }], cursor: 'next-page' },
+                'json'
+            );
 
             const output = consoleLogStub.firstCall.args[0] as string;
             const parsed = JSON.parse(output);
             expect(parsed).to.deep.equal({ items: [{ id: 'file-1' }], cursor: 'next-page' });
         });
 
+        it('should output one line per item and the cursor on stderr for ndjson', function () {
+            const consoleErrorStub = sinon.stub(console, 'error');
+            try {
+                renderListResult(
+                    { kind: 'json', items: [{ id: 'tx-1' }, { id: 'tx-2' }], cursor: 'next-page' },
+                    'ndjson'
+                );
+            } finally {
+                consoleErrorStub.restore();
+            }
+
+            expect(consoleLogStub.args.map(args => args[0])).to.deep.equal([
+                '{"id":"tx-1"}',
+                '{"id":"tx-2"}',
+            ]);
+            expect(consoleErrorStub.firstCall.args[0]).to.equal('Next cursor: next-page');
+        });
+
         it('should print table footer only for table output', function () {
             const matrix = [['ID'], ['file-1']];
 
@@ -130,6 +197,119 @@ describe('output', function () {
             expect(consoleLogStub.callCount).to.equal(1);
             expect(consoleLogStub.firstCall.args[0]).to.equal('ID\r\nfile-1');
         });
+
+        it('should write one sheet per section to the --out file for xlsx', function () {
+            const dir = mkdtempSync(join(tmpdir(), 'bkper-xlsx-'));
+            const file = join(dir, 'report.xlsx');
+            try {
+                renderListResult(
+                    {
+                        kind: 'matrix',
+                        matrix: [['Name'], ['Cash']],
+                        footer: 'Book book-1',
+                        sheets: [
+                            { name: 'Summary', matrix: [['Name']] },
+                            { name: 'Assets', matrix: [['Name'], ['Cash']] },
+                        ],
+                    },
+                    'xlsx',
+                    { outFile: file }
+                );
+
+                const names = readZip(readFileSync(file)).map(entry => entry.name);
+                expect(names).to.include.members([
+                    'xl/worksheets/sheet1.xml',
+                    'xl/worksheets/sheet2.xml',
+                ]);
+                expect(consoleLogStub.callCount).to.equal(1);
+                expect(consoleLogStub.firstCall.args[0]).to.equal(`Wrote 2 sheet(s) to ${file}.`);
+            } finally {
+                rmSync(dir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('--columns, --sort and --where', function () {
+        it('should apply the global options to matrix results before formatting', function () {
+            renderListResult(
+                {
+                    kind: 'matrix',
+                    matrix: [
+                        ['Name', 'Type', 'Balance'],
+                        ['Checking', 'ASSET', '1000.00'],
+                        ['Revenue', 'INCOMING', '5000.00'],
+                        ['Rent', 'OUTGOING', '900.00'],
+                    ],
+                },
+                'csv',
+                {
+                    matrixQuery: {
+                        columns: ['Name'],
+                        sort: { column: 'Balance', descending: true },
+                        where: [{ column: 'Type', operator: '!=', value: 'ASSET' }],
+                    },
+                }
+            );
+
+            expect(consoleLogStub.firstCall.args[0]).to.equal('Name\r\nRevenue\r\nRent');
+        });
+
+        it('should reject them for JSON items', function () {
+            expect(() =>
+                renderListResult({ kind: 'json', items: [{ id: 'tx-1' }] }, 'json', {
+                    matrixQuery: { columns: ['id'] },
+                })
+            ).to.throw(
+                '--columns, --sort and --where apply to table, csv and xlsx output, not json'
+            );
+        });
+    });
+
+    describe('--template', function () {
+        let dir: string;
+        let stdoutStub: sinon.SinonStub;
+
+        beforeEach(function () {
+            dir = mkdtempSync(join(tmpdir(), 'bkper-template-'));
+            stdoutStub = sinon.stub(process.stdout, 'write');
+        });
+
+        afterEach(function () {
+            stdoutStub.restore();
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        function useTemplate(content: string): string {
+            const file = join(dir, 'template.txt');
+            writeFileSync(file, content);
+            return file;
+        }
+
+        it('should render list items with the book settings', function () {
+            const template = useTemplate('{{#items}}{{description}}: {{money amount}}\n{{/items}}');
+
+            renderListResult(
+                {
+                    kind: 'json',
+                    items: [{ description: 'Rent', amount: '1500' }],
+                    fractionDigits: 2,
+                    decimalSeparator: 'COMMA',
+                },
+                'json',
+                { template }
+            );
+
+            expect(stdoutStub.firstCall.args[0]).to.equal('Rent: 1.500,00\n');
+            expect(consoleLogStub.called).to.equal(false);
+        });
+
+        it('should render a single item', function () {
+            const template = useTemplate('{{name}} ({{type}})');
+
+            renderItem({ name: 'Checking', type: 'ASSET' }, 'json', { template });
+
+            expect(stdoutStub.firstCall.args[0]).to.equal('Checking (ASSET)');
+        });
     });
 
     describe('renderItem', function () {
@@ -165,6 +345,25 @@ describe('output', function () {
             expect(parsed).to.deep.equal({ name: 'Checking', type: 'ASSET' });
         });
 
+        it('should output a single line when format is ndjson', function () {
+            renderItem({ name: 'Checking', type: 'ASSET' }, 'ndjson');
+
+            expect(consoleLogStub.calledOnce).to.equal(true);
+            expect(consoleLogStub.firstCall.args[0]).to.equal('{"name":"Checking","type":"ASSET"}');
+        });
+
+        it('should output a field table for markdown and a definition list for html', function () {
+            renderItem({ name: 'Checking' }, 'markdown');
+            renderItem({ name: 'Checking' }, 'html');
+
+            expect(consoleLogStub.firstCall.args[0]).to.equal(
+                '| Field | Value    |\n| ----- | -------- |\n| name  | Checking |'
+            );
+            expect(consoleLogStub.secondCall.args[0]).to.equal(
+                '<dl>\n  <dt>name</dt>\n  <dd>Checking</dd>\n</dl>'
+            );
+        });
+
         it('should handle empty item in table mode', function () {
             renderItem({}, 'table');
 
@@ -0,0 +1,103 @@
+import { expect } from '../../unit/helpers/test-setup.js';
+import { formatDate, formatMoney, renderTemplate } from '../../../src/render/template.js';
+
+describe('template', function () {
+    describe('renderTemplate', function () {
+        it('should write values by path', function () {
+            const output = renderTemplate(
+                '{{description}} to {{creditAccount.name}}{{{missing}}}',
+                {
+                    description: 'Rent',
+                    creditAccount: { name: 'Bank' },
+                }
+            );
+
+            expect(output).to.equal('Rent to Bank');
+        });
+
+        it('should repeat sections over arrays and remove standalone tag lines', function () {
+            const template = [
+                '{{! one line per transaction }}',
+                '{{#items}}',
+                '{{@index}}. {{description}} ({{#tags}}{{.}} {{/tags}})',
+                '{{/items}}',
+                '{{^items}}',
+                'Nothing to report',
+                '{{/items}}',
+                '',
+            ].join('\n');
+
+            expect(
+                renderTemplate(template, {
+                    items: [
+                        { description: 'Rent', tags: ['office'] },
+                        { description: 'Lunch', tags: [] },
+                    ],
+                })
+            ).to.equal('0. Rent (office )\n1. Lunch ()\n');
+            expect(renderTemplate(template, { items: [] })).to.equal('Nothing to report\n');
+        });
+
+        it('should look up names in enclosing sections', function () {
+            const output = renderTemplate('{{#items}}{{id}}@{{book}} {{/items}}', {
+                book: 'Acme',
+                items: [{ id: 'tx-1' }, { id: 'tx-2' }],
+            });
+
+            expect(output).to.equal('tx-1@Acme tx-2@Acme ');
+        });
+
+        it('should format money and dates with the book settings', function () {
+            const output = renderTemplate(
+                '{{date date}}: {{money amount}} | {{date date "yyyy/M/d"}} | {{json tags}}',
+                { date: '2025-03-07', amount: '1234567.5', tags: ['a'] },
+                { fractionDigits: 2, decimalSeparator: 'COMMA', datePattern: 'dd/MM/yyyy' }
+            );
+
+            expect(output).to.equal('07/03/2025: 1.234.567,50 | 2025/3/7 | ["a"]');
+        });
+
+        it('should reject unbalanced sections and unknown helpers', function () {
+            expect(() => renderTemplate('{{#items}}x', {})).to.throw(
+                'Template error: unclosed section {{#items}}'
+            );
+            expect(() => renderTemplate('{{#a}}{{/b}}', {})).to.throw(
+                'Template error: unexpected {{/b}}'
+            );
+            expect(() => renderTemplate('{{upper name}}', {})).to.throw(
+                'Template error: unknown helper "upper"'
+            );
+        });
+    });
+
+    describe('formatMoney', function () {
+        it('should group thousands with the separator of the book', function () {
+            expect(formatMoney('-1234.5', { fractionDigits: 2 })).to.equal('-1,234.50');
+            expect(
+                formatMoney('1234.565', { fractionDigits: 2, decimalSeparator: 'COMMA' })
+            ).to.equal('1.234,57');
+            expect(formatMoney('1000000', { fractionDigits: 0 })).to.equal('1,000,000');
+        });
+
+        it('should keep the decimals of the value without fraction digits', function () {
+            expect(formatMoney('999.125')).to.equal('999.125');
+        });
+
+        it('should return values that are not amounts as they are', function () {
+            expect(formatMoney('n/a')).to.equal('n/a');
+            expect(formatMoney(undefined)).to.equal('');
+        });
+    });
+
+    describe('formatDate', function () {
+        it('should apply the date pattern to ISO dates and timestamps', function () {
+            expect(formatDate('2025-12-01', 'MM/dd/yy')).to.equal('12/01/25');
+            expect(formatDate('2025-12-01T10:00:00Z', 'd.M.yyyy')).to.equal('1.12.2025');
+            expect(formatDate('2025-12-01')).to.equal('2025-12-01');
+        });
+
+        it('should return values that are not dates as they are', function () {
+            expect(formatDate('soon', 'dd/MM/yyyy')).to.equal('soon');
+        });
+    });
+});
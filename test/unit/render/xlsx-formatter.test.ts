@@ -0,0 +1,141 @@
+import { expect } from '../../unit/helpers/test-setup.js';
+import { formatXlsx } from '../../../src/render/xlsx-formatter.js';
+import { readZip } from '../../../src/utils/zip.js';
+
+function readParts(workbook: Buffer): Record<string, string> {
+    const parts: Record<string, string> = {};
+    for (const entry of readZip(workbook)) {
+        parts[entry.name] = entry.data.toString('utf8');
+    }
+    return parts;
+}
+
+function cellXml(sheet: string, ref: string): string {
+    const match = new RegExp(`<c r="${ref}"[^>]*>.*?</c>`).exec(sheet);
+    return match ? match[0] : '';
+}
+
+describe('xlsx-formatter', function () {
+    describe('formatXlsx', function () {
+        it('should write a workbook with one worksheet per sheet', function () {
+            const parts = readParts(
+                formatXlsx([
+                    { name: 'Assets', matrix: [['Name'], ['Cash']] },
+                    { name: 'Liabilities', matrix: [['Name'], ['Loans']] },
+                ])
+            );
+
+            expect(Object.keys(parts)).to.include.members([
+                '[Content_Types].xml',
+                'xl/workbook.xml',
+                'xl/styles.xml',
+                'xl/worksheets/sheet1.xml',
+                'xl/worksheets/sheet2.xml',
+            ]);
+            expect(parts['xl/workbook.xml']).to.include('<sheet name="Assets"');
+            expect(parts['xl/workbook.xml']).to.include('<sheet name="Liabilities"');
+        });
+
+        it('should write decimal strings as numbers with the book fraction digits', function () {
+            const parts = readParts(
+                formatXlsx(
+                    [
+                        {
+                            name: 'Sheet1',
+                            matrix: [
+                                ['Account', 'Amount'],
+                                ['Cash', '1234.5'],
+                                ['Bank', '10'],
+                            ],
+                        },
+                    ],
+                    { fractionDigits: 2 }
+                )
+            );
+            const sheet = parts['xl/worksheets/sheet1.xml'];
+
+            expect(cellXml(sheet, 'B2')).to.match(/<v>1234.5<\/v>/);
+            expect(cellXml(sheet, 'B2')).to.not.include('inlineStr');
+            expect(cellXml(sheet, 'B3')).to.match(/<v>10<\/v>/);
+            expect(parts['xl/styles.xml']).to.include('formatCode="#,##0.00"');
+        });
+
+        it('should write dates as date serials with a date format', function () {
+            const parts = readParts(
+                formatXlsx([{ name: 'Sheet1', matrix: [['Date'], ['2025-01-31']] }])
+            );
+
+            expect(cellXml(parts['xl/worksheets/sheet1.xml'], 'A2')).to.include('<v>45688</v>');
+            expect(parts['xl/styles.xml']).to.include('formatCode="yyyy-mm-dd"');
+        });
+
+        it('should keep IDs with leading zeros and long digit strings as text', function () {
+            const parts = readParts(
+                formatXlsx([
+                    {
+                        name: 'Sheet1',
+                        matrix: [
+                            ['Code', 'Id'],
+                            ['0101', '1234567890123456789'],
+                        ],
+                    },
+                ])
+            );
+            const sheet = parts['xl/worksheets/sheet1.xml'];
+
+            expect(cellXml(sheet, 'A2')).to.include('<t xml:space="preserve">0101</t>');
+            expect(cellXml(sheet, 'B2')).to.include('1234567890123456789</t>');
+        });
+
+        it('should write percentages as numeric percent cells', function () {
+            const parts = readParts(
+                formatXlsx([{ name: 'Sheet1', matrix: [['Change'], ['12.5%']] }])
+            );
+
+            expect(cellXml(parts['xl/worksheets/sheet1.xml'], 'A2')).to.include('<v>0.125</v>');
+            expect(parts['xl/styles.xml']).to.include('formatCode="0.0%"');
+        });
+
+        it('should write a bold header row and freeze it', function () {
+            const parts = readParts(formatXlsx([{ name: 'Sheet1', matrix: [['2025'], ['100']] }]));
+            const sheet = parts['xl/worksheets/sheet1.xml'];
+
+            expect(cellXml(sheet, 'A1')).to.include('inlineStr');
+            expect(cellXml(sheet, 'A1')).to.include('>2025</t>');
+            expect(cellXml(sheet, 'A1')).to.match(/ s="\d+"/);
+            expect(parts['xl/styles.xml']).to.include('<b/>');
+            expect(sheet).to.include('state="frozen"');
+            expect(sheet).to.include('topLeftCell="A2"');
+        });
+
+        it('should escape XML in text cells', function () {
+            const parts = readParts(
+                formatXlsx([{ name: 'Sheet1', matrix: [['Name'], ['R&D <core>']] }])
+            );
+
+            expect(cellXml(parts['xl/worksheets/sheet1.xml'], 'A2')).to.include(
+                'R&amp;D &lt;core&gt;'
+            );
+        });
+
+        it('should make sheet names valid and unique', function () {
+            const parts = readParts(
+                formatXlsx([
+                    { name: 'Assets/Liabilities', matrix: [['A']] },
+                    { name: 'Assets/Liabilities', matrix: [['A']] },
+                    { name: 'x'.repeat(40), matrix: [['A']] },
+                ])
+            );
+            const names = [...parts['xl/workbook.xml'].matchAll(/<sheet name="([^"]*)"/g)].map(
+                match => match[1]
+            );
+
+            expect(names).to.have.length(3);
+            expect(new Set(names).size).to.equal(3);
+            for (const name of names) {
+                expect(name).to.not.match(/[\\/?*[\]:]/);
+                expect(name.length).to.be.at.most(31);
+            }
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { expect } from '../helpers/test-setup.js';
+import { CommanderError } from 'commander';
+import { AUTHENTICATION_REQUIRED_MESSAGE } from '../../../src/auth/auth-errors.js';
+import {
+    classifyError,
+    CliError,
+    ConflictError,
+    EXIT_CODES,
+    NotFoundError,
+} from '../../../src/utils/errors.js';
+import { ValidationError } from '../../../src/utils/validation.js';
+
+function apiError(status: number, message: string, reason?: string): Error {
+    return Object.assign(new Error(message), { code: status, reason });
+}
+
+describe('utils/errors', function () {
+    describe('EXIT_CODES', function () {
+        it('should give each kind of error its own exit code', function () {
+            const codes = Object.values(EXIT_CODES);
+            expect(new Set(codes).size).to.equal(codes.length);
+            expect(EXIT_CODES.error).to.equal(1);
+            expect(EXIT_CODES.differences).to.equal(8);
+        });
+    });
+
+    describe('classifyError', function () {
+        it('should keep the code and details of CLI errors', function () {
+            expect(classifyError(new NotFoundError('Account', 'Bank'))).to.deep.equal({
+                code: 'not-found',
+                message: 'Account not found: Bank',
+                details: { resource: 'Account', id: 'Bank' },
+            });
+            expect(classifyError(new ConflictError('Schedule already exists: rent'))).to.include({
+                code: 'conflict',
+            });
+            expect(classifyError(new CliError('network', 'Offline')).code).to.equal('network');
+        });
+
+        it('should classify validation errors with their messages as details', function () {
+            const classified = classifyError(new ValidationError(['a', 'b']));
+
+            expect(classified.code).to.equal('validation');
+            expect(classified.details).to.deep.equal({ errors: ['a', 'b'] });
+        });
+
+        it('should classify command line parse errors as validation errors', function () {
+            const parseError = new CommanderError(
+                1,
+                'commander.invalidArgument',
+                "error: option '--limit <n>' argument 'x' is invalid. Value must be a positive integer"
+            );
+
+            expect(classifyError(parseError)).to.deep.equal({
+                code: 'validation',
+                message:
+                    "option '--limit <n>' argument 'x' is invalid. Value must be a positive integer",
+            });
+        });
+
+        it('should classify API errors by HTTP status', function () {
+            expect(classifyError(apiError(400, 'Bad request')).code).to.equal('validation');
+            expect(classifyError(apiError(401, 'Invalid token')).code).to.equal('auth');
+            expect(classifyError(apiError(403, 'Forbidden')).code).to.equal('auth');
+            expect(classifyError(apiError(404, 'Book not found')).code).to.equal('not-found');
+            expect(classifyError(apiError(409, 'Conflict')).code).to.equal('conflict');
+            expect(classifyError(apiError(429, 'Slow down', 'rateLimitExceeded'))).to.deep.equal({
+                code: 'rate-limit',
+                message: 'Slow down',
+                details: { status: 429, reason: 'rateLimitExceeded' },
+            });
+            expect(classifyError(apiError(500, 'Internal error')).code).to.equal('error');
+        });
+
+        it('should classify API errors with a nested status', function () {
+            const nested = { error: { code: 404, message: 'Book not found: abc' } };
+
+            expect(classifyError(nested)).to.deep.equal({
+                code: 'not-found',
+                message: 'Book not found: abc',
+                details: { status: 404 },
+            });
+            expect(classifyError({ error: { code: 409, message: 'Conflict' } }).code).to.equal(
+                'conflict'
+            );
+            expect(classifyError({ error: { code: 429, message: 'Slow down' } }).code).to.equal(
+                'rate-limit'
+            );
+        });
+
+        it('should classify missing credentials as auth errors', function () {
+            expect(classifyError(new Error(AUTHENTICATION_REQUIRED_MESSAGE)).code).to.equal('auth');
+        });
+
+        it('should classify connection failures as network errors', function () {
+            const refused = Object.assign(new Error('connect ECONNREFUSED'), {
+                code: 'ECONNREFUSED',
+            });
+            const fetchFailed = Object.assign(new TypeError('fetch failed'), {
+                cause: Object.assign(new Error('getaddrinfo'), { code: 'ENOTFOUND' }),
+            });
+
+            expect(classifyError(refused)).to.deep.equal({
+                code: 'network',
+                message: 'connect ECONNREFUSED',
+                details: { code: 'ECONNREFUSED' },
+            });
+            expect(classifyError(fetchFailed).details).to.deep.equal({ code: 'ENOTFOUND' });
+            expect(classifyError(new TypeError('fetch failed')).code).to.equal('network');
+        });
+
+        it('should classify anything else as a generic error', function () {
+            expect(classifyError(new Error('Boom'))).to.deep.equal({
+                code: 'error',
+                message: 'Boom',
+            });
+            expect(classifyError('Boom').code).to.equal('error');
+        });
+    });
+});
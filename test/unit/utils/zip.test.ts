@@ -0,0 +1,226 @@
+import { expect } from '../helpers/test-setup.js';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { crc32, inflateRawSync } from 'node:zlib';
+import { createZip, openZipReader, openZipWriter, readZip } from '../../../src/utils/zip.js';
+
+interface ParsedEntry {
+    name: string;
+    method: number;
+    checksum: number;
+    data: Buffer;
+}
+
+function parseLocalEntries(archive: Buffer): ParsedEntry[] {
+    const entries: ParsedEntry[] = [];
+    let offset = 0;
+    while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const method = archive.readUInt16LE(offset + 8);
+        const checksum = archive.readUInt32LE(offset + 14);
+        const storedSize = archive.readUInt32LE(offset + 18);
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+        const start = offset + 30 + nameLength;
+        const stored = archive.subarray(start, start + storedSize);
+        entries.push({
+            name,
+            method,
+            checksum,
+            data: method === 8 ? inflateRawSync(stored) : Buffer.from(stored),
+        });
+        offset = start + storedSize;
+    }
+    return entries;
+}
+
+describe('createZip', function () {
+    it('should store entries in order with their checksums', function () {
+        const text = Buffer.from('line\n'.repeat(200), 'utf8');
+        const binary = Buffer.from([0, 1, 2, 3]);
+        const archive = createZip([
+            { name: 'manifest.json', data: text },
+            { name: 'files/abc', data: binary },
+        ]);
+
+        const entries = parseLocalEntries(archive);
+        expect(entries.map(entry => entry.name)).to.deep.equal(['manifest.json', 'files/abc']);
+        expect(entries[0].method).to.equal(8);
+        expect(entries[0].data.equals(text)).to.equal(true);
+        expect(entries[0].checksum).to.equal(crc32(text));
+        // Deflating four bytes makes them larger, so they are stored as is
+        expect(entries[1].method).to.equal(0);
+        expect(entries[1].data.equals(binary)).to.equal(true);
+    });
+
+    it('should end with a central directory listing every entry', function () {
+        const archive = createZip([
+            { name: 'a.json', data: Buffer.from('{}') },
+            { name: 'b.ndjson', data: Buffer.from('') },
+        ]);
+
+        const end = archive.subarray(archive.length - 22);
+        expect(end.readUInt32LE(0)).to.equal(0x06054b50);
+        expect(end.readUInt16LE(10)).to.equal(2);
+        const centralOffset = end.readUInt32LE(16);
+        expect(archive.readUInt32LE(centralOffset)).to.equal(0x02014b50);
+    });
+
+    it('should produce the same bytes for the same entries', function () {
+        const entries = [{ name: 'book.json', data: Buffer.from('{"id":"book-1"}') }];
+        expect(createZip(entries).equals(createZip(entries))).to.equal(true);
+    });
+
+    it('should reject duplicate entry names', function () {
+        expect(() =>
+            createZip([
+                { name: 'book.json', data: Buffer.from('{}') },
+                { name: 'book.json', data: Buffer.from('{}') },
+            ])
+        ).to.throw('Duplicate zip entry: book.json');
+    });
+
+    it('should reject more entries than zip supports without zip64', function () {
+        const entries = new Array(0x10000).fill({ name: 'a', data: Buffer.alloc(0) });
+        expect(() => createZip(entries)).to.throw('Zip archive is limited to 65535 entries');
+    });
+});
+
+describe('openZipWriter', function () {
+    let dir: string;
+
+    beforeEach(function () {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'bkper-zip-'));
+    });
+
+    afterEach(function () {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write streamed entries with their sizes and checksums in the local headers', async function () {
+        const file = path.join(dir, 'out.zip');
+        const lines = ['{"id":"t1"}\n'.repeat(100), '{"id":"t2"}\n'.repeat(100)];
+        async function* chunks() {
+            for (const line of lines) {
+                yield Buffer.from(line);
+            }
+        }
+
+        const zip = await openZipWriter(file);
+        await zip.add({ name: 'book.json', data: Buffer.from('{}') });
+        expect(await zip.addStream('transactions.ndjson', chunks())).to.equal(
+            lines.join('').length
+        );
+        const bytes = await zip.close();
+
+        const archive = readFileSync(file);
+        expect(bytes).to.equal(archive.length);
+        const local = parseLocalEntries(archive);
+        expect(local.map(entry => entry.name)).to.deep.equal(['book.json', 'transactions.ndjson']);
+        expect(local[1].data.toString()).to.equal(lines.join(''));
+        expect(local[1].checksum).to.equal(crc32(Buffer.from(lines.join(''))));
+        expect(readZip(archive).map(entry => entry.data.toString())).to.deep.equal([
+            '{}',
+            lines.join(''),
+        ]);
+    });
+
+    it('should remove the partial archive when aborted', async function () {
+        const file = path.join(dir, 'out.zip');
+        const zip = await openZipWriter(file);
+        await zip.add({ name: 'book.json', data: Buffer.from('{}') });
+
+        try {
+            await zip.add({ name: 'book.json', data: Buffer.from('{}') });
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Duplicate zip entry: book.json');
+        }
+        await zip.abort();
+        expect(existsSync(file)).to.equal(false);
+    });
+});
+
+describe('readZip', function () {
+    it('should read back the entries written by createZip', function () {
+        const entries = [
+            { name: 'manifest.json', data: Buffer.from('{"formatVersion":1}\n'.repeat(50)) },
+            { name: 'files/é', data: Buffer.from([9, 8, 7]) },
+        ];
+
+        const read = readZip(createZip(entries));
+        expect(read.map(entry => entry.name)).to.deep.equal(['manifest.json', 'files/é']);
+        expect(read[0].data.equals(entries[0].data)).to.equal(true);
+        expect(read[1].data.equals(entries[1].data)).to.equal(true);
+    });
+
+    it('should reject data that is not a zip archive', function () {
+        expect(() => readZip(Buffer.from('not a zip archive at all'))).to.throw(
+            'Invalid zip archive: end of central directory not found'
+        );
+    });
+
+    it('should reject entries whose checksum does not match', function () {
+        const data = Buffer.from([1, 2, 3, 4]);
+        const archive = createZip([{ name: 'a.bin', data }]);
+        // Stored entries start right after the 30-byte local header and the name
+        archive[30 + 'a.bin'.length] ^= 0xff;
+        expect(() => readZip(archive)).to.throw('Corrupt zip entry: a.bin');
+    });
+});
+
+describe('openZipReader', function () {
+    let dir: string;
+
+    beforeEach(function () {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'bkper-zip-'));
+    });
+
+    afterEach(function () {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should stream entries larger than one read in chunks', async function () {
+        const file = path.join(dir, 'in.zip');
+        // Random-looking lines keep the deflated entry above one 64 KiB read
+        const text = Array.from({ length: 20000 }, (_, i) => `{"id":"t${i * 7919}"}\n`).join('');
+        writeFileSync(
+            file,
+            createZip([
+                { name: 'book.json', data: Buffer.from('{}') },
+                { name: 'transactions.ndjson', data: Buffer.from(text) },
+            ])
+        );
+
+        const zip = await openZipReader(file);
+        try {
+            expect(zip.names).to.deep.equal(['book.json', 'transactions.ndjson']);
+            expect((await zip.read('book.json')).toString()).to.equal('{}');
+            const chunks: Buffer[] = [];
+            for await (const chunk of zip.stream('transactions.ndjson')) {
+                chunks.push(chunk);
+            }
+            expect(chunks.length).to.be.greaterThan(1);
+            expect(Buffer.concat(chunks).toString()).to.equal(text);
+        } finally {
+            await zip.close();
+        }
+    });
+
+    it('should reject entries whose checksum does not match', async function () {
+        const file = path.join(dir, 'in.zip');
+        const archive = createZip([{ name: 'a.bin', data: Buffer.from([1, 2, 3, 4]) }]);
+        archive[30 + 'a.bin'.length] ^= 0xff;
+        writeFileSync(file, archive);
+
+        const zip = await openZipReader(file);
+        try {
+            await zip.read('a.bin');
+            expect.fail('Should have thrown');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('Corrupt zip entry: a.bin');
+        } finally {
+            await zip.close();
+        }
+    });
+});